@@ -0,0 +1,143 @@
+/**
+ * Image asset shelf
+ *
+ * Images the user adds in the plugin, and the image attached to a prompt,
+ * are kept per file as rectangles in "AI image assets" sections, one per
+ * image and named after the asset. A design refers to them as
+ * `"image": "asset:<name>"`. Any image-filled layer the user drops into such
+ * a section counts as an asset too, and the rectangles keep the images in the
+ * file while no design uses them.
+ */
+
+import type { ImageAsset } from '../shared/types'
+import { IMAGE_CONFIG } from '../shared/constants'
+
+// Plugin data key marking a shelf section
+const SECTION_KEY = 'aiImageAssets'
+
+interface ShelfItem {
+  node: SceneNode
+  hash: string
+}
+
+// Shelf sections on every page of the file
+function findShelfSections(): SectionNode[] {
+  return figma.root.children.flatMap(page => page.children.filter(node =>
+    node.type === 'SECTION' && node.getPluginData(SECTION_KEY) === 'true'
+  )) as SectionNode[]
+}
+
+function imageHashOf(node: SceneNode): string | null {
+  if (!('fills' in node) || node.fills === figma.mixed) return null
+  const paint = node.fills.find(fill => fill.type === 'IMAGE' && fill.imageHash) as ImagePaint | undefined
+  return paint?.imageHash || null
+}
+
+function findShelfItems(): ShelfItem[] {
+  const items: ShelfItem[] = []
+  for (const section of findShelfSections()) {
+    for (const node of section.children) {
+      const hash = imageHashOf(node)
+      if (hash) items.push({ node, hash })
+    }
+  }
+  return items
+}
+
+// Created in the current page's viewport the first time an image is added
+function getShelfSection(): SectionNode {
+  const existing = figma.currentPage.children.find(node =>
+    node.type === 'SECTION' && node.getPluginData(SECTION_KEY) === 'true'
+  )
+  if (existing) return existing as SectionNode
+
+  const section = figma.createSection()
+  section.name = IMAGE_CONFIG.SHELF_SECTION_NAME
+  section.setPluginData(SECTION_KEY, 'true')
+  section.x = figma.viewport.bounds.x
+  section.y = figma.viewport.bounds.y
+  return section
+}
+
+// Lay the images out in a row and fit the section around them
+function layoutShelf(section: SectionNode): void {
+  const padding = IMAGE_CONFIG.SHELF_PADDING
+  let x = padding
+  let height = 0
+  for (const child of section.children) {
+    child.x = x
+    child.y = padding
+    x += child.width + padding
+    height = Math.max(height, child.height)
+  }
+  section.resizeWithoutConstraints(Math.max(x, padding * 2), height + padding * 2)
+}
+
+/**
+ * Hash of the shelf image with this name (case-insensitive), or null
+ */
+export function findImageAsset(name: string): string | null {
+  const wanted = name.trim().toLowerCase()
+  return findShelfItems().find(item => item.node.name.trim().toLowerCase() === wanted)?.hash || null
+}
+
+/**
+ * Name of the shelf image with this hash, or null
+ */
+export function findAssetName(hash: string): string | null {
+  return findShelfItems().find(item => item.hash === hash)?.node.name || null
+}
+
+/**
+ * Names of the shelf images, for the system prompt
+ */
+export function listAssetNames(): string[] {
+  return [...new Set(findShelfItems().map(item => item.node.name))]
+}
+
+/**
+ * Shelf images with small thumbnails for the UI
+ */
+export async function listImageAssets(): Promise<ImageAsset[]> {
+  const assets: ImageAsset[] = []
+  for (const { node, hash } of findShelfItems()) {
+    let thumbnail: string | null = null
+    try {
+      const bytes = await node.exportAsync({ format: 'PNG', constraint: { type: 'HEIGHT', value: IMAGE_CONFIG.THUMBNAIL_HEIGHT } })
+      thumbnail = `data:image/png;base64,${figma.base64Encode(bytes)}`
+    } catch {
+      // Listed without a thumbnail
+    }
+    assets.push({ name: node.name, hash, thumbnail })
+  }
+  return assets
+}
+
+/**
+ * Put an image on the shelf; an asset with the same name is replaced
+ */
+export async function saveImageAsset(name: string, bytes: Uint8Array): Promise<void> {
+  const image = figma.createImage(bytes)
+  const { width, height } = await image.getSizeAsync()
+  deleteImageAsset(name)
+
+  const scale = IMAGE_CONFIG.SHELF_ITEM_SIZE / Math.max(width, height, 1)
+  const rect = figma.createRectangle()
+  rect.name = name
+  rect.resize(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)))
+  rect.fills = [{ type: 'IMAGE', imageHash: image.hash, scaleMode: 'FILL' }]
+
+  const section = getShelfSection()
+  section.appendChild(rect)
+  layoutShelf(section)
+}
+
+/**
+ * Remove the shelf images with this name
+ */
+export function deleteImageAsset(name: string): void {
+  const items = findShelfItems().filter(item => item.node.name === name)
+  const sections = new Set(items.map(item => item.node.parent as SectionNode))
+  items.forEach(item => item.node.remove())
+  sections.forEach(section => layoutShelf(section))
+}
@@ -9,6 +9,7 @@ import type { DesignSystemContext, VariableInfo } from '../shared/types'
 import { rgbToHex } from '../shared/utils/colors'
 import { getFontWeight } from '../shared/utils/fonts'
 import { DESIGN_SYSTEM_LIMITS } from '../shared/constants'
+import { listAssetNames } from './assets'
 
 /**
  * Extract the complete design system from the current Figma file
@@ -18,7 +19,7 @@ export async function extractDesignSystem(): Promise<DesignSystemContext> {
   const textStyles = await extractTextStyles()
   const components = await extractComponents()
 
-  return { colorVariables, spacingVariables, textStyles, components }
+  return { colorVariables, spacingVariables, textStyles, components, imageAssets: listAssetNames() }
 }
 
 /**
@@ -1,19 +1,61 @@
-import type { MessageToPlugin, MessageToUI, PluginSettings, DesignSystemContext, SelectionInfo, ViewportSize } from '../shared/types'
-import { DEFAULT_COLOR_PALETTE } from '../shared/types'
-import { renderDesign } from './renderer/index'
+import type { MessageToPlugin, MessageToUI, PluginSettings, MockRecording, RenderedVariant, RenderReport, TokenUsage, UsageTotals, DesignSystemContext, SelectionInfo, ViewportSize, ElementNode, FrameNode as DesignFrame, PatchOperation, ReplaceMode } from '../shared/types'
+import { DEFAULT_COLOR_PALETTE, DEFAULT_MOCK_SETTINGS } from '../shared/types'
+import { renderDesign, beginLiveRender, appendElements, applyDesignPatch, reconcileDesign, startReport, takeReport } from './renderer/index'
 import { serializeSelection } from './serializer'
 import { extractDesignSystem } from './designSystem'
+import { carryVersions, endPreview, isVersioned, listVersions, previewVersion, restoreVersion, saveVersion } from './versions'
+import { deleteImageAsset, listImageAssets, saveImageAsset } from './assets'
+import { MOCK_CONFIG, PLACEMENT_CONFIG, REVIEW_CONFIG, VARIANT_CONFIG } from '../shared/constants'
+import { addToTotals } from '../shared/utils/usage'
 
 figma.showUI(__html__, { width: 420, height: 650 })
 
 // Store design system for rendering
 let cachedDesignSystem: DesignSystemContext | null = null
 
+// Frames being built progressively while a response streams, keyed by stream id
+const liveFrames = new Map<string, FrameNode>()
+
+// Render work is serialized so partial chunks and the final render never interleave
+let renderQueue: Promise<void> = Promise.resolve()
+
+function enqueueRender(task: () => Promise<void>): Promise<void> {
+  renderQueue = renderQueue.then(task, task)
+  return renderQueue
+}
+
 // Handle messages from UI
 figma.ui.onmessage = async (msg: MessageToPlugin) => {
   switch (msg.type) {
     case 'render-design':
-      await handleRenderDesign(msg.design, msg.viewport)
+      await enqueueRender(() => handleRenderDesign(msg.design, msg.viewport, msg.streamId, msg.replaceNodeId, msg.replaceMode))
+      break
+    case 'render-partial':
+      await enqueueRender(() => handleRenderPartial(msg.streamId, msg.viewport, msg.root, msg.elements))
+      break
+    case 'finalize-partial':
+      await enqueueRender(async () => handleFinalizePartial(msg.streamId))
+      break
+    case 'apply-patch':
+      await enqueueRender(() => handleApplyPatch(msg.nodeId, msg.base, msg.operations, msg.replaceMode))
+      break
+    case 'preview-version':
+      await handlePreviewVersion(msg.nodeId, msg.versionId)
+      break
+    case 'restore-version':
+      await enqueueRender(() => handleRestoreVersion(msg.nodeId, msg.versionId))
+      break
+    case 'render-variants':
+      await enqueueRender(() => handleRenderVariants(msg.designs, msg.labels, msg.viewport, msg.groupId))
+      break
+    case 'pick-variant':
+      handlePickVariant(msg.groupId, msg.nodeId)
+      break
+    case 'discard-variants':
+      handleDiscardVariants(msg.groupId, msg.keepNodeId)
+      break
+    case 'export-frame':
+      await handleExportFrame(msg.nodeId)
       break
     case 'request-selection-data':
       await handleRequestSelectionData()
@@ -24,12 +66,40 @@ figma.ui.onmessage = async (msg: MessageToPlugin) => {
     case 'load-settings':
       await loadSettings()
       break
+    case 'load-recordings':
+      await loadRecordings()
+      break
+    case 'save-recording':
+      await saveRecording(msg.recording)
+      break
+    case 'delete-recording':
+      await deleteRecording(msg.id)
+      break
+    case 'load-usage':
+      await loadUsage()
+      break
+    case 'record-usage':
+      await recordUsage(msg.usage)
+      break
+    case 'reset-usage':
+      await resetUsage()
+      break
     case 'get-selection':
       sendSelectionInfo()
       break
     case 'refresh-design-system':
       await sendDesignSystem()
       break
+    case 'load-image-assets':
+      await sendImageAssets()
+      break
+    case 'save-image-asset':
+      // Queued so a prompt's reference image is on the shelf before its design renders
+      await enqueueRender(() => handleSaveImageAsset(msg.name, msg.imageData))
+      break
+    case 'delete-image-asset':
+      await enqueueRender(() => handleDeleteImageAsset(msg.name))
+      break
     // Legacy message types (kept for backwards compatibility)
     case 'generate-screen':
     case 'regenerate-selection':
@@ -40,6 +110,7 @@ figma.ui.onmessage = async (msg: MessageToPlugin) => {
 
 // Track selection changes
 figma.on('selectionchange', () => {
+  endPreview()
   sendSelectionInfo()
 })
 
@@ -65,13 +136,66 @@ async function loadSettings() {
       claudeApiKey: '',
       openaiApiKey: '',
       selectedProvider: 'claude',
+      customProviders: [],
+      generationParams: {},
+      mock: DEFAULT_MOCK_SETTINGS,
       contextInstructions: '',
       viewport: 'mobile',
-      customColors: DEFAULT_COLOR_PALETTE
+      customColors: DEFAULT_COLOR_PALETTE,
+      variantCount: 1,
+      reviewRounds: 0,
+      editMode: 'patch',
+      replaceMode: 'replace'
     }
   })
 }
 
+// Mock provider recordings (newest first)
+async function getRecordings(): Promise<MockRecording[]> {
+  return (await figma.clientStorage.getAsync('mock-recordings') as MockRecording[] | undefined) || []
+}
+
+async function storeRecordings(recordings: MockRecording[]) {
+  await figma.clientStorage.setAsync('mock-recordings', recordings)
+  sendToUI({ type: 'recordings-loaded', recordings })
+}
+
+async function loadRecordings() {
+  sendToUI({ type: 'recordings-loaded', recordings: await getRecordings() })
+}
+
+async function saveRecording(recording: MockRecording) {
+  const recordings = await getRecordings()
+  await storeRecordings([recording, ...recordings].slice(0, MOCK_CONFIG.MAX_RECORDINGS))
+}
+
+async function deleteRecording(id: string) {
+  const recordings = await getRecordings()
+  await storeRecordings(recordings.filter(r => r.id !== id))
+}
+
+// Token usage totals, kept per file. fileKey is only available to private plugins, so fall back to the file name.
+function getUsageKey(): string {
+  return `usage:${figma.fileKey || figma.root.name}`
+}
+
+async function loadUsage() {
+  const totals = await figma.clientStorage.getAsync(getUsageKey()) as UsageTotals | undefined
+  sendToUI({ type: 'usage-loaded', totals: totals || null })
+}
+
+async function recordUsage(usage: TokenUsage) {
+  const key = getUsageKey()
+  const totals = addToTotals(await figma.clientStorage.getAsync(key) as UsageTotals | undefined || null, usage)
+  await figma.clientStorage.setAsync(key, totals)
+  sendToUI({ type: 'usage-loaded', totals })
+}
+
+async function resetUsage() {
+  await figma.clientStorage.deleteAsync(getUsageKey())
+  sendToUI({ type: 'usage-loaded', totals: null })
+}
+
 // Selection handling
 function sendSelectionInfo() {
   const selection = figma.currentPage.selection
@@ -89,6 +213,7 @@ function sendSelectionInfo() {
     count: selection.length
   }
   sendToUI({ type: 'selection-changed', selection: info })
+  sendToUI({ type: 'versions-loaded', nodeId: first.id, versions: selection.length === 1 ? listVersions(first) : [] })
 }
 
 // Handle request for selection data (for regeneration)
@@ -104,47 +229,165 @@ async function sendDesignSystem() {
   sendToUI({ type: 'design-system-loaded', designSystem })
 }
 
+// Image asset shelf
+async function sendImageAssets() {
+  sendToUI({ type: 'image-assets-loaded', assets: await listImageAssets() })
+}
+
+async function handleSaveImageAsset(name: string, imageData: string) {
+  try {
+    // Data URL from the UI: "data:image/png;base64,...."
+    await saveImageAsset(name, figma.base64Decode(imageData.slice(imageData.indexOf(',') + 1)))
+  } catch (error) {
+    console.error('Image asset error:', error)
+    sendToUI({
+      type: 'error',
+      message: `Couldn't add image "${name}": ${error instanceof Error ? error.message : 'unsupported image'}`
+    })
+  }
+  await sendImageAssets()
+  await sendDesignSystem()
+}
+
+async function handleDeleteImageAsset(name: string) {
+  deleteImageAsset(name)
+  await sendImageAssets()
+  await sendDesignSystem()
+}
+
+// Append streamed sections to the live frame, creating it when the root arrives
+async function handleRenderPartial(
+  streamId: string,
+  viewport: ViewportSize,
+  root: DesignFrame | undefined,
+  elements: ElementNode[]
+) {
+  // The final render reports substitutions for the whole design
+  startReport()
+  try {
+    let frame = liveFrames.get(streamId)
+    if (!frame && root) {
+      frame = await beginLiveRender(root, viewport, cachedDesignSystem)
+      liveFrames.set(streamId, frame)
+    }
+    if (frame && elements.length > 0) {
+      await appendElements(frame, elements, cachedDesignSystem)
+    }
+  } catch (error) {
+    // The final render-design pass reports errors; partial output is best-effort
+    console.error('Partial render error:', error)
+  }
+}
+
+// Drop the progressive preview of a stream
+function removeLiveFrame(streamId: string) {
+  const frame = liveFrames.get(streamId)
+  liveFrames.delete(streamId)
+  if (frame && !frame.removed) {
+    frame.remove()
+  }
+}
+
+// Keep whatever was rendered when a stream ends without a complete design
+function handleFinalizePartial(streamId: string) {
+  const frame = liveFrames.get(streamId)
+  liveFrames.delete(streamId)
+  if (!frame || frame.removed) return
+
+  // Nothing finished streaming - don't leave an empty frame behind
+  if (frame.children.length === 0) {
+    frame.remove()
+    return
+  }
+
+  figma.currentPage.selection = [frame]
+  figma.viewport.scrollAndZoomIntoView([frame])
+}
+
 // Render design from Claude's JSON output
-async function handleRenderDesign(design: any, viewport: ViewportSize) {
+async function handleRenderDesign(
+  design: any,
+  viewport: ViewportSize,
+  streamId?: string,
+  replaceNodeId?: string,
+  replaceMode: ReplaceMode = 'replace'
+) {
   sendToUI({ type: 'generation-started' })
+  startReport()
 
   try {
-    // If there's a selection, we might want to replace it
+    // Replace the given node (review fixes), otherwise a selected frame as the replace mode says
     const selection = figma.currentPage.selection
     let shouldReplace = false
     let replaceNode: SceneNode | null = null
+    let besideNode: SceneNode | null = null
 
-    if (selection.length === 1) {
+    if (replaceNodeId) {
+      const target = await figma.getNodeByIdAsync(replaceNodeId)
+      if (target && target.type === 'FRAME' && !target.removed) {
+        shouldReplace = true
+        replaceNode = target
+      }
+    } else if (selection.length === 1) {
       const selected = selection[0]
       if (selected.type === 'FRAME' || selected.type === 'COMPONENT' || selected.type === 'INSTANCE') {
-        shouldReplace = true
-        replaceNode = selected
+        if (replaceMode === 'beside') {
+          besideNode = selected
+        } else {
+          shouldReplace = true
+          replaceNode = selected
+          if (replaceMode === 'versions' && isVersioned(selected)) {
+            saveVersion(selected)
+          }
+        }
       }
     }
 
-    // Render the new design
-    const frame = await renderDesign(design, viewport, cachedDesignSystem)
+    // Frames and components are updated in place, so their layers keep ids, comments and prototype links
+    const frame = replaceNode && (replaceNode.type === 'FRAME' || replaceNode.type === 'COMPONENT')
+      ? await reconcileDesign(replaceNode, design, viewport, cachedDesignSystem)
+      : await renderDesign(design, viewport, cachedDesignSystem)
+    const updatedInPlace = frame === replaceNode
+
+    // The complete render supersedes the progressive preview
+    if (streamId) removeLiveFrame(streamId)
 
-    if (shouldReplace && replaceNode) {
+    if (shouldReplace && replaceNode && !updatedInPlace) {
       // Position new frame where the old one was
       frame.x = replaceNode.x
       frame.y = replaceNode.y
+      carryVersions(replaceNode, frame)
 
       // Remove old node
       replaceNode.remove()
     }
 
+    if (besideNode?.absoluteBoundingBox) {
+      const bounds = besideNode.absoluteBoundingBox
+      frame.x = bounds.x + bounds.width + PLACEMENT_CONFIG.GAP
+      frame.y = bounds.y
+    }
+
     // Select the new frame and zoom to it
     figma.currentPage.selection = [frame]
     figma.viewport.scrollAndZoomIntoView([frame])
+    // The selection may not have changed, but its versions have
+    sendToUI({ type: 'versions-loaded', nodeId: frame.id, versions: listVersions(frame) })
 
+    const report = takeReport()
     sendToUI({
       type: 'generation-complete',
       success: true,
-      message: `Created "${frame.name}" with ${countChildren(frame)} elements`
+      message: (updatedInPlace
+        ? `Updated "${frame.name}" in place (${countChildren(frame)} elements)`
+        : `Created "${frame.name}" with ${countChildren(frame)} elements`) + describeFailures(report),
+      nodeId: frame.id,
+      report
     })
   } catch (error) {
     console.error('Render error:', error)
+    // Don't leave the progressive preview of a design that failed to render on the canvas
+    if (streamId) removeLiveFrame(streamId)
     sendToUI({
       type: 'error',
       message: error instanceof Error ? error.message : 'Failed to render design'
@@ -152,6 +395,188 @@ async function handleRenderDesign(design: any, viewport: ViewportSize) {
   }
 }
 
+// Edit an existing frame in place with JSON Patch operations against its serialized form
+async function handleApplyPatch(nodeId: string, base: DesignFrame, operations: PatchOperation[], replaceMode?: ReplaceMode) {
+  sendToUI({ type: 'generation-started' })
+  startReport()
+
+  try {
+    const node = await figma.getNodeByIdAsync(nodeId)
+    if (!node || node.removed || (node.type !== 'FRAME' && node.type !== 'COMPONENT')) {
+      sendToUI({ type: 'error', message: 'The frame to edit is no longer on this page' })
+      return
+    }
+
+    if (replaceMode === 'versions' && isVersioned(node)) {
+      saveVersion(node)
+    }
+
+    const result = await applyDesignPatch(node, base, operations, cachedDesignSystem)
+    if (result.applied === 0 && operations.length > 0) {
+      sendToUI({ type: 'error', message: `None of the changes could be applied:\n${result.failures.join('\n')}` })
+      return
+    }
+
+    figma.currentPage.selection = [node]
+    figma.viewport.scrollAndZoomIntoView([node])
+    sendToUI({ type: 'versions-loaded', nodeId: node.id, versions: listVersions(node) })
+
+    const report = takeReport()
+    sendToUI({
+      type: 'generation-complete',
+      success: true,
+      message: `Updated "${node.name}": applied ${result.applied} of ${operations.length} changes` +
+        (result.failures.length > 0 ? `\nSkipped:\n${result.failures.join('\n')}` : '') +
+        describeFailures(report),
+      nodeId: node.id,
+      report
+    })
+  } catch (error) {
+    console.error('Patch error:', error)
+    sendToUI({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Failed to apply changes'
+    })
+  }
+}
+
+// Show an earlier version of a frame (null: back to the current one)
+async function handlePreviewVersion(nodeId: string, versionId: string | null) {
+  const node = await figma.getNodeByIdAsync(nodeId)
+  if (node && !node.removed && node.type !== 'DOCUMENT' && node.type !== 'PAGE') {
+    previewVersion(node, versionId)
+  }
+}
+
+// Put an earlier version back in the frame's place; the frame is kept as a version
+async function handleRestoreVersion(nodeId: string, versionId: string) {
+  const node = await figma.getNodeByIdAsync(nodeId)
+  const restored = node && !node.removed && isVersioned(node) ? restoreVersion(node, versionId) : null
+  if (!restored) {
+    sendToUI({ type: 'error', message: 'That version is no longer on this page' })
+    return
+  }
+
+  // Selecting it sends the new selection and its versions
+  figma.currentPage.selection = [restored]
+  figma.viewport.scrollAndZoomIntoView([restored])
+}
+
+// Render alternative designs side by side, left to right in label order.
+// Variants never replace the selection - they are placed beside it instead.
+async function handleRenderVariants(designs: DesignFrame[], labels: string[], viewport: ViewportSize, groupId: string) {
+  sendToUI({ type: 'generation-started' })
+  startReport()
+
+  // Absolute bounds, so a nested selection still anchors the row correctly
+  const anchor = figma.currentPage.selection[0]?.absoluteBoundingBox
+  const rendered: RenderedVariant[] = []
+  const frames: FrameNode[] = []
+  const failures: string[] = []
+
+  for (let i = 0; i < designs.length; i++) {
+    const label = labels[i] || String(i + 1)
+    try {
+      const frame = await renderDesign(designs[i], viewport, cachedDesignSystem)
+      frame.setPluginData('variantGroup', groupId)
+      frame.setPluginData('variantName', frame.name)
+      frame.name = `Variant ${label} – ${frame.name}`
+      frames.push(frame)
+      rendered.push({ index: i, label, nodeId: frame.id, name: frame.name })
+    } catch (error) {
+      console.error(`Variant ${label} render error:`, error)
+      failures.push(label)
+    }
+  }
+
+  if (frames.length === 0) {
+    sendToUI({ type: 'error', message: 'Failed to render any of the variants' })
+    return
+  }
+
+  // Lay out in a row: next to the selection, or centered on the viewport
+  const totalWidth = frames.reduce((sum, f) => sum + f.width, 0) + VARIANT_CONFIG.GAP * (frames.length - 1)
+  let x = anchor ? anchor.x + anchor.width + VARIANT_CONFIG.GAP : figma.viewport.center.x - totalWidth / 2
+  const y = anchor ? anchor.y : figma.viewport.center.y - viewport.height / 2
+  for (const frame of frames) {
+    frame.x = x
+    frame.y = y
+    x += frame.width + VARIANT_CONFIG.GAP
+  }
+
+  figma.currentPage.selection = frames
+  figma.viewport.scrollAndZoomIntoView(frames)
+
+  sendToUI({ type: 'variants-rendered', groupId, variants: rendered })
+  const report = takeReport()
+  sendToUI({
+    type: 'generation-complete',
+    success: true,
+    message: `Created ${frames.length} variants` +
+      (failures.length > 0 ? ` (variant ${failures.join(', ')} failed to render)` : '') +
+      '. Pick one to continue with it.' + describeFailures(report),
+    report
+  })
+}
+
+// Variant frames of a group still on the current page
+function findVariantFrames(groupId: string): SceneNode[] {
+  return figma.currentPage.children.filter(node => node.getPluginData('variantGroup') === groupId)
+}
+
+// Focus the chosen variant and give it back its own name
+function handlePickVariant(groupId: string, nodeId: string) {
+  const winner = findVariantFrames(groupId).find(node => node.id === nodeId)
+  if (!winner) {
+    sendToUI({ type: 'error', message: 'That variant is no longer on this page' })
+    return
+  }
+
+  winner.name = winner.getPluginData('variantName') || winner.name
+  figma.currentPage.selection = [winner]
+  figma.viewport.scrollAndZoomIntoView([winner])
+}
+
+// Remove every variant in the group except the one being kept
+function handleDiscardVariants(groupId: string, keepNodeId: string) {
+  for (const node of findVariantFrames(groupId)) {
+    if (node.id === keepNodeId) {
+      node.setPluginData('variantGroup', '')
+    } else {
+      node.remove()
+    }
+  }
+}
+
+// PNG snapshot of a rendered frame for the visual review
+async function handleExportFrame(nodeId: string) {
+  try {
+    const node = await figma.getNodeByIdAsync(nodeId)
+    if (!node || node.type !== 'FRAME' || node.removed) {
+      sendToUI({ type: 'frame-exported', nodeId, imageData: null })
+      return
+    }
+
+    // Keep the longest edge within what the vision APIs use without downscaling
+    const scale = Math.min(
+      REVIEW_CONFIG.EXPORT_MAX_SCALE,
+      REVIEW_CONFIG.EXPORT_MAX_EDGE / Math.max(node.width, node.height, 1)
+    )
+    const bytes = await node.exportAsync({ format: 'PNG', constraint: { type: 'SCALE', value: scale } })
+    sendToUI({ type: 'frame-exported', nodeId, imageData: `data:image/png;base64,${figma.base64Encode(bytes)}` })
+  } catch (error) {
+    console.error('Export error:', error)
+    sendToUI({ type: 'frame-exported', nodeId, imageData: null })
+  }
+}
+
+// Placeholders stand in for elements that failed to render
+function describeFailures(report: RenderReport): string {
+  const count = report.failures.length
+  if (count === 0) return ''
+  return `\n${count} ${count === 1 ? 'element' : 'elements'} failed to render and ${count === 1 ? 'was' : 'were'} replaced with placeholders.`
+}
+
 // Count total children in a node
 function countChildren(node: SceneNode): number {
   let count = 0
@@ -6,14 +6,21 @@ import type { FrameNode as DesignFrame, ElementNode, DesignSystemContext } from
 import { findTextStyle, findSpacingVariable } from './styleCache'
 import { convertFillWithVariable, convertStrokeWithVariable, convertEffect } from './paints'
 import { loadFont, getFontStyle } from './fontLoader'
+import { reportFailure, reportIssue, withLayer } from './report'
+import { applyTextRanges, resolveRichText } from './richText'
+import { ICON_CONFIG, PLACEHOLDER_CONFIG } from '../../shared/constants'
+import { ICON_SET } from '../../shared/icons'
+import { matchIconName } from '../../shared/utils/iconMatch'
+import { normalizeSvgPath } from '../../shared/utils/svgPath'
 
 /**
- * Get resolved spacing value from a variable name
+ * Get resolved spacing value from a variable name.
+ * `substitution` describes what the caller uses when the variable is missing.
  */
-function resolveSpacingVariable(variableName: string): number | null {
+export function resolveSpacingVariable(variableName: string, substitution: string): number | null {
   const variable = findSpacingVariable(variableName)
   if (!variable) {
-    console.log(`Spacing variable "${variableName}" not found`)
+    reportIssue('spacing-variable', variableName, substitution)
     return null
   }
 
@@ -37,10 +44,64 @@ function resolveSpacingVariable(variableName: string): number | null {
   return null
 }
 
-// Render a single element
+// Render a single element. An element that throws is replaced by a placeholder,
+// so one bad element doesn't fail the whole design.
 export async function renderElement(
   element: ElementNode,
   designSystem: DesignSystemContext | null
+): Promise<SceneNode | null> {
+  return withLayer(element.name || element.type, async () => {
+    // New nodes start out on the page, so anything past this index is from this element
+    const pageChildren = figma.currentPage.children.length
+    try {
+      return await renderNode(element, designSystem)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.error(`Render error in "${element.name}":`, error)
+      figma.currentPage.children.slice(pageChildren).forEach(node => node.remove())
+      const placeholder = await renderPlaceholder(element, message)
+      reportFailure(message, placeholder.id, element)
+      return placeholder
+    }
+  })
+}
+
+// Red dashed frame standing in for an element that failed to render
+async function renderPlaceholder(element: ElementNode, message: string): Promise<FrameNode> {
+  const shortMessage = message.length > PLACEHOLDER_CONFIG.MAX_MESSAGE_LENGTH
+    ? `${message.slice(0, PLACEHOLDER_CONFIG.MAX_MESSAGE_LENGTH)}...`
+    : message
+  const frame = figma.createFrame()
+  frame.name = `${PLACEHOLDER_CONFIG.NAME_PREFIX}${element.name || element.type} (${shortMessage})`
+  frame.resize(element.width || PLACEHOLDER_CONFIG.WIDTH, element.height || PLACEHOLDER_CONFIG.HEIGHT)
+  frame.fills = [{ type: 'SOLID', color: PLACEHOLDER_CONFIG.COLOR, opacity: 0.08 }]
+  frame.strokes = [{ type: 'SOLID', color: PLACEHOLDER_CONFIG.COLOR }]
+  frame.strokeWeight = 2
+  frame.dashPattern = [6, 4]
+  frame.layoutMode = 'VERTICAL'
+  frame.primaryAxisSizingMode = 'FIXED'
+  frame.counterAxisSizingMode = 'FIXED'
+  frame.primaryAxisAlignItems = 'CENTER'
+  frame.counterAxisAlignItems = 'CENTER'
+  if (element.layoutAlign === 'STRETCH') frame.layoutAlign = 'STRETCH'
+  if (element.layoutGrow !== undefined) frame.layoutGrow = element.layoutGrow
+
+  try {
+    await figma.loadFontAsync({ family: 'Inter', style: 'Regular' })
+    const label = figma.createText()
+    label.characters = `${element.name || element.type} failed to render`
+    label.fontSize = 11
+    label.fills = [{ type: 'SOLID', color: PLACEHOLDER_CONFIG.COLOR }]
+    frame.appendChild(label)
+  } catch {
+    // The layer name still says what failed
+  }
+  return frame
+}
+
+async function renderNode(
+  element: ElementNode,
+  designSystem: DesignSystemContext | null
 ): Promise<SceneNode | null> {
   let node: SceneNode | null = null
 
@@ -60,6 +121,12 @@ export async function renderElement(
     case 'LINE':
       node = await renderLine(element, designSystem)
       break
+    case 'VECTOR':
+      node = await renderVector(element, designSystem)
+      break
+    case 'ICON':
+      node = await renderIcon(element, designSystem)
+      break
     case 'INSTANCE':
       node = await renderInstance(element, designSystem)
       break
@@ -94,6 +161,20 @@ export async function renderFrame(
   return frame
 }
 
+/**
+ * Describe the raw spacing used when a spacing variable is missing (for the render report)
+ */
+export function describeSpacing(value: number | undefined): string {
+  return value !== undefined ? `${value}px` : 'no spacing'
+}
+
+/**
+ * Describe the raw padding used when a padding variable is missing (for the render report)
+ */
+export function describePadding(padding: DesignFrame['padding']): string {
+  return padding ? `${padding.top} ${padding.right} ${padding.bottom} ${padding.left}px` : 'no padding'
+}
+
 // Apply properties common to frames
 export async function applyFrameProperties(
   frame: FrameNode,
@@ -121,24 +202,24 @@ export async function applyFrameProperties(
       frame.counterAxisAlignItems = counterValue as 'MIN' | 'MAX' | 'CENTER' | 'BASELINE'
     }
     // Item spacing - prefer variable, fall back to raw value
-    if ('itemSpacingVariable' in props && props.itemSpacingVariable) {
-      const spacingValue = resolveSpacingVariable(props.itemSpacingVariable)
-      if (spacingValue !== null) {
-        frame.itemSpacing = spacingValue
-      }
+    const spacingValue = props.itemSpacingVariable
+      ? resolveSpacingVariable(props.itemSpacingVariable, describeSpacing(props.itemSpacing))
+      : null
+    if (spacingValue !== null) {
+      frame.itemSpacing = spacingValue
     } else if (props.itemSpacing !== undefined) {
       frame.itemSpacing = props.itemSpacing
     }
 
     // Padding - prefer variable (uniform), fall back to raw values
-    if ('paddingVariable' in props && props.paddingVariable) {
-      const paddingValue = resolveSpacingVariable(props.paddingVariable)
-      if (paddingValue !== null) {
-        frame.paddingTop = paddingValue
-        frame.paddingRight = paddingValue
-        frame.paddingBottom = paddingValue
-        frame.paddingLeft = paddingValue
-      }
+    const paddingValue = props.paddingVariable
+      ? resolveSpacingVariable(props.paddingVariable, describePadding(props.padding))
+      : null
+    if (paddingValue !== null) {
+      frame.paddingTop = paddingValue
+      frame.paddingRight = paddingValue
+      frame.paddingBottom = paddingValue
+      frame.paddingLeft = paddingValue
     } else if (props.padding) {
       frame.paddingTop = props.padding.top
       frame.paddingRight = props.padding.right
@@ -254,6 +335,7 @@ async function renderText(
 ): Promise<TextNode> {
   const text = figma.createText()
   text.name = element.name || 'Text'
+  const richText = resolveRichText(element)
 
   // Always load Inter Regular first - it's the default font on new text nodes
   // This must be done before setting characters
@@ -266,17 +348,18 @@ async function renderText(
       // Load the font from the style
       await figma.loadFontAsync(textStyle.fontName)
       // Set characters first (now safe because Inter Regular is loaded)
-      text.characters = element.characters || ''
+      text.characters = richText.characters
       // Apply the text style - this changes the font
       text.textStyleId = textStyle.id
     } else {
       // Style not found, fall back to manual properties
-      console.log(`Text style "${element.textStyleName}" not found, using fallback`)
-      await applyManualTextProperties(text, element)
+      await applyManualTextProperties(text, element, richText.characters)
+      const font = text.fontName as FontName
+      reportIssue('text-style', element.textStyleName, `${font.family} ${font.style}, ${text.fontSize as number}px`)
     }
   } else {
     // No style specified, use manual properties
-    await applyManualTextProperties(text, element)
+    await applyManualTextProperties(text, element, richText.characters)
   }
 
   // Apply fills with variable support (text color)
@@ -291,6 +374,9 @@ async function renderText(
     }
   }
 
+  // Bold words, links, lists - over the text's own style
+  await applyTextRanges(text, richText.ranges)
+
   // Size constraints
   if (element.width !== undefined) {
     text.resize(element.width, text.height)
@@ -317,7 +403,7 @@ async function renderText(
 }
 
 // Apply manual text properties when no style is used
-async function applyManualTextProperties(text: TextNode, element: ElementNode): Promise<void> {
+async function applyManualTextProperties(text: TextNode, element: ElementNode, characters: string): Promise<void> {
   const fontFamily = element.fontFamily || 'Inter'
   const fontWeight = element.fontWeight || 400
   const fontStyle = getFontStyle(fontWeight)
@@ -326,7 +412,7 @@ async function applyManualTextProperties(text: TextNode, element: ElementNode):
   text.fontName = loadedFont
 
   // Set text content
-  text.characters = element.characters || ''
+  text.characters = characters
 
   // Font size
   if (element.fontSize) {
@@ -526,6 +612,179 @@ async function renderLine(
   return line
 }
 
+/**
+ * Figma vector paths for an element's `vectorPaths`, with the data rewritten
+ * into the commands Figma accepts
+ */
+export function toVectorPaths(element: ElementNode): VectorPaths {
+  return (element.vectorPaths || []).map(path => ({
+    windingRule: path.windingRule || element.fillRule || 'NONZERO',
+    data: normalizeSvgPath(path.data),
+  }))
+}
+
+// Render vector from SVG markup or path data
+async function renderVector(
+  element: ElementNode,
+  designSystem: DesignSystemContext | null
+): Promise<FrameNode | VectorNode> {
+  let node: FrameNode | VectorNode
+  if (element.svg) {
+    // The SVG comes in as a frame of shapes, which scale with the frame
+    node = figma.createNodeFromSvg(element.svg)
+    for (const layer of node.findAll()) {
+      if ('constraints' in layer) {
+        layer.constraints = { horizontal: 'SCALE', vertical: 'SCALE' }
+      }
+      if (element.fillRule && layer.type === 'VECTOR') {
+        layer.vectorPaths = layer.vectorPaths.map(path => ({
+          windingRule: path.windingRule === 'NONE' ? 'NONE' : element.fillRule!,
+          data: path.data,
+        }))
+      }
+    }
+  } else if (element.vectorPaths && element.vectorPaths.length > 0) {
+    node = figma.createVector()
+    node.vectorPaths = toVectorPaths(element)
+  } else {
+    throw new Error('VECTOR needs svg or vectorPaths')
+  }
+  node.name = element.name || 'Vector'
+
+  // Size; with only one side given the artwork keeps its aspect ratio
+  if (element.width !== undefined && element.height !== undefined) {
+    node.resize(element.width, element.height)
+  } else if (element.width !== undefined && node.width > 0) {
+    node.resize(element.width, (node.height * element.width) / node.width)
+  } else if (element.height !== undefined && node.height > 0) {
+    node.resize((node.width * element.height) / node.height, element.height)
+  }
+
+  // Paints recolor the shapes: an SVG's filled shapes take the fills and its stroked shapes the strokes
+  const shapes: Array<SceneNode & GeometryMixin> = node.type === 'VECTOR'
+    ? [node]
+    : node.findAll(layer => layer.type !== 'FRAME' && layer.type !== 'GROUP' && 'fills' in layer) as Array<SceneNode & GeometryMixin>
+  const hasPaints = (paints: readonly Paint[] | typeof figma.mixed) =>
+    paints !== figma.mixed && paints.some(paint => paint.visible !== false)
+
+  if (element.fills && element.fills.length > 0) {
+    const paints: Paint[] = []
+    for (const fill of element.fills) {
+      const paint = await convertFillWithVariable(node, fill)
+      if (paint) paints.push(paint)
+    }
+    if (paints.length > 0) {
+      shapes.filter(shape => shape === node || hasPaints(shape.fills)).forEach(shape => { shape.fills = paints })
+    }
+  } else if (node.type === 'VECTOR' && !element.strokes?.length) {
+    // Default fill for visibility
+    node.fills = [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 } }]
+  }
+
+  if (element.strokes && element.strokes.length > 0) {
+    const paints: Paint[] = []
+    for (const stroke of element.strokes) {
+      const paint = await convertStrokeWithVariable(node, stroke)
+      if (paint) paints.push(paint)
+    }
+    if (paints.length > 0) {
+      for (const shape of shapes.filter(shape => shape === node || hasPaints(shape.strokes))) {
+        shape.strokes = paints
+        if (element.strokeWeight !== undefined) {
+          shape.strokeWeight = element.strokeWeight
+        }
+      }
+    }
+  }
+
+  // Effects
+  if (element.effects && element.effects.length > 0) {
+    node.effects = element.effects.map(e => convertEffect(e)).filter(Boolean) as Effect[]
+  }
+
+  // Opacity
+  if (element.opacity !== undefined) {
+    node.opacity = element.opacity
+  }
+
+  // Layout properties
+  if (element.layoutAlign === 'STRETCH') {
+    node.layoutAlign = 'STRETCH'
+  }
+  if (element.layoutGrow !== undefined) {
+    node.layoutGrow = element.layoutGrow
+  }
+
+  return node
+}
+
+// Render icon from the bundled set as a vector; an unknown name gets a placeholder
+async function renderIcon(
+  element: ElementNode,
+  designSystem: DesignSystemContext | null
+): Promise<FrameNode> {
+  const size = element.size ?? element.width ?? element.height ?? ICON_CONFIG.DEFAULT_SIZE
+  const requested = element.iconName || element.name || ''
+  const match = requested ? matchIconName(requested) : null
+  if (!match) {
+    reportIssue('icon', requested, 'a placeholder')
+    return renderIconPlaceholder(element, requested, size)
+  }
+  if (match.fuzzy) {
+    reportIssue('icon', requested, `"${match.name}"`)
+  }
+
+  const { VIEWBOX, STROKE_WIDTH } = ICON_CONFIG
+  const paths = ICON_SET[match.name].map(data => `<path d="${data}"/>`).join('')
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${VIEWBOX} ${VIEWBOX}" ` +
+    `fill="none" stroke="black" stroke-width="${STROKE_WIDTH}" stroke-linecap="round" stroke-linejoin="round">${paths}</svg>`
+  const paint = element.strokes?.[0] ?? element.fills?.[0]
+  const color = paint?.color ?? ICON_CONFIG.DEFAULT_COLOR
+
+  const node = await renderVector({
+    type: 'VECTOR',
+    name: element.name || match.name,
+    svg,
+    strokes: [{ type: 'SOLID', color, colorVariable: element.colorVariable ?? paint?.colorVariable }],
+    opacity: element.opacity,
+    layoutAlign: element.layoutAlign,
+    layoutGrow: element.layoutGrow,
+  }, designSystem) as FrameNode
+  node.fills = []
+  node.setPluginData(ICON_CONFIG.PLUGIN_DATA_KEY, match.name)
+  return node
+}
+
+// Dashed square named after the icon that wasn't found
+async function renderIconPlaceholder(element: ElementNode, requested: string, size: number): Promise<FrameNode> {
+  const frame = figma.createFrame()
+  frame.name = `${ICON_CONFIG.PLACEHOLDER_PREFIX}${requested || 'unnamed'}`
+  frame.resize(size, size)
+  frame.fills = []
+  frame.strokes = [{ type: 'SOLID', color: ICON_CONFIG.PLACEHOLDER_COLOR }]
+  frame.dashPattern = [2, 2]
+  frame.cornerRadius = size / 6
+  frame.layoutMode = 'VERTICAL'
+  frame.primaryAxisSizingMode = 'FIXED'
+  frame.counterAxisSizingMode = 'FIXED'
+  frame.primaryAxisAlignItems = 'CENTER'
+  frame.counterAxisAlignItems = 'CENTER'
+  if (element.layoutAlign === 'STRETCH') frame.layoutAlign = 'STRETCH'
+  if (element.layoutGrow !== undefined) frame.layoutGrow = element.layoutGrow
+
+  try {
+    await figma.loadFontAsync({ family: 'Inter', style: 'Regular' })
+    const label = figma.createText()
+    label.characters = '?'
+    label.fontSize = Math.max(1, Math.round(size / 2))
+    label.fills = [{ type: 'SOLID', color: ICON_CONFIG.PLACEHOLDER_COLOR }]
+    frame.appendChild(label)
+  } catch {
+    // The layer name still says which icon is missing
+  }
+  return frame
+}
+
 // Render component instance
 async function renderInstance(
   element: ElementNode,
@@ -569,7 +828,7 @@ async function renderInstance(
     return instance
   } catch {
     // Component not found, fallback to frame with children
-    console.log(`Component ${element.componentKey} not found, rendering as frame`)
+    reportIssue('component', element.componentKey, 'a frame')
     return renderFrame(element, designSystem)
   }
 }
@@ -4,6 +4,7 @@
 
 import { getFontStyle } from '../../shared/utils/fonts'
 import { loadedFonts } from './styleCache'
+import { reportIssue } from './report'
 
 export { getFontStyle }
 
@@ -26,6 +27,7 @@ export async function loadFont(family: string, style: string): Promise<FontName>
       try {
         await figma.loadFontAsync({ family: 'Inter', style })
         loadedFonts.add(`Inter-${style}`)
+        reportIssue('font', `${family} ${style}`, `Inter ${style}`)
         return { family: 'Inter', style }
       } catch {
         // Fallback to Inter Regular
@@ -39,6 +41,7 @@ export async function loadFont(family: string, style: string): Promise<FontName>
     } catch {
       // Inter Regular should always be available
     }
+    reportIssue('font', `${family} ${style}`, 'Inter Regular')
     return { family: 'Inter', style: 'Regular' }
   }
 }
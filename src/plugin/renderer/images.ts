@@ -0,0 +1,193 @@
+/**
+ * Image fills
+ *
+ * The `image` of an IMAGE fill names where the image comes from:
+ * - `reference` - the image attached to the prompt, kept on the asset shelf
+ * - `asset:<name>` - an image on the file's asset shelf
+ * - `placeholder:<name>` - a pattern generated here (photo, avatar, ...)
+ * - `hash:<hash>` - an image already in the file, as written by the serializer
+ * An image that can't be found is reported and replaced by the photo placeholder.
+ */
+
+import type { Fill } from '../../shared/types'
+import { IMAGE_CONFIG } from '../../shared/constants'
+import { findAssetName, findImageAsset } from '../assets'
+import { reportIssue } from './report'
+
+type RGBTuple = [number, number, number]
+
+// Placeholder pixel colors from position (0-1 across and down)
+const PATTERNS: Record<string, (u: number, v: number) => RGBTuple> = {
+  photo: (u, v) => {
+    if (v > 0.74 + 0.05 * Math.sin(u * 6)) return [0.47, 0.62, 0.56]
+    if (v > 0.5 + 0.2 * Math.abs(((u * 2.2 + 0.3) % 1) * 2 - 1)) return [0.62, 0.71, 0.82]
+    if (Math.hypot(u - 0.72, v - 0.28) < 0.09) return [0.99, 0.86, 0.55]
+    return mix([0.72, 0.83, 0.94], [0.93, 0.95, 0.98], v / 0.7)
+  },
+  avatar: (u, v) => {
+    const head = Math.hypot(u - 0.5, v - 0.4) < 0.17
+    const shoulders = ((u - 0.5) / 0.32) ** 2 + ((v - 0.98) / 0.34) ** 2 < 1
+    return head || shoulders ? [0.66, 0.69, 0.74] : [0.86, 0.88, 0.91]
+  },
+  product: (u, v) => {
+    if (Math.abs(u - 0.5) < 0.2 && v > 0.32 && v < 0.4) return [0.82, 0.78, 0.73]
+    if (Math.abs(u - 0.5) < 0.2 && v >= 0.4 && v < 0.74) return [0.76, 0.72, 0.67]
+    if (((u - 0.5) / 0.26) ** 2 + ((v - 0.76) / 0.05) ** 2 < 1) return [0.8, 0.78, 0.75]
+    return mix([0.97, 0.96, 0.94], [0.89, 0.87, 0.84], Math.hypot(u - 0.5, v - 0.5) * 1.6)
+  },
+  pattern: (u, v) => Math.floor(((u + v) * IMAGE_CONFIG.PLACEHOLDER_SIZE) / 12) % 2 === 0
+    ? [0.9, 0.91, 0.93]
+    : [0.84, 0.86, 0.89],
+}
+
+// Hashes of the placeholders created so far, by name
+const placeholderHashes = new Map<string, string>()
+
+function mix(a: RGBTuple, b: RGBTuple, t: number): RGBTuple {
+  const k = Math.min(1, Math.max(0, t))
+  return [a[0] + (b[0] - a[0]) * k, a[1] + (b[1] - a[1]) * k, a[2] + (b[2] - a[2]) * k]
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff
+  for (const byte of bytes) c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1
+  let b = 0
+  for (const byte of bytes) {
+    a = (a + byte) % 65521
+    b = (b + a) % 65521
+  }
+  return ((b << 16) | a) >>> 0
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+function uint32(value: number): Uint8Array {
+  return new Uint8Array([value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff])
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const typeAndData = concat([new Uint8Array([...type].map(char => char.charCodeAt(0))), data])
+  return concat([uint32(data.length), typeAndData, uint32(crc32(typeAndData))])
+}
+
+// Square RGB PNG, stored without compression - the sandbox has no image encoder
+function encodePng(size: number, pixel: (u: number, v: number) => RGBTuple): Uint8Array {
+  const rowLength = size * 3 + 1
+  const raw = new Uint8Array(rowLength * size)
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const color = pixel((x + 0.5) / size, (y + 0.5) / size)
+      raw.set(color.map(channel => Math.round(channel * 255)), y * rowLength + 1 + x * 3)
+    }
+  }
+
+  // zlib stream of stored deflate blocks (at most 65535 bytes each)
+  const blocks: Uint8Array[] = [new Uint8Array([0x78, 0x01])]
+  for (let offset = 0; offset < raw.length; offset += 65535) {
+    const block = raw.subarray(offset, offset + 65535)
+    const final = offset + 65535 >= raw.length ? 1 : 0
+    const length = block.length
+    blocks.push(new Uint8Array([final, length & 0xff, length >>> 8, ~length & 0xff, (~length >>> 8) & 0xff]), block)
+  }
+  blocks.push(uint32(adler32(raw)))
+
+  const header = concat([uint32(size), uint32(size), new Uint8Array([8, 2, 0, 0, 0])])
+  return concat([
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', concat(blocks)),
+    pngChunk('IEND', new Uint8Array(0)),
+  ])
+}
+
+function getPlaceholderHash(name: string): string {
+  let hash = placeholderHashes.get(name)
+  if (!hash) {
+    hash = figma.createImage(encodePng(IMAGE_CONFIG.PLACEHOLDER_SIZE, PATTERNS[name])).hash
+    placeholderHashes.set(name, hash)
+  }
+  return hash
+}
+
+// Hash of the image a fill refers to; null when it can't be found
+function resolveImage(image: string): string | null {
+  const [kind, ...rest] = image.split(':')
+  const name = rest.join(':').trim()
+  switch (kind.trim().toLowerCase()) {
+    case 'reference':
+      return findImageAsset(IMAGE_CONFIG.REFERENCE_NAME)
+    case 'asset':
+      return findImageAsset(name)
+    case 'placeholder': {
+      const pattern = name.toLowerCase()
+      return PATTERNS[pattern] ? getPlaceholderHash(pattern) : null
+    }
+    case 'hash':
+      return figma.getImageByHash(name) ? name : null
+    default:
+      // A bare name is an asset
+      return findImageAsset(image)
+  }
+}
+
+/**
+ * Image paint for an IMAGE fill
+ */
+export function convertImageFill(fill: Fill): ImagePaint {
+  let imageHash = fill.image ? resolveImage(fill.image) : null
+  if (!imageHash) {
+    const fallback = IMAGE_CONFIG.FALLBACK_PLACEHOLDER
+    if (fill.image) {
+      reportIssue('image', fill.image, `placeholder:${fallback}`)
+    }
+    imageHash = getPlaceholderHash(fallback)
+  }
+
+  const scaleMode = fill.scaleMode || 'FILL'
+  const crop = scaleMode === 'CROP' ? fill.crop : undefined
+  return {
+    type: 'IMAGE',
+    imageHash,
+    scaleMode,
+    opacity: fill.opacity ?? 1,
+    // The transform maps the layer onto the shown part of the image
+    ...(crop && { imageTransform: [[crop.width, 0, crop.x], [0, crop.height, crop.y]] as Transform }),
+  }
+}
+
+/**
+ * Stable `image` reference for an image in the file: its asset or placeholder
+ * name, or its hash. The prompt's reference image is replaced with the next
+ * prompt, so it is always referred to by hash. Read-only: only placeholders
+ * created in this session are recognized, so serializing never adds images
+ * to the file.
+ */
+export function describeImage(hash: string): string {
+  const asset = findAssetName(hash)
+  if (asset && asset !== IMAGE_CONFIG.REFERENCE_NAME) return `asset:${asset}`
+  const placeholder = IMAGE_CONFIG.PLACEHOLDERS.find(name => placeholderHashes.get(name) === hash)
+  return placeholder ? `placeholder:${placeholder}` : `hash:${hash}`
+}
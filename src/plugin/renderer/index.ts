@@ -4,14 +4,20 @@
  * Renders AI-generated design JSON into Figma nodes
  */
 
-import type { FrameNode as DesignFrame, DesignSystemContext } from '../../shared/types'
+import type { FrameNode as DesignFrame, ElementNode, DesignSystemContext } from '../../shared/types'
 import { initializeCaches } from './styleCache'
 import { renderElement, applyFrameProperties } from './elements'
+import { withLayer } from './report'
+import { fitGradients } from './paints'
 
 // Re-export useful items
 export { findTextStyle, findColorVariable, findSpacingVariable } from './styleCache'
 export { convertFillWithVariable, convertStrokeWithVariable, convertEffect } from './paints'
 export { loadFont, getFontStyle } from './fontLoader'
+export { applyDesignPatch } from './patch'
+export type { PatchResult } from './patch'
+export { reconcileDesign } from './reconcile'
+export { startReport, takeReport } from './report'
 
 // Main render function
 export async function renderDesign(
@@ -22,6 +28,58 @@ export async function renderDesign(
   // Initialize style/variable caches
   await initializeCaches()
 
+  return withLayer(design.name || 'Generated Screen', async () => {
+    const frame = await createRootFrame(design, viewport, designSystem)
+
+    // Render children
+    if (design.children) {
+      for (const child of design.children) {
+        const node = await renderElement(child, designSystem)
+        if (node) {
+          frame.appendChild(node)
+        }
+      }
+    }
+
+    // Every node has its final size now
+    fitGradients()
+    return frame
+  })
+}
+
+// Start a progressive render: create the root frame before any children have streamed in
+export async function beginLiveRender(
+  root: DesignFrame,
+  viewport: { width: number; height: number },
+  designSystem: DesignSystemContext | null
+): Promise<FrameNode> {
+  await initializeCaches()
+  return withLayer(root.name || 'Generated Screen', () => createRootFrame(root, viewport, designSystem))
+}
+
+// Render elements and append them to a frame in order
+export async function appendElements(
+  frame: FrameNode,
+  elements: ElementNode[],
+  designSystem: DesignSystemContext | null
+): Promise<void> {
+  await withLayer(frame.name, async () => {
+    for (const child of elements) {
+      const node = await renderElement(child, designSystem)
+      if (node) {
+        frame.appendChild(node)
+      }
+    }
+    fitGradients()
+  })
+}
+
+// Create the viewport-sized root frame with the design's own properties (children excluded)
+async function createRootFrame(
+  design: DesignFrame,
+  viewport: { width: number; height: number },
+  designSystem: DesignSystemContext | null
+): Promise<FrameNode> {
   const frame = figma.createFrame()
   frame.name = design.name || 'Generated Screen'
   frame.resize(viewport.width, viewport.height)
@@ -37,23 +95,18 @@ export async function renderDesign(
     design.counterAxisAlignItems = design.counterAxisAlignItems || 'CENTER'
   }
 
-  // Apply frame properties
-  await applyFrameProperties(frame, design, designSystem)
+  // Apply frame properties; a root that can't be set up isn't left behind
+  try {
+    await applyFrameProperties(frame, design, designSystem)
+  } catch (error) {
+    frame.remove()
+    throw error
+  }
 
   // For root frame, set fixed size to viewport dimensions
   frame.primaryAxisSizingMode = 'FIXED'
   frame.counterAxisSizingMode = 'FIXED'
   frame.resize(viewport.width, viewport.height)
 
-  // Render children
-  if (design.children) {
-    for (const child of design.children) {
-      const node = await renderElement(child, designSystem)
-      if (node) {
-        frame.appendChild(node)
-      }
-    }
-  }
-
   return frame
 }
@@ -2,8 +2,15 @@
  * Paint conversion utilities (fills, strokes, effects)
  */
 
-import type { Fill, Stroke, Effect } from '../../shared/types'
+import type { Fill, GradientStop, Stroke, Effect } from '../../shared/types'
+import { rgbToHex } from '../../shared/utils/colors'
+import { describeGradientTransform, gradientTransformFor } from '../../shared/utils/gradients'
 import { findColorVariable } from './styleCache'
+import { reportIssue } from './report'
+import { convertImageFill } from './images'
+
+// Nodes whose gradients were placed on their size at the time, until fitGradients re-places them
+const placedGradients = new Map<SceneNode, { width: number; height: number }>()
 
 // Helper to extract clean RGB (no alpha) from any color object
 function toRGB(color: { r: number; g: number; b: number; a?: number }): RGB {
@@ -22,6 +29,9 @@ function getOpacity(fill: Fill): number {
 export async function convertFillWithVariable(node: SceneNode, fill: Fill): Promise<Paint | null> {
   if (fill.visible === false) return null
 
+  if (fill.type === 'IMAGE') return convertImageFill(fill)
+  if (fill.type?.startsWith('GRADIENT_') && fill.gradientStops?.length) return convertGradientFill(node, fill, fill.gradientStops)
+
   // Check if we should use a color variable
   if (fill.colorVariable) {
     const variable = findColorVariable(fill.colorVariable)
@@ -50,7 +60,7 @@ export async function convertFillWithVariable(node: SceneNode, fill: Fill): Prom
         return paint
       }
     } else {
-      console.log(`Color variable "${fill.colorVariable}" not found`)
+      reportIssue('color-variable', fill.colorVariable, fill.color ? rgbToHex(fill.color) : 'no fill')
     }
   }
 
@@ -63,26 +73,70 @@ export async function convertFillWithVariable(node: SceneNode, fill: Fill): Prom
     }
   }
 
-  if (fill.type === 'GRADIENT_LINEAR' && fill.gradientStops) {
-    return {
-      type: 'GRADIENT_LINEAR',
-      gradientStops: fill.gradientStops.map(stop => ({
+  return null
+}
+
+// Gradient stop, bound to its color variable when it names one
+function convertGradientStop(stop: GradientStop): ColorStop {
+  const alpha = stop.color?.a ?? 1
+  if (stop.colorVariable) {
+    const variable = findColorVariable(stop.colorVariable)
+    const modeId = variable && Object.keys(variable.valuesByMode)[0]
+    const value = variable && modeId ? variable.valuesByMode[modeId] : undefined
+    if (variable && value && typeof value === 'object' && 'r' in value) {
+      return {
         position: stop.position,
-        color: {
-          r: stop.color.r,
-          g: stop.color.g,
-          b: stop.color.b,
-          a: stop.color.a ?? 1,
-        },
-      })),
-      gradientTransform: [
-        [1, 0, 0],
-        [0, 1, 0],
-      ],
+        color: { ...toRGB(value as RGB), a: alpha },
+        boundVariables: { color: figma.variables.createVariableAlias(variable) },
+      }
     }
+    reportIssue('color-variable', stop.colorVariable, stop.color ? rgbToHex(stop.color) : 'black')
   }
+  const color = stop.color || { r: 0, g: 0, b: 0 }
+  return { position: stop.position, color: { ...toRGB(color), a: alpha } }
+}
 
-  return null
+// Gradient paint, placed from the fill's angle, center and radius on the node's current size.
+// That size may still change as children are added and auto-layout settles - see fitGradients.
+function convertGradientFill(node: SceneNode, fill: Fill, stops: GradientStop[]): GradientPaint {
+  const width = 'width' in node ? node.width : 1
+  const height = 'height' in node ? node.height : 1
+  if (!fill.gradientTransform) {
+    placedGradients.set(node, { width, height })
+  }
+  return {
+    type: fill.type as GradientPaint['type'],
+    gradientStops: stops.map(convertGradientStop),
+    gradientTransform: gradientTransformFor(fill, width, height),
+    opacity: fill.opacity ?? 1,
+  }
+}
+
+function isGradientPaint(paint: Paint): paint is GradientPaint {
+  return paint.type.startsWith('GRADIENT_')
+}
+
+/**
+ * Re-place the gradients converted since the last call on the size their
+ * node ended up with, keeping their angle, center and radius as drawn. Call
+ * once a render's layout has settled: HUG frames only get their size from
+ * their children, and FILL or STRETCH children from their parent.
+ */
+export function fitGradients(): void {
+  for (const [node, placedOn] of placedGradients) {
+    if (node.removed || !('fills' in node) || node.fills === figma.mixed) continue
+    const { width, height } = node
+    if (width === placedOn.width && height === placedOn.height) continue
+
+    node.fills = node.fills.map(paint => {
+      if (!isGradientPaint(paint)) return paint
+      const placement = describeGradientTransform(paint.type, paint.gradientTransform, placedOn.width, placedOn.height)
+      // A placement the angle, center and radius can't express is left as it is
+      if ('gradientTransform' in placement) return paint
+      return { ...paint, gradientTransform: gradientTransformFor({ type: paint.type, ...placement }, width, height) }
+    })
+  }
+  placedGradients.clear()
 }
 
 // Helper to get stroke opacity
@@ -120,7 +174,7 @@ export async function convertStrokeWithVariable(node: SceneNode, stroke: Stroke)
         return paint
       }
     } else {
-      console.log(`Color variable "${stroke.colorVariable}" not found`)
+      reportIssue('color-variable', stroke.colorVariable, stroke.color ? rgbToHex(stroke.color) : 'no stroke')
     }
   }
 
@@ -0,0 +1,134 @@
+/**
+ * Apply JSON Patch edits to an existing frame in place
+ *
+ * Operations address the serialized selection (see serializer.ts), whose
+ * elements carry their Figma node ids. Each operation is applied to the JSON
+ * first, which validates it, and the change is then mirrored onto the nodes:
+ * changed properties are set on the existing node, and only added, removed or
+ * moved elements are created, deleted or reordered. Untouched nodes keep their
+ * ids, comments and prototype links.
+ */
+
+import type { DesignSystemContext, ElementNode, FrameNode as DesignFrame, PatchOperation } from '../../shared/types'
+import { applyPatch, getAtPointer, parsePointer } from '../../shared/utils/jsonPatch'
+import { initializeCaches } from './styleCache'
+import { fitGradients } from './paints'
+import { collectIds, findElement, getSceneNode, syncElement } from './sync'
+import type { SyncContext } from './sync'
+
+type DesignProps = ElementNode | DesignFrame
+
+export interface PatchResult {
+  /** Operations applied successfully */
+  applied: number
+  /** One message per operation that could not be applied */
+  failures: string[]
+  /** The design after the applied operations, with the ids of created nodes */
+  design: DesignFrame
+}
+
+/**
+ * Apply operations in order. A failing operation is reported and skipped,
+ * the ones after it are still applied.
+ */
+export async function applyDesignPatch(
+  root: FrameNode | ComponentNode,
+  base: DesignFrame,
+  operations: PatchOperation[],
+  designSystem: DesignSystemContext | null
+): Promise<PatchResult> {
+  await initializeCaches()
+
+  let design: DesignFrame = { ...base, id: root.id }
+  const failures: string[] = []
+  let applied = 0
+
+  for (let index = 0; index < operations.length; index++) {
+    const operation = operations[index]
+    let next: DesignFrame
+    try {
+      next = applyPatch(design, [operation])
+    } catch (error) {
+      failures.push(describeFailure(index, operation, error))
+      continue
+    }
+
+    // Copies carry the ids of the nodes they were copied from - they become new nodes
+    if (operation.op === 'copy') {
+      stripIds(getAtPointer(next, operation.path))
+    }
+    next.id = root.id
+    dedupeIds(next)
+
+    try {
+      const context: SyncContext = { previous: design, liveIds: collectIds(next), designSystem }
+      for (const id of affectedElementIds(design, next, operation)) {
+        const before = findElement(design, id)
+        const after = findElement(next, id)
+        const node = await getSceneNode(id)
+        if (before && after && node) {
+          await syncElement(node, before, after, context)
+        }
+      }
+      applied++
+    } catch (error) {
+      console.error('Patch error:', error)
+      failures.push(describeFailure(index, operation, error))
+    }
+    design = next
+  }
+
+  fitGradients()
+  return { applied, failures, design }
+}
+
+function describeFailure(index: number, operation: PatchOperation, error: unknown): string {
+  const reason = error instanceof Error ? error.message : String(error)
+  return `#${index + 1} ${operation.op} ${operation.path}: ${reason.replace(/^Patch operation \d+ \([^)]*\) failed: /, '')}`
+}
+
+// The element the operation changes: the element owning the property, or the parent of the
+// children array an element was added to or removed from. Moves change two parents.
+function affectedElementIds(before: DesignFrame, after: DesignFrame, operation: PatchOperation): string[] {
+  const ids = [owningElementId(after, parsePointer(operation.path))]
+  if (operation.op === 'move') {
+    ids.push(owningElementId(before, parsePointer(operation.from)))
+  }
+  return ids.filter((id, i) => id && ids.indexOf(id) === i) as string[]
+}
+
+function owningElementId(document: DesignFrame, tokens: string[]): string | undefined {
+  let element: DesignProps = document
+  let i = 0
+  // Descend through children/<index> pairs, stopping at the last element that exists on the path
+  while (tokens[i] === 'children' && i + 2 < tokens.length) {
+    const child: ElementNode | undefined = element.children?.[Number(tokens[i + 1])]
+    if (!child) break
+    element = child
+    i += 2
+  }
+  return element.id
+}
+
+function stripIds(value: unknown): void {
+  if (typeof value !== 'object' || value === null) return
+  const element = value as DesignProps
+  delete element.id
+  for (const child of element.children || []) {
+    stripIds(child)
+  }
+}
+
+// An id may only appear once - later duplicates (e.g. the model copied an element by value) become new nodes
+function dedupeIds(element: DesignProps, seen: Set<string> = new Set()): void {
+  if (element.id) {
+    if (seen.has(element.id)) {
+      delete element.id
+    } else {
+      seen.add(element.id)
+    }
+  }
+  for (const child of element.children || []) {
+    dedupeIds(child, seen)
+  }
+}
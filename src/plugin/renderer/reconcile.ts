@@ -0,0 +1,89 @@
+/**
+ * Regenerate a frame in place
+ *
+ * A regenerated design is matched against the existing layer tree instead of
+ * replacing the frame. Elements pair up by name within the same parent (in
+ * order, so repeated names like "Card" match one to one); ids the model kept
+ * from the serialized selection win over names. Paired layers are updated in
+ * place and keep their ids, comments and prototype links; only unpaired
+ * elements are created or deleted, and children are reordered to match.
+ * Layers the design JSON can't describe (vectors, for instance) are left alone.
+ */
+
+import type { DesignSystemContext, ElementNode, FrameNode as DesignFrame, ViewportSize } from '../../shared/types'
+import { serializeFrameNode } from '../serializer'
+import { initializeCaches } from './styleCache'
+import { fitGradients } from './paints'
+import { collectIds, findElement, syncElement } from './sync'
+
+type DesignProps = ElementNode | DesignFrame
+
+/**
+ * Update `root` to match `design`, reusing every layer that can be paired up
+ */
+export async function reconcileDesign(
+  root: FrameNode | ComponentNode,
+  design: DesignFrame,
+  viewport: ViewportSize,
+  designSystem: DesignSystemContext | null
+): Promise<FrameNode | ComponentNode> {
+  await initializeCaches()
+
+  const current = serializeFrameNode(root as FrameNode)
+  const next: DesignFrame = JSON.parse(JSON.stringify(design))
+
+  // Same root defaults as a fresh render
+  if (!next.layoutMode || next.layoutMode === 'NONE') {
+    next.layoutMode = 'VERTICAL'
+    next.primaryAxisAlignItems = next.primaryAxisAlignItems || 'MIN'
+    next.counterAxisAlignItems = next.counterAxisAlignItems || 'CENTER'
+  }
+
+  next.id = root.id
+  keepKnownIds(next, collectIds(current), new Set([root.id]))
+  matchByName(current, current, next, new Set(collectIds(next)))
+
+  await syncElement(root, current, next, { previous: current, liveIds: collectIds(next), designSystem })
+
+  root.primaryAxisSizingMode = 'FIXED'
+  root.counterAxisSizingMode = 'FIXED'
+  root.resize(viewport.width, viewport.height)
+  fitGradients()
+
+  return root
+}
+
+// Keep ids that point at an existing layer, once each; any other id means nothing on this canvas
+function keepKnownIds(element: DesignProps, known: Set<string>, used: Set<string>): void {
+  for (const child of element.children || []) {
+    if (child.id && known.has(child.id) && !used.has(child.id)) {
+      used.add(child.id)
+    } else {
+      delete child.id
+    }
+    keepKnownIds(child, known, used)
+  }
+}
+
+// Pair the children of two matching elements by name, then descend into each pair
+function matchByName(current: DesignFrame, before: DesignProps, after: DesignProps, used: Set<string>): void {
+  const candidates = (before.children || []).filter(child => child.id && !used.has(child.id))
+
+  for (const child of after.children || []) {
+    if (!child.id) {
+      // Prefer a layer of the same type - a different type has to be rendered again
+      const match = candidates.find(c => c.name === child.name && c.type === child.type && !used.has(c.id!)) ||
+        candidates.find(c => c.name === child.name && !used.has(c.id!))
+      if (match) {
+        child.id = match.id
+        used.add(match.id!)
+      }
+    }
+
+    // A kept id may come from another parent
+    const previous = child.id ? findElement(current, child.id) : undefined
+    if (previous) {
+      matchByName(current, previous, child, used)
+    }
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Render report
+ *
+ * Collects everything the renderer had to substitute - a text style or
+ * variable that isn't in the file, a component that didn't import, a font
+ * that didn't load - with the path of the layer it happened on, and every
+ * element that failed to render and was replaced by a placeholder. The plugin
+ * sends the report back with `generation-complete`. Renders are serialized,
+ * so there is one report at a time.
+ */
+
+import type { ElementNode, RenderIssueKind, RenderReport } from '../../shared/types'
+
+let report: RenderReport = { issues: [], failures: [] }
+
+// Names of the layers being rendered, outermost first
+const layerPath: string[] = []
+
+/**
+ * Start collecting a new report, dropping anything collected before
+ */
+export function startReport(): void {
+  report = { issues: [], failures: [] }
+  layerPath.length = 0
+}
+
+/**
+ * Hand over the collected report and start a new one
+ */
+export function takeReport(): RenderReport {
+  const collected = report
+  startReport()
+  return collected
+}
+
+/**
+ * Record a substitution on the layer currently being rendered
+ */
+export function reportIssue(kind: RenderIssueKind, requested: string, substitution: string): void {
+  report.issues.push({ kind, path: layerPath.join(' / '), requested, substitution })
+}
+
+/**
+ * Record that the layer currently being rendered failed; `nodeId` is its placeholder
+ */
+export function reportFailure(message: string, nodeId: string, element: ElementNode): void {
+  report.failures.push({ path: layerPath.join(' / '), message, nodeId, element })
+}
+
+/**
+ * Run `task` with `name` appended to the layer path of reported issues
+ */
+export async function withLayer<T>(name: string, task: () => Promise<T>): Promise<T> {
+  layerPath.push(name)
+  try {
+    return await task()
+  } finally {
+    layerPath.pop()
+  }
+}
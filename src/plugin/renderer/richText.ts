@@ -0,0 +1,100 @@
+/**
+ * Styled ranges of TEXT elements
+ *
+ * A TEXT element's markup (see shared/utils/richText.ts) and its `textRanges`
+ * are set on the node's characters after the element's own styling, so a
+ * range only changes what it names.
+ */
+
+import type { ElementNode, TextRange } from '../../shared/types'
+import type { RichText } from '../../shared/utils/richText'
+import { parseRichText } from '../../shared/utils/richText'
+import { getFontWeight, isItalicStyle } from '../../shared/utils/fonts'
+import { findTextStyle } from './styleCache'
+import { convertFillWithVariable } from './paints'
+import { loadFont, getFontStyle } from './fontLoader'
+import { reportIssue } from './report'
+
+/**
+ * Plain text of a TEXT element and its styled ranges: those from its markup, then its `textRanges`
+ */
+export function resolveRichText(element: ElementNode): RichText {
+  const parsed = parseRichText(element.characters || '')
+  return { characters: parsed.characters, ranges: [...parsed.ranges, ...(element.textRanges || [])] }
+}
+
+/**
+ * Whether a text node has styling that differs between its characters
+ */
+export function hasStyledRanges(text: TextNode): boolean {
+  if (text.characters.length === 0) return false
+  const segments = text.getStyledTextSegments(['fontName', 'fontSize', 'fills', 'textDecoration', 'textStyleId', 'hyperlink', 'listOptions'])
+  return segments.length > 1 || segments[0].hyperlink !== null || segments[0].listOptions.type !== 'NONE'
+}
+
+/**
+ * Set styled ranges on a text node whose characters are the element's plain text.
+ * Links and lists left from earlier ranges are cleared first.
+ */
+export async function applyTextRanges(text: TextNode, ranges: TextRange[]): Promise<void> {
+  const length = text.characters.length
+  if (length === 0) return
+  text.setRangeHyperlink(0, length, null)
+  text.setRangeListOptions(0, length, { type: 'NONE' })
+
+  for (const range of ranges) {
+    const start = Math.max(0, Math.min(range.start, length))
+    const end = Math.max(start, Math.min(range.end, length))
+    if (end > start) {
+      await applyTextRange(text, range, start, end)
+    }
+  }
+}
+
+async function applyTextRange(text: TextNode, range: TextRange, start: number, end: number): Promise<void> {
+  // A text style comes first; the range's other properties override it
+  if (range.textStyleName) {
+    const style = findTextStyle(range.textStyleName)
+    if (style) {
+      await figma.loadFontAsync(style.fontName)
+      await text.setRangeTextStyleIdAsync(start, end, style.id)
+    } else {
+      reportIssue('text-style', range.textStyleName, 'the surrounding text\'s style')
+    }
+  }
+
+  if (range.fontFamily || range.fontWeight !== undefined || range.italic !== undefined) {
+    // Unset parts of the font come from the range's first character
+    const current = text.getRangeFontName(start, start + 1) as FontName
+    const family = range.fontFamily || current.family
+    const weight = range.fontWeight ?? getFontWeight(current.style)
+    const italic = range.italic ?? isItalicStyle(current.style)
+    text.setRangeFontName(start, end, await loadFont(family, getFontStyle(weight, italic)))
+  }
+
+  if (range.fontSize) {
+    text.setRangeFontSize(start, end, range.fontSize)
+  }
+
+  if (range.fills) {
+    const paints: Paint[] = []
+    for (const fill of range.fills) {
+      const paint = await convertFillWithVariable(text, fill)
+      if (paint) paints.push(paint)
+    }
+    // A color that can't be resolved leaves the text's own color
+    if (paints.length > 0) {
+      text.setRangeFills(start, end, paints)
+    }
+  }
+
+  if (range.textDecoration) {
+    text.setRangeTextDecoration(start, end, range.textDecoration)
+  }
+  if (range.href) {
+    text.setRangeHyperlink(start, end, { type: 'URL', value: range.href })
+  }
+  if (range.list) {
+    text.setRangeListOptions(start, end, { type: range.list === 'NUMBERED' ? 'ORDERED' : 'UNORDERED' })
+  }
+}
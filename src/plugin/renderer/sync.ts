@@ -0,0 +1,144 @@
+/**
+ * Sync existing nodes with new design JSON
+ *
+ * Shared by patch edits and regeneration in place: given the JSON a node was
+ * rendered from and the JSON it should now match, only the differences are
+ * applied. Children are matched by their `id` (the Figma node id).
+ */
+
+import type { DesignSystemContext, ElementNode, FrameNode as DesignFrame } from '../../shared/types'
+import { deepEqual } from '../../shared/utils/jsonPatch'
+import { renderElement } from './elements'
+import { REPLACING_PROPERTIES, updateNodeProperties } from './update'
+import { withLayer } from './report'
+
+type DesignProps = ElementNode | DesignFrame
+type ParentNode = SceneNode & ChildrenMixin
+
+export interface SyncContext {
+  /** The design the nodes currently match, to look up elements moved between parents */
+  previous: DesignFrame
+  /** Ids present in the new design - nodes of every other known element are deleted */
+  liveIds: Set<string>
+  designSystem: DesignSystemContext | null
+}
+
+/**
+ * Bring a node in line with its new JSON
+ */
+export async function syncElement(node: SceneNode, before: DesignProps, after: DesignProps, context: SyncContext): Promise<void> {
+  await withLayer(after.name || node.name, () => syncNode(node, before, after, context))
+}
+
+async function syncNode(node: SceneNode, before: DesignProps, after: DesignProps, context: SyncContext): Promise<void> {
+  const replaced = REPLACING_PROPERTIES.some(key => !deepEqual(readProperty(before, key), readProperty(after, key)))
+  if (replaced && 'type' in after && node.parent && 'insertChild' in node.parent) {
+    const parent = node.parent
+    const fresh = await renderElement(after, context.designSystem)
+    if (fresh) {
+      parent.insertChild(parent.children.indexOf(node), fresh)
+      node.remove()
+      assignIds(after, fresh)
+    }
+    return
+  }
+
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+  const changed = [...keys].filter(key =>
+    key !== 'id' && key !== 'children' &&
+    !deepEqual(readProperty(before, key), readProperty(after, key))
+  )
+  if (changed.length > 0) {
+    await updateNodeProperties(node, after, changed)
+  }
+
+  if (!deepEqual(before.children, after.children) && 'children' in node) {
+    await syncChildren(node, before.children || [], after.children || [], context)
+  }
+}
+
+// Reconcile a children list by node id: keep and update known nodes, render new ones,
+// delete the ones that are gone, then put them in order
+async function syncChildren(
+  parent: ParentNode,
+  beforeList: ElementNode[],
+  afterList: ElementNode[],
+  context: SyncContext
+): Promise<void> {
+  const placed: SceneNode[] = []
+
+  for (const child of afterList) {
+    // Only ids from the design count - also finds elements moved here from another parent
+    const id = child.id
+    const before = id ? beforeList.find(element => element.id === id) || findElement(context.previous, id) : undefined
+    const existing = id && before ? await getSceneNode(id) : null
+    if (id && before && existing) {
+      await syncElement(existing, before, child, context)
+      // A changed type re-renders the node under a new id
+      const current = await getSceneNode(child.id || id)
+      if (current) {
+        placed.push(current)
+        continue
+      }
+    }
+
+    const rendered = await renderElement(child, context.designSystem)
+    if (rendered) {
+      assignIds(child, rendered)
+      placed.push(rendered)
+    }
+  }
+
+  for (const element of beforeList) {
+    if (element.id && !context.liveIds.has(element.id)) {
+      const node = await getSceneNode(element.id)
+      node?.remove()
+    }
+  }
+
+  // Placed nodes form one block, starting where the first of them sits. Nodes the JSON
+  // doesn't describe (stars or boolean groups, for instance) end up after the block.
+  const placedSet = new Set(placed)
+  const first = parent.children.findIndex(node => placedSet.has(node))
+  const start = first === -1 ? parent.children.length : first
+  placed.forEach((node, offset) => {
+    // Every node is moved back or inserted, never forward, so the index is unambiguous
+    if (parent.children[start + offset] !== node) {
+      parent.insertChild(start + offset, node)
+    }
+  })
+}
+
+function readProperty(element: DesignProps, key: string): unknown {
+  return (element as unknown as Record<string, unknown>)[key]
+}
+
+export async function getSceneNode(id: string): Promise<SceneNode | null> {
+  const node = await figma.getNodeByIdAsync(id)
+  return node && !node.removed && node.type !== 'DOCUMENT' && node.type !== 'PAGE' ? node : null
+}
+
+// Record the ids of freshly rendered nodes on their JSON, so later operations can find them
+function assignIds(element: ElementNode, node: SceneNode): void {
+  element.id = node.id
+  if (element.children && 'children' in node && node.children.length === element.children.length) {
+    element.children.forEach((child, i) => assignIds(child, node.children[i]))
+  }
+}
+
+export function findElement(element: DesignProps, id: string): DesignProps | undefined {
+  if (element.id === id) return element
+  for (const child of element.children || []) {
+    const found = findElement(child, id)
+    if (found) return found
+  }
+  return undefined
+}
+
+export function collectIds(element: DesignProps, ids: Set<string> = new Set()): Set<string> {
+  if (element.id) ids.add(element.id)
+  for (const child of element.children || []) {
+    collectIds(child, ids)
+  }
+  return ids
+}
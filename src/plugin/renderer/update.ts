@@ -0,0 +1,258 @@
+/**
+ * In-place node updates
+ *
+ * Sets individual design properties on a node that already exists, so an
+ * edit keeps the node id, comments, prototype links and everything the
+ * design JSON doesn't describe.
+ */
+
+import type { ElementNode, FrameNode as DesignFrame } from '../../shared/types'
+import { findTextStyle } from './styleCache'
+import { convertFillWithVariable, convertStrokeWithVariable, convertEffect } from './paints'
+import { loadFont, getFontStyle } from './fontLoader'
+import { describePadding, describeSpacing, resolveSpacingVariable, toVectorPaths } from './elements'
+import { reportIssue } from './report'
+import { applyTextRanges, hasStyledRanges, resolveRichText } from './richText'
+
+type DesignProps = ElementNode | DesignFrame
+
+// Changing these means a different kind of node - the element is rendered again instead
+export const REPLACING_PROPERTIES = ['type', 'componentKey', 'svg', 'iconName', 'size', 'colorVariable']
+
+const TEXT_PROPERTIES = [
+  'characters', 'fontSize', 'fontWeight', 'fontFamily', 'textStyleName',
+  'textAlignHorizontal', 'textAlignVertical', 'lineHeight', 'letterSpacing', 'textCase', 'textDecoration',
+]
+
+// Styled ranges lie over the whole text's style, so a change to either sets both again
+const RICH_TEXT_PROPERTIES = [...TEXT_PROPERTIES, 'textRanges', 'fills']
+
+const VALID_COUNTER_AXIS = ['MIN', 'MAX', 'CENTER', 'BASELINE']
+
+/**
+ * Apply the listed properties of `props` to an existing node.
+ * A listed property that is missing from `props` was removed, and is reset to the Figma default.
+ */
+export async function updateNodeProperties(node: SceneNode, props: DesignProps, changed: string[]): Promise<void> {
+  const keys = new Set(changed)
+
+  if (keys.has('name') && props.name) {
+    node.name = props.name
+  }
+
+  const richText = node.type === 'TEXT' && RICH_TEXT_PROPERTIES.some(key => keys.has(key))
+    ? resolveRichText(props as ElementNode)
+    : null
+  const restyleText = node.type === 'TEXT' && richText !== null && (richText.ranges.length > 0 || hasStyledRanges(node))
+  if (restyleText) {
+    TEXT_PROPERTIES.forEach(key => keys.add(key))
+    keys.add('fills')
+  }
+
+  // Text content and font come first - they affect the text's size
+  if (node.type === 'TEXT' && TEXT_PROPERTIES.some(key => keys.has(key))) {
+    await updateTextProperties(node, props as ElementNode, keys)
+  }
+
+  // New paths change the vector's bounds, so they come before the size
+  if ((keys.has('vectorPaths') || keys.has('fillRule')) && node.type === 'VECTOR') {
+    node.vectorPaths = toVectorPaths(props as ElementNode)
+  }
+
+  if ((keys.has('width') || keys.has('height')) && 'resize' in node) {
+    const width = props.width ?? node.width
+    if (node.type === 'TEXT') {
+      node.resize(width, node.height)
+      node.textAutoResize = 'HEIGHT'
+    } else if (node.type === 'LINE') {
+      node.resize(width, 0)
+    } else {
+      node.resize(width, props.height ?? node.height)
+    }
+  }
+
+  if (node.type === 'FRAME' || node.type === 'COMPONENT') {
+    updateAutoLayout(node, props, keys)
+  }
+
+  await updatePaints(node, props, keys)
+
+  if (restyleText && node.type === 'TEXT' && richText) {
+    // Without fills of its own the text goes back to Figma's default black
+    if (!props.fills) {
+      node.fills = [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 } }]
+    }
+    await applyTextRanges(node, richText.ranges)
+  }
+
+  if (keys.has('strokeWeight') && 'strokeWeight' in node) {
+    node.strokeWeight = (props as ElementNode).strokeWeight ?? 1
+  }
+  if (keys.has('cornerRadius') && (node.type === 'FRAME' || node.type === 'COMPONENT' || node.type === 'RECTANGLE')) {
+    node.cornerRadius = props.cornerRadius ?? 0
+  }
+  if (keys.has('effects') && 'effects' in node) {
+    node.effects = (props.effects || []).map(e => convertEffect(e)).filter(Boolean) as Effect[]
+  }
+  if (keys.has('clipsContent') && 'clipsContent' in node) {
+    node.clipsContent = props.clipsContent ?? false
+  }
+
+  if ('type' in props) {
+    updateElementLayout(node, props, keys)
+  }
+}
+
+// Auto-layout, spacing and sizing modes of a frame
+function updateAutoLayout(frame: FrameNode | ComponentNode, props: DesignProps, keys: Set<string>): void {
+  if (keys.has('layoutMode')) {
+    frame.layoutMode = props.layoutMode || 'NONE'
+  }
+  if (frame.layoutMode === 'NONE') return
+
+  if (keys.has('primaryAxisAlignItems')) {
+    frame.primaryAxisAlignItems = props.primaryAxisAlignItems || 'MIN'
+  }
+  if (keys.has('counterAxisAlignItems')) {
+    const value = props.counterAxisAlignItems || 'MIN'
+    frame.counterAxisAlignItems = (VALID_COUNTER_AXIS.includes(value) ? value : 'CENTER') as FrameNode['counterAxisAlignItems']
+  }
+
+  // Variables win over raw values, as in the renderer
+  if (keys.has('itemSpacing') || keys.has('itemSpacingVariable')) {
+    const fromVariable = props.itemSpacingVariable
+      ? resolveSpacingVariable(props.itemSpacingVariable, describeSpacing(props.itemSpacing ?? 0))
+      : null
+    frame.itemSpacing = fromVariable ?? props.itemSpacing ?? 0
+  }
+  if (keys.has('padding') || keys.has('paddingVariable')) {
+    const fromVariable = props.paddingVariable
+      ? resolveSpacingVariable(props.paddingVariable, describePadding(props.padding || { top: 0, right: 0, bottom: 0, left: 0 }))
+      : null
+    const padding = fromVariable !== null
+      ? { top: fromVariable, right: fromVariable, bottom: fromVariable, left: fromVariable }
+      : props.padding || { top: 0, right: 0, bottom: 0, left: 0 }
+    frame.paddingTop = padding.top
+    frame.paddingRight = padding.right
+    frame.paddingBottom = padding.bottom
+    frame.paddingLeft = padding.left
+  }
+
+  // HUG and FILL both map to AUTO; FILL itself is expressed through layoutGrow/layoutAlign
+  if (keys.has('primaryAxisSizingMode') && 'primaryAxisSizingMode' in props) {
+    frame.primaryAxisSizingMode = props.primaryAxisSizingMode === 'FIXED' ? 'FIXED' : 'AUTO'
+  }
+  if (keys.has('counterAxisSizingMode') && 'counterAxisSizingMode' in props) {
+    frame.counterAxisSizingMode = props.counterAxisSizingMode === 'FIXED' ? 'FIXED' : 'AUTO'
+  }
+}
+
+async function updatePaints(node: SceneNode, props: DesignProps, keys: Set<string>): Promise<void> {
+  if (keys.has('fills') && 'fills' in node) {
+    const paints: Paint[] = []
+    for (const fill of props.fills || []) {
+      const paint = await convertFillWithVariable(node, fill)
+      if (paint) paints.push(paint)
+    }
+    node.fills = paints
+  }
+
+  if (keys.has('strokes') && 'strokes' in node) {
+    const paints: Paint[] = []
+    for (const stroke of props.strokes || []) {
+      const paint = await convertStrokeWithVariable(node, stroke)
+      if (paint) paints.push(paint)
+    }
+    node.strokes = paints
+  }
+}
+
+// Properties a node has as a child of its parent
+function updateElementLayout(node: SceneNode, element: ElementNode, keys: Set<string>): void {
+  if (keys.has('opacity') && 'opacity' in node) {
+    node.opacity = element.opacity ?? 1
+  }
+  if (keys.has('layoutPositioning') && 'layoutPositioning' in node) {
+    node.layoutPositioning = element.layoutPositioning || 'AUTO'
+  }
+  // Auto-layout overrides x/y unless the node is absolutely positioned
+  if (keys.has('x') || keys.has('y')) {
+    if (element.x !== undefined) node.x = element.x
+    if (element.y !== undefined) node.y = element.y
+  }
+  if (keys.has('layoutAlign') && 'layoutAlign' in node) {
+    node.layoutAlign = element.layoutAlign === 'STRETCH' ? 'STRETCH' : 'INHERIT'
+  }
+  if (keys.has('layoutGrow') && 'layoutGrow' in node) {
+    node.layoutGrow = element.layoutGrow ?? 0
+  }
+  if (keys.has('componentProperties') && node.type === 'INSTANCE' && element.componentProperties) {
+    for (const [key, value] of Object.entries(element.componentProperties)) {
+      try {
+        node.setProperties({ [key]: value })
+      } catch {
+        // Property might not exist, skip
+      }
+    }
+  }
+}
+
+async function updateTextProperties(text: TextNode, element: ElementNode, keys: Set<string>): Promise<void> {
+  // Every font already used in the node must be loaded before its text or font can change
+  const currentFonts = text.characters.length > 0
+    ? text.getRangeAllFontNames(0, text.characters.length)
+    : text.fontName === figma.mixed ? [] : [text.fontName]
+  await Promise.all(currentFonts.map(font => figma.loadFontAsync(font)))
+
+  if (keys.has('textStyleName')) {
+    const style = element.textStyleName ? findTextStyle(element.textStyleName) : null
+    if (style) {
+      await figma.loadFontAsync(style.fontName)
+      text.textStyleId = style.id
+    } else {
+      if (element.textStyleName) {
+        const font = text.fontName === figma.mixed ? null : text.fontName
+        reportIssue('text-style', element.textStyleName, font ? `current font (${font.family} ${font.style})` : 'current fonts')
+      }
+      text.textStyleId = ''
+    }
+  }
+
+  if (keys.has('fontFamily') || keys.has('fontWeight')) {
+    const current = text.fontName === figma.mixed ? { family: 'Inter', style: 'Regular' } : text.fontName
+    const family = element.fontFamily || current.family
+    const style = element.fontWeight !== undefined ? getFontStyle(element.fontWeight) : current.style
+    text.fontName = await loadFont(family, style)
+  }
+
+  if (keys.has('characters')) {
+    text.characters = resolveRichText(element).characters
+  }
+  if (keys.has('fontSize') && element.fontSize) {
+    text.fontSize = element.fontSize
+  }
+  if (keys.has('textAlignHorizontal')) {
+    text.textAlignHorizontal = element.textAlignHorizontal || 'LEFT'
+  }
+  if (keys.has('textAlignVertical')) {
+    text.textAlignVertical = element.textAlignVertical || 'TOP'
+  }
+  if (keys.has('lineHeight')) {
+    if (element.lineHeight === undefined) {
+      text.lineHeight = { unit: 'AUTO' }
+    } else if (typeof element.lineHeight === 'number') {
+      text.lineHeight = { value: element.lineHeight, unit: 'PIXELS' }
+    } else {
+      text.lineHeight = element.lineHeight
+    }
+  }
+  if (keys.has('letterSpacing')) {
+    text.letterSpacing = { value: element.letterSpacing ?? 0, unit: 'PIXELS' }
+  }
+  if (keys.has('textCase')) {
+    text.textCase = element.textCase || 'ORIGINAL'
+  }
+  if (keys.has('textDecoration')) {
+    text.textDecoration = element.textDecoration || 'NONE'
+  }
+}
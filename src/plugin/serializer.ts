@@ -1,4 +1,9 @@
-import type { FrameNode as DesignFrame, ElementNode, Fill, Stroke, Effect } from '../shared/types'
+import type { FrameNode as DesignFrame, ElementNode, Fill, GradientStop, Stroke, Effect, TextRange } from '../shared/types'
+import { ICON_CONFIG } from '../shared/constants'
+import { describeImage } from './renderer/images'
+import { describeGradientTransform } from '../shared/utils/gradients'
+import { formatRichText } from '../shared/utils/richText'
+import { isItalicStyle } from '../shared/utils/fonts'
 
 // Serialize the current selection to JSON
 export function serializeSelection(): DesignFrame | null {
@@ -21,9 +26,10 @@ export function serializeSelection(): DesignFrame | null {
   }
 }
 
-// Serialize a frame node
-function serializeFrameNode(frame: FrameNode): DesignFrame {
+// Serialize a frame node (also used to diff a regenerated design against the canvas)
+export function serializeFrameNode(frame: FrameNode): DesignFrame {
   const result: DesignFrame = {
+    id: frame.id,
     name: frame.name,
     width: frame.width,
     height: frame.height,
@@ -47,7 +53,7 @@ function serializeFrameNode(frame: FrameNode): DesignFrame {
   }
 
   // Fills
-  const fills = serializeFills(frame.fills as readonly Paint[])
+  const fills = serializeFills(frame.fills as readonly Paint[], frame)
   if (fills.length > 0) {
     result.fills = fills
   }
@@ -87,12 +93,20 @@ function serializeFrameNode(frame: FrameNode): DesignFrame {
   return result
 }
 
-// Serialize any scene node
+// Serialize any scene node, tagged with its id so patches can be applied in place
 function serializeNode(node: SceneNode): ElementNode | null {
+  const result = serializeByType(node)
+  return result ? { id: node.id, ...result } : null
+}
+
+function serializeByType(node: SceneNode): ElementNode | null {
   switch (node.type) {
     case 'FRAME':
     case 'COMPONENT':
     case 'COMPONENT_SET':
+      if (node.getPluginData(ICON_CONFIG.PLUGIN_DATA_KEY)) {
+        return serializeIcon(node as FrameNode)
+      }
       return serializeFrameElement(node as FrameNode)
     case 'INSTANCE':
       return serializeInstance(node as InstanceNode)
@@ -104,6 +118,8 @@ function serializeNode(node: SceneNode): ElementNode | null {
       return serializeEllipse(node as EllipseNode)
     case 'LINE':
       return serializeLine(node as LineNode)
+    case 'VECTOR':
+      return serializeVector(node as VectorNode)
     case 'GROUP':
       return serializeGroup(node as GroupNode)
     default:
@@ -153,7 +169,7 @@ function serializeFrameElement(frame: FrameNode): ElementNode {
   }
 
   // Fills
-  const fills = serializeFills(frame.fills as readonly Paint[])
+  const fills = serializeFills(frame.fills as readonly Paint[], frame)
   if (fills.length > 0) {
     result.fills = fills
   }
@@ -229,6 +245,8 @@ function serializeInstance(instance: InstanceNode): ElementNode {
   return result
 }
 
+type TextSegment = Pick<StyledTextSegment, 'start' | 'end' | 'fontName' | 'fontWeight' | 'fontSize' | 'fills' | 'textDecoration' | 'textStyleId' | 'hyperlink' | 'listOptions'>
+
 // Serialize text node
 function serializeText(text: TextNode): ElementNode {
   const result: ElementNode = {
@@ -239,14 +257,20 @@ function serializeText(text: TextNode): ElementNode {
     height: text.height,
   }
 
-  // Font properties (assuming uniform styling)
-  const fontName = text.fontName
+  // The text's own style is its most used one; other segments become ranges over it
+  const segments: TextSegment[] = text.characters.length > 0
+    ? text.getStyledTextSegments(['fontName', 'fontWeight', 'fontSize', 'fills', 'textDecoration', 'textStyleId', 'hyperlink', 'listOptions'])
+    : []
+  const base = findBaseSegment(segments)
+
+  // Font properties
+  const fontName = base?.fontName ?? text.fontName
   if (fontName !== figma.mixed) {
     result.fontFamily = fontName.family
-    result.fontWeight = getFontWeight(fontName.style)
+    result.fontWeight = base?.fontWeight ?? getFontWeight(fontName.style)
   }
 
-  const fontSize = text.fontSize
+  const fontSize = base?.fontSize ?? text.fontSize
   if (fontSize !== figma.mixed) {
     result.fontSize = fontSize
   }
@@ -268,17 +292,30 @@ function serializeText(text: TextNode): ElementNode {
   }
 
   // Text decoration
-  const textDecoration = text.textDecoration
+  const textDecoration = base?.textDecoration ?? text.textDecoration
   if (textDecoration !== figma.mixed && textDecoration !== 'NONE') {
     result.textDecoration = textDecoration
   }
 
   // Fills (text color)
-  const fills = serializeFills(text.fills as readonly Paint[])
+  const textFills = base?.fills ?? text.fills
+  const fills = textFills !== figma.mixed ? serializeFills(textFills, text) : []
   if (fills.length > 0) {
     result.fills = fills
   }
 
+  // Styled ranges, written as markup where it can express them
+  if (base) {
+    const ranges = segments
+      .map(segment => serializeTextRange(segment, base, text))
+      .filter(range => Object.keys(range).length > 2)
+    const richText = formatRichText(text.characters, ranges)
+    result.characters = richText.characters
+    if (richText.ranges.length > 0) {
+      result.textRanges = richText.ranges
+    }
+  }
+
   // Layout properties
   if (text.layoutAlign !== 'INHERIT') {
     result.layoutAlign = text.layoutAlign as ElementNode['layoutAlign']
@@ -295,6 +332,65 @@ function serializeText(text: TextNode): ElementNode {
   return result
 }
 
+// The segment style covering the most characters
+function findBaseSegment(segments: TextSegment[]): TextSegment | null {
+  const lengths = new Map<string, number>()
+  let base: TextSegment | null = null
+  let baseLength = 0
+  for (const segment of segments) {
+    const key = JSON.stringify([segment.fontName, segment.fontSize, segment.fills, segment.textDecoration, segment.textStyleId])
+    const length = (lengths.get(key) ?? 0) + segment.end - segment.start
+    lengths.set(key, length)
+    if (length > baseLength) {
+      base = segment
+      baseLength = length
+    }
+  }
+  return base
+}
+
+// A text segment's differences from the text's own style
+function serializeTextRange(segment: TextSegment, base: TextSegment, size: { width: number; height: number }): TextRange {
+  const range: TextRange = { start: segment.start, end: segment.end }
+
+  if (segment.textStyleId && segment.textStyleId !== base.textStyleId) {
+    const style = figma.getStyleById(segment.textStyleId)
+    if (style) {
+      range.textStyleName = style.name
+    }
+  }
+  if (segment.fontName.family !== base.fontName.family) {
+    range.fontFamily = segment.fontName.family
+  }
+  if (segment.fontWeight !== base.fontWeight) {
+    range.fontWeight = segment.fontWeight
+  }
+  const italic = isItalicStyle(segment.fontName.style)
+  if (italic !== isItalicStyle(base.fontName.style)) {
+    range.italic = italic
+  }
+  if (segment.fontSize !== base.fontSize) {
+    range.fontSize = segment.fontSize
+  }
+  if (JSON.stringify(segment.fills) !== JSON.stringify(base.fills)) {
+    // A single bound color is named by its variable
+    const [fill] = segment.fills
+    const variableId = segment.fills.length === 1 && fill.type === 'SOLID' ? fill.boundVariables?.color?.id : undefined
+    const variable = variableId ? figma.variables.getVariableById(variableId) : null
+    range.fills = variable ? [{ type: 'SOLID', colorVariable: variable.name }] : serializeFills(segment.fills, size)
+  }
+  if (segment.textDecoration !== base.textDecoration) {
+    range.textDecoration = segment.textDecoration
+  }
+  if (segment.hyperlink?.type === 'URL') {
+    range.href = segment.hyperlink.value
+  }
+  if (segment.listOptions.type !== 'NONE') {
+    range.list = segment.listOptions.type === 'ORDERED' ? 'NUMBERED' : 'BULLET'
+  }
+  return range
+}
+
 // Serialize rectangle
 function serializeRectangle(rect: RectangleNode): ElementNode {
   const result: ElementNode = {
@@ -305,7 +401,7 @@ function serializeRectangle(rect: RectangleNode): ElementNode {
   }
 
   // Fills
-  const fills = serializeFills(rect.fills as readonly Paint[])
+  const fills = serializeFills(rect.fills as readonly Paint[], rect)
   if (fills.length > 0) {
     result.fills = fills
   }
@@ -354,7 +450,7 @@ function serializeEllipse(ellipse: EllipseNode): ElementNode {
   }
 
   // Fills
-  const fills = serializeFills(ellipse.fills as readonly Paint[])
+  const fills = serializeFills(ellipse.fills as readonly Paint[], ellipse)
   if (fills.length > 0) {
     result.fills = fills
   }
@@ -403,6 +499,90 @@ function serializeLine(line: LineNode): ElementNode {
   return result
 }
 
+// Serialize vector as path data - Figma keeps it in SVG syntax already
+function serializeVector(vector: VectorNode): ElementNode {
+  const result: ElementNode = {
+    type: 'VECTOR',
+    name: vector.name,
+    width: vector.width,
+    height: vector.height,
+    vectorPaths: vector.vectorPaths.map(path => ({ data: path.data, windingRule: path.windingRule })),
+  }
+
+  // Fills
+  if (vector.fills !== figma.mixed) {
+    const fills = serializeFills(vector.fills, vector)
+    if (fills.length > 0) {
+      result.fills = fills
+    }
+  }
+
+  // Strokes
+  const strokes = serializeStrokes(vector.strokes)
+  if (strokes.length > 0) {
+    result.strokes = strokes
+    result.strokeWeight = vector.strokeWeight as number
+  }
+
+  // Opacity
+  if (vector.opacity !== 1) {
+    result.opacity = vector.opacity
+  }
+
+  // Effects
+  const effects = serializeEffects(vector.effects as readonly Effect[])
+  if (effects.length > 0) {
+    result.effects = effects
+  }
+
+  // Layout properties
+  if (vector.layoutAlign !== 'INHERIT') {
+    result.layoutAlign = vector.layoutAlign as ElementNode['layoutAlign']
+  }
+  if (vector.layoutGrow !== 0) {
+    result.layoutGrow = vector.layoutGrow
+  }
+
+  return result
+}
+
+// Serialize a rendered icon by name; its color is the stroke of its first shape
+function serializeIcon(frame: FrameNode): ElementNode {
+  const result: ElementNode = {
+    type: 'ICON',
+    name: frame.name,
+    iconName: frame.getPluginData(ICON_CONFIG.PLUGIN_DATA_KEY),
+    size: frame.width,
+  }
+
+  const shape = frame.findOne(node => node.type === 'VECTOR') as VectorNode | null
+  const stroke = shape?.strokes.find(paint => paint.type === 'SOLID' && paint.visible !== false) as SolidPaint | undefined
+  if (stroke) {
+    const variableId = stroke.boundVariables?.color?.id
+    const variable = variableId ? figma.variables.getVariableById(variableId) : null
+    if (variable) {
+      result.colorVariable = variable.name
+    } else {
+      result.strokes = [{ type: 'SOLID', color: { r: stroke.color.r, g: stroke.color.g, b: stroke.color.b } }]
+    }
+  }
+
+  // Opacity
+  if (frame.opacity !== 1) {
+    result.opacity = frame.opacity
+  }
+
+  // Layout properties
+  if (frame.layoutAlign !== 'INHERIT') {
+    result.layoutAlign = frame.layoutAlign as ElementNode['layoutAlign']
+  }
+  if (frame.layoutGrow !== 0) {
+    result.layoutGrow = frame.layoutGrow
+  }
+
+  return result
+}
+
 // Serialize group (convert to frame)
 function serializeGroup(group: GroupNode): ElementNode {
   const result: ElementNode = {
@@ -430,8 +610,22 @@ function serializeGroup(group: GroupNode): ElementNode {
   return result
 }
 
-// Serialize fills
-function serializeFills(fills: readonly Paint[]): Fill[] {
+// Gradient stop, with the name of the color variable bound to it
+function serializeGradientStop(stop: ColorStop): GradientStop {
+  const result: GradientStop = {
+    position: stop.position,
+    color: { r: stop.color.r, g: stop.color.g, b: stop.color.b, a: stop.color.a },
+  }
+  const variableId = stop.boundVariables?.color?.id
+  const variable = variableId ? figma.variables.getVariableById(variableId) : null
+  if (variable) {
+    result.colorVariable = variable.name
+  }
+  return result
+}
+
+// Serialize fills (gradient angles depend on the node's size)
+function serializeFills(fills: readonly Paint[], size: { width: number; height: number }): Fill[] {
   return fills
     .filter(fill => fill.visible !== false)
     .map(fill => {
@@ -442,19 +636,32 @@ function serializeFills(fills: readonly Paint[]): Fill[] {
           opacity: fill.opacity,
         }
       }
-      if (fill.type === 'GRADIENT_LINEAR') {
-        return {
-          type: 'GRADIENT_LINEAR' as const,
-          gradientStops: fill.gradientStops.map(stop => ({
-            position: stop.position,
-            color: {
-              r: stop.color.r,
-              g: stop.color.g,
-              b: stop.color.b,
-              a: stop.color.a,
-            },
-          })),
+      if (fill.type === 'GRADIENT_LINEAR' || fill.type === 'GRADIENT_RADIAL' || fill.type === 'GRADIENT_ANGULAR' || fill.type === 'GRADIENT_DIAMOND') {
+        const result: Fill = {
+          type: fill.type,
+          ...describeGradientTransform(fill.type, fill.gradientTransform, size.width, size.height),
+          gradientStops: fill.gradientStops.map(serializeGradientStop),
+        }
+        if (fill.opacity !== undefined && fill.opacity !== 1) {
+          result.opacity = fill.opacity
+        }
+        return result
+      }
+      if (fill.type === 'IMAGE' && fill.imageHash) {
+        const result: Fill = {
+          type: 'IMAGE',
+          image: describeImage(fill.imageHash),
+          scaleMode: fill.scaleMode,
+        }
+        if (fill.opacity !== undefined && fill.opacity !== 1) {
+          result.opacity = fill.opacity
+        }
+        // The transform's scale is the shown size and its offset the position
+        if (fill.scaleMode === 'CROP' && fill.imageTransform) {
+          const [[width, , x], [, height, y]] = fill.imageTransform
+          result.crop = { x, y, width, height }
         }
+        return result
       }
       return null
     })
@@ -0,0 +1,166 @@
+/**
+ * Version stacking for regenerated frames
+ *
+ * In "versions" mode a selected frame or instance is snapshotted before a new
+ * design is rendered into it: a hidden clone goes into the "AI versions"
+ * section on the page. The node and its snapshots share a stack id in plugin
+ * data, so the UI can step through them and restore one.
+ *
+ * Components keep no versions: restoring swaps the snapshot in as the node,
+ * and a snapshot of a component is another main component, so its instances
+ * would be left pointing at the old one.
+ */
+
+import type { FrameVersion } from '../shared/types'
+import { PLACEMENT_CONFIG } from '../shared/constants'
+
+// Plugin data keys: the stack id is on the current frame and every snapshot,
+// the save time only on snapshots, the marker on the section
+const STACK_KEY = 'versionStack'
+const SAVED_AT_KEY = 'versionSavedAt'
+const SECTION_KEY = 'aiVersions'
+
+export type VersionedNode = FrameNode | InstanceNode
+
+// Snapshot currently shown by the UI's version stepper
+let previewed: SceneNode | null = null
+
+function findVersionSection(): SectionNode | null {
+  const section = figma.currentPage.children.find(node =>
+    node.type === 'SECTION' && node.getPluginData(SECTION_KEY) === 'true'
+  )
+  return (section as SectionNode | undefined) || null
+}
+
+// Created beside the first frame that gets a version
+function getVersionSection(near: SceneNode): SectionNode {
+  const existing = findVersionSection()
+  if (existing) return existing
+
+  const section = figma.createSection()
+  section.name = PLACEMENT_CONFIG.VERSIONS_SECTION_NAME
+  section.setPluginData(SECTION_KEY, 'true')
+  const bounds = near.absoluteBoundingBox
+  section.x = bounds ? bounds.x + bounds.width + PLACEMENT_CONFIG.GAP : figma.viewport.center.x
+  section.y = bounds ? bounds.y : figma.viewport.center.y
+  return section
+}
+
+// Lay the snapshots out in a row and fit the section around them
+function layoutSection(section: SectionNode): void {
+  const padding = PLACEMENT_CONFIG.VERSIONS_PADDING
+  let x = padding
+  let height = 0
+  for (const child of section.children) {
+    child.x = x
+    child.y = padding
+    x += child.width + padding
+    height = Math.max(height, child.height)
+  }
+  section.resizeWithoutConstraints(Math.max(x, padding * 2), height + padding * 2)
+}
+
+function findSnapshots(stackId: string): SceneNode[] {
+  const section = findVersionSection()
+  if (!stackId || !section) return []
+  return section.children.filter(node =>
+    node.getPluginData(STACK_KEY) === stackId && node.getPluginData(SAVED_AT_KEY)
+  )
+}
+
+/**
+ * Whether versions of the node can be kept
+ */
+export function isVersioned(node: BaseNode): node is VersionedNode {
+  return node.type === 'FRAME' || node.type === 'INSTANCE'
+}
+
+/**
+ * Keep a hidden copy of the frame before it is changed
+ */
+export function saveVersion(frame: VersionedNode): void {
+  const stackId = frame.getPluginData(STACK_KEY) || frame.id
+  frame.setPluginData(STACK_KEY, stackId)
+
+  const snapshot = frame.clone()
+  snapshot.setPluginData(STACK_KEY, stackId)
+  snapshot.setPluginData(SAVED_AT_KEY, String(Date.now()))
+  snapshot.visible = false
+
+  const section = getVersionSection(frame)
+  section.appendChild(snapshot)
+  layoutSection(section)
+}
+
+/**
+ * Hand the versions of a node over to the node replacing it
+ * (an instance is replaced by a newly rendered frame)
+ */
+export function carryVersions(from: SceneNode, to: SceneNode): void {
+  const stackId = from.getPluginData(STACK_KEY)
+  if (stackId) to.setPluginData(STACK_KEY, stackId)
+}
+
+/**
+ * Earlier versions of a frame, newest first
+ */
+export function listVersions(node: SceneNode): FrameVersion[] {
+  return findSnapshots(node.getPluginData(STACK_KEY))
+    .map(snapshot => ({
+      nodeId: snapshot.id,
+      name: snapshot.name,
+      savedAt: Number(snapshot.getPluginData(SAVED_AT_KEY)),
+    }))
+    .sort((a, b) => b.savedAt - a.savedAt)
+}
+
+/**
+ * Show one snapshot (or none, for the current frame) and bring it into view
+ */
+export function previewVersion(frame: SceneNode, versionId: string | null): void {
+  endPreview()
+  const snapshot = versionId
+    ? findSnapshots(frame.getPluginData(STACK_KEY)).find(node => node.id === versionId)
+    : undefined
+  if (snapshot) {
+    snapshot.visible = true
+    previewed = snapshot
+  }
+  figma.viewport.scrollAndZoomIntoView([snapshot || frame])
+}
+
+/**
+ * Hide the snapshot shown by the last preview
+ */
+export function endPreview(): void {
+  if (previewed && !previewed.removed && previewed.getPluginData(SAVED_AT_KEY)) {
+    previewed.visible = false
+  }
+  previewed = null
+}
+
+/**
+ * Swap a snapshot back in: it takes the frame's place, and the frame becomes a snapshot.
+ * Returns the restored frame, or null when the version is gone.
+ */
+export function restoreVersion(frame: VersionedNode, versionId: string): VersionedNode | null {
+  const snapshot = findSnapshots(frame.getPluginData(STACK_KEY)).find(node => node.id === versionId)
+  const section = findVersionSection()
+  const parent = frame.parent
+  if (!snapshot || !isVersioned(snapshot) || !section || !parent) return null
+
+  endPreview()
+  const { x, y } = frame
+  parent.insertChild(parent.children.indexOf(frame), snapshot)
+  snapshot.x = x
+  snapshot.y = y
+  snapshot.visible = true
+  snapshot.setPluginData(SAVED_AT_KEY, '')
+
+  frame.setPluginData(SAVED_AT_KEY, String(Date.now()))
+  frame.visible = false
+  section.appendChild(frame)
+  layoutSection(section)
+
+  return snapshot
+}
@@ -9,16 +9,213 @@
 
 export const API_CONFIG = {
   CLAUDE: {
-    URL: 'https://api.anthropic.com/v1/messages',
+    BASE_URL: 'https://api.anthropic.com/v1',
+    PATH: '/messages',
     MODEL: 'claude-sonnet-4-20250514',
+    MODELS: ['claude-sonnet-4-20250514', 'claude-opus-4-20250514', 'claude-3-5-haiku-20241022'],
     VERSION: '2023-06-01',
     MAX_TOKENS: 8192,
+    /** Smallest extended-thinking budget the API accepts */
+    MIN_THINKING_BUDGET: 1024,
   },
   OPENAI: {
-    URL: 'https://api.openai.com/v1/chat/completions',
+    BASE_URL: 'https://api.openai.com/v1',
+    PATH: '/chat/completions',
     MODEL: 'gpt-4o',
+    MODELS: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1'],
     MAX_TOKENS: 8192,
   },
+  /** Allowed temperature range per stream format (Claude rejects values above 1) */
+  TEMPERATURE: {
+    ANTHROPIC: { MIN: 0, MAX: 1 },
+    OPENAI: { MIN: 0, MAX: 2 },
+  },
+  /** Defaults for a newly added OpenAI-compatible endpoint (Ollama) */
+  CUSTOM: {
+    BASE_URL: 'http://localhost:11434/v1',
+    MODEL: 'llama3.1',
+  },
+} as const
+
+// =============================================================================
+// DESIGN VARIANTS
+// =============================================================================
+
+export const VARIANT_CONFIG = {
+  /** Most alternatives per request (each is a separate API call) */
+  MAX_COUNT: 4,
+  /** Horizontal gap between variant frames on the canvas */
+  GAP: 80,
+  /** Labels, in order, shown on the frames and in the chat */
+  LABELS: ['A', 'B', 'C', 'D'],
+} as const
+
+// =============================================================================
+// SELECTION PLACEMENT
+// =============================================================================
+
+export const PLACEMENT_CONFIG = {
+  /** Horizontal gap between the selection and a design placed beside it */
+  GAP: 80,
+  /** Name of the section that keeps earlier versions of frames */
+  VERSIONS_SECTION_NAME: 'AI versions',
+  /** Space around and between the versions inside the section */
+  VERSIONS_PADDING: 80,
+} as const
+
+// =============================================================================
+// DESIGN VALIDATION
+// =============================================================================
+
+export const VALIDATION_CONFIG = {
+  /** Schema issues listed on a chat message (the rest are counted) */
+  MAX_LISTED_ISSUES: 8,
+} as const
+
+// =============================================================================
+// RENDER FAILURES
+// =============================================================================
+
+export const PLACEHOLDER_CONFIG = {
+  /** Start of a placeholder's layer name; the failed element's name and the error follow */
+  NAME_PREFIX: 'Failed: ',
+  /** Size used when the failed element has none */
+  WIDTH: 240,
+  HEIGHT: 56,
+  /** Longest error message kept in the layer name */
+  MAX_MESSAGE_LENGTH: 80,
+  COLOR: { r: 0.9, g: 0.2, b: 0.2 },
+} as const
+
+// =============================================================================
+// ICONS
+// =============================================================================
+
+export const ICON_CONFIG = {
+  /** Size of an icon that sets none */
+  DEFAULT_SIZE: 24,
+  /** Icons are drawn in a 24x24 box with 2px strokes */
+  VIEWBOX: 24,
+  STROKE_WIDTH: 2,
+  /** Color of an icon without a color or color variable */
+  DEFAULT_COLOR: { r: 0.1, g: 0.1, b: 0.1 },
+  /** Plugin data key holding the icon name on a rendered icon */
+  PLUGIN_DATA_KEY: 'iconName',
+  /** Start of the layer name of an unknown icon's placeholder */
+  PLACEHOLDER_PREFIX: 'Missing icon: ',
+  PLACEHOLDER_COLOR: { r: 0.6, g: 0.6, b: 0.6 },
+} as const
+
+// =============================================================================
+// IMAGES
+// =============================================================================
+
+export const IMAGE_CONFIG = {
+  /** Asset name of the image attached to the prompt, used by `"image": "reference"` */
+  REFERENCE_NAME: 'Reference',
+  /** Locally generated placeholder images, used by `"image": "placeholder:<name>"` */
+  PLACEHOLDERS: ['photo', 'avatar', 'product', 'pattern'],
+  /** Placeholder used for an image that can't be found */
+  FALLBACK_PLACEHOLDER: 'photo',
+  /** Pixel size of the generated placeholder images */
+  PLACEHOLDER_SIZE: 128,
+  /** Section holding the asset shelf on a page */
+  SHELF_SECTION_NAME: 'AI image assets',
+  SHELF_PADDING: 40,
+  /** Longest edge of an asset's rectangle on the shelf */
+  SHELF_ITEM_SIZE: 160,
+  /** Height of the thumbnails sent to the UI */
+  THUMBNAIL_HEIGHT: 48,
+} as const
+
+// =============================================================================
+// VISUAL REVIEW
+// =============================================================================
+
+export const REVIEW_CONFIG = {
+  /** Upper limit for the review rounds setting */
+  MAX_ROUNDS: 3,
+  /** Longest edge of the exported PNG (larger images are downscaled by the APIs anyway) */
+  EXPORT_MAX_EDGE: 1568,
+  /** Small frames are exported at up to this scale so text stays legible */
+  EXPORT_MAX_SCALE: 2,
+  /** Output budget for the critique itself */
+  MAX_TOKENS: 1024,
+} as const
+
+// =============================================================================
+// PLUGIN MESSAGES
+// =============================================================================
+
+export const PLUGIN_MESSAGE_CONFIG = {
+  /** Longest the UI waits for the plugin to answer a render or export request */
+  RESPONSE_TIMEOUT_MS: 120000,
+} as const
+
+// =============================================================================
+// MODEL PRICING
+// =============================================================================
+
+/**
+ * List prices in USD per million tokens, used for cost estimates.
+ * Dated model ids match by prefix (gpt-4o-2024-08-06 -> gpt-4o).
+ */
+export const MODEL_PRICING: Record<string, { input: number; output: number; cacheRead: number; cacheWrite: number }> = {
+  'claude-opus-4': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  'gpt-4o': { input: 2.5, output: 10, cacheRead: 1.25, cacheWrite: 2.5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cacheRead: 0.075, cacheWrite: 0.15 },
+  'gpt-4.1': { input: 2, output: 8, cacheRead: 0.5, cacheWrite: 2 },
+}
+
+// =============================================================================
+// MOCK PROVIDER
+// =============================================================================
+
+export const MOCK_CONFIG = {
+  PROVIDER_ID: 'mock',
+  /** Recordings kept in clientStorage (oldest are dropped) */
+  MAX_RECORDINGS: 10,
+  /** SSE comment line separating consecutive responses in one transcript */
+  RESPONSE_SEPARATOR: ': next-response',
+} as const
+
+// =============================================================================
+// REQUEST RETRIES
+// =============================================================================
+
+export const RETRY_CONFIG = {
+  /** Retries after the first attempt for rate limits, overload, network and server errors */
+  MAX_RETRIES: 3,
+  /** Backoff base: 1s, 2s, 4s... (plus jitter) when the server gives no retry-after */
+  BASE_DELAY_MS: 1000,
+  /** Longest wait before giving up and reporting the error instead */
+  MAX_DELAY_MS: 60000,
+} as const
+
+// =============================================================================
+// RESPONSE CONTINUATION
+// =============================================================================
+
+export const CONTINUATION_CONFIG = {
+  /** Maximum follow-up requests after a response hits the token limit */
+  MAX_ROUNDS: 3,
+  /** Characters of the previous tail checked for a repeated overlap */
+  MAX_OVERLAP_SEARCH: 200,
+  /** Shortest repeated tail treated as overlap (avoids stripping by coincidence) */
+  MIN_OVERLAP: 8,
+} as const
+
+// =============================================================================
+// CONVERSATION HISTORY
+// =============================================================================
+
+export const CONVERSATION_CONFIG = {
+  /** Token budget for prior chat turns sent with each request */
+  MAX_HISTORY_TOKENS: 12000,
+  /** Rough characters-per-token ratio used for estimating */
+  CHARS_PER_TOKEN: 4,
 } as const
 
 // =============================================================================
@@ -109,7 +306,22 @@ export const PLUGIN_MESSAGE_TYPES = {
   GET_SELECTION: 'get-selection',
   REFRESH_DESIGN_SYSTEM: 'refresh-design-system',
   RENDER_DESIGN: 'render-design',
+  RENDER_PARTIAL: 'render-partial',
+  FINALIZE_PARTIAL: 'finalize-partial',
   REQUEST_SELECTION_DATA: 'request-selection-data',
+  LOAD_RECORDINGS: 'load-recordings',
+  SAVE_RECORDING: 'save-recording',
+  DELETE_RECORDING: 'delete-recording',
+  LOAD_USAGE: 'load-usage',
+  RECORD_USAGE: 'record-usage',
+  RESET_USAGE: 'reset-usage',
+  RENDER_VARIANTS: 'render-variants',
+  PICK_VARIANT: 'pick-variant',
+  DISCARD_VARIANTS: 'discard-variants',
+  EXPORT_FRAME: 'export-frame',
+  APPLY_PATCH: 'apply-patch',
+  PREVIEW_VERSION: 'preview-version',
+  RESTORE_VERSION: 'restore-version',
 
   // Plugin -> UI
   SETTINGS_LOADED: 'settings-loaded',
@@ -119,6 +331,11 @@ export const PLUGIN_MESSAGE_TYPES = {
   GENERATION_PROGRESS: 'generation-progress',
   GENERATION_COMPLETE: 'generation-complete',
   SELECTION_DATA: 'selection-data',
+  RECORDINGS_LOADED: 'recordings-loaded',
+  USAGE_LOADED: 'usage-loaded',
+  VARIANTS_RENDERED: 'variants-rendered',
+  FRAME_EXPORTED: 'frame-exported',
+  VERSIONS_LOADED: 'versions-loaded',
   ERROR: 'error',
 } as const
 
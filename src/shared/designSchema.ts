@@ -0,0 +1,280 @@
+/**
+ * JSON Schema for the design JSON
+ *
+ * Mirrors `FrameNode`/`ElementNode`/`Fill`/`Stroke`/`Effect` in types.ts and is
+ * sent to the providers as a structured-output contract (Claude tool input,
+ * OpenAI response_format). Keep both files in sync when adding properties.
+ */
+
+const COLOR = {
+  type: 'object',
+  properties: {
+    r: { type: 'number', minimum: 0, maximum: 1 },
+    g: { type: 'number', minimum: 0, maximum: 1 },
+    b: { type: 'number', minimum: 0, maximum: 1 },
+  },
+  required: ['r', 'g', 'b'],
+}
+
+const COLOR_WITH_ALPHA = {
+  type: 'object',
+  properties: {
+    ...COLOR.properties,
+    a: { type: 'number', minimum: 0, maximum: 1 },
+  },
+  required: ['r', 'g', 'b'],
+}
+
+const PADDING = {
+  type: 'object',
+  properties: {
+    top: { type: 'number' },
+    right: { type: 'number' },
+    bottom: { type: 'number' },
+    left: { type: 'number' },
+  },
+  required: ['top', 'right', 'bottom', 'left'],
+}
+
+const FILL = {
+  type: 'object',
+  properties: {
+    type: { enum: ['SOLID', 'GRADIENT_LINEAR', 'GRADIENT_RADIAL', 'GRADIENT_ANGULAR', 'GRADIENT_DIAMOND', 'IMAGE'] },
+    color: { $ref: '#/$defs/Color' },
+    colorVariable: { type: 'string', description: 'Color token name from the design system' },
+    opacity: { type: 'number', minimum: 0, maximum: 1 },
+    gradientStops: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          position: { type: 'number', minimum: 0, maximum: 1 },
+          color: { $ref: '#/$defs/ColorWithAlpha' },
+          colorVariable: { type: 'string', description: 'Color token name from the design system' },
+        },
+        required: ['position'],
+      },
+    },
+    angle: { type: 'number', description: 'Gradient direction in degrees clockwise from up, as in CSS (linear default 180: top to bottom)' },
+    center: {
+      type: 'object',
+      description: 'Gradient center as fractions of the layer size (default 0.5, 0.5)',
+      properties: {
+        x: { type: 'number' },
+        y: { type: 'number' },
+      },
+      required: ['x', 'y'],
+    },
+    radius: { type: 'number', minimum: 0, description: 'Radial, angular and diamond gradients: fraction of the layer size (default 0.5)' },
+    gradientTransform: {
+      type: 'array',
+      description: 'Exact gradient placement as a 2x3 matrix; used instead of angle/center/radius',
+      items: { type: 'array', items: { type: 'number' } },
+    },
+    image: { type: 'string', description: 'Image of an IMAGE fill: "reference", "placeholder:<name>" or "asset:<name>"' },
+    scaleMode: { enum: ['FILL', 'FIT', 'CROP', 'TILE'] },
+    crop: {
+      type: 'object',
+      description: 'Part of the image shown with scaleMode CROP, as fractions of its size',
+      properties: {
+        x: { type: 'number', minimum: 0, maximum: 1 },
+        y: { type: 'number', minimum: 0, maximum: 1 },
+        width: { type: 'number', minimum: 0, maximum: 1 },
+        height: { type: 'number', minimum: 0, maximum: 1 },
+      },
+      required: ['x', 'y', 'width', 'height'],
+    },
+    visible: { type: 'boolean' },
+  },
+  required: ['type'],
+}
+
+const STROKE = {
+  type: 'object',
+  properties: {
+    type: { enum: ['SOLID'] },
+    color: { $ref: '#/$defs/Color' },
+    colorVariable: { type: 'string', description: 'Color token name from the design system' },
+    opacity: { type: 'number', minimum: 0, maximum: 1 },
+  },
+  required: ['type'],
+}
+
+const EFFECT = {
+  type: 'object',
+  properties: {
+    type: { enum: ['DROP_SHADOW', 'INNER_SHADOW', 'LAYER_BLUR', 'BACKGROUND_BLUR'] },
+    color: { $ref: '#/$defs/ColorWithAlpha' },
+    offset: {
+      type: 'object',
+      properties: { x: { type: 'number' }, y: { type: 'number' } },
+      required: ['x', 'y'],
+    },
+    radius: { type: 'number', minimum: 0 },
+    spread: { type: 'number' },
+    visible: { type: 'boolean' },
+  },
+  required: ['type'],
+}
+
+// Properties shared by the root frame and FRAME elements
+const CONTAINER_PROPERTIES = {
+  name: { type: 'string' },
+  width: { type: 'number', minimum: 0 },
+  height: { type: 'number', minimum: 0 },
+  layoutMode: { enum: ['NONE', 'HORIZONTAL', 'VERTICAL'] },
+  primaryAxisSizingMode: { enum: ['FIXED', 'HUG', 'FILL'] },
+  counterAxisSizingMode: { enum: ['FIXED', 'HUG', 'FILL'] },
+  primaryAxisAlignItems: { enum: ['MIN', 'CENTER', 'MAX', 'SPACE_BETWEEN'] },
+  counterAxisAlignItems: { enum: ['MIN', 'CENTER', 'MAX'] },
+  padding: { $ref: '#/$defs/Padding' },
+  itemSpacing: { type: 'number' },
+  paddingVariable: { type: 'string', description: 'Spacing token name applied to all four sides' },
+  itemSpacingVariable: { type: 'string', description: 'Spacing token name for the gap between children' },
+  fills: { type: 'array', items: { $ref: '#/$defs/Fill' } },
+  strokes: { type: 'array', items: { $ref: '#/$defs/Stroke' } },
+  cornerRadius: { type: 'number', minimum: 0 },
+  effects: { type: 'array', items: { $ref: '#/$defs/Effect' } },
+  clipsContent: { type: 'boolean' },
+  children: { type: 'array', items: { $ref: '#/$defs/Element' } },
+}
+
+const ELEMENT = {
+  type: 'object',
+  properties: {
+    type: { enum: ['FRAME', 'TEXT', 'RECTANGLE', 'ELLIPSE', 'INSTANCE', 'VECTOR', 'LINE', 'ICON'] },
+    ...CONTAINER_PROPERTIES,
+    x: { type: 'number' },
+    y: { type: 'number' },
+    layoutAlign: { enum: ['STRETCH', 'INHERIT', 'MIN', 'CENTER', 'MAX'] },
+    layoutGrow: { type: 'number', minimum: 0 },
+    layoutPositioning: { enum: ['AUTO', 'ABSOLUTE'] },
+    strokeWeight: { type: 'number', minimum: 0 },
+    opacity: { type: 'number', minimum: 0, maximum: 1 },
+    characters: { type: 'string' },
+    fontSize: { type: 'number', minimum: 1 },
+    fontWeight: { type: 'number', minimum: 100, maximum: 900 },
+    fontFamily: { type: 'string' },
+    textStyleName: { type: 'string', description: 'Text style name from the design system' },
+    textAlignHorizontal: { enum: ['LEFT', 'CENTER', 'RIGHT', 'JUSTIFIED'] },
+    textAlignVertical: { enum: ['TOP', 'CENTER', 'BOTTOM'] },
+    lineHeight: {
+      anyOf: [
+        { type: 'number' },
+        {
+          type: 'object',
+          properties: {
+            value: { type: 'number' },
+            unit: { enum: ['PIXELS', 'PERCENT'] },
+          },
+          required: ['value', 'unit'],
+        },
+      ],
+    },
+    letterSpacing: { type: 'number' },
+    textCase: { enum: ['ORIGINAL', 'UPPER', 'LOWER', 'TITLE'] },
+    textDecoration: { enum: ['NONE', 'UNDERLINE', 'STRIKETHROUGH'] },
+    textRanges: {
+      type: 'array',
+      description: 'Styled ranges of a TEXT element, as offsets into its text after markup is read',
+      items: {
+        type: 'object',
+        properties: {
+          start: { type: 'integer', minimum: 0 },
+          end: { type: 'integer', minimum: 0 },
+          fontFamily: { type: 'string' },
+          fontWeight: { type: 'number', minimum: 100, maximum: 900 },
+          italic: { type: 'boolean' },
+          fontSize: { type: 'number', minimum: 1 },
+          textStyleName: { type: 'string', description: 'Text style name from the design system' },
+          fills: { type: 'array', items: { $ref: '#/$defs/Fill' } },
+          textDecoration: { enum: ['NONE', 'UNDERLINE', 'STRIKETHROUGH'] },
+          href: { type: 'string' },
+          list: { enum: ['BULLET', 'NUMBERED'] },
+        },
+        required: ['start', 'end'],
+      },
+    },
+    componentKey: { type: 'string' },
+    componentProperties: {
+      type: 'object',
+      additionalProperties: { type: ['string', 'boolean'] },
+    },
+    svg: { type: 'string', description: 'SVG markup for a VECTOR element' },
+    vectorPaths: {
+      type: 'array',
+      description: 'SVG path data for a VECTOR element, used when svg is not set',
+      items: {
+        type: 'object',
+        properties: {
+          data: { type: 'string' },
+          windingRule: { enum: ['NONZERO', 'EVENODD', 'NONE'] },
+        },
+        required: ['data'],
+      },
+    },
+    fillRule: { enum: ['NONZERO', 'EVENODD'] },
+    iconName: { type: 'string', description: 'Name of a bundled icon for an ICON element' },
+    size: { type: 'number', minimum: 1, description: 'Width and height of an ICON element' },
+    colorVariable: { type: 'string', description: 'Color token name for an ICON element' },
+  },
+  required: ['type', 'name'],
+}
+
+/**
+ * Schema for the root design object (a `FrameNode`)
+ */
+export const DESIGN_JSON_SCHEMA = {
+  type: 'object',
+  $defs: {
+    Color: COLOR,
+    ColorWithAlpha: COLOR_WITH_ALPHA,
+    Padding: PADDING,
+    Fill: FILL,
+    Stroke: STROKE,
+    Effect: EFFECT,
+    Element: ELEMENT,
+  },
+  properties: CONTAINER_PROPERTIES,
+  required: ['name', 'children'],
+}
+
+/**
+ * Tool the model is forced to call with the design as its input
+ */
+export const DESIGN_TOOL = {
+  NAME: 'render_design',
+  DESCRIPTION: 'Render the screen design in Figma. The input is the complete design JSON for the root frame.',
+} as const
+
+/**
+ * Schema for a selection edit: JSON Patch (RFC 6902) operations against the
+ * serialized selection, mirroring `PatchOperation` in types.ts
+ */
+export const PATCH_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    operations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          op: { enum: ['add', 'remove', 'replace', 'move', 'copy', 'test'] },
+          path: { type: 'string', description: 'JSON Pointer into the current design, e.g. /children/0/fills' },
+          from: { type: 'string', description: 'Source JSON Pointer for move and copy' },
+          value: { description: 'New value for add and replace, expected value for test' },
+        },
+        required: ['op', 'path'],
+      },
+    },
+  },
+  required: ['operations'],
+}
+
+/**
+ * Tool the model is forced to call with the edit operations as its input
+ */
+export const PATCH_TOOL = {
+  NAME: 'edit_design',
+  DESCRIPTION: 'Apply changes to the current design in Figma. The input is a list of JSON Patch operations against the current design JSON.',
+} as const
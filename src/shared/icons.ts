@@ -0,0 +1,229 @@
+/**
+ * @license ISC
+ * Icon path data from Lucide (https://lucide.dev).
+ *
+ * Copyright (c) for portions of Lucide are held by Cole Bemis 2013-2022 as part
+ * of Feather (MIT). All other copyright (c) for Lucide are held by Lucide
+ * Contributors 2022.
+ *
+ * Permission to use, copy, modify, and/or distribute this software for any
+ * purpose with or without fee is hereby granted, provided that the above
+ * copyright notice and this permission notice appear in all copies.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL WARRANTIES
+ * WITH REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF
+ * MERCHANTABILITY AND FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE FOR
+ * ANY SPECIAL, DIRECT, INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY DAMAGES
+ * WHATSOEVER RESULTING FROM LOSS OF USE, DATA OR PROFITS, WHETHER IN AN
+ * ACTION OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION, ARISING OUT OF
+ * OR IN CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
+ *
+ * The Feather (MIT) notice is in THIRD_PARTY_NOTICES.md.
+ */
+
+/**
+ * Bundled icon set
+ *
+ * A subset of Lucide's outline icons: 24x24, drawn with 2px round strokes and
+ * no fill. Each icon is a list of SVG path data; the renderer wraps it in SVG
+ * markup and imports it as a vector. The license block above is kept in the
+ * minified bundles (esbuild keeps @license comments).
+ */
+
+// Circle as two arcs
+function circle(cx: number, cy: number, r: number): string {
+  return `M${cx - r} ${cy}a${r} ${r} 0 1 0 ${2 * r} 0a${r} ${r} 0 1 0 ${-2 * r} 0`
+}
+
+// Rounded rectangle
+function rect(x: number, y: number, width: number, height: number, r: number): string {
+  return `M${x + r} ${y}h${width - 2 * r}a${r} ${r} 0 0 1 ${r} ${r}v${height - 2 * r}a${r} ${r} 0 0 1 ${-r} ${r}` +
+    `h${2 * r - width}a${r} ${r} 0 0 1 ${-r} ${-r}v${2 * r - height}a${r} ${r} 0 0 1 ${r} ${-r}z`
+}
+
+export const ICON_SET: Record<string, string[]> = {
+  'alert-circle': [circle(12, 12, 10), 'M12 8v4', 'M12 16h.01'],
+  'alert-triangle': ['M10.29 3.86 1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z', 'M12 9v4', 'M12 17h.01'],
+  'arrow-down': ['M12 5v14', 'm19 12-7 7-7-7'],
+  'arrow-left': ['M19 12H5', 'm12 19-7-7 7-7'],
+  'arrow-right': ['M5 12h14', 'm12 5 7 7-7 7'],
+  'arrow-up': ['M12 19V5', 'm5 12 7-7 7 7'],
+  'bar-chart': ['M12 20V10', 'M18 20V4', 'M6 20v-4'],
+  bell: ['M6 8a6 6 0 0 1 12 0c0 7 3 9 3 9H3s3-2 3-9', 'M10.3 21a1.94 1.94 0 0 0 3.4 0'],
+  bookmark: ['m19 21-7-4-7 4V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2v16z'],
+  calendar: [rect(3, 4, 18, 18, 2), 'M16 2v4', 'M8 2v4', 'M3 10h18'],
+  camera: ['M14.5 4h-5L7 7H4a2 2 0 0 0-2 2v9a2 2 0 0 0 2 2h16a2 2 0 0 0 2-2V9a2 2 0 0 0-2-2h-3l-2.5-3z', circle(12, 13, 3)],
+  check: ['M20 6 9 17l-5-5'],
+  'check-circle': [circle(12, 12, 10), 'm9 12 2 2 4-4'],
+  'chevron-down': ['m6 9 6 6 6-6'],
+  'chevron-left': ['m15 18-6-6 6-6'],
+  'chevron-right': ['m9 18 6-6-6-6'],
+  'chevron-up': ['m18 15-6-6-6 6'],
+  clock: [circle(12, 12, 10), 'M12 6v6l4 2'],
+  copy: [rect(8, 8, 14, 14, 2), 'M4 16c-1.1 0-2-.9-2-2V4c0-1.1.9-2 2-2h10c1.1 0 2 .9 2 2'],
+  'credit-card': [rect(2, 5, 20, 14, 2), 'M2 10h20'],
+  download: ['M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4', 'm7 10 5 5 5-5', 'M12 15V3'],
+  edit: ['M17 3a2.85 2.83 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5z'],
+  'external-link': ['M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6', 'M15 3h6v6', 'M10 14 21 3'],
+  eye: ['M2 12s3-7 10-7 10 7 10 7-3 7-10 7-10-7-10-7z', circle(12, 12, 3)],
+  'eye-off': [
+    'M9.88 4.24A9.1 9.1 0 0 1 12 4c7 0 10 8 10 8a13.2 13.2 0 0 1-1.67 2.68',
+    'M6.61 6.61A13.5 13.5 0 0 0 2 12s3 7 10 7a9.7 9.7 0 0 0 5.39-1.61',
+    'M14.12 14.12a3 3 0 1 1-4.24-4.24',
+    'm2 2 20 20',
+  ],
+  file: ['M15 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7z', 'M14 2v4a2 2 0 0 0 2 2h4'],
+  filter: ['M22 3H2l8 9.46V19l4 2v-8.54z'],
+  folder: ['M20 20a2 2 0 0 0 2-2V8a2 2 0 0 0-2-2h-7.9a2 2 0 0 1-1.69-.9L9.6 3.9A2 2 0 0 0 7.93 3H4a2 2 0 0 0-2 2v13a2 2 0 0 0 2 2z'],
+  globe: [circle(12, 12, 10), 'M12 2a14.5 14.5 0 0 0 0 20 14.5 14.5 0 0 0 0-20', 'M2 12h20'],
+  grid: ['M3 3h7v7H3z', 'M14 3h7v7h-7z', 'M14 14h7v7h-7z', 'M3 14h7v7H3z'],
+  heart: ['M19 14c1.49-1.46 3-3.21 3-5.5A5.5 5.5 0 0 0 16.5 3c-1.76 0-3 .5-4.5 2-1.5-1.5-2.74-2-4.5-2A5.5 5.5 0 0 0 2 8.5c0 2.3 1.5 4.05 3 5.5l7 7z'],
+  'help-circle': [circle(12, 12, 10), 'M9.09 9a3 3 0 0 1 5.83 1c0 2-3 3-3 3', 'M12 17h.01'],
+  home: ['M3 10 12 3l9 7v10a1 1 0 0 1-1 1h-5v-7h-6v7H4a1 1 0 0 1-1-1z'],
+  image: [rect(3, 3, 18, 18, 2), circle(9, 9, 2), 'm21 15-3.09-3.09a2 2 0 0 0-2.82 0L6 21'],
+  info: [circle(12, 12, 10), 'M12 16v-4', 'M12 8h.01'],
+  link: ['M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71', 'M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71'],
+  list: ['M8 6h13', 'M8 12h13', 'M8 18h13', 'M3 6h.01', 'M3 12h.01', 'M3 18h.01'],
+  lock: [rect(3, 11, 18, 11, 2), 'M7 11V7a5 5 0 0 1 10 0v4'],
+  'log-in': ['M15 3h4a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2h-4', 'm10 17 5-5-5-5', 'M15 12H3'],
+  'log-out': ['M9 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h4', 'm16 17 5-5-5-5', 'M21 12H9'],
+  mail: [rect(2, 4, 20, 16, 2), 'm22 7-10 6L2 7'],
+  'map-pin': ['M20 10c0 6-8 12-8 12s-8-6-8-12a8 8 0 0 1 16 0z', circle(12, 10, 3)],
+  menu: ['M4 6h16', 'M4 12h16', 'M4 18h16'],
+  'message-circle': ['M7.9 20A9 9 0 1 0 4 16.1L2 22z'],
+  'message-square': ['M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z'],
+  mic: ['M12 2a3 3 0 0 0-3 3v7a3 3 0 0 0 6 0V5a3 3 0 0 0-3-3z', 'M19 10v2a7 7 0 0 1-14 0v-2', 'M12 19v3'],
+  minus: ['M5 12h14'],
+  moon: ['M12 3a6 6 0 0 0 9 9 9 9 0 1 1-9-9z'],
+  'more-horizontal': [circle(12, 12, 1), circle(19, 12, 1), circle(5, 12, 1)],
+  'more-vertical': [circle(12, 12, 1), circle(12, 5, 1), circle(12, 19, 1)],
+  pause: ['M6 4h4v16H6z', 'M14 4h4v16h-4z'],
+  phone: ['M22 16.92v3a2 2 0 0 1-2.18 2 19.79 19.79 0 0 1-8.63-3.07 19.5 19.5 0 0 1-6-6 19.79 19.79 0 0 1-3.07-8.67A2 2 0 0 1 4.11 2h3a2 2 0 0 1 2 1.72 12.84 12.84 0 0 0 .7 2.81 2 2 0 0 1-.45 2.11L8.09 9.91a16 16 0 0 0 6 6l1.27-1.27a2 2 0 0 1 2.11-.45 12.84 12.84 0 0 0 2.81.7A2 2 0 0 1 22 16.92z'],
+  play: ['M6 3l14 9-14 9z'],
+  plus: ['M5 12h14', 'M12 5v14'],
+  'refresh-cw': ['M3 12a9 9 0 0 1 9-9 9.75 9.75 0 0 1 6.74 2.74L21 8', 'M21 3v5h-5', 'M21 12a9 9 0 0 1-9 9 9.75 9.75 0 0 1-6.74-2.74L3 16', 'M8 16H3v5'],
+  search: [circle(11, 11, 8), 'm21 21-4.3-4.3'],
+  send: ['m22 2-7 20-4-9-9-4z', 'M22 2 11 13'],
+  settings: [
+    circle(12, 12, 3), circle(12, 12, 7),
+    'M12 2v3', 'M12 19v3', 'M2 12h3', 'M19 12h3',
+    'm4.93 4.93 2.12 2.12', 'm16.95 16.95 2.12 2.12', 'm4.93 19.07 2.12-2.12', 'm16.95 7.05 2.12-2.12',
+  ],
+  share: [circle(18, 5, 3), circle(6, 12, 3), circle(18, 19, 3), 'm8.59 13.51 6.83 3.98', 'm15.41 6.51-6.82 3.98'],
+  'shopping-bag': ['M6 2 3 6v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2V6l-3-4z', 'M3 6h18', 'M16 10a4 4 0 0 1-8 0'],
+  'shopping-cart': [circle(8, 21, 1), circle(19, 21, 1), 'M2.05 2.05h2l2.66 12.42a2 2 0 0 0 2 1.58h9.78a2 2 0 0 0 1.95-1.57l1.65-7.43H5.12'],
+  star: ['M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01z'],
+  sun: [
+    circle(12, 12, 4),
+    'M12 2v2', 'M12 20v2', 'm4.93 4.93 1.41 1.41', 'm17.66 17.66 1.41 1.41',
+    'M2 12h2', 'M20 12h2', 'm6.34 17.66-1.41 1.41', 'm19.07 4.93-1.41 1.41',
+  ],
+  tag: ['M12.59 2.59A2 2 0 0 0 11.17 2H4a2 2 0 0 0-2 2v7.17a2 2 0 0 0 .59 1.42l8.7 8.7a2.43 2.43 0 0 0 3.42 0l6.58-6.58a2.43 2.43 0 0 0 0-3.42z', circle(7.5, 7.5, 0.5)],
+  trash: ['M3 6h18', 'M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6', 'M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2'],
+  'trending-up': ['m22 7-8.5 8.5-5-5L2 17', 'M16 7h6v6'],
+  unlock: [rect(3, 11, 18, 11, 2), 'M7 11V7a5 5 0 0 1 9.9-1'],
+  upload: ['M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4', 'm17 8-5-5-5 5', 'M12 3v12'],
+  user: [circle(12, 8, 4), 'M20 21a8 8 0 0 0-16 0'],
+  users: [circle(9, 7, 4), 'M2 21v-2a4 4 0 0 1 4-4h6a4 4 0 0 1 4 4v2', 'M16 3.13a4 4 0 0 1 0 7.75', 'M22 21v-2a4 4 0 0 0-3-3.87'],
+  x: ['M18 6 6 18', 'm6 6 12 12'],
+  'x-circle': [circle(12, 12, 10), 'm15 9-6 6', 'm9 9 6 6'],
+  zap: ['M13 2 3 14h9l-1 8 10-12h-9z'],
+}
+
+export const ICON_NAMES = Object.keys(ICON_SET)
+
+/**
+ * Other names for bundled icons - Material names, common synonyms - after
+ * lower-casing and joining words with "-"
+ */
+export const ICON_ALIASES: Record<string, string> = {
+  'access-time': 'clock',
+  account: 'user',
+  'account-circle': 'user',
+  add: 'plus',
+  analytics: 'bar-chart',
+  apps: 'grid',
+  'arrow-back': 'arrow-left',
+  'arrow-forward': 'arrow-right',
+  avatar: 'user',
+  back: 'chevron-left',
+  bolt: 'zap',
+  'calendar-today': 'calendar',
+  call: 'phone',
+  cancel: 'x-circle',
+  cart: 'shopping-cart',
+  chart: 'bar-chart',
+  chat: 'message-circle',
+  'chat-bubble': 'message-circle',
+  'check-mark': 'check',
+  checkmark: 'check',
+  close: 'x',
+  cog: 'settings',
+  comment: 'message-square',
+  'content-copy': 'copy',
+  'dark-mode': 'moon',
+  date: 'calendar',
+  delete: 'trash',
+  description: 'file',
+  document: 'file',
+  done: 'check',
+  dots: 'more-horizontal',
+  ellipsis: 'more-horizontal',
+  email: 'mail',
+  envelope: 'mail',
+  error: 'alert-circle',
+  event: 'calendar',
+  'expand-less': 'chevron-up',
+  'expand-more': 'chevron-down',
+  favorite: 'heart',
+  'file-download': 'download',
+  'file-upload': 'upload',
+  'filter-list': 'filter',
+  'flash-on': 'zap',
+  forward: 'chevron-right',
+  gear: 'settings',
+  group: 'users',
+  hamburger: 'menu',
+  help: 'help-circle',
+  house: 'home',
+  language: 'globe',
+  'light-mode': 'sun',
+  like: 'heart',
+  location: 'map-pin',
+  'location-on': 'map-pin',
+  login: 'log-in',
+  logout: 'log-out',
+  'magnifying-glass': 'search',
+  microphone: 'mic',
+  'more-horiz': 'more-horizontal',
+  'more-vert': 'more-vertical',
+  notification: 'bell',
+  notifications: 'bell',
+  'open-in-new': 'external-link',
+  payment: 'credit-card',
+  pencil: 'edit',
+  people: 'users',
+  person: 'user',
+  photo: 'image',
+  'photo-camera': 'camera',
+  picture: 'image',
+  pin: 'map-pin',
+  place: 'map-pin',
+  'play-arrow': 'play',
+  profile: 'user',
+  public: 'globe',
+  question: 'help-circle',
+  rating: 'star',
+  refresh: 'refresh-cw',
+  reload: 'refresh-cw',
+  remove: 'minus',
+  save: 'bookmark',
+  schedule: 'clock',
+  sell: 'tag',
+  tick: 'check',
+  time: 'clock',
+  upgrade: 'trending-up',
+  visibility: 'eye',
+  'visibility-off': 'eye-off',
+  warning: 'alert-triangle',
+}
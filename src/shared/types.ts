@@ -1,16 +1,72 @@
 // AI Provider types
-export type AIProvider = 'claude' | 'openai'
+// Built-in providers use fixed ids ('claude', 'openai'); custom endpoints get generated ids
+export type AIProvider = string
 
-export interface AIProviderConfig {
+/** Wire format of the streaming response */
+export type ProviderStreamFormat = 'anthropic' | 'openai'
+
+/** How the API key is sent: Anthropic-style header, Bearer token, or not at all (local servers) */
+export type ProviderAuthStyle = 'x-api-key' | 'bearer' | 'none'
+
+export interface ProviderDefinition {
   id: AIProvider
   name: string
+  baseUrl: string // e.g. https://api.openai.com/v1 - the handler appends the endpoint path
+  authStyle: ProviderAuthStyle
+  models: string[]
+  defaultModel: string
+  supportsVision: boolean
+  supportsStructuredOutput: boolean
+  streamFormat: ProviderStreamFormat
+  apiKey?: string // Custom providers keep their key here; built-ins use PluginSettings fields
+}
+
+// Per-provider generation parameters chosen in settings
+export interface GenerationParams {
   model: string
-  hasKey: boolean
+  temperature?: number // Unset = provider default
+  maxTokens: number
+  thinkingBudget?: number // Claude extended thinking budget in tokens; 0/unset = off
+}
+
+// Mock provider (replays recorded SSE transcripts instead of calling an API)
+export interface MockProviderSettings {
+  enabled: boolean // Show the mock provider in the selector
+  chunkSize: number // Bytes per replayed chunk - small values split SSE lines mid-way
+  delayMs: number // Pause between chunks
+  record: boolean // Capture live streams as recordings
+}
+
+export const DEFAULT_MOCK_SETTINGS: MockProviderSettings = {
+  enabled: false,
+  chunkSize: 64,
+  delayMs: 15,
+  record: false,
+}
+
+export interface MockRecording {
+  id: string
+  name: string
+  transcript: string // Raw SSE text as received
+  createdAt: number
+}
+
+// Token usage for one or more requests. Input excludes cached tokens, which are billed separately.
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheWriteTokens: number
+  costUsd?: number // Estimate; undefined when the model has no known price
+  cacheSavingsUsd?: number // Estimated saving from prompt caching vs. sending it all uncached
 }
 
-export const AI_PROVIDERS: Record<AIProvider, Omit<AIProviderConfig, 'hasKey'>> = {
-  claude: { id: 'claude', name: 'Claude', model: 'Sonnet' },
-  openai: { id: 'openai', name: 'OpenAI', model: 'GPT-4o' },
+// Accumulated usage for one Figma file (kept in clientStorage)
+export interface UsageTotals extends TokenUsage {
+  generations: number
+  costUsd: number
+  unpricedGenerations: number // Generations with models missing from the price table
+  since: number // Timestamp of the first recorded generation
 }
 
 // Viewport presets
@@ -29,6 +85,15 @@ export const VIEWPORT_PRESETS: Record<ViewportPreset, ViewportSize> = {
   custom: { width: 400, height: 600, name: 'Custom' },
 }
 
+// JSON Patch (RFC 6902) operation; paths are JSON Pointers into the serialized selection
+export type PatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown }
+
 // Message types between UI and plugin
 export type MessageToPlugin =
   | { type: 'generate-screen'; prompt: string; imageData?: string }
@@ -37,8 +102,70 @@ export type MessageToPlugin =
   | { type: 'load-settings' }
   | { type: 'get-selection' }
   | { type: 'refresh-design-system' }
-  | { type: 'render-design'; design: FrameNode; viewport: ViewportSize }
+  | { type: 'render-design'; design: FrameNode; viewport: ViewportSize; streamId?: string; replaceNodeId?: string; replaceMode?: ReplaceMode }
+  | { type: 'render-partial'; streamId: string; viewport: ViewportSize; root?: FrameNode; elements: ElementNode[] }
+  | { type: 'finalize-partial'; streamId: string }
   | { type: 'request-selection-data' }
+  | { type: 'load-recordings' }
+  | { type: 'save-recording'; recording: MockRecording }
+  | { type: 'delete-recording'; id: string }
+  | { type: 'load-usage' }
+  | { type: 'record-usage'; usage: TokenUsage }
+  | { type: 'reset-usage' }
+  | { type: 'render-variants'; designs: FrameNode[]; labels: string[]; viewport: ViewportSize; groupId: string }
+  | { type: 'pick-variant'; groupId: string; nodeId: string }
+  | { type: 'discard-variants'; groupId: string; keepNodeId: string }
+  | { type: 'export-frame'; nodeId: string }
+  | { type: 'apply-patch'; nodeId: string; base: FrameNode; operations: PatchOperation[]; replaceMode?: ReplaceMode }
+  | { type: 'preview-version'; nodeId: string; versionId: string | null }
+  | { type: 'restore-version'; nodeId: string; versionId: string }
+  | { type: 'load-image-assets' }
+  | { type: 'save-image-asset'; name: string; imageData: string }
+  | { type: 'delete-image-asset'; name: string }
+
+// A variant frame placed on the canvas; index refers to the designs sent in render-variants
+export interface RenderedVariant {
+  index: number
+  label: string
+  nodeId: string
+  name: string
+}
+
+// An earlier version of a frame, kept hidden in the "AI versions" section
+export interface FrameVersion {
+  nodeId: string
+  name: string
+  savedAt: number
+}
+
+// Something the renderer had to substitute while rendering
+export type RenderIssueKind = 'text-style' | 'color-variable' | 'spacing-variable' | 'component' | 'font' | 'icon' | 'image'
+
+export interface RenderIssue {
+  kind: RenderIssueKind
+  /** Layer names from the root frame down, e.g. "Home / Header / Title" */
+  path: string
+  /** What the design asked for: a style or variable name, component key or font */
+  requested: string
+  /** What was used instead */
+  substitution: string
+}
+
+// An element that threw while rendering; a placeholder frame stands in for it
+export interface RenderFailure {
+  /** Layer names from the root frame down to the failed element */
+  path: string
+  message: string
+  /** The placeholder frame */
+  nodeId: string
+  /** The element that failed, as it was requested */
+  element: ElementNode
+}
+
+export interface RenderReport {
+  issues: RenderIssue[]
+  failures: RenderFailure[]
+}
 
 export type MessageToUI =
   | { type: 'settings-loaded'; settings: PluginSettings }
@@ -46,8 +173,14 @@ export type MessageToUI =
   | { type: 'design-system-loaded'; designSystem: DesignSystemContext }
   | { type: 'generation-started' }
   | { type: 'generation-progress'; content: string }
-  | { type: 'generation-complete'; success: boolean; message?: string }
+  | { type: 'generation-complete'; success: boolean; message?: string; nodeId?: string; report?: RenderReport }
   | { type: 'selection-data'; data: FrameNode | null }
+  | { type: 'recordings-loaded'; recordings: MockRecording[] }
+  | { type: 'usage-loaded'; totals: UsageTotals | null }
+  | { type: 'variants-rendered'; groupId: string; variants: RenderedVariant[] }
+  | { type: 'frame-exported'; nodeId: string; imageData: string | null }
+  | { type: 'versions-loaded'; nodeId: string; versions: FrameVersion[] }
+  | { type: 'image-assets-loaded'; assets: ImageAsset[] }
   | { type: 'error'; message: string }
 
 // Custom color palette for when no design system is available
@@ -81,11 +214,24 @@ export interface PluginSettings {
   claudeApiKey: string
   openaiApiKey: string
   selectedProvider: AIProvider
+  customProviders: ProviderDefinition[]
+  generationParams: Record<AIProvider, Partial<GenerationParams>>
+  mock: MockProviderSettings
   contextInstructions: string
   viewport: ViewportPreset
   customColors: CustomColorPalette
+  variantCount: number // Alternative designs generated per request (1 = single design)
+  reviewRounds: number // Visual self-review passes after rendering (0 = off)
+  editMode: EditMode
+  replaceMode: ReplaceMode
 }
 
+// How a request against a selected frame is applied: in place as JSON Patch, or by rendering a new frame
+export type EditMode = 'patch' | 'regenerate'
+
+// What happens to the selected frame when a new design is rendered for it
+export type ReplaceMode = 'replace' | 'beside' | 'versions'
+
 export interface SelectionInfo {
   id: string
   name: string
@@ -99,6 +245,7 @@ export interface DesignSystemContext {
   spacingVariables: VariableInfo[]
   textStyles: TextStyleInfo[]
   components: ComponentInfo[]
+  imageAssets?: string[]  // Names of the images on the file's asset shelf
 }
 
 export interface VariableInfo {
@@ -129,6 +276,7 @@ export interface ComponentInfo {
 
 // Design node types for Claude to generate
 export interface FrameNode {
+  id?: string // Figma node id - set by the serializer so edits can find the node again
   name: string
   width?: number
   height?: number
@@ -149,7 +297,8 @@ export interface FrameNode {
 }
 
 export interface ElementNode {
-  type: 'FRAME' | 'TEXT' | 'RECTANGLE' | 'ELLIPSE' | 'INSTANCE' | 'VECTOR' | 'LINE'
+  type: 'FRAME' | 'TEXT' | 'RECTANGLE' | 'ELLIPSE' | 'INSTANCE' | 'VECTOR' | 'LINE' | 'ICON'
+  id?: string // Figma node id (serialized selections only)
   name: string
   width?: number
   height?: number
@@ -178,7 +327,10 @@ export interface ElementNode {
   effects?: Effect[]
   clipsContent?: boolean
   // Text properties
+  // May use inline markup: **bold**, *italic*, [link](url), [span]{color: Token, style: Name},
+  // and lines starting with "- " or "1. " for lists
   characters?: string
+  textRanges?: TextRange[]  // Styling for parts of the text, after markup is taken out
   fontSize?: number
   fontWeight?: number
   fontFamily?: string
@@ -192,20 +344,87 @@ export interface ElementNode {
   // Component instance
   componentKey?: string
   componentProperties?: Record<string, string | boolean>
+  // Vector (SVG markup, or path data)
+  svg?: string
+  vectorPaths?: VectorPathData[]
+  fillRule?: 'NONZERO' | 'EVENODD'  // Default winding rule for paths that don't set one
+  // Icon from the bundled set
+  iconName?: string
+  size?: number  // Width and height of the icon
+  colorVariable?: string  // Icon color variable by name
   // Children
   children?: ElementNode[]
 }
 
+// Styling for characters [start, end) of a TEXT element. Unset properties keep the element's.
+export interface TextRange {
+  start: number
+  end: number
+  fontFamily?: string
+  fontWeight?: number
+  italic?: boolean
+  fontSize?: number
+  textStyleName?: string
+  fills?: Fill[]
+  textDecoration?: 'NONE' | 'UNDERLINE' | 'STRIKETHROUGH'
+  href?: string  // Hyperlink URL
+  list?: 'BULLET' | 'NUMBERED'  // Makes the paragraphs the range touches list items
+}
+
+export type TextRangeStyle = Omit<TextRange, 'start' | 'end'>
+
+// One path of a vector, in SVG path data syntax. NONE is an open path that isn't filled.
+export interface VectorPathData {
+  data: string
+  windingRule?: 'NONZERO' | 'EVENODD' | 'NONE'
+}
+
 // Extended fill with variable reference
 export interface Fill {
-  type: 'SOLID' | 'GRADIENT_LINEAR' | 'GRADIENT_RADIAL' | 'IMAGE'
+  type: 'SOLID' | GradientType | 'IMAGE'
   color?: { r: number; g: number; b: number }
   colorVariable?: string  // Reference to color variable by name
   opacity?: number
-  gradientStops?: Array<{ position: number; color: { r: number; g: number; b: number; a?: number } }>
+  gradientStops?: GradientStop[]
+  // Gradient placement: degrees clockwise from up, as in CSS (linear: the direction
+  // it runs, default 180; others: where the axis points, default 0)
+  angle?: number
+  center?: { x: number; y: number }  // Fractions of the layer's size, default the middle
+  radius?: number  // Radial, angular and diamond: fraction of the layer's size, default 0.5
+  gradientTransform?: GradientTransform  // Exact placement, used instead of angle/center/radius
+  // Image fills: "reference", "placeholder:<name>", "asset:<name>" or "hash:<image hash>"
+  image?: string
+  scaleMode?: 'FILL' | 'FIT' | 'CROP' | 'TILE'
+  crop?: ImageCrop  // Part of the image shown with scaleMode CROP
   visible?: boolean
 }
 
+export type GradientType = 'GRADIENT_LINEAR' | 'GRADIENT_RADIAL' | 'GRADIENT_ANGULAR' | 'GRADIENT_DIAMOND'
+
+export interface GradientStop {
+  position: number
+  color?: { r: number; g: number; b: number; a?: number }
+  colorVariable?: string  // Reference to color variable by name
+}
+
+// Figma's affine transform from the layer's unit square to gradient space
+export type GradientTransform = [[number, number, number], [number, number, number]]
+
+// Region of an image as fractions of its width and height (0-1)
+export interface ImageCrop {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// An image on the file's asset shelf
+export interface ImageAsset {
+  name: string
+  hash: string
+  thumbnail: string | null  // PNG data URL
+}
+
 // Extended stroke with variable reference
 export interface Stroke {
   type: 'SOLID'
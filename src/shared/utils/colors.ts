@@ -65,3 +65,42 @@ export function normalizeHex(hex: string): string {
 
   return normalized.toUpperCase()
 }
+
+// CSS color keywords models tend to use
+const NAMED_COLORS: Record<string, string> = {
+  white: '#ffffff',
+  black: '#000000',
+  red: '#ff0000',
+  green: '#008000',
+  blue: '#0000ff',
+  gray: '#808080',
+  grey: '#808080',
+  transparent: '#00000000',
+}
+
+/**
+ * Parse a CSS color (#rgb, #rgba, #rrggbb, #rrggbbaa, rgb(), rgba() or a basic
+ * keyword) to RGBA in the 0-1 range. Returns null for anything else.
+ */
+export function parseCssColor(value: string): RGBA | null {
+  const text = (NAMED_COLORS[value.trim().toLowerCase()] || value).trim()
+
+  const hex = /^#?([a-f\d]{3,4}|[a-f\d]{6}|[a-f\d]{8})$/i.exec(text)
+  if (hex) {
+    let digits = hex[1]
+    if (digits.length <= 4) {
+      digits = digits.split('').map(d => d + d).join('')
+    }
+    const channel = (i: number) => Math.round((parseInt(digits.slice(i, i + 2), 16) / 255) * 1000) / 1000
+    return { r: channel(0), g: channel(2), b: channel(4), a: digits.length === 8 ? channel(6) : 1 }
+  }
+
+  const rgb = /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)$/i.exec(text)
+  if (rgb) {
+    const channel = (v: string) => Math.round((Math.min(Number(v), 255) / 255) * 1000) / 1000
+    const alpha = rgb[4] === undefined ? 1 : rgb[4].endsWith('%') ? parseFloat(rgb[4]) / 100 : Number(rgb[4])
+    return { r: channel(rgb[1]), g: channel(rgb[2]), b: channel(rgb[3]), a: Math.min(Math.max(alpha, 0), 1) }
+  }
+
+  return null
+}
@@ -0,0 +1,953 @@
+/**
+ * Design JSON normalization
+ *
+ * Models often drift from the schema in predictable ways: hex strings for
+ * colors, 0-255 RGB, CSS property names (`flexDirection`, `gap`,
+ * `borderRadius`), HTML-ish types (`BUTTON`, `DIV`), `padding: 16`,
+ * lowercase enum values. The renderer would silently ignore all of these,
+ * leaving blank elements. This layer rewrites them onto the canonical
+ * `FrameNode`/`ElementNode` shape before rendering and records every rewrite,
+ * path-addressed like the validator (`children[0].fills[0].color: ...`).
+ */
+
+import type { Effect, ElementNode, Fill, FrameNode, Stroke } from '../types'
+import { IMAGE_CONFIG } from '../constants'
+import { parseCssColor } from './colors'
+import { parseRichText } from './richText'
+import { joinPath } from './designValidation'
+
+export interface NormalizedDesign {
+  design: FrameNode
+  /** One line per rewrite: `path: what changed` */
+  rewrites: string[]
+}
+
+// Model output: values are checked before use, and the result is only typed once normalized
+type JsonObject = Record<string, unknown>
+
+const ELEMENT_TYPES = ['FRAME', 'TEXT', 'RECTANGLE', 'ELLIPSE', 'INSTANCE', 'VECTOR', 'LINE', 'ICON']
+
+// HTML/UI-kit names for element types. Frames may get a layout direction too.
+const TYPE_ALIASES: Record<string, { type: ElementNode['type']; layoutMode?: 'HORIZONTAL' | 'VERTICAL' }> = {
+  BUTTON: { type: 'FRAME', layoutMode: 'HORIZONTAL' },
+  INPUT: { type: 'FRAME', layoutMode: 'HORIZONTAL' },
+  TEXT_INPUT: { type: 'FRAME', layoutMode: 'HORIZONTAL' },
+  TEXTFIELD: { type: 'FRAME', layoutMode: 'HORIZONTAL' },
+  TEXT_FIELD: { type: 'FRAME', layoutMode: 'HORIZONTAL' },
+  ROW: { type: 'FRAME', layoutMode: 'HORIZONTAL' },
+  HSTACK: { type: 'FRAME', layoutMode: 'HORIZONTAL' },
+  COLUMN: { type: 'FRAME', layoutMode: 'VERTICAL' },
+  VSTACK: { type: 'FRAME', layoutMode: 'VERTICAL' },
+  STACK: { type: 'FRAME', layoutMode: 'VERTICAL' },
+  CONTAINER: { type: 'FRAME' },
+  DIV: { type: 'FRAME' },
+  VIEW: { type: 'FRAME' },
+  BOX: { type: 'FRAME' },
+  CARD: { type: 'FRAME' },
+  SECTION: { type: 'FRAME' },
+  GROUP: { type: 'FRAME' },
+  AUTO_LAYOUT: { type: 'FRAME' },
+  COMPONENT: { type: 'FRAME' },
+  LABEL: { type: 'TEXT' },
+  HEADING: { type: 'TEXT' },
+  TITLE: { type: 'TEXT' },
+  PARAGRAPH: { type: 'TEXT' },
+  P: { type: 'TEXT' },
+  SPAN: { type: 'TEXT' },
+  LINK: { type: 'TEXT' },
+  H1: { type: 'TEXT' },
+  H2: { type: 'TEXT' },
+  H3: { type: 'TEXT' },
+  H4: { type: 'TEXT' },
+  H5: { type: 'TEXT' },
+  H6: { type: 'TEXT' },
+  RECT: { type: 'RECTANGLE' },
+  IMAGE: { type: 'RECTANGLE' },
+  IMG: { type: 'RECTANGLE' },
+  SVG: { type: 'VECTOR' },
+  PATH: { type: 'VECTOR' },
+  CIRCLE: { type: 'ELLIPSE' },
+  OVAL: { type: 'ELLIPSE' },
+  AVATAR: { type: 'ELLIPSE' },
+  DIVIDER: { type: 'LINE' },
+  SEPARATOR: { type: 'LINE' },
+  HR: { type: 'LINE' },
+}
+
+// Types whose label text becomes a TEXT child
+const LABELLED_TYPES = ['BUTTON', 'INPUT', 'TEXT_INPUT', 'TEXTFIELD', 'TEXT_FIELD']
+
+// CSS-style keys and their schema equivalents; the value is normalized afterwards
+const KEY_RENAMES: Record<string, string> = {
+  flexDirection: 'layoutMode',
+  direction: 'layoutMode',
+  gap: 'itemSpacing',
+  spacing: 'itemSpacing',
+  justifyContent: 'primaryAxisAlignItems',
+  alignItems: 'counterAxisAlignItems',
+  alignSelf: 'layoutAlign',
+  flexGrow: 'layoutGrow',
+  flex: 'layoutGrow',
+  position: 'layoutPositioning',
+  left: 'x',
+  top: 'y',
+  borderRadius: 'cornerRadius',
+  radius: 'cornerRadius',
+  borderWidth: 'strokeWeight',
+  textAlign: 'textAlignHorizontal',
+  verticalAlign: 'textAlignVertical',
+  textTransform: 'textCase',
+  overflow: 'clipsContent',
+}
+
+// Keys that hold the text of a TEXT element
+const TEXT_KEYS = ['text', 'content', 'label', 'value', 'title']
+
+// Enum properties: allowed values, plus aliases after upper-casing (and '-' -> '_')
+const ALIGN_ALIASES = { START: 'MIN', FLEX_START: 'MIN', LEFT: 'MIN', TOP: 'MIN', END: 'MAX', FLEX_END: 'MAX', RIGHT: 'MAX', BOTTOM: 'MAX', MIDDLE: 'CENTER' }
+const SIZING_ALIASES = { AUTO: 'HUG', HUG_CONTENTS: 'HUG', WRAP: 'HUG', WRAP_CONTENT: 'HUG', FILL_CONTAINER: 'FILL', FILL_PARENT: 'FILL', STRETCH: 'FILL' }
+const ENUMS: Record<string, { values: string[]; aliases?: Record<string, string> }> = {
+  layoutMode: { values: ['NONE', 'HORIZONTAL', 'VERTICAL'], aliases: { ROW: 'HORIZONTAL', COLUMN: 'VERTICAL' } },
+  primaryAxisSizingMode: { values: ['FIXED', 'HUG', 'FILL'], aliases: SIZING_ALIASES },
+  counterAxisSizingMode: { values: ['FIXED', 'HUG', 'FILL'], aliases: SIZING_ALIASES },
+  primaryAxisAlignItems: { values: ['MIN', 'CENTER', 'MAX', 'SPACE_BETWEEN'], aliases: ALIGN_ALIASES },
+  // STRETCH is handled separately: it moves to the children
+  counterAxisAlignItems: { values: ['MIN', 'CENTER', 'MAX', 'STRETCH'], aliases: ALIGN_ALIASES },
+  layoutAlign: { values: ['STRETCH', 'INHERIT', 'MIN', 'CENTER', 'MAX'], aliases: { AUTO: 'INHERIT', ...ALIGN_ALIASES } },
+  layoutPositioning: { values: ['AUTO', 'ABSOLUTE'], aliases: { RELATIVE: 'AUTO', STATIC: 'AUTO' } },
+  textAlignHorizontal: { values: ['LEFT', 'CENTER', 'RIGHT', 'JUSTIFIED'], aliases: { JUSTIFY: 'JUSTIFIED', START: 'LEFT', END: 'RIGHT' } },
+  textAlignVertical: { values: ['TOP', 'CENTER', 'BOTTOM'], aliases: { MIDDLE: 'CENTER' } },
+  textCase: { values: ['ORIGINAL', 'UPPER', 'LOWER', 'TITLE'], aliases: { NONE: 'ORIGINAL', UPPERCASE: 'UPPER', LOWERCASE: 'LOWER', CAPITALIZE: 'TITLE' } },
+  textDecoration: { values: ['NONE', 'UNDERLINE', 'STRIKETHROUGH'], aliases: { LINE_THROUGH: 'STRIKETHROUGH' } },
+  fillRule: { values: ['NONZERO', 'EVENODD'], aliases: { NON_ZERO: 'NONZERO', EVEN_ODD: 'EVENODD' } },
+  // Text ranges
+  list: { values: ['BULLET', 'NUMBERED'], aliases: { UNORDERED: 'BULLET', BULLETS: 'BULLET', DISC: 'BULLET', ORDERED: 'NUMBERED', NUMBERS: 'NUMBERED', DECIMAL: 'NUMBERED' } },
+  // Image paints
+  scaleMode: { values: ['FILL', 'FIT', 'CROP', 'TILE'], aliases: { COVER: 'FILL', CONTAIN: 'FIT', REPEAT: 'TILE' } },
+}
+
+// Keys an image paint may put a URL under; images are never fetched
+const IMAGE_URL_KEYS = ['url', 'src', 'imageUrl']
+
+const NUMERIC_KEYS = ['width', 'height', 'x', 'y', 'itemSpacing', 'cornerRadius', 'strokeWeight', 'fontSize', 'letterSpacing', 'layoutGrow', 'opacity', 'size']
+
+const FONT_WEIGHT_NAMES: Record<string, number> = {
+  thin: 100, extralight: 200, light: 300, normal: 400, regular: 400,
+  medium: 500, semibold: 600, bold: 700, extrabold: 800, black: 900,
+}
+
+const PAINT_TYPE_ALIASES: Record<string, string> = {
+  COLOR: 'SOLID',
+  LINEAR_GRADIENT: 'GRADIENT_LINEAR',
+  RADIAL_GRADIENT: 'GRADIENT_RADIAL',
+  LINEAR: 'GRADIENT_LINEAR',
+  RADIAL: 'GRADIENT_RADIAL',
+  ANGULAR: 'GRADIENT_ANGULAR',
+  ANGULAR_GRADIENT: 'GRADIENT_ANGULAR',
+  CONIC: 'GRADIENT_ANGULAR',
+  CONIC_GRADIENT: 'GRADIENT_ANGULAR',
+  DIAMOND: 'GRADIENT_DIAMOND',
+  DIAMOND_GRADIENT: 'GRADIENT_DIAMOND',
+}
+
+// CSS "to <side>" directions as gradient angles (corners as on a square)
+const GRADIENT_DIRECTIONS: Record<string, number> = {
+  top: 0, 'top right': 45, right: 90, 'bottom right': 135,
+  bottom: 180, 'bottom left': 225, left: 270, 'top left': 315,
+}
+
+const EFFECT_TYPE_ALIASES: Record<string, string> = {
+  SHADOW: 'DROP_SHADOW',
+  BOX_SHADOW: 'DROP_SHADOW',
+  BLUR: 'LAYER_BLUR',
+  BACKDROP_BLUR: 'BACKGROUND_BLUR',
+}
+
+// Collects rewrites while walking the tree
+interface Normalizer {
+  rewrites: string[]
+  note: (path: string, change: string) => void
+}
+
+function createNormalizer(): Normalizer {
+  const rewrites: string[] = []
+  return { rewrites, note: (path, change) => rewrites.push(`${path || '(root)'}: ${change}`) }
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function show(value: unknown): string {
+  return JSON.stringify(value)
+}
+
+function enumToken(value: string): string {
+  return value.trim().toUpperCase().replace(/[-\s]/g, '_')
+}
+
+// "16", "16px", "1.5rem" (x16) -> number; null when it isn't numeric
+function parseNumber(value: string): number | null {
+  const match = /^\s*(-?[\d.]+)\s*(px|pt|rem|em)?\s*$/i.exec(value)
+  if (!match) return null
+  const number = Number(match[1])
+  if (Number.isNaN(number)) return null
+  return match[2] && /r?em/i.test(match[2]) ? number * 16 : number
+}
+
+// Color in any common form -> RGBA (0-1), or null
+function toRgba(value: unknown): { r: number; g: number; b: number; a: number } | null {
+  if (typeof value === 'string') return parseCssColor(value)
+  if (!isObject(value)) return null
+
+  const channels = ['r', 'g', 'b'].map(key => typeof value[key] === 'string' ? Number(value[key]) : value[key])
+  if (!channels.every((channel): channel is number => typeof channel === 'number' && !Number.isNaN(channel))) return null
+
+  // Any channel above 1 means the 0-255 scale
+  const scale = channels.some(channel => channel > 1) ? 255 : 1
+  const [r, g, b] = channels.map(channel => Math.round((Math.min(channel, scale) / scale) * 1000) / 1000)
+  const alpha = typeof value.a === 'number' ? value.a : typeof value.alpha === 'number' ? value.alpha : 1
+  return { r, g, b, a: alpha > 1 ? alpha / 100 : alpha }
+}
+
+function shallowEqual(a: unknown, b: JsonObject): boolean {
+  return isObject(a) && Object.keys(b).every(key => a[key] === b[key]) && Object.keys(a).length === Object.keys(b).length
+}
+
+// Fills and strokes: a single paint or color string becomes a list of paint objects
+function normalizePaints(value: unknown, path: string, n: Normalizer): Array<Fill | Stroke> | undefined {
+  let list: unknown[]
+  if (Array.isArray(value)) {
+    list = value
+  } else if (typeof value === 'string' || isObject(value)) {
+    list = [value]
+    n.note(path, 'wrapped in a list')
+  } else {
+    n.note(path, `${show(value)} is not a paint, removed`)
+    return undefined
+  }
+
+  const paints: Array<Fill | Stroke> = []
+  list.forEach((item, index) => {
+    const itemPath = joinPath(path, index)
+    // A bare color (string or {r, g, b}) is a solid paint of that color
+    const bareColor = typeof item === 'string' || (isObject(item) && item.type === undefined && item.color === undefined && toRgba(item) !== null)
+    const paint: JsonObject = bareColor ? { type: 'SOLID', color: item } : isObject(item) ? { ...item } : {}
+    if (bareColor) {
+      n.note(itemPath, `${show(item)} -> SOLID paint`)
+    }
+
+    if (typeof paint.type === 'string') {
+      const token = enumToken(paint.type)
+      const type = PAINT_TYPE_ALIASES[token] || token
+      if (type !== paint.type) {
+        n.note(joinPath(itemPath, 'type'), `${show(paint.type)} -> ${show(type)}`)
+        paint.type = type
+      }
+    } else if (paint.color !== undefined || paint.colorVariable !== undefined) {
+      paint.type = 'SOLID'
+      n.note(joinPath(itemPath, 'type'), 'missing, set to "SOLID"')
+    } else if (paint.gradientStops !== undefined || paint.stops !== undefined) {
+      paint.type = 'GRADIENT_LINEAR'
+      n.note(joinPath(itemPath, 'type'), 'missing, set to "GRADIENT_LINEAR"')
+    } else if (paint.image !== undefined || IMAGE_URL_KEYS.some(key => paint[key] !== undefined)) {
+      paint.type = 'IMAGE'
+      n.note(joinPath(itemPath, 'type'), 'missing, set to "IMAGE"')
+    } else {
+      n.note(itemPath, `${show(item)} is not a paint, removed`)
+      return
+    }
+
+    if (paint.color !== undefined) {
+      const rgba = toRgba(paint.color)
+      if (!rgba) {
+        n.note(joinPath(itemPath, 'color'), `unreadable color ${show(paint.color)}, removed`)
+        delete paint.color
+      } else {
+        const color = { r: rgba.r, g: rgba.g, b: rgba.b }
+        if (!bareColor && !shallowEqual(paint.color, color)) {
+          n.note(joinPath(itemPath, 'color'), `${show(paint.color)} -> ${show(color)}`)
+        }
+        paint.color = color
+        // Paint colors have no alpha channel - it goes to the paint's opacity
+        if (rgba.a < 1 && paint.opacity === undefined) {
+          paint.opacity = rgba.a
+          n.note(joinPath(itemPath, 'opacity'), `set to ${rgba.a} from the color's alpha`)
+        }
+      }
+    }
+
+    if (typeof paint.type === 'string' && paint.type.startsWith('GRADIENT_')) {
+      normalizeGradient(paint, itemPath, n)
+    }
+
+    if (paint.type === 'IMAGE') {
+      for (const key of IMAGE_URL_KEYS.filter(key => paint[key] !== undefined)) {
+        if (paint.image === undefined) {
+          paint.image = `placeholder:${IMAGE_CONFIG.FALLBACK_PLACEHOLDER}`
+          n.note(joinPath(itemPath, key), `external images aren't loaded, ${show(paint[key])} -> ${show(paint.image)}`)
+        } else {
+          n.note(joinPath(itemPath, key), 'removed')
+        }
+        delete paint[key]
+      }
+      normalizeEnum(paint, 'scaleMode', itemPath, n)
+    }
+
+    normalizeUnitInterval(paint, 'opacity', itemPath, n)
+    paints.push(paint as unknown as Fill | Stroke)
+  })
+  return paints
+}
+
+// "90deg", "0.25turn", "to bottom right" -> degrees; null when unreadable
+function parseGradientAngle(value: string): number | null {
+  const text = value.trim().toLowerCase()
+  const direction = /^to\s+(.+)$/.exec(text)
+  if (direction) {
+    const sides = direction[1].split(/\s+/).sort((a, b) => (a === 'top' || a === 'bottom' ? -1 : b === 'top' || b === 'bottom' ? 1 : 0))
+    return GRADIENT_DIRECTIONS[sides.join(' ')] ?? null
+  }
+  const match = /^(-?[\d.]+)\s*(deg|turn|rad)?$/.exec(text)
+  if (!match || Number.isNaN(Number(match[1]))) return null
+  const number = Number(match[1])
+  if (match[2] === 'turn') return number * 360
+  if (match[2] === 'rad') return (number * 180) / Math.PI
+  return number
+}
+
+// Gradient stops and placement: CSS-style angles, percent positions, bare colors
+function normalizeGradient(paint: JsonObject, path: string, n: Normalizer): void {
+  for (const [from, to] of [['stops', 'gradientStops'], ['colors', 'gradientStops'], ['rotation', 'angle'], ['direction', 'angle']]) {
+    if (paint[from] !== undefined && paint[to] === undefined) {
+      paint[to] = paint[from]
+      delete paint[from]
+      n.note(joinPath(path, from), `renamed to ${to}`)
+    }
+  }
+
+  if (typeof paint.angle === 'string') {
+    const angle = parseGradientAngle(paint.angle)
+    if (angle === null) {
+      n.note(joinPath(path, 'angle'), `unreadable angle ${show(paint.angle)}, removed`)
+      delete paint.angle
+    } else {
+      n.note(joinPath(path, 'angle'), `${show(paint.angle)} -> ${angle}`)
+      paint.angle = angle
+    }
+  }
+
+  if (!Array.isArray(paint.gradientStops)) return
+  const stopsPath = joinPath(path, 'gradientStops')
+  const count = paint.gradientStops.length
+  paint.gradientStops = paint.gradientStops.map((item: unknown, index: number) => {
+    const stopPath = joinPath(stopsPath, index)
+    // A bare color is a stop at an even spacing
+    const stop: JsonObject = isObject(item) && (item.color !== undefined || item.colorVariable !== undefined || item.position !== undefined || item.offset !== undefined)
+      ? { ...item }
+      : { color: item }
+    if (stop.position === undefined && stop.offset !== undefined) {
+      stop.position = stop.offset
+      delete stop.offset
+      n.note(joinPath(stopPath, 'offset'), 'renamed to position')
+    }
+    if (typeof stop.position === 'string') {
+      const percent = /^\s*(-?[\d.]+)\s*%\s*$/.exec(stop.position)
+      const position = percent ? Number(percent[1]) / 100 : Number(stop.position)
+      n.note(joinPath(stopPath, 'position'), `${show(stop.position)} -> ${position}`)
+      stop.position = position
+    }
+    if (stop.position === undefined || Number.isNaN(stop.position)) {
+      stop.position = count > 1 ? index / (count - 1) : 0
+      n.note(joinPath(stopPath, 'position'), `missing, set to ${stop.position}`)
+    }
+    normalizeUnitInterval(stop, 'position', stopPath, n)
+
+    if (stop.color !== undefined) {
+      const rgba = toRgba(stop.color)
+      if (!rgba) {
+        n.note(joinPath(stopPath, 'color'), `unreadable color ${show(stop.color)}, removed`)
+        delete stop.color
+      } else if (!shallowEqual(stop.color, rgba)) {
+        n.note(joinPath(stopPath, 'color'), `${show(stop.color)} -> ${show(rgba)}`)
+        stop.color = rgba
+      }
+    }
+    return stop
+  })
+}
+
+function normalizeEffects(value: unknown, path: string, n: Normalizer): Effect[] | undefined {
+  const list = Array.isArray(value) ? value : isObject(value) ? [value] : null
+  if (!list) {
+    n.note(path, `${show(value)} is not an effect list, removed`)
+    return undefined
+  }
+  if (!Array.isArray(value)) n.note(path, 'wrapped in a list')
+
+  return list.filter(isObject).map((item, index) => {
+    const itemPath = joinPath(path, index)
+    const effect: JsonObject = { ...item }
+    if (typeof effect.type === 'string') {
+      const token = enumToken(effect.type)
+      const type = EFFECT_TYPE_ALIASES[token] || token
+      if (type !== effect.type) {
+        n.note(joinPath(itemPath, 'type'), `${show(effect.type)} -> ${show(type)}`)
+        effect.type = type
+      }
+    }
+    if (effect.radius === undefined && typeof effect.blur === 'number') {
+      effect.radius = effect.blur
+      delete effect.blur
+      n.note(joinPath(itemPath, 'blur'), 'renamed to radius')
+    }
+    if (effect.color !== undefined) {
+      const rgba = toRgba(effect.color)
+      if (rgba && !shallowEqual(effect.color, rgba)) {
+        n.note(joinPath(itemPath, 'color'), `${show(effect.color)} -> ${show(rgba)}`)
+        effect.color = rgba
+      }
+    }
+    return effect as unknown as Effect
+  })
+}
+
+// 0-100 percentages become 0-1
+function normalizeUnitInterval(object: JsonObject, key: string, path: string, n: Normalizer): void {
+  const value = object[key]
+  if (typeof value === 'number' && value > 1 && value <= 100) {
+    object[key] = value / 100
+    n.note(joinPath(path, key), `${value} -> ${value / 100} (percent)`)
+  }
+}
+
+// number -> all sides; [all] / [vertical, horizontal] / [top, horizontal, bottom] / [top, right, bottom, left];
+// CSS strings like "16px 24px"; {x, y} / {horizontal, vertical}
+function toPadding(value: unknown): { top: number; right: number; bottom: number; left: number } | null {
+  let values: unknown[] | null = null
+  if (typeof value === 'number') values = [value]
+  else if (typeof value === 'string') values = value.trim().split(/\s+/).map(parseNumber)
+  else if (Array.isArray(value)) values = value.map(v => typeof v === 'string' ? parseNumber(v) : v)
+  else if (isObject(value)) {
+    const horizontal = value.horizontal ?? value.x
+    const vertical = value.vertical ?? value.y
+    const side = (key: string, fallback: unknown) => {
+      const v = value[key] ?? fallback ?? 0
+      return typeof v === 'string' ? parseNumber(v) : v
+    }
+    values = [side('top', vertical), side('right', horizontal), side('bottom', vertical), side('left', horizontal)]
+  }
+
+  if (!values || values.length === 0 || values.length > 4 || values.some(v => typeof v !== 'number')) return null
+  const [top, right = top, bottom = top, left = right] = values as number[]
+  return { top, right, bottom, left }
+}
+
+function normalizePadding(object: JsonObject, path: string, n: Normalizer): void {
+  // Per-side CSS keys merge into one padding object
+  const sides: Record<string, string[]> = {
+    top: ['paddingTop', 'paddingY', 'paddingVertical'],
+    right: ['paddingRight', 'paddingX', 'paddingHorizontal'],
+    bottom: ['paddingBottom', 'paddingY', 'paddingVertical'],
+    left: ['paddingLeft', 'paddingX', 'paddingHorizontal'],
+  }
+  const sideKeys = [...new Set(Object.values(sides).flat())].filter(key => object[key] !== undefined)
+  if (sideKeys.length > 0) {
+    const base = toPadding(object.padding) || { top: 0, right: 0, bottom: 0, left: 0 }
+    for (const [side, keys] of Object.entries(sides)) {
+      const key = keys.find(k => object[k] !== undefined)
+      const value = key ? object[key] : undefined
+      const number = typeof value === 'string' ? parseNumber(value) : value
+      if (typeof number === 'number') base[side as keyof typeof base] = number
+    }
+    sideKeys.forEach(key => delete object[key])
+    object.padding = base
+    n.note(joinPath(path, 'padding'), `merged from ${sideKeys.join(', ')}`)
+    return
+  }
+
+  if (object.padding === undefined) return
+  const padding = toPadding(object.padding)
+  if (!padding) {
+    n.note(joinPath(path, 'padding'), `unreadable padding ${show(object.padding)}, removed`)
+    delete object.padding
+  } else if (!shallowEqual(object.padding, padding)) {
+    n.note(joinPath(path, 'padding'), `${show(object.padding)} -> ${show(padding)}`)
+    object.padding = padding
+  }
+}
+
+function normalizeEnum(object: JsonObject, key: string, path: string, n: Normalizer): void {
+  const value = object[key]
+  const spec = ENUMS[key]
+  if (value === undefined || !spec) return
+  if (typeof value !== 'string') {
+    n.note(joinPath(path, key), `${show(value)} is not a valid value, removed`)
+    delete object[key]
+    return
+  }
+
+  const token = enumToken(value)
+  const canonical = spec.aliases?.[token] || token
+  if (!spec.values.includes(canonical)) {
+    n.note(joinPath(path, key), `unknown value ${show(value)}, removed`)
+    delete object[key]
+  } else if (canonical !== value) {
+    n.note(joinPath(path, key), `${show(value)} -> ${show(canonical)}`)
+    object[key] = canonical
+  }
+}
+
+function normalizeNumbers(object: JsonObject, path: string, n: Normalizer): void {
+  for (const key of NUMERIC_KEYS) {
+    const value = object[key]
+    if (value === undefined || typeof value === 'number') continue
+
+    // width: "100%" means fill the parent
+    if (key === 'width' && value === '100%') {
+      delete object.width
+      if (object.layoutAlign === undefined) object.layoutAlign = 'STRETCH'
+      n.note(joinPath(path, key), '"100%" -> layoutAlign "STRETCH"')
+      continue
+    }
+
+    const number = typeof value === 'string' ? parseNumber(value) : null
+    if (number === null) {
+      n.note(joinPath(path, key), `${show(value)} is not a number, removed`)
+      delete object[key]
+    } else {
+      n.note(joinPath(path, key), `${show(value)} -> ${number}`)
+      object[key] = number
+    }
+  }
+  normalizeUnitInterval(object, 'opacity', path, n)
+}
+
+// Properties the root frame and FRAME elements share
+function normalizeContainer(object: JsonObject, path: string, n: Normalizer): void {
+  for (const [from, to] of Object.entries(KEY_RENAMES)) {
+    if (object[from] === undefined) continue
+    if (object[to] === undefined) {
+      object[to] = object[from]
+      n.note(joinPath(path, from), `renamed to ${to}`)
+    } else {
+      n.note(joinPath(path, from), `dropped, ${to} is already set`)
+    }
+    delete object[from]
+  }
+
+  // CSS display: flex without a direction lays out in a row
+  if (object.display !== undefined) {
+    if (/flex/i.test(String(object.display)) && object.layoutMode === undefined) {
+      object.layoutMode = 'HORIZONTAL'
+      n.note(joinPath(path, 'display'), `${show(object.display)} -> layoutMode "HORIZONTAL"`)
+    }
+    delete object.display
+  }
+
+  if (object.clipsContent !== undefined && typeof object.clipsContent !== 'boolean') {
+    const clips = /hidden|clip/i.test(String(object.clipsContent))
+    n.note(joinPath(path, 'clipsContent'), `${show(object.clipsContent)} -> ${clips}`)
+    object.clipsContent = clips
+  }
+  if (typeof object.layoutGrow === 'boolean') {
+    object.layoutGrow = object.layoutGrow ? 1 : 0
+  }
+
+  // Background and border shorthands become fills and strokes
+  for (const key of ['backgroundColor', 'background', 'bgColor']) {
+    if (object[key] === undefined) continue
+    if (object.fills === undefined) {
+      object.fills = object[key]
+      n.note(joinPath(path, key), 'moved to fills')
+    }
+    delete object[key]
+  }
+  if (typeof object.border === 'string') {
+    const width = parseNumber(object.border.split(/\s+/)[0] || '')
+    const color = object.border.split(/\s+/).find((part: string) => parseCssColor(part))
+    if (object.strokes === undefined && color) object.strokes = color
+    if (object.strokeWeight === undefined && width !== null) object.strokeWeight = width
+    n.note(joinPath(path, 'border'), 'moved to strokes and strokeWeight')
+    delete object.border
+  }
+  if (object.borderColor !== undefined) {
+    if (object.strokes === undefined) {
+      object.strokes = object.borderColor
+      n.note(joinPath(path, 'borderColor'), 'moved to strokes')
+    }
+    delete object.borderColor
+  }
+
+  for (const key of Object.keys(ENUMS)) {
+    normalizeEnum(object, key, path, n)
+  }
+
+  // Figma has no stretch on the parent: children stretch themselves
+  if (object.counterAxisAlignItems === 'STRETCH') {
+    object.counterAxisAlignItems = 'MIN'
+    for (const child of Array.isArray(object.children) ? object.children : []) {
+      if (isObject(child) && child.layoutAlign === undefined) child.layoutAlign = 'STRETCH'
+    }
+    n.note(joinPath(path, 'counterAxisAlignItems'), '"STRETCH" -> "MIN", children set to layoutAlign "STRETCH"')
+  }
+
+  normalizePadding(object, path, n)
+  normalizeNumbers(object, path, n)
+
+  if (object.fills !== undefined) {
+    const fills = normalizePaints(object.fills, joinPath(path, 'fills'), n)
+    if (fills) object.fills = fills
+    else delete object.fills
+  }
+  if (object.strokes !== undefined) {
+    const strokes = normalizePaints(object.strokes, joinPath(path, 'strokes'), n)
+    if (strokes) object.strokes = strokes
+    else delete object.strokes
+  }
+  if (object.effects !== undefined) {
+    const effects = normalizeEffects(object.effects, joinPath(path, 'effects'), n)
+    if (effects) object.effects = effects
+    else delete object.effects
+  }
+
+  if (object.children !== undefined) {
+    if (isObject(object.children)) {
+      object.children = [object.children]
+      n.note(joinPath(path, 'children'), 'wrapped in a list')
+    }
+    if (!Array.isArray(object.children)) {
+      n.note(joinPath(path, 'children'), `${show(object.children)} is not a list, removed`)
+      delete object.children
+    } else {
+      const children: ElementNode[] = []
+      object.children.forEach((child: unknown, index: number) => {
+        const childPath = joinPath(joinPath(path, 'children'), index)
+        if (typeof child === 'string') {
+          // A bare string is a text element
+          children.push({ type: 'TEXT', name: child.slice(0, 40), characters: child })
+          n.note(childPath, 'string -> TEXT element')
+        } else if (isObject(child)) {
+          children.push(normalizeElementObject({ ...child }, childPath, n))
+        } else {
+          n.note(childPath, `${show(child)} is not an element, removed`)
+        }
+      })
+      object.children = children
+    }
+  }
+}
+
+function normalizeElementObject(object: JsonObject, path: string, n: Normalizer): ElementNode {
+  // Type: canonical, an alias, or guessed from the content
+  const rawType = typeof object.type === 'string' ? object.type : ''
+  const token = enumToken(rawType)
+  if (!ELEMENT_TYPES.includes(rawType)) {
+    const alias = TYPE_ALIASES[token]
+    let type: ElementNode['type']
+    if (ELEMENT_TYPES.includes(token)) {
+      type = token as ElementNode['type']
+    } else if (alias) {
+      type = alias.type
+      if (alias.layoutMode && object.layoutMode === undefined && object.flexDirection === undefined) {
+        object.layoutMode = alias.layoutMode
+      }
+    } else {
+      type = object.children !== undefined ? 'FRAME' : TEXT_KEYS.concat('characters').some(key => typeof object[key] === 'string') ? 'TEXT' : 'RECTANGLE'
+    }
+    n.note(joinPath(path, 'type'), `${rawType ? show(rawType) : 'missing'} -> ${show(type)}`)
+    object.type = type
+  }
+
+  if (object.type === 'TEXT') {
+    normalizeTextObject(object, path, n)
+  } else if (object.type === 'VECTOR') {
+    normalizeVectorObject(object, path, n)
+  } else if (object.type === 'ICON') {
+    normalizeIconObject(object, path, n)
+  } else if (LABELLED_TYPES.includes(token) && object.children === undefined) {
+    labelToChild(object, token, path, n)
+  }
+
+  if (typeof object.name !== 'string' || !object.name.trim()) {
+    const label = typeof object.characters === 'string' ? parseRichText(object.characters).characters.trim() : ''
+    const typeName = rawType || String(object.type)
+    object.name = label
+      ? label.slice(0, 40)
+      : typeName.charAt(0).toUpperCase() + typeName.slice(1).toLowerCase()
+    n.note(joinPath(path, 'name'), `missing, set to ${show(object.name)}`)
+  }
+
+  normalizeContainer(object, path, n)
+  return object as unknown as ElementNode
+}
+
+function normalizeTextObject(object: JsonObject, path: string, n: Normalizer): void {
+  if (typeof object.characters !== 'string') {
+    const key = TEXT_KEYS.find(k => typeof object[k] === 'string' || typeof object[k] === 'number')
+    if (key) {
+      object.characters = String(object[key])
+      delete object[key]
+      n.note(joinPath(path, key), 'renamed to characters')
+    } else if (typeof object.characters === 'number') {
+      object.characters = String(object.characters)
+    }
+  }
+
+  // CSS color on text is its fill
+  for (const key of ['color', 'textColor']) {
+    if (object[key] === undefined) continue
+    if (object.fills === undefined) {
+      object.fills = object[key]
+      n.note(joinPath(path, key), 'moved to fills')
+    }
+    delete object[key]
+  }
+
+  if (typeof object.fontWeight === 'string') {
+    const named = FONT_WEIGHT_NAMES[object.fontWeight.toLowerCase().replace(/[-\s]/g, '')]
+    const weight = named ?? parseNumber(object.fontWeight)
+    if (weight) {
+      n.note(joinPath(path, 'fontWeight'), `${show(object.fontWeight)} -> ${weight}`)
+      object.fontWeight = weight
+    } else {
+      n.note(joinPath(path, 'fontWeight'), `unknown weight ${show(object.fontWeight)}, removed`)
+      delete object.fontWeight
+    }
+  }
+
+  // "150%" or a unitless CSS multiplier (1.5) -> percent; "24px" -> pixels
+  const lineHeight = object.lineHeight
+  if (typeof lineHeight === 'string') {
+    const percent = /^\s*([\d.]+)\s*%\s*$/.exec(lineHeight)
+    const number = percent ? null : parseNumber(lineHeight)
+    if (percent) {
+      object.lineHeight = { value: Number(percent[1]), unit: 'PERCENT' }
+    } else if (number !== null) {
+      object.lineHeight = number <= 3 && !/px/i.test(lineHeight) ? { value: Math.round(number * 100), unit: 'PERCENT' } : number
+    } else {
+      delete object.lineHeight
+    }
+    n.note(joinPath(path, 'lineHeight'), `${show(lineHeight)} -> ${object.lineHeight === undefined ? 'removed' : show(object.lineHeight)}`)
+  } else if (typeof lineHeight === 'number' && lineHeight > 0 && lineHeight <= 3) {
+    object.lineHeight = { value: Math.round(lineHeight * 100), unit: 'PERCENT' }
+    n.note(joinPath(path, 'lineHeight'), `${lineHeight} -> ${show(object.lineHeight)} (multiplier)`)
+  }
+
+  for (const key of ['ranges', 'spans', 'runs']) {
+    if (object[key] !== undefined && object.textRanges === undefined) {
+      object.textRanges = object[key]
+      delete object[key]
+      n.note(joinPath(path, key), 'renamed to textRanges')
+    }
+  }
+  if (object.textRanges !== undefined) {
+    normalizeTextRanges(object, path, n)
+  }
+}
+
+// Ranges need numeric start and end; CSS-like shorthands become range properties
+function normalizeTextRanges(object: JsonObject, path: string, n: Normalizer): void {
+  const rangesPath = joinPath(path, 'textRanges')
+  if (!Array.isArray(object.textRanges)) {
+    n.note(rangesPath, `${show(object.textRanges)} is not a list of ranges, removed`)
+    delete object.textRanges
+    return
+  }
+
+  object.textRanges = object.textRanges.filter((item: unknown, index: number) => {
+    const rangePath = joinPath(rangesPath, index)
+    if (!isObject(item)) {
+      n.note(rangePath, `${show(item)} is not a range, removed`)
+      return false
+    }
+    if (item.end === undefined && typeof item.length === 'number' && typeof item.start === 'number') {
+      item.end = item.start + item.length
+      delete item.length
+      n.note(joinPath(rangePath, 'length'), `-> end ${item.end}`)
+    }
+    if (typeof item.start !== 'number' || typeof item.end !== 'number') {
+      n.note(rangePath, 'start or end missing, removed')
+      return false
+    }
+
+    if (typeof item.bold === 'boolean') {
+      if (item.fontWeight === undefined) item.fontWeight = item.bold ? 700 : 400
+      delete item.bold
+      n.note(joinPath(rangePath, 'bold'), `-> fontWeight ${item.fontWeight}`)
+    }
+    if (typeof item.fontWeight === 'string') {
+      const weight = FONT_WEIGHT_NAMES[item.fontWeight.toLowerCase().replace(/[-\s]/g, '')] ?? parseNumber(item.fontWeight)
+      n.note(joinPath(rangePath, 'fontWeight'), `${show(item.fontWeight)} -> ${weight ?? 'removed'}`)
+      if (weight) item.fontWeight = weight
+      else delete item.fontWeight
+    }
+    for (const key of ['url', 'link']) {
+      if (typeof item[key] === 'string' && item.href === undefined) {
+        item.href = item[key]
+        delete item[key]
+        n.note(joinPath(rangePath, key), 'renamed to href')
+      }
+    }
+    // A color or color variable is the range's fill
+    if (item.fills === undefined && (item.color !== undefined || item.colorVariable !== undefined)) {
+      item.fills = item.colorVariable !== undefined ? [{ type: 'SOLID', colorVariable: item.colorVariable }] : item.color
+      n.note(joinPath(rangePath, item.colorVariable !== undefined ? 'colorVariable' : 'color'), 'moved to fills')
+      delete item.color
+      delete item.colorVariable
+    }
+    if (item.fills !== undefined) {
+      const fills = normalizePaints(item.fills, joinPath(rangePath, 'fills'), n)
+      if (fills) item.fills = fills
+      else delete item.fills
+    }
+    normalizeEnum(item, 'list', rangePath, n)
+    normalizeEnum(item, 'textDecoration', rangePath, n)
+    return true
+  })
+}
+
+// Keys that hold the path data of a VECTOR element or of one of its paths
+const PATH_DATA_KEYS = ['d', 'path', 'pathData']
+
+// Path data as a string, a list of strings or `d` attributes -> vectorPaths
+function normalizeVectorObject(object: JsonObject, path: string, n: Normalizer): void {
+  if (object.vectorPaths === undefined && object.svg === undefined) {
+    const key = PATH_DATA_KEYS.find(k => typeof object[k] === 'string')
+    if (key) {
+      object.vectorPaths = [{ data: object[key] }]
+      delete object[key]
+      n.note(joinPath(path, key), 'moved to vectorPaths')
+    }
+  }
+
+  if (object.windingRule !== undefined) {
+    if (object.fillRule === undefined) {
+      object.fillRule = object.windingRule
+      n.note(joinPath(path, 'windingRule'), 'renamed to fillRule')
+    }
+    delete object.windingRule
+  }
+
+  const pathsPath = joinPath(path, 'vectorPaths')
+  if (typeof object.vectorPaths === 'string') {
+    object.vectorPaths = [object.vectorPaths]
+    n.note(pathsPath, 'wrapped in a list')
+  }
+  if (!Array.isArray(object.vectorPaths)) return
+
+  object.vectorPaths = object.vectorPaths.map((item: unknown, index: number) => {
+    const itemPath = joinPath(pathsPath, index)
+    if (typeof item === 'string') {
+      n.note(itemPath, 'path data string -> { data }')
+      return { data: item }
+    }
+    if (!isObject(item)) return item
+    const key = typeof item.data === 'string' ? undefined : PATH_DATA_KEYS.find(k => typeof item[k] === 'string')
+    if (key) {
+      item.data = item[key]
+      delete item[key]
+      n.note(joinPath(itemPath, key), 'renamed to data')
+    }
+    if (typeof item.windingRule === 'string') {
+      const rule = enumToken(item.windingRule).replace('_', '')
+      if (rule !== item.windingRule && ['NONZERO', 'EVENODD', 'NONE'].includes(rule)) {
+        n.note(joinPath(itemPath, 'windingRule'), `${show(item.windingRule)} -> ${show(rule)}`)
+        item.windingRule = rule
+      }
+    }
+    return item
+  })
+}
+
+// Keys that hold the icon name of an ICON element
+const ICON_NAME_KEYS = ['icon', 'glyph', 'symbol']
+
+// Icon name from another key or the layer name; a color is the icon's stroke
+function normalizeIconObject(object: JsonObject, path: string, n: Normalizer): void {
+  if (typeof object.iconName !== 'string') {
+    const key = ICON_NAME_KEYS.find(k => typeof object[k] === 'string')
+    if (key) {
+      object.iconName = object[key]
+      delete object[key]
+      n.note(joinPath(path, key), 'renamed to iconName')
+    } else if (typeof object.name === 'string' && object.name.trim()) {
+      object.iconName = object.name
+      n.note(joinPath(path, 'iconName'), `missing, set to ${show(object.name)}`)
+    }
+  }
+
+  for (const key of ['color', 'iconColor']) {
+    if (object[key] === undefined) continue
+    if (object.strokes === undefined && object.colorVariable === undefined) {
+      object.strokes = object[key]
+      n.note(joinPath(path, key), 'moved to strokes')
+    }
+    delete object[key]
+  }
+}
+
+// A button or input with a label (and text styling) becomes a frame with a TEXT child
+function labelToChild(object: JsonObject, token: string, path: string, n: Normalizer): void {
+  const key = ['characters', 'placeholder', ...TEXT_KEYS].find(k => typeof object[k] === 'string')
+  if (!key) return
+
+  const text: JsonObject = { type: 'TEXT', name: 'Label', characters: object[key] }
+  delete object[key]
+  for (const styleKey of ['fontSize', 'fontWeight', 'fontFamily', 'textStyleName', 'color', 'textColor', 'lineHeight', 'letterSpacing']) {
+    if (object[styleKey] !== undefined) {
+      text[styleKey] = object[styleKey]
+      delete object[styleKey]
+    }
+  }
+
+  object.children = [text]
+  if (token === 'BUTTON') {
+    object.primaryAxisAlignItems = object.primaryAxisAlignItems ?? 'CENTER'
+  }
+  object.counterAxisAlignItems = object.counterAxisAlignItems ?? 'CENTER'
+  object.primaryAxisSizingMode = object.primaryAxisSizingMode ?? 'HUG'
+  object.counterAxisSizingMode = object.counterAxisSizingMode ?? 'HUG'
+  n.note(joinPath(path, key), 'moved into a TEXT child')
+}
+
+/**
+ * Rewrite common model quirks in a design onto the canonical shape.
+ * The input is not modified.
+ */
+export function normalizeDesign(value: FrameNode): NormalizedDesign {
+  const n = createNormalizer()
+  const design: JsonObject = JSON.parse(JSON.stringify(value))
+
+  // A bare element list, or a single element wrapped in a root key
+  if (isObject(design.root) && design.children === undefined) {
+    n.note('root', 'unwrapped')
+    const unwrapped = normalizeDesign(design.root as unknown as FrameNode)
+    return { design: unwrapped.design, rewrites: [...n.rewrites, ...unwrapped.rewrites] }
+  }
+
+  if (typeof design.name !== 'string' || !design.name.trim()) {
+    design.name = 'Generated Screen'
+    n.note('name', 'missing, set to "Generated Screen"')
+  }
+  // The root is a frame; an element type on it means nothing
+  if (design.type !== undefined) {
+    delete design.type
+  }
+
+  normalizeContainer(design, '', n)
+  return { design: design as unknown as FrameNode, rewrites: n.rewrites }
+}
+
+/**
+ * Normalize a single element, e.g. one streamed in before the design is complete
+ * or added by a patch operation. `path` prefixes the recorded rewrites.
+ */
+export function normalizeElement(value: unknown, path = ''): { element: ElementNode | null; rewrites: string[] } {
+  const n = createNormalizer()
+  if (!isObject(value)) {
+    return { element: typeof value === 'string' ? { type: 'TEXT', name: value.slice(0, 40), characters: value } : null, rewrites: [] }
+  }
+  const element = normalizeElementObject(JSON.parse(JSON.stringify(value)), path, n)
+  return { element, rewrites: n.rewrites }
+}
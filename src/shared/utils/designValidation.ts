@@ -0,0 +1,148 @@
+/**
+ * Design JSON validation
+ *
+ * Checks a design against DESIGN_JSON_SCHEMA and reports every problem with
+ * the path of the offending value, e.g.
+ * `children[2].children[0].fills[0].color.r: expected 0..1`.
+ * Supports the JSON Schema subset the design schema uses: type, enum,
+ * properties, required, items, additionalProperties, anyOf, minimum,
+ * maximum and local $refs.
+ */
+
+import { DESIGN_JSON_SCHEMA } from '../designSchema'
+
+export interface ValidationIssue {
+  /** Where the problem is, e.g. `children[0].fills[1].type` ('' for the root) */
+  path: string
+  message: string
+}
+
+interface Schema {
+  $ref?: string
+  $defs?: Record<string, Schema>
+  type?: string | string[]
+  enum?: unknown[]
+  properties?: Record<string, Schema>
+  required?: string[]
+  items?: Schema
+  additionalProperties?: Schema | boolean
+  anyOf?: Schema[]
+  minimum?: number
+  maximum?: number
+}
+
+// JSON type name of a value, as used by the schema's "type" keyword
+function typeOf(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value)
+  if (type === 'integer') return actual === 'number' && Number.isInteger(value)
+  return actual === type
+}
+
+/**
+ * Append a key or array index to a validation path
+ */
+export function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`
+  return path ? `${path}.${key}` : key
+}
+
+function describeRange(schema: Schema): string {
+  if (schema.minimum !== undefined && schema.maximum !== undefined) return `${schema.minimum}..${schema.maximum}`
+  if (schema.minimum !== undefined) return `>= ${schema.minimum}`
+  return `<= ${schema.maximum}`
+}
+
+function resolve(schema: Schema, root: Schema): Schema {
+  if (!schema.$ref) return schema
+  const name = schema.$ref.replace('#/$defs/', '')
+  const target = root.$defs?.[name]
+  if (!target) throw new Error(`Unknown schema reference ${schema.$ref}`)
+  return resolve(target, root)
+}
+
+function validateValue(value: unknown, schemaOrRef: Schema, root: Schema, path: string, issues: ValidationIssue[]): void {
+  const schema = resolve(schemaOrRef, root)
+
+  if (schema.anyOf) {
+    // Report against the first alternative of the right type, or list the allowed types
+    const candidate = schema.anyOf
+      .map(option => resolve(option, root))
+      .find(option => !option.type || [option.type].flat().some(type => matchesType(value, type)))
+    if (candidate) {
+      validateValue(value, candidate, root, path, issues)
+    } else {
+      const types = schema.anyOf.map(option => [resolve(option, root).type].flat().join(' or '))
+      issues.push({ path, message: `expected ${types.join(' or ')}, got ${typeOf(value)}` })
+    }
+    return
+  }
+
+  if (schema.type) {
+    const types = [schema.type].flat()
+    if (!types.some(type => matchesType(value, type))) {
+      issues.push({ path, message: `expected ${types.join(' or ')}, got ${typeOf(value)}` })
+      return
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ path, message: `expected one of ${schema.enum.join(', ')}, got ${JSON.stringify(value)}` })
+    return
+  }
+
+  if (typeof value === 'number') {
+    if ((schema.minimum !== undefined && value < schema.minimum) || (schema.maximum !== undefined && value > schema.maximum)) {
+      issues.push({ path, message: `expected ${describeRange(schema)}, got ${value}` })
+    }
+    return
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.items) {
+      value.forEach((item, index) => validateValue(item, schema.items!, root, joinPath(path, index), issues))
+    }
+    return
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        issues.push({ path: joinPath(path, key), message: 'required property is missing' })
+      }
+    }
+    for (const [key, item] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key]
+      if (propertySchema) {
+        validateValue(item, propertySchema, root, joinPath(path, key), issues)
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateValue(item, schema.additionalProperties, root, joinPath(path, key), issues)
+      }
+      // Unknown properties are allowed - the renderer ignores them
+    }
+  }
+}
+
+/**
+ * Validate a design (a `FrameNode`) against the design schema.
+ * Returns every issue found, in document order; an empty list means valid.
+ */
+export function validateDesign(design: unknown): ValidationIssue[] {
+  const root = DESIGN_JSON_SCHEMA as Schema
+  const issues: ValidationIssue[] = []
+  validateValue(design, root, root, '', issues)
+  return issues
+}
+
+/**
+ * One line per issue: `path: message`
+ */
+export function formatValidationIssue(issue: ValidationIssue): string {
+  return `${issue.path || '(root)'}: ${issue.message}`
+}
@@ -39,16 +39,28 @@ export const FONT_STYLE_TO_WEIGHT: Record<string, number> = {
 }
 
 /**
- * Get font style name from weight number
+ * Get font style name from weight number ("Bold", or "Bold Italic" when italic)
  */
-export function getFontStyle(weight: number): string {
-  return FONT_WEIGHT_TO_STYLE[weight] || 'Regular'
+export function getFontStyle(weight: number, italic = false): string {
+  const style = FONT_WEIGHT_TO_STYLE[weight] || 'Regular'
+  if (!italic) return style
+  return style === 'Regular' ? 'Italic' : `${style} Italic`
+}
+
+/**
+ * Whether a font style name is an italic one
+ */
+export function isItalicStyle(style: string): boolean {
+  return /italic|oblique/i.test(style)
 }
 
 /**
  * Get font weight number from style name
  */
 export function getFontWeight(style: string): number {
+  // "Bold Italic" weighs as much as "Bold"
+  style = style.replace(/\s*(italic|oblique)$/i, '') || 'Regular'
+
   // Try exact match first
   if (FONT_STYLE_TO_WEIGHT[style] !== undefined) {
     return FONT_STYLE_TO_WEIGHT[style]
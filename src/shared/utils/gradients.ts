@@ -0,0 +1,134 @@
+/**
+ * Gradient placement
+ *
+ * Figma places a gradient with `gradientTransform`, a matrix from the layer's
+ * unit square to gradient space, where a linear gradient runs from (0, 0.5)
+ * to (1, 0.5) and the others are centered on (0.5, 0.5) with radius 0.5.
+ * Designs describe the placement the CSS way instead - an angle, a center
+ * and a radius - and these convert between the two. Angles are measured on
+ * the layer as drawn, so they depend on its width and height.
+ */
+
+import type { Fill, GradientTransform, GradientType } from '../types'
+
+// Degrees clockwise from up
+const DEFAULT_LINEAR_ANGLE = 180
+const DEFAULT_ANGLE = 0
+const DEFAULT_RADIUS = 0.5
+// Largest difference between matrix entries that still counts as the same placement
+const TOLERANCE = 2e-3
+
+type Placement = Pick<Fill, 'angle' | 'center' | 'radius'>
+
+function invert([[a, b, c], [d, e, f]]: GradientTransform): GradientTransform {
+  const det = a * e - b * d
+  if (Math.abs(det) < 1e-12) throw new Error('Gradient transform is not invertible')
+  return [
+    [e / det, -b / det, (b * f - c * e) / det],
+    [-d / det, a / det, (c * d - a * f) / det],
+  ]
+}
+
+function apply([[a, b, c], [d, e, f]]: GradientTransform, x: number, y: number): [number, number] {
+  return [a * x + b * y + c, d * x + e * y + f]
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor || 0
+}
+
+// Angle of a direction in the unit square, measured on the layer as drawn
+function angleOf(dx: number, dy: number, width: number, height: number): number {
+  const degrees = (Math.atan2(dx * width, -dy * height) * 180) / Math.PI
+  return round((degrees + 360) % 360, 2)
+}
+
+/**
+ * Gradient transform for a fill's angle, center and radius on a layer of this size.
+ * An explicit `gradientTransform` is used as is.
+ */
+export function gradientTransformFor(fill: Fill, width: number, height: number): GradientTransform {
+  if (fill.gradientTransform) return fill.gradientTransform
+
+  const w = width > 0 ? width : 1
+  const h = height > 0 ? height : 1
+  const cx = fill.center?.x ?? 0.5
+  const cy = fill.center?.y ?? 0.5
+  const linear = fill.type === 'GRADIENT_LINEAR'
+  const radians = ((fill.angle ?? (linear ? DEFAULT_LINEAR_ANGLE : DEFAULT_ANGLE)) * Math.PI) / 180
+  const sin = Math.sin(radians)
+  const cos = Math.cos(radians)
+
+  if (linear) {
+    // As in CSS, the gradient line is long enough for the corners to get the end colors
+    const length = Math.abs(w * sin) + Math.abs(h * cos)
+    const [dx, dy] = [(sin * length) / 2 / w, (-cos * length) / 2 / h]
+    const [startX, startY] = [cx - dx, cy - dy]
+    // Bands of equal color run perpendicular to the line on the layer as drawn
+    const [px, py] = [(-2 * dy * h) / w, (2 * dx * w) / h]
+    // Gradient space -> layer: (0, 0.5) to the start, (1, 0.5) to the end
+    return invert([
+      [2 * dx, px, startX - px / 2],
+      [2 * dy, py, startY - py / 2],
+    ])
+  }
+
+  // The gradient's x axis points along the angle; rotation is in the unit square
+  const theta = Math.atan2(-cos / h, sin / w)
+  const r = fill.radius ?? DEFAULT_RADIUS
+  const [c, s] = [Math.cos(theta), Math.sin(theta)]
+  return invert([
+    [2 * r * c, -2 * r * s, cx - r * (c - s)],
+    [2 * r * s, 2 * r * c, cy - r * (s + c)],
+  ])
+}
+
+function samePlacement(a: GradientTransform, b: GradientTransform, rows: number): boolean {
+  return a.slice(0, rows).every((row, i) => row.every((value, j) => Math.abs(value - b[i][j]) <= TOLERANCE))
+}
+
+/**
+ * Angle, center and radius describing a gradient transform on a layer of this
+ * size, leaving out defaults. A placement they can't express (a skewed or
+ * squashed gradient, a linear one with moved end points) comes back as the
+ * transform itself.
+ */
+export function describeGradientTransform(
+  type: GradientType,
+  transform: GradientTransform,
+  width: number,
+  height: number
+): Placement | Pick<Fill, 'gradientTransform'> {
+  const exact = { gradientTransform: transform.map(row => row.map(value => round(value, 4))) as GradientTransform }
+  let inverse: GradientTransform
+  try {
+    inverse = invert(transform)
+  } catch {
+    return exact
+  }
+
+  const w = width > 0 ? width : 1
+  const h = height > 0 ? height : 1
+  const placement: Placement = {}
+  let center: [number, number]
+  if (type === 'GRADIENT_LINEAR') {
+    const [startX, startY] = apply(inverse, 0, 0.5)
+    const [endX, endY] = apply(inverse, 1, 0.5)
+    center = [(startX + endX) / 2, (startY + endY) / 2]
+    placement.angle = angleOf(endX - startX, endY - startY, w, h)
+  } else {
+    center = apply(inverse, 0.5, 0.5)
+    const [axisX, axisY] = apply(inverse, 1, 0.5)
+    const angle = angleOf(axisX - center[0], axisY - center[1], w, h)
+    const radius = round(Math.hypot(axisX - center[0], axisY - center[1]), 3)
+    if (angle !== DEFAULT_ANGLE) placement.angle = angle
+    if (radius !== DEFAULT_RADIUS) placement.radius = radius
+  }
+  const [cx, cy] = [round(center[0], 3), round(center[1], 3)]
+  if (cx !== 0.5 || cy !== 0.5) placement.center = { x: cx, y: cy }
+
+  // Only the first row matters for a linear gradient: it is the position along it
+  const rebuilt = gradientTransformFor({ type, ...placement }, w, h)
+  return samePlacement(rebuilt, transform, type === 'GRADIENT_LINEAR' ? 1 : 2) ? placement : exact
+}
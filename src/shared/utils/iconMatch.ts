@@ -0,0 +1,85 @@
+/**
+ * Icon name matching
+ *
+ * Resolves whatever name the model asked for to an icon in the bundled set:
+ * the exact name, a differently written one ("ArrowLeft", "arrow_left",
+ * "lucide:arrow-left"), a known alias ("close", "notifications"), a name
+ * that contains an icon's name ("notification-bell-outline") or a typo
+ * ("serach").
+ */
+
+import { ICON_ALIASES, ICON_NAMES, ICON_SET } from '../icons'
+
+export interface IconMatch {
+  /** Name of the bundled icon */
+  name: string
+  /** True when the icon was guessed rather than found under that name or an alias */
+  fuzzy: boolean
+}
+
+// Decoration that doesn't change which icon is meant
+const PREFIX = /^(?:[a-z]+:|(?:mdi|md|ic|icon|fa|lucide|feather)-)/
+const SUFFIX = /-(?:icon|outlined?|filled|rounded|sharp|solid|line|alt|\d+)$/
+
+// "ArrowLeft", "arrow_left", "Icon: Arrow Left" -> "arrow-left", without decoration
+function canonicalName(name: string): string {
+  let result = name
+    .trim()
+    .replace(/([a-z\d])([A-Z])/g, '$1-$2')
+    .toLowerCase()
+    .replace(/[^a-z\d:]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  let previous = ''
+  while (previous !== result) {
+    previous = result
+    result = result.replace(PREFIX, '').replace(SUFFIX, '')
+  }
+  return result
+}
+
+function editDistance(a: string, b: string): number {
+  let row = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i]
+    for (let j = 1; j <= b.length; j++) {
+      next[j] = Math.min(row[j] + 1, next[j - 1] + 1, row[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    row = next
+  }
+  return row[b.length]
+}
+
+// Exact name or alias. Own properties only: "constructor" is no icon.
+function lookup(name: string): string | undefined {
+  if (Object.prototype.hasOwnProperty.call(ICON_SET, name)) return name
+  return Object.prototype.hasOwnProperty.call(ICON_ALIASES, name) ? ICON_ALIASES[name] : undefined
+}
+
+/**
+ * Find the bundled icon for a requested name; null when nothing is close enough
+ */
+export function matchIconName(requested: string): IconMatch | null {
+  const name = canonicalName(requested)
+  if (!name) return null
+
+  const known = lookup(name)
+  if (known) return { name: known, fuzzy: false }
+
+  // The longest icon name or alias whose words all appear in the request
+  const words = new Set(name.split('-'))
+  const contained = [...ICON_NAMES, ...Object.keys(ICON_ALIASES)]
+    .filter(candidate => candidate.split('-').every(word => words.has(word)))
+    .sort((a, b) => b.length - a.length)[0]
+  if (contained) return { name: lookup(contained)!, fuzzy: true }
+
+  // A typo: closest name within a couple of edits
+  const allowed = name.length <= 4 ? 1 : 2
+  let best: { candidate: string; distance: number } | null = null
+  for (const candidate of [...ICON_NAMES, ...Object.keys(ICON_ALIASES)]) {
+    const distance = editDistance(name, candidate)
+    if (distance <= allowed && (!best || distance < best.distance)) {
+      best = { candidate, distance }
+    }
+  }
+  return best ? { name: lookup(best.candidate)!, fuzzy: true } : null
+}
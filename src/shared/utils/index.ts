@@ -3,5 +3,16 @@
  */
 
 export * from './colors'
+export * from './designNormalization'
+export * from './designValidation'
 export * from './fonts'
+export * from './gradients'
+export * from './iconMatch'
+export * from './jsonPatch'
 export * from './jsonRepair'
+export * from './renderReport'
+export * from './richText'
+export * from './streamingJson'
+export * from './svgPath'
+export * from './tolerantJson'
+export * from './usage'
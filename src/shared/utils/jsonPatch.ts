@@ -0,0 +1,191 @@
+/**
+ * JSON Patch (RFC 6902) and JSON Pointer (RFC 6901)
+ *
+ * Used for selection edits: the model returns operations against the
+ * serialized selection instead of the whole updated design.
+ */
+
+import type { PatchOperation } from '../types'
+
+const OPERATIONS = ['add', 'remove', 'replace', 'move', 'copy', 'test']
+
+/**
+ * Split a JSON Pointer into unescaped reference tokens ('' is the whole document)
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') return []
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer "${pointer}": must start with "/"`)
+  }
+  return pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+/**
+ * Build a JSON Pointer from reference tokens
+ */
+export function formatPointer(tokens: Array<string | number>): string {
+  return tokens.map(token => `/${String(token).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('')
+}
+
+// Array index token: "0", "12" (no leading zeros); "-" is only valid for add
+function parseIndex(token: string, length: number, allowEnd: boolean): number {
+  if (allowEnd && token === '-') return length
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new Error(`Invalid array index "${token}"`)
+  }
+  const index = Number(token)
+  if (index > length || (!allowEnd && index === length)) {
+    throw new Error(`Array index ${index} is out of bounds (length ${length})`)
+  }
+  return index
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  return typeof value === 'object' && value !== null
+}
+
+/**
+ * Read the value at a JSON Pointer, or undefined when it doesn't exist
+ */
+export function getAtPointer(document: unknown, pointer: string | string[]): unknown {
+  const tokens = typeof pointer === 'string' ? parsePointer(pointer) : pointer
+  let current = document
+  for (const token of tokens) {
+    if (Array.isArray(current)) {
+      if (!/^(0|[1-9]\d*)$/.test(token)) return undefined
+      current = current[Number(token)]
+    } else if (isContainer(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+      current = (current as Record<string, unknown>)[token]
+    } else {
+      return undefined
+    }
+  }
+  return current
+}
+
+// Parent container and final token of a pointer; the parent must exist
+function resolveParent(document: unknown, tokens: string[]): { parent: Record<string, unknown> | unknown[]; key: string } {
+  const parent = getAtPointer(document, tokens.slice(0, -1))
+  if (!isContainer(parent)) {
+    throw new Error(`Path ${formatPointer(tokens.slice(0, -1)) || '/'} does not exist`)
+  }
+  return { parent, key: tokens[tokens.length - 1] }
+}
+
+/**
+ * Structural equality of JSON values (key order doesn't matter)
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (!isContainer(a) || !isContainer(b) || Array.isArray(a) !== Array.isArray(b)) return false
+  const keysA = Object.keys(a)
+  const keysB = Object.keys(b)
+  if (keysA.length !== keysB.length) return false
+  return keysA.every(key =>
+    Object.prototype.hasOwnProperty.call(b, key) &&
+    deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  )
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value))
+}
+
+// Each operation returns the new document root (only changes when the root itself is replaced)
+function addValue(document: unknown, tokens: string[], value: unknown): unknown {
+  if (tokens.length === 0) return value
+  const { parent, key } = resolveParent(document, tokens)
+  if (Array.isArray(parent)) {
+    parent.splice(parseIndex(key, parent.length, true), 0, value)
+  } else {
+    parent[key] = value
+  }
+  return document
+}
+
+function removeValue(document: unknown, tokens: string[]): unknown {
+  if (tokens.length === 0) {
+    throw new Error('Cannot remove the whole document')
+  }
+  const { parent, key } = resolveParent(document, tokens)
+  if (Array.isArray(parent)) {
+    parent.splice(parseIndex(key, parent.length, false), 1)
+  } else {
+    if (!Object.prototype.hasOwnProperty.call(parent, key)) {
+      throw new Error(`Path ${formatPointer(tokens)} does not exist`)
+    }
+    delete parent[key]
+  }
+  return document
+}
+
+function applyOperation(document: unknown, operation: PatchOperation): unknown {
+  const tokens = parsePointer(operation.path)
+
+  switch (operation.op) {
+    case 'add':
+      return addValue(document, tokens, clone(operation.value))
+    case 'remove':
+      return removeValue(document, tokens)
+    case 'replace':
+      if (tokens.length > 0 && getAtPointer(document, tokens) === undefined) {
+        throw new Error(`Path ${operation.path} does not exist`)
+      }
+      return addValue(removeIfPresent(document, tokens), tokens, clone(operation.value))
+    case 'move': {
+      const from = parsePointer(operation.from)
+      if (tokens.length > from.length && formatPointer(tokens.slice(0, from.length)) === operation.from) {
+        throw new Error(`Cannot move ${operation.from} into its own child ${operation.path}`)
+      }
+      const value = getAtPointer(document, from)
+      if (value === undefined) throw new Error(`Path ${operation.from} does not exist`)
+      return addValue(removeValue(document, from), tokens, value)
+    }
+    case 'copy': {
+      const value = getAtPointer(document, operation.from)
+      if (value === undefined) throw new Error(`Path ${operation.from} does not exist`)
+      return addValue(document, tokens, clone(value))
+    }
+    case 'test':
+      if (!deepEqual(getAtPointer(document, tokens), operation.value)) {
+        throw new Error(`Test failed at ${operation.path}`)
+      }
+      return document
+  }
+}
+
+// Replace swaps the value in place: arrays must not shift, so remove first
+function removeIfPresent(document: unknown, tokens: string[]): unknown {
+  if (tokens.length === 0) return document
+  const { parent } = resolveParent(document, tokens)
+  return Array.isArray(parent) ? removeValue(document, tokens) : document
+}
+
+/**
+ * Apply operations in order to a copy of the document.
+ * Throws on the first failing operation; the input is never modified.
+ */
+export function applyPatch<T>(document: T, operations: PatchOperation[]): T {
+  let result: unknown = clone(document)
+  operations.forEach((operation, index) => {
+    try {
+      result = applyOperation(result, operation)
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      throw new Error(`Patch operation ${index + 1} (${operation.op} ${operation.path}) failed: ${reason}`)
+    }
+  })
+  return result as T
+}
+
+/**
+ * Check the shape of untrusted operations (e.g. parsed from a model response)
+ */
+export function isPatchOperation(value: unknown): value is PatchOperation {
+  if (!isContainer(value) || Array.isArray(value)) return false
+  const { op, path, from } = value as Record<string, unknown>
+  if (typeof op !== 'string' || !OPERATIONS.includes(op) || typeof path !== 'string') return false
+  if ((op === 'move' || op === 'copy') && typeof from !== 'string') return false
+  if ((op === 'add' || op === 'replace' || op === 'test') && !('value' in value)) return false
+  return true
+}
@@ -0,0 +1,54 @@
+/**
+ * Render report formatting for the chat
+ */
+
+import type { RenderFailure, RenderIssue, RenderIssueKind, RenderReport } from '../types'
+
+// Summary groups, in display order
+const GROUPS: Array<{ kinds: RenderIssueKind[]; singular: string; plural: string }> = [
+  { kinds: ['text-style', 'color-variable', 'spacing-variable'], singular: 'token not found', plural: 'tokens not found' },
+  { kinds: ['font'], singular: 'font substituted', plural: 'fonts substituted' },
+  { kinds: ['component'], singular: 'component not imported', plural: 'components not imported' },
+  { kinds: ['icon'], singular: 'icon substituted', plural: 'icons substituted' },
+  { kinds: ['image'], singular: 'image not found', plural: 'images not found' },
+]
+
+const KIND_LABELS: Record<RenderIssueKind, string> = {
+  'text-style': 'Text style',
+  'color-variable': 'Color variable',
+  'spacing-variable': 'Spacing variable',
+  component: 'Component',
+  font: 'Font',
+  icon: 'Icon',
+  image: 'Image',
+}
+
+/**
+ * One-line summary counting distinct requested values, e.g. "3 tokens not found, 1 font substituted"
+ */
+export function summarizeRenderReport(report: RenderReport): string {
+  return GROUPS
+    .map(group => {
+      const requested = new Set(
+        report.issues.filter(issue => group.kinds.includes(issue.kind)).map(issue => `${issue.kind}:${issue.requested}`)
+      )
+      if (requested.size === 0) return ''
+      return `${requested.size} ${requested.size === 1 ? group.singular : group.plural}`
+    })
+    .filter(Boolean)
+    .join(', ')
+}
+
+/**
+ * One line per issue: `path: Kind "requested" -> substitution`
+ */
+export function formatRenderIssue(issue: RenderIssue): string {
+  return `${issue.path || '(root)'}: ${KIND_LABELS[issue.kind]} "${issue.requested}" -> ${issue.substitution}`
+}
+
+/**
+ * One line per failed element: `path: error`
+ */
+export function formatRenderFailure(failure: RenderFailure): string {
+  return `${failure.path || '(root)'}: ${failure.message}`
+}
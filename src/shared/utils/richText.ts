@@ -0,0 +1,396 @@
+/**
+ * Inline markup for rich text
+ *
+ * A TEXT element's characters may carry markdown-like markup, which is taken
+ * out and turned into styled ranges:
+ * - `**bold**`, `*italic*` or `_italic_`
+ * - `[label](https://example.com)` - a hyperlink
+ * - `[label]{color: Text/Link, style: Body/Strong, weight: 600, size: 14}` - other
+ *   styling (`color` takes a color variable name or a CSS color), which may follow a link
+ * - runs of two or more lines starting with `- ` (or `* `, `• `) or `1. ` - bullet and
+ *   numbered list items. A single such line stays as written: `- 20%`,
+ *   `* Required` and `1. Choose a plan` are labels, not lists; a one-item
+ *   list is a `list` text range.
+ * A backslash before a punctuation character keeps it literal.
+ */
+
+import type { Fill, TextRange, TextRangeStyle } from '../types'
+import { parseCssColor, rgbToHex } from './colors'
+
+export interface RichText {
+  characters: string
+  ranges: TextRange[]
+}
+
+interface Segment {
+  text: string
+  style: TextRangeStyle
+}
+
+const LIST_ITEM = /^([-*•+]|\d+[.)])[ \t]+/
+// Consecutive list-like lines it takes to make a list
+const MIN_LIST_ITEMS = 2
+const ESCAPABLE = /[!-/:-@[-`{-~•]/
+// Characters escaped when writing markup
+const SPECIAL = /[\\*_[\]{}]/g
+const WORD = /[\p{L}\p{N}]/u
+const BOLD_WEIGHT = 700
+
+function isSpace(char: string | undefined): boolean {
+  return char === undefined || /\s/.test(char)
+}
+
+function isWord(char: string | undefined): boolean {
+  return char !== undefined && WORD.test(char)
+}
+
+// Index of the delimiter closing an emphasis opened before `from`, or -1
+function findClosing(src: string, from: number, delimiter: string): number {
+  for (let j = from + 1; j < src.length; j++) {
+    if (src[j] === '\\') {
+      j++
+      continue
+    }
+    if (!src.startsWith(delimiter, j)) continue
+    const after = src[j + delimiter.length]
+    // In "***bold italic***" the bold closes on the last two stars
+    if (after === delimiter[0] || isSpace(src[j - 1]) || isWord(after)) continue
+    return j
+  }
+  return -1
+}
+
+// Index of the bracket closing the one at `open`, or -1
+function findBracket(src: string, open: number, closeChar: string): number {
+  const openChar = src[open]
+  let depth = 0
+  for (let j = open; j < src.length; j++) {
+    if (src[j] === '\\') {
+      j++
+    } else if (src[j] === openChar) {
+      depth++
+    } else if (src[j] === closeChar && --depth === 0) {
+      return j
+    }
+  }
+  return -1
+}
+
+function colorFill(value: string): Fill {
+  // CSS colors are written as such; anything else names a color variable
+  if (/^(#|rgba?\(|hsla?\()/i.test(value)) {
+    const rgba = parseCssColor(value)
+    if (rgba) {
+      return { type: 'SOLID', color: { r: rgba.r, g: rgba.g, b: rgba.b }, ...(rgba.a < 1 && { opacity: rgba.a }) }
+    }
+  }
+  // A lowercase CSS name ("red") is used when the file has no such variable
+  const named = /^[a-z]+$/.test(value) ? parseCssColor(value) : null
+  return { type: 'SOLID', colorVariable: value, ...(named && { color: { r: named.r, g: named.g, b: named.b } }) }
+}
+
+// "color: Text/Link, weight: 600, italic" -> style
+function parseAttributes(text: string): TextRangeStyle {
+  const style: TextRangeStyle = {}
+  for (const part of text.split(/[,;]/)) {
+    const match = /^\s*([\w-]+)\s*(?:[:=]\s*(.*?))?\s*$/.exec(part)
+    if (!match) continue
+    const key = match[1].toLowerCase()
+    const value = match[2] ?? ''
+    const enabled = !/^(false|no|off|none)$/i.test(value)
+    switch (key) {
+      case 'color':
+        if (value) style.fills = [colorFill(value)]
+        break
+      case 'style':
+      case 'textstyle':
+        if (value) style.textStyleName = value
+        break
+      case 'weight':
+        if (Number(value) > 0) style.fontWeight = Number(value)
+        break
+      case 'size':
+        if (parseFloat(value) > 0) style.fontSize = parseFloat(value)
+        break
+      case 'font':
+        if (value) style.fontFamily = value
+        break
+      case 'bold':
+        style.fontWeight = enabled ? BOLD_WEIGHT : 400
+        break
+      case 'italic':
+        style.italic = enabled
+        break
+      case 'underline':
+      case 'strikethrough':
+        style.textDecoration = enabled ? (key === 'underline' ? 'UNDERLINE' : 'STRIKETHROUGH') : 'NONE'
+        break
+      case 'decoration': {
+        const decoration = value.toUpperCase().replace(/[^A-Z]/g, '')
+        if (decoration === 'UNDERLINE' || decoration === 'STRIKETHROUGH' || decoration === 'NONE') {
+          style.textDecoration = decoration
+        } else if (decoration === 'LINETHROUGH') {
+          style.textDecoration = 'STRIKETHROUGH'
+        }
+        break
+      }
+    }
+  }
+  return style
+}
+
+function parseInline(src: string, style: TextRangeStyle, out: Segment[]): void {
+  let literal = ''
+  const flush = () => {
+    if (literal) out.push({ text: literal, style })
+    literal = ''
+  }
+
+  let i = 0
+  while (i < src.length) {
+    const char = src[i]
+
+    if (char === '\\' && i + 1 < src.length && ESCAPABLE.test(src[i + 1])) {
+      literal += src[i + 1]
+      i += 2
+      continue
+    }
+
+    // Emphasis opens before a non-space and not inside a word (snake_case, 2*3*4)
+    if ((char === '*' || char === '_') && !isWord(src[i - 1])) {
+      const delimiter = src[i + 1] === char ? char + char : char
+      const close = isSpace(src[i + delimiter.length]) ? -1 : findClosing(src, i + delimiter.length, delimiter)
+      if (close !== -1) {
+        flush()
+        const inner = src.slice(i + delimiter.length, close)
+        parseInline(inner, delimiter.length === 2 ? { ...style, fontWeight: BOLD_WEIGHT } : { ...style, italic: true }, out)
+        i = close + delimiter.length
+        continue
+      }
+    }
+
+    if (char === '[') {
+      const labelEnd = findBracket(src, i, ']')
+      let end = labelEnd + 1
+      const spanStyle: TextRangeStyle = {}
+      if (labelEnd !== -1 && src[end] === '(') {
+        const close = findBracket(src, end, ')')
+        if (close !== -1) {
+          spanStyle.href = src.slice(end + 1, close).trim()
+          end = close + 1
+        }
+      }
+      if (labelEnd !== -1 && src[end] === '{') {
+        const close = findBracket(src, end, '}')
+        if (close !== -1) {
+          Object.assign(spanStyle, parseAttributes(src.slice(end + 1, close)))
+          end = close + 1
+        }
+      }
+      if (labelEnd !== -1 && end > labelEnd + 1) {
+        flush()
+        parseInline(src.slice(i + 1, labelEnd), { ...style, ...spanStyle }, out)
+        i = end
+        continue
+      }
+    }
+
+    literal += char
+    i++
+  }
+  flush()
+}
+
+function sameStyle(a: TextRangeStyle, b: TextRangeStyle): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+// Adds a range, merging it into the previous one when it continues it with the same style
+function pushRange(ranges: TextRange[], range: TextRange): void {
+  const last = ranges[ranges.length - 1]
+  const { start: _lastStart, end: lastEnd, ...lastStyle } = last || { start: 0, end: 0 }
+  const { start, end, ...style } = range
+  if (last && lastEnd === start && sameStyle(lastStyle, style)) {
+    last.end = end
+  } else if (end > start) {
+    ranges.push(range)
+  }
+}
+
+type ListKind = NonNullable<TextRange['list']>
+
+function listKind(line: string): ListKind | null {
+  const item = LIST_ITEM.exec(line)
+  if (!item) return null
+  return /\d/.test(item[1]) ? 'NUMBERED' : 'BULLET'
+}
+
+// The kind of list each line is an item of; null for lines outside runs of MIN_LIST_ITEMS
+function findListItems(lines: string[]): (ListKind | null)[] {
+  const kinds = lines.map(listKind)
+  const items: (ListKind | null)[] = kinds.map(() => null)
+  let runStart = 0
+  kinds.forEach((kind, index) => {
+    if (kind !== kinds[index + 1]) {
+      if (kind && index + 1 - runStart >= MIN_LIST_ITEMS) items.fill(kind, runStart, index + 1)
+      runStart = index + 1
+    }
+  })
+  return items
+}
+
+/**
+ * Take the markup out of a TEXT element's characters: the plain text, and the
+ * styled ranges (offsets into the plain text) the markup described
+ */
+export function parseRichText(markup: string): RichText {
+  let characters = ''
+  const ranges: TextRange[] = []
+  const lists: TextRange[] = []
+
+  const lines = markup.split('\n')
+  const items = findListItems(lines)
+
+  lines.forEach((line, index) => {
+    if (index > 0) characters += '\n'
+    const lineStart = characters.length
+    const list = items[index]
+    const content = list ? line.replace(LIST_ITEM, '') : line
+
+    const segments: Segment[] = []
+    parseInline(content, {}, segments)
+    for (const segment of segments) {
+      const start = characters.length
+      characters += segment.text
+      if (Object.keys(segment.style).length > 0) {
+        pushRange(ranges, { start, end: characters.length, ...segment.style })
+      }
+    }
+
+    if (list) {
+      // Consecutive items of the same kind form one list, newline included
+      const last = lists[lists.length - 1]
+      if (last && last.list === list && last.end === lineStart - 1) {
+        last.end = characters.length
+      } else {
+        lists.push({ start: lineStart, end: characters.length, list })
+      }
+    }
+  })
+
+  return { characters, ranges: [...ranges, ...lists] }
+}
+
+function escapeMarkup(text: string): string {
+  return text.replace(SPECIAL, '\\$&')
+}
+
+// Markup for one run of text with one style; null when the style has no markup
+function formatRun(text: string, style: TextRangeStyle): string | null {
+  const attributes: string[] = []
+  if (style.fontWeight !== undefined && style.fontWeight !== BOLD_WEIGHT) attributes.push(`weight: ${style.fontWeight}`)
+  if (style.italic === false) attributes.push('italic: false')
+  if (style.fontSize !== undefined) attributes.push(`size: ${style.fontSize}`)
+  if (style.fontFamily) attributes.push(`font: ${style.fontFamily}`)
+  if (style.textStyleName) attributes.push(`style: ${style.textStyleName}`)
+  if (style.textDecoration) attributes.push(`decoration: ${style.textDecoration.toLowerCase()}`)
+  if (style.fills) {
+    const [fill, ...rest] = style.fills
+    if (rest.length > 0 || !fill || fill.type !== 'SOLID' || (fill.opacity ?? 1) !== 1) return null
+    if (fill.colorVariable) attributes.push(`color: ${fill.colorVariable}`)
+    else if (fill.color) attributes.push(`color: ${rgbToHex(fill.color)}`)
+    else return null
+  }
+
+  // Whitespace stays outside the markers: "** bold**" wouldn't parse
+  const [, leading, core, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!
+  if (!core) return text
+  let result = escapeMarkup(core)
+  if (style.italic) result = `*${result}*`
+  if (style.fontWeight === BOLD_WEIGHT) result = `**${result}**`
+  if (style.href || attributes.length > 0) {
+    result = `[${result}]${style.href ? `(${style.href})` : ''}${attributes.length > 0 ? `{${attributes.join(', ')}}` : ''}`
+  }
+  return leading + result + trailing
+}
+
+/**
+ * Write plain characters and styled ranges as markup. Ranges markup can't
+ * express (gradient or several fills) come back as ranges, with offsets into
+ * the plain text. Text without ranges is returned as is unless it would be
+ * read as markup.
+ */
+export function formatRichText(characters: string, ranges: TextRange[]): RichText {
+  if (ranges.length === 0) {
+    const parsed = parseRichText(characters)
+    if (parsed.characters === characters && parsed.ranges.length === 0) {
+      return { characters, ranges: [] }
+    }
+  }
+
+  const leftover: TextRange[] = []
+  const inline = ranges.filter(range => !range.list)
+  // A one-item list would be read back as a plain line, so it stays a range
+  const lists: TextRange[] = []
+  for (const range of ranges.filter(range => range.list)) {
+    const lineCount = characters.slice(range.start, range.end).replace(/\n$/, '').split('\n').length
+    if (lineCount >= MIN_LIST_ITEMS) lists.push(range)
+    else leftover.push(range)
+  }
+  const lines: string[] = []
+  let offset = 0
+  let number = 0
+
+  for (const line of characters.split('\n')) {
+    const lineStart = offset
+    const lineEnd = offset + line.length
+    offset = lineEnd + 1
+
+    // The run boundaries within this line
+    const cuts = new Set([lineStart, lineEnd])
+    for (const range of inline) {
+      if (range.start > lineStart && range.start < lineEnd) cuts.add(range.start)
+      if (range.end > lineStart && range.end < lineEnd) cuts.add(range.end)
+    }
+    const points = [...cuts].sort((a, b) => a - b)
+
+    let text = ''
+    for (let k = 0; k < points.length - 1; k++) {
+      const [start, end] = [points[k], points[k + 1]]
+      const style: TextRangeStyle = {}
+      for (const range of inline) {
+        if (range.start <= start && range.end >= end) {
+          const { start: _start, end: _end, ...rangeStyle } = range
+          Object.assign(style, rangeStyle)
+        }
+      }
+      const run = characters.slice(start, end)
+      const formatted = Object.keys(style).length > 0 ? formatRun(run, style) : escapeMarkup(run)
+      if (formatted === null) {
+        // Everything but the fills as markup, the fills as a range
+        const { fills, ...rest } = style
+        text += formatRun(run, rest) ?? escapeMarkup(run)
+        leftover.push({ start, end, fills })
+      } else {
+        text += formatted
+      }
+    }
+
+    const list = lists.find(range => range.start <= lineStart && range.end > lineStart)?.list
+    if (list === 'NUMBERED') {
+      number++
+      text = `${number}. ${text}`
+    } else {
+      number = 0
+      if (list === 'BULLET') {
+        text = `- ${text}`
+      } else if (LIST_ITEM.test(text)) {
+        // A line that only looks like a list item: "\- text", "1\. text"
+        text = /^\d/.test(text) ? text.replace(/^(\d+)/, '$1\\') : `\\${text}`
+      }
+    }
+    lines.push(text)
+  }
+
+  return { characters: lines.join('\n'), ranges: leftover }
+}
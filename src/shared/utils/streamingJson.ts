@@ -0,0 +1,68 @@
+/**
+ * Incremental parser for streamed design JSON
+ *
+ * Feeds the response to the tolerant JSON parser as it grows and emits each
+ * top-level child of the root frame as soon as it is complete, so the design
+ * can be rendered section by section while the model is still writing.
+ */
+
+import type { ElementNode, FrameNode } from '../types'
+import { createTolerantJsonParser } from './tolerantJson'
+
+export interface DesignStreamUpdate {
+  /** Root frame properties (without children), emitted once when "children" opens */
+  root?: FrameNode
+  /** Top-level children completed since the previous update */
+  elements: ElementNode[]
+}
+
+export interface DesignStreamParser {
+  /** Feed the accumulated response text; only the unseen suffix is scanned */
+  write: (fullText: string) => DesignStreamUpdate
+  /** Number of top-level children emitted so far */
+  emittedCount: () => number
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Create a parser for one streamed response
+ */
+export function createDesignStreamParser(): DesignStreamParser {
+  let rootEmitted = false
+  let completed: ElementNode[] = []
+  let emitted = 0
+
+  const parser = createTolerantJsonParser({
+    onValue: (path, value) => {
+      if (path.length === 2 && path[0] === 'children' && typeof path[1] === 'number' && isObject(value)) {
+        completed.push(value as unknown as ElementNode)
+        emitted++
+      }
+    },
+  })
+
+  function write(fullText: string): DesignStreamUpdate {
+    parser.write(fullText)
+    const update: DesignStreamUpdate = { elements: completed }
+    completed = []
+
+    if (!rootEmitted) {
+      const { value } = parser.result()
+      if (isObject(value) && Array.isArray(value.children)) {
+        rootEmitted = true
+        const { children: _children, ...root } = value
+        update.root = { name: 'Generated Screen', ...root } as FrameNode
+      }
+    }
+
+    return update
+  }
+
+  return {
+    write,
+    emittedCount: () => emitted,
+  }
+}
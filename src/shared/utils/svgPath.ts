@@ -0,0 +1,236 @@
+/**
+ * SVG path data for Figma vectors
+ *
+ * Figma's `vectorPaths` only take absolute M, L, Q, C and Z commands. Path
+ * data from the model or copied out of an SVG file uses the full syntax -
+ * relative commands, H and V, smooth curves and arcs - so it is rewritten
+ * into that subset before it reaches a vector node.
+ */
+
+const COMMAND = /[MmLlHhVvCcSsQqTtAaZz]/
+const NUMBER = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/
+
+// Coordinates are rounded to keep the output short
+function format(value: number): string {
+  return String(Math.round(value * 1000) / 1000)
+}
+
+// Angle from vector u to vector v, signed
+function vectorAngle(ux: number, uy: number, vx: number, vy: number): number {
+  const sign = ux * vy - uy * vx < 0 ? -1 : 1
+  const cos = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy))
+  return sign * Math.acos(Math.min(1, Math.max(-1, cos)))
+}
+
+// Elliptical arc as cubic curves of at most 90 degrees each (SVG spec, appendix B.2.4)
+function arcToCubics(
+  x1: number, y1: number,
+  radiusX: number, radiusY: number, rotation: number, largeArc: boolean, sweep: boolean,
+  x2: number, y2: number
+): number[][] {
+  const phi = (rotation * Math.PI) / 180
+  const cosPhi = Math.cos(phi)
+  const sinPhi = Math.sin(phi)
+  const dx = (x1 - x2) / 2
+  const dy = (y1 - y2) / 2
+  const x1p = cosPhi * dx + sinPhi * dy
+  const y1p = -sinPhi * dx + cosPhi * dy
+
+  // Radii too small to reach the end point are scaled up
+  let rx = Math.abs(radiusX)
+  let ry = Math.abs(radiusY)
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry)
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda)
+    ry *= Math.sqrt(lambda)
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p
+  const coefficient = Math.sqrt(Math.max(0, numerator / denominator)) * (largeArc === sweep ? -1 : 1)
+  const cxp = (coefficient * rx * y1p) / ry
+  const cyp = (-coefficient * ry * x1p) / rx
+  const cx = cosPhi * cxp - sinPhi * cyp + (x1 + x2) / 2
+  const cy = sinPhi * cxp + cosPhi * cyp + (y1 + y2) / 2
+
+  const theta = vectorAngle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry)
+  let delta = vectorAngle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry)
+  if (!sweep && delta > 0) delta -= 2 * Math.PI
+  if (sweep && delta < 0) delta += 2 * Math.PI
+
+  const segments = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2)))
+  const step = delta / segments
+  const k = (4 / 3) * Math.tan(step / 4)
+  const point = (t: number) => [
+    cx + rx * Math.cos(t) * cosPhi - ry * Math.sin(t) * sinPhi,
+    cy + rx * Math.cos(t) * sinPhi + ry * Math.sin(t) * cosPhi,
+  ]
+  const tangent = (t: number) => [
+    -rx * Math.sin(t) * cosPhi - ry * Math.cos(t) * sinPhi,
+    -rx * Math.sin(t) * sinPhi + ry * Math.cos(t) * cosPhi,
+  ]
+
+  const curves: number[][] = []
+  for (let i = 0; i < segments; i++) {
+    const t1 = theta + i * step
+    const t2 = t1 + step
+    const [px1, py1] = point(t1)
+    const [tx1, ty1] = tangent(t1)
+    const [tx2, ty2] = tangent(t2)
+    // The last segment ends exactly on the requested point
+    const [px2, py2] = i === segments - 1 ? [x2, y2] : point(t2)
+    curves.push([px1 + k * tx1, py1 + k * ty1, px2 - k * tx2, py2 - k * ty2, px2, py2])
+  }
+  return curves
+}
+
+/**
+ * Rewrite SVG path data into the absolute M/L/Q/C/Z subset Figma accepts.
+ * Throws when the data can't be parsed.
+ */
+export function normalizeSvgPath(data: string): string {
+  const out: string[] = []
+  let pos = 0
+  let command = ''
+  let x = 0
+  let y = 0
+  let startX = 0
+  let startY = 0
+  // Last control point, for the reflection in S and T
+  let lastCubic: [number, number] | null = null
+  let lastQuadratic: [number, number] | null = null
+
+  const skipSeparators = () => {
+    while (pos < data.length && /[\s,]/.test(data[pos])) pos++
+  }
+  const readNumber = (): number => {
+    skipSeparators()
+    const match = NUMBER.exec(data.slice(pos))
+    if (!match) throw new Error(`Invalid path data at ${pos}: expected a number after "${command}"`)
+    pos += match[0].length
+    return Number(match[0])
+  }
+  // Arc flags may be written without separators ("a1 1 0 011 1")
+  const readFlag = (): boolean => {
+    skipSeparators()
+    const char = data[pos]
+    if (char !== '0' && char !== '1') throw new Error(`Invalid path data at ${pos}: expected an arc flag`)
+    pos++
+    return char === '1'
+  }
+  const emit = (letter: string, ...values: number[]) => {
+    out.push([letter, ...values.map(format)].join(' '))
+  }
+
+  while (true) {
+    skipSeparators()
+    if (pos >= data.length) break
+
+    if (COMMAND.test(data[pos])) {
+      command = data[pos++]
+    } else if (!command || command === 'Z' || command === 'z') {
+      throw new Error(`Invalid path data at ${pos}: expected a command`)
+    }
+    // Without a new letter the previous command repeats; a repeated move draws lines
+    const relative = command === command.toLowerCase()
+    const letter = command.toUpperCase()
+    const baseX = relative ? x : 0
+    const baseY = relative ? y : 0
+    let cubic: [number, number] | null = null
+    let quadratic: [number, number] | null = null
+
+    switch (letter) {
+      case 'M':
+        x = baseX + readNumber()
+        y = baseY + readNumber()
+        startX = x
+        startY = y
+        emit('M', x, y)
+        command = relative ? 'l' : 'L'
+        break
+      case 'L':
+        x = baseX + readNumber()
+        y = baseY + readNumber()
+        emit('L', x, y)
+        break
+      case 'H':
+        x = baseX + readNumber()
+        emit('L', x, y)
+        break
+      case 'V':
+        y = baseY + readNumber()
+        emit('L', x, y)
+        break
+      case 'C': {
+        const c1x = baseX + readNumber()
+        const c1y = baseY + readNumber()
+        const c2x = baseX + readNumber()
+        const c2y = baseY + readNumber()
+        x = baseX + readNumber()
+        y = baseY + readNumber()
+        emit('C', c1x, c1y, c2x, c2y, x, y)
+        cubic = [c2x, c2y]
+        break
+      }
+      case 'S': {
+        const c1x = lastCubic ? 2 * x - lastCubic[0] : x
+        const c1y = lastCubic ? 2 * y - lastCubic[1] : y
+        const c2x = baseX + readNumber()
+        const c2y = baseY + readNumber()
+        x = baseX + readNumber()
+        y = baseY + readNumber()
+        emit('C', c1x, c1y, c2x, c2y, x, y)
+        cubic = [c2x, c2y]
+        break
+      }
+      case 'Q': {
+        const cx = baseX + readNumber()
+        const cy = baseY + readNumber()
+        x = baseX + readNumber()
+        y = baseY + readNumber()
+        emit('Q', cx, cy, x, y)
+        quadratic = [cx, cy]
+        break
+      }
+      case 'T': {
+        const cx: number = lastQuadratic ? 2 * x - lastQuadratic[0] : x
+        const cy: number = lastQuadratic ? 2 * y - lastQuadratic[1] : y
+        x = baseX + readNumber()
+        y = baseY + readNumber()
+        emit('Q', cx, cy, x, y)
+        quadratic = [cx, cy]
+        break
+      }
+      case 'A': {
+        const rx = readNumber()
+        const ry = readNumber()
+        const rotation = readNumber()
+        const largeArc = readFlag()
+        const sweep = readFlag()
+        const endX = baseX + readNumber()
+        const endY = baseY + readNumber()
+        if (rx === 0 || ry === 0) {
+          emit('L', endX, endY)
+        } else if (endX !== x || endY !== y) {
+          arcToCubics(x, y, rx, ry, rotation, largeArc, sweep, endX, endY).forEach(curve => emit('C', ...curve))
+        }
+        x = endX
+        y = endY
+        break
+      }
+      case 'Z':
+        out.push('Z')
+        x = startX
+        y = startY
+        break
+    }
+
+    lastCubic = cubic
+    lastQuadratic = quadratic
+  }
+
+  if (out.length > 0 && !out[0].startsWith('M')) {
+    throw new Error('Invalid path data: must start with a move (M)')
+  }
+  return out.join(' ')
+}
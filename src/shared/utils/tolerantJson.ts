@@ -0,0 +1,371 @@
+/**
+ * Tolerant, incremental JSON parser for model output
+ *
+ * Accepts the JSON5-ish slips models make - comments, trailing commas,
+ * single-quoted strings, unquoted keys, missing commas - and text cut off at
+ * any point, including inside a key, a string or a number. The result is the
+ * largest valid prefix tree plus a list of every place the parser had to
+ * recover. Text can be fed as it streams in: each write only scans the unseen
+ * suffix, and an incomplete token at the end is picked up again next time.
+ */
+
+export type JsonPath = Array<string | number>
+
+export interface JsonRecovery {
+  /** Offset in the text where the parser had to recover */
+  offset: number
+  message: string
+}
+
+export interface TolerantParseResult {
+  /** Largest valid prefix tree; undefined when no object or array started */
+  value: unknown
+  /** True when the root value was closed */
+  complete: boolean
+  recoveries: JsonRecovery[]
+}
+
+export interface TolerantJsonOptions {
+  /** Called once per value when it is complete, with its path from the root */
+  onValue?: (path: JsonPath, value: unknown) => void
+}
+
+export interface TolerantJsonParser {
+  /** Feed the accumulated text; only the unseen suffix is scanned */
+  write: (fullText: string) => void
+  /** The tree so far, with the open string and containers closed. Does not change the parser state. */
+  result: () => TolerantParseResult
+}
+
+interface Frame {
+  container: Record<string, unknown> | unknown[]
+  path: JsonPath
+  /** What the next token should be */
+  expect: 'key' | 'colon' | 'value' | 'comma'
+  /** Key waiting for its value (objects only) */
+  key: string | null
+  afterComma: boolean
+}
+
+// A bare token ends at whitespace or punctuation
+const BARE_CHAR = /[^\s,:[\]{}'"/]/
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/
+const HEX_NUMBER = /^[-+]?0[xX][\da-fA-F]+$/
+const LITERALS: Record<string, unknown> = { true: true, false: false, null: null, undefined: null, None: null, True: true, False: false }
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', v: '\v', '0': '\0' }
+
+// Index of the closing quote, or -1 when the string isn't finished yet
+function findStringEnd(text: string, start: number): number {
+  const quote = text[start]
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === '\\') i++
+    else if (text[i] === quote) return i
+  }
+  return -1
+}
+
+// Decode a string body; a trailing partial escape (cut-off stream) is dropped
+function decodeString(body: string): string {
+  let result = ''
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i]
+    if (char !== '\\') {
+      result += char
+      continue
+    }
+    const next = body[++i]
+    if (next === undefined) break
+    if (next === 'u') {
+      const hex = body.slice(i + 1, i + 5)
+      if (!/^[\da-fA-F]{4}$/.test(hex)) break
+      result += String.fromCharCode(parseInt(hex, 16))
+      i += 4
+    } else if (next === '\n') {
+      // JSON5 line continuation
+    } else {
+      result += ESCAPES[next] ?? next
+    }
+  }
+  return result
+}
+
+function readBare(text: string, start: number): number {
+  let end = start
+  while (end < text.length && BARE_CHAR.test(text[end])) end++
+  return end
+}
+
+// Number or literal value of a bare token; undefined when it is neither
+function bareValue(token: string): { value: unknown } | undefined {
+  if (Object.prototype.hasOwnProperty.call(LITERALS, token)) return { value: LITERALS[token] }
+  if (NUMBER.test(token)) return { value: Number(token) }
+  if (HEX_NUMBER.test(token)) return { value: Number(token.replace(/^([-+]?)0[xX]/, '$10x')) }
+  return undefined
+}
+
+function getAt(root: unknown, path: JsonPath): Record<string, unknown> | unknown[] {
+  let node = root as Record<string | number, unknown>
+  for (const key of path) node = node[key] as Record<string | number, unknown>
+  return node as Record<string, unknown> | unknown[]
+}
+
+/**
+ * Create a parser for one (possibly streamed) response
+ */
+export function createTolerantJsonParser(options: TolerantJsonOptions = {}): TolerantJsonParser {
+  let text = ''
+  let pos = 0
+  let root: unknown
+  let complete = false
+  const stack: Frame[] = []
+  const recoveries: JsonRecovery[] = []
+
+  const recover = (offset: number, message: string) => recoveries.push({ offset, message })
+
+  // Place a value in the open container; containers are placed when they open
+  function attach(value: unknown): JsonPath {
+    const frame = stack[stack.length - 1]
+    let path: JsonPath
+    if (Array.isArray(frame.container)) {
+      path = [...frame.path, frame.container.length]
+      frame.container.push(value)
+    } else {
+      path = [...frame.path, frame.key!]
+      frame.container[frame.key!] = value
+      frame.key = null
+    }
+    frame.expect = 'comma'
+    frame.afterComma = false
+    return path
+  }
+
+  function open(char: '{' | '['): void {
+    const container = char === '{' ? {} : []
+    const path = stack.length === 0 ? [] : attach(container)
+    if (stack.length === 0) root = container
+    stack.push({ container, path, expect: char === '{' ? 'key' : 'value', key: null, afterComma: false })
+  }
+
+  function close(offset: number): void {
+    const frame = stack.pop()!
+    if (frame.key !== null) {
+      recover(offset, `dropped key "${frame.key}" without a value`)
+    } else if (frame.afterComma) {
+      recover(offset, 'ignored trailing comma')
+    }
+    options.onValue?.(frame.path, frame.container)
+    if (stack.length === 0) complete = true
+  }
+
+  function addValue(value: unknown): void {
+    const path = attach(value)
+    options.onValue?.(path, value)
+  }
+
+  // A token arrived where a comma was due: assume it was left out
+  function insertComma(frame: Frame, offset: number): void {
+    recover(offset, 'inserted missing comma')
+    frame.expect = Array.isArray(frame.container) ? 'value' : 'key'
+  }
+
+  function write(fullText: string): void {
+    text = fullText
+
+    while (pos < text.length && !complete) {
+      const char = text[pos]
+
+      if (/\s/.test(char)) {
+        pos++
+        continue
+      }
+
+      // Preamble before the root (prose, a markdown fence) is skipped
+      if (stack.length === 0) {
+        if (char === '{' || char === '[') open(char)
+        pos++
+        continue
+      }
+
+      if (char === '/') {
+        const next = text[pos + 1]
+        if (next === undefined) return
+        if (next === '/' || next === '*') {
+          const end = next === '/' ? text.indexOf('\n', pos) : text.indexOf('*/', pos + 2)
+          if (end === -1) return
+          recover(pos, 'skipped comment')
+          pos = next === '/' ? end + 1 : end + 2
+          continue
+        }
+      }
+
+      const frame = stack[stack.length - 1]
+      const isArray = Array.isArray(frame.container)
+
+      if (char === '}' || char === ']') {
+        const wanted = char === '}' ? 'object' : 'array'
+        const index = stack.map(f => Array.isArray(f.container) ? 'array' : 'object').lastIndexOf(wanted)
+        if (index === -1) {
+          recover(pos, `skipped unmatched "${char}"`)
+        } else {
+          while (stack.length > index + 1) {
+            recover(pos, `closed ${Array.isArray(stack[stack.length - 1].container) ? 'array' : 'object'} before "${char}"`)
+            close(pos)
+          }
+          close(pos)
+        }
+        pos++
+        continue
+      }
+
+      if (char === ',') {
+        if (frame.expect === 'comma') {
+          frame.expect = isArray ? 'value' : 'key'
+          frame.afterComma = true
+        } else if (frame.key !== null) {
+          recover(pos, `dropped key "${frame.key}" without a value`)
+          frame.key = null
+          frame.expect = 'key'
+        } else {
+          recover(pos, 'skipped extra comma')
+        }
+        pos++
+        continue
+      }
+
+      if (char === ':') {
+        if (frame.expect === 'colon') {
+          frame.expect = 'value'
+        } else {
+          recover(pos, 'skipped unexpected ":"')
+        }
+        pos++
+        continue
+      }
+
+      // Everything else starts a key or a value
+      if (frame.expect === 'comma') {
+        insertComma(frame, pos)
+        continue
+      }
+      if (frame.expect === 'colon') {
+        recover(pos, `inserted missing ":" after "${frame.key}"`)
+        frame.expect = 'value'
+        continue
+      }
+
+      if (char === '{' || char === '[') {
+        if (frame.expect === 'key') {
+          recover(pos, `skipped "${char}" where a key was expected`)
+          pos++
+          continue
+        }
+        open(char)
+        pos++
+        continue
+      }
+
+      let token: string
+      let end: number
+      const quoted = char === '"' || char === "'"
+      if (quoted) {
+        const closeQuote = findStringEnd(text, pos)
+        if (closeQuote === -1) return
+        if (char === "'") recover(pos, 'read single-quoted string')
+        token = decodeString(text.slice(pos + 1, closeQuote))
+        end = closeQuote + 1
+      } else {
+        end = readBare(text, pos)
+        // The token may go on in the next chunk
+        if (end === text.length) return
+        if (end === pos) {
+          recover(pos, `skipped unexpected "${char}"`)
+          pos++
+          continue
+        }
+        token = text.slice(pos, end)
+      }
+
+      if (frame.expect === 'key') {
+        if (!quoted) recover(pos, `read unquoted key "${token}"`)
+        frame.key = token
+        frame.expect = 'colon'
+      } else if (quoted) {
+        addValue(token)
+      } else {
+        const bare = bareValue(token)
+        if (bare) {
+          addValue(bare.value)
+        } else {
+          recover(pos, `read unquoted value "${token}" as a string`)
+          addValue(token)
+        }
+      }
+      pos = end
+    }
+  }
+
+  function result(): TolerantParseResult {
+    if (root === undefined) return { value: undefined, complete: false, recoveries: [...recoveries] }
+    if (complete) return { value: root, complete, recoveries: [...recoveries] }
+
+    const endRecoveries: JsonRecovery[] = []
+    const value = JSON.parse(JSON.stringify(root))
+    const frame = stack[stack.length - 1]
+    const container = getAt(value, frame.path)
+    let placed = false
+    const place = (item: unknown) => {
+      if (Array.isArray(container)) container.push(item)
+      else container[frame.key!] = item
+      placed = true
+    }
+
+    // The token cut off at the end of the text; a write stops before it with a key or value due
+    const rest = text.slice(pos).trimStart()
+    const offset = text.length - rest.length
+    if (rest && !rest.startsWith('/')) {
+      if (frame.expect === 'key') {
+        endRecoveries.push({ offset, message: 'dropped truncated key' })
+      } else if (rest[0] === '"' || rest[0] === "'") {
+        place(decodeString(rest.slice(1)))
+        endRecoveries.push({ offset, message: 'closed truncated string' })
+      } else {
+        const bare = bareValue(rest)
+        // "1." or "-" can't be completed; "tru" is no literal
+        if (bare && /\w$/.test(rest)) {
+          place(bare.value)
+          endRecoveries.push({ offset, message: `kept "${rest}", which may be truncated` })
+        } else {
+          endRecoveries.push({ offset, message: `dropped truncated value "${rest}"` })
+        }
+      }
+    }
+
+    if (frame.key !== null && !placed) {
+      endRecoveries.push({ offset: text.length, message: `dropped key "${frame.key}" without a value` })
+    }
+    endRecoveries.push({
+      offset: text.length,
+      message: `closed ${stack.length} unclosed ${stack.length === 1 ? 'container' : 'containers'} at the end of the text`,
+    })
+
+    return { value, complete: false, recoveries: [...recoveries, ...endRecoveries] }
+  }
+
+  return { write, result }
+}
+
+/**
+ * Parse model output in one go
+ */
+export function parseTolerantJson(text: string): TolerantParseResult {
+  const parser = createTolerantJsonParser()
+  parser.write(text)
+  return parser.result()
+}
+
+/**
+ * One line per recovery: `at <offset>: message`
+ */
+export function formatJsonRecovery(recovery: JsonRecovery): string {
+  return `at ${recovery.offset}: ${recovery.message}`
+}
@@ -0,0 +1,122 @@
+/**
+ * Token usage and cost accounting
+ */
+
+import type { TokenUsage, UsageTotals } from '../types'
+import { MODEL_PRICING } from '../constants'
+
+export function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 }
+}
+
+/**
+ * Sum two usages. Cost stays undefined only if neither side has one.
+ */
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cacheReadTokens: a.cacheReadTokens + b.cacheReadTokens,
+    cacheWriteTokens: a.cacheWriteTokens + b.cacheWriteTokens,
+    costUsd: sumOptional(a.costUsd, b.costUsd),
+    cacheSavingsUsd: sumOptional(a.cacheSavingsUsd, b.cacheSavingsUsd),
+  }
+}
+
+function sumOptional(a?: number, b?: number): number | undefined {
+  return a === undefined && b === undefined ? undefined : (a || 0) + (b || 0)
+}
+
+export function hasUsage(usage: TokenUsage): boolean {
+  return usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheWriteTokens > 0
+}
+
+// Longest matching prefix, so gpt-4o-mini doesn't match gpt-4o
+function findPricing(model: string) {
+  const key = Object.keys(MODEL_PRICING)
+    .filter(id => model === id || model.startsWith(`${id}-`))
+    .sort((a, b) => b.length - a.length)[0]
+  return key ? MODEL_PRICING[key] : undefined
+}
+
+/**
+ * Estimated cost in USD, or undefined for models without a known price (local models, proxies)
+ */
+export function estimateCost(model: string, usage: TokenUsage): number | undefined {
+  const price = findPricing(model)
+  if (!price) return undefined
+
+  return (
+    usage.inputTokens * price.input +
+    usage.outputTokens * price.output +
+    usage.cacheReadTokens * price.cacheRead +
+    usage.cacheWriteTokens * price.cacheWrite
+  ) / 1000000
+}
+
+/**
+ * Estimated saving from prompt caching: cheaper reads minus the write premium.
+ * Negative on the first request of a cache (writes cost more than plain input).
+ */
+export function estimateCacheSavings(model: string, usage: TokenUsage): number | undefined {
+  const price = findPricing(model)
+  if (!price || usage.cacheReadTokens + usage.cacheWriteTokens === 0) return undefined
+
+  return (
+    usage.cacheReadTokens * (price.input - price.cacheRead) -
+    usage.cacheWriteTokens * (price.cacheWrite - price.input)
+  ) / 1000000
+}
+
+/**
+ * Add one generation's usage to a file's running totals
+ */
+export function addToTotals(totals: UsageTotals | null, usage: TokenUsage): UsageTotals {
+  const base: UsageTotals = totals || { ...emptyUsage(), generations: 0, costUsd: 0, unpricedGenerations: 0, since: Date.now() }
+  const sum = addUsage(base, usage)
+  return {
+    ...base,
+    ...sum,
+    generations: base.generations + 1,
+    costUsd: base.costUsd + (usage.costUsd || 0),
+    unpricedGenerations: base.unpricedGenerations + (usage.costUsd === undefined ? 1 : 0),
+  }
+}
+
+// 1234 -> "1.2k"
+export function formatTokens(count: number): string {
+  if (count < 1000) return String(count)
+  if (count < 1000000) return `${(count / 1000).toFixed(count < 10000 ? 1 : 0)}k`
+  return `${(count / 1000000).toFixed(1)}M`
+}
+
+export function formatCost(costUsd: number): string {
+  return costUsd < 0.01 ? `$${costUsd.toFixed(4)}` : `$${costUsd.toFixed(2)}`
+}
+
+/**
+ * One-line summary, e.g. "2.4k in · 1.4k out · 1.8k cache read · ~$0.03"
+ */
+export function formatUsage(usage: TokenUsage): string {
+  const parts = [`${formatTokens(usage.inputTokens)} in`, `${formatTokens(usage.outputTokens)} out`]
+  if (usage.cacheReadTokens > 0) parts.push(`${formatTokens(usage.cacheReadTokens)} cache read`)
+  if (usage.cacheWriteTokens > 0) parts.push(`${formatTokens(usage.cacheWriteTokens)} cache write`)
+  if (usage.costUsd !== undefined) parts.push(`~${formatCost(usage.costUsd)}`)
+  return parts.join(' · ')
+}
+
+/**
+ * Prompt cache outcome for a generation, or '' when caching wasn't involved
+ */
+export function formatCacheStatus(usage: TokenUsage): string {
+  const saved = usage.cacheSavingsUsd !== undefined && usage.cacheSavingsUsd > 0
+    ? ` · saved ~${formatCost(usage.cacheSavingsUsd)}`
+    : ''
+  if (usage.cacheReadTokens > 0) {
+    return `Cache hit: ${formatTokens(usage.cacheReadTokens)} prompt tokens read from cache${saved}`
+  }
+  if (usage.cacheWriteTokens > 0) {
+    return `Prompt cached for follow-ups (${formatTokens(usage.cacheWriteTokens)} tokens written)`
+  }
+  return ''
+}
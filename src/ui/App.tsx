@@ -1,7 +1,17 @@
 import React, { useState, useEffect, useRef } from 'react'
-import type { MessageToUI, PluginSettings, SelectionInfo, DesignSystemContext, FrameNode, ViewportPreset, AIProvider, CustomColorPalette } from '../shared/types'
-import { VIEWPORT_PRESETS, AI_PROVIDERS, DEFAULT_COLOR_PALETTE } from '../shared/types'
-import { generateDesign } from './api'
+import type { FrameVersion, ImageAsset, MessageToUI, MockRecording, PluginSettings, RenderedVariant, RenderReport, TokenUsage, UsageTotals, SelectionInfo, DesignSystemContext, FrameNode, ViewportPreset, AIProvider } from '../shared/types'
+import { VIEWPORT_PRESETS, DEFAULT_COLOR_PALETTE, DEFAULT_MOCK_SETTINGS } from '../shared/types'
+import { generateDesign, generateDesignPatch, withVariantDirection, buildRepairPrompt, critiqueDesign, buildFixPrompt, getProviders, getProvider, getProviderApiKey, getGenerationParams, isProviderReady } from './api'
+import { ImageShelf, SettingsPanel } from './components'
+import { createDesignStreamParser } from '../shared/utils/streamingJson'
+import { formatValidationIssue, validateDesign } from '../shared/utils/designValidation'
+import { normalizeDesign, normalizeElement } from '../shared/utils/designNormalization'
+import { formatRenderFailure, formatRenderIssue, summarizeRenderReport } from '../shared/utils/renderReport'
+import { IMAGE_CONFIG, MOCK_CONFIG, PLUGIN_MESSAGE_CONFIG, REVIEW_CONFIG, VALIDATION_CONFIG, VARIANT_CONFIG } from '../shared/constants'
+import { addUsage, estimateCacheSavings, estimateCost, formatCacheStatus, formatCost, formatTokens, formatUsage, hasUsage } from '../shared/utils/usage'
+import { createCritiqueReplayTransport, createRecording, createRecordingTransport, createReplayTransport, registerRecordings } from './api/mock'
+import type { Transport } from './api/providers'
+import type { ConversationTurn, DesignCritique, GenerationOptions } from './api'
 
 interface ChatMessage {
   id: string
@@ -9,36 +19,85 @@ interface ChatMessage {
   content: string
   imageData?: string
   isStreaming?: boolean
+  design?: FrameNode // Final design JSON, sent back as history on follow-ups
+  continuationRounds?: number // Follow-up requests needed after hitting the token limit
+  usage?: TokenUsage // Tokens and estimated cost across all requests for this generation
+  variants?: VariantGroup // Alternatives generated side by side
+  review?: DesignCritique // Visual review of the previous render
+  validation?: string[] // Schema issues found in the design before it was rendered
+  rewrites?: string[] // Model quirks fixed before rendering (hex colors, CSS keys, ...)
+  renderReport?: RenderReport // Substitutions the renderer made, and elements that failed to render
+  nodeId?: string // Frame the message rendered or updated
 }
 
-type SettingsTab = 'general' | 'colors'
-
-const COLOR_LABELS: Record<keyof CustomColorPalette, string> = {
-  primary: 'Primary',
-  primaryDark: 'Primary Dark',
-  background: 'Background',
-  backgroundCard: 'Card Background',
-  textPrimary: 'Text Primary',
-  textSecondary: 'Text Secondary',
-  border: 'Border',
-  success: 'Success',
-  error: 'Error',
-  warning: 'Warning',
+interface PreparedDesign {
+  design: FrameNode
+  rewrites: string[]
+  validation: string[]
+}
+
+// Fix common model quirks, then list the schema issues that remain (the design is still rendered)
+function prepareDesign(raw: FrameNode, prefix = ''): PreparedDesign {
+  const { design, rewrites } = normalizeDesign(raw)
+  return {
+    design,
+    rewrites: rewrites.map(rewrite => prefix + rewrite),
+    validation: validateDesign(design).map(issue => prefix + formatValidationIssue(issue)),
+  }
+}
+
+// A pending wait for one of the given plugin message types
+interface PluginWaiter {
+  types: MessageToUI['type'][]
+  resolve: (msg: MessageToUI) => void
+}
+
+interface VariantGroup {
+  groupId: string
+  designs: FrameNode[] // In request order; RenderedVariant.index points into this
+  failed: number // Variants whose generation failed
+  rendered?: RenderedVariant[]
+  winner?: string // Node id of the picked variant
+  discarded?: boolean // The other variants were deleted
+}
+
+// Per-variant progress while variants stream in parallel
+function formatVariantProgress(progress: number[]): string {
+  const parts = progress.map((chars, i) => `${VARIANT_CONFIG.LABELS[i] || i + 1}: ${chars > 0 ? `${chars} chars` : 'waiting'}`)
+  return `Generating ${progress.length} variants...\n${parts.join(' · ')}`
+}
+
+// Note appended to the result when some variants could not be generated
+function formatVariantNote(variants?: VariantGroup): string {
+  if (!variants?.failed) return ''
+  return ` ${variants.failed} of ${variants.designs.length + variants.failed} variants failed to generate.`
+}
+
+// Note appended to the result when the response needed continuation requests
+function formatContinuationNote(rounds?: number): string {
+  if (!rounds) return ''
+  return ` (continued ${rounds} ${rounds === 1 ? 'time' : 'times'} after hitting the token limit)`
 }
 
 const DEFAULT_SETTINGS: PluginSettings = {
   claudeApiKey: '',
   openaiApiKey: '',
   selectedProvider: 'claude',
+  customProviders: [],
+  generationParams: {},
+  mock: DEFAULT_MOCK_SETTINGS,
   contextInstructions: '',
   viewport: 'mobile',
-  customColors: DEFAULT_COLOR_PALETTE
+  customColors: DEFAULT_COLOR_PALETTE,
+  variantCount: 1,
+  reviewRounds: 0,
+  editMode: 'patch',
+  replaceMode: 'replace'
 }
 
 export default function App() {
   const [settings, setSettings] = useState<PluginSettings>(DEFAULT_SETTINGS)
   const [settingsOpen, setSettingsOpen] = useState(false)
-  const [settingsTab, setSettingsTab] = useState<SettingsTab>('general')
   const [messages, setMessages] = useState<ChatMessage[]>([])
   const [input, setInput] = useState('')
   const [imageData, setImageData] = useState<string | null>(null)
@@ -49,36 +108,47 @@ export default function App() {
   const [streamingContent, setStreamingContent] = useState('')
   const [jsonPreview, setJsonPreview] = useState<string | null>(null)
   const [showJsonPreview, setShowJsonPreview] = useState(false)
+  const [recordings, setRecordings] = useState<MockRecording[]>([])
+  const [usageTotals, setUsageTotals] = useState<UsageTotals | null>(null)
+  const [imageAssets, setImageAssets] = useState<ImageAsset[]>([])
+  const [versions, setVersions] = useState<{ nodeId: string; list: FrameVersion[] } | null>(null)
+  const [versionIndex, setVersionIndex] = useState(0) // 0 is the current frame, then newest first
 
   const chatEndRef = useRef<HTMLDivElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const abortControllerRef = useRef<AbortController | null>(null)
+  const pluginWaitersRef = useRef<PluginWaiter[]>([])
 
-  // Get current API key based on selected provider
-  const currentApiKey = settings.selectedProvider === 'claude'
-    ? settings.claudeApiKey
-    : settings.openaiApiKey
-
-  // Check which providers have API keys
-  const hasClaudeKey = settings.claudeApiKey.trim().length > 0
-  const hasOpenaiKey = settings.openaiApiKey.trim().length > 0
+  // Resolve the selected provider and its API key from the registry
+  const currentProvider = getProvider(settings, settings.selectedProvider)
+  const currentApiKey = getProviderApiKey(settings, currentProvider)
 
   useEffect(() => {
     // Request initial data
     parent.postMessage({ pluginMessage: { type: 'load-settings' } }, '*')
     parent.postMessage({ pluginMessage: { type: 'refresh-design-system' } }, '*')
     parent.postMessage({ pluginMessage: { type: 'get-selection' } }, '*')
+    parent.postMessage({ pluginMessage: { type: 'load-recordings' } }, '*')
+    parent.postMessage({ pluginMessage: { type: 'load-usage' } }, '*')
+    parent.postMessage({ pluginMessage: { type: 'load-image-assets' } }, '*')
 
     // Listen for messages from plugin
     const handleMessage = (event: MessageEvent) => {
       const msg = event.data.pluginMessage as MessageToUI
       if (!msg) return
 
+      const waiting = pluginWaitersRef.current.filter(waiter => waiter.types.includes(msg.type))
+      if (waiting.length > 0) {
+        pluginWaitersRef.current = pluginWaitersRef.current.filter(waiter => !waiting.includes(waiter))
+        waiting.forEach(waiter => waiter.resolve(msg))
+      }
+
       switch (msg.type) {
         case 'settings-loaded':
           // Merge with defaults to handle missing fields from old settings
-          setSettings({ ...DEFAULT_SETTINGS, ...msg.settings })
-          if (!msg.settings.claudeApiKey && !msg.settings.openaiApiKey) {
+          const loaded = { ...DEFAULT_SETTINGS, ...msg.settings }
+          setSettings(loaded)
+          if (!getProviders(loaded).some(p => isProviderReady(loaded, p))) {
             setSettingsOpen(true)
           }
           break
@@ -93,14 +163,44 @@ export default function App() {
         case 'selection-data':
           setSelectionData(msg.data)
           break
+        case 'versions-loaded':
+          setVersions({ nodeId: msg.nodeId, list: msg.versions })
+          setVersionIndex(0)
+          break
         case 'design-system-loaded':
           setDesignSystem(msg.designSystem)
           break
+        case 'recordings-loaded':
+          registerRecordings(msg.recordings)
+          setRecordings(msg.recordings)
+          break
+        case 'usage-loaded':
+          setUsageTotals(msg.totals)
+          break
+        case 'image-assets-loaded':
+          setImageAssets(msg.assets)
+          break
+        case 'variants-rendered':
+          setMessages(prev => prev.map(m => {
+            if (m.variants?.groupId !== msg.groupId) return m
+            // Nothing to pick between if only one variant made it onto the canvas
+            const only = msg.variants.length === 1 ? msg.variants[0] : null
+            return {
+              ...m,
+              design: only ? m.variants.designs[only.index] : m.design,
+              variants: { ...m.variants, rendered: msg.variants, winner: only?.nodeId },
+            }
+          }))
+          break
         case 'generation-started':
           break
         case 'generation-complete':
           setIsGenerating(false)
           setStreamingContent('')
+          // An in-place update keeps the selection, so its serialized data is stale
+          if (msg.nodeId) {
+            parent.postMessage({ pluginMessage: { type: 'request-selection-data' } }, '*')
+          }
           if (msg.success) {
             setMessages(prev => {
               const updated = [...prev]
@@ -108,7 +208,11 @@ export default function App() {
               if (lastIdx >= 0 && updated[lastIdx].isStreaming) {
                 updated[lastIdx] = {
                   ...updated[lastIdx],
-                  content: msg.message || 'Design generated successfully!',
+                  content: (msg.message || 'Design generated successfully!') +
+                    formatContinuationNote(updated[lastIdx].continuationRounds) +
+                    formatVariantNote(updated[lastIdx].variants),
+                  renderReport: msg.report,
+                  nodeId: msg.nodeId,
                   isStreaming: false
                 }
               }
@@ -166,6 +270,95 @@ export default function App() {
     parent.postMessage({ pluginMessage: { type: 'save-settings', settings: newSettings } }, '*')
   }
 
+  // Resolves with the next plugin message of one of the given types.
+  // Rejects when the generation is stopped or the plugin doesn't answer in time.
+  const waitForPlugin = (types: MessageToUI['type'][], signal?: AbortSignal) => new Promise<MessageToUI>((resolve, reject) => {
+    const settle = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', abort)
+      pluginWaitersRef.current = pluginWaitersRef.current.filter(waiter => waiter !== pending)
+    }
+    const abort = () => {
+      settle()
+      reject(new DOMException('The operation was aborted.', 'AbortError'))
+    }
+    const pending: PluginWaiter = {
+      types,
+      resolve: msg => {
+        settle()
+        resolve(msg)
+      },
+    }
+    const timer = setTimeout(() => {
+      settle()
+      reject(new Error(`The plugin did not respond in time (waiting for ${types.join(' or ')})`))
+    }, PLUGIN_MESSAGE_CONFIG.RESPONSE_TIMEOUT_MS)
+
+    if (signal?.aborted) {
+      abort()
+      return
+    }
+    signal?.addEventListener('abort', abort, { once: true })
+    pluginWaitersRef.current.push(pending)
+  })
+
+  // Apply changes to the assistant message that is currently streaming
+  const updateStreamingMessage = (changes: Partial<ChatMessage>) => {
+    setMessages(prev => {
+      const updated = [...prev]
+      const lastIdx = updated.length - 1
+      if (lastIdx >= 0 && updated[lastIdx].isStreaming) {
+        updated[lastIdx] = { ...updated[lastIdx], ...changes }
+      }
+      return updated
+    })
+  }
+
+  const handleVariantCountChange = (variantCount: number) => {
+    const newSettings = { ...settings, variantCount }
+    setSettings(newSettings)
+    parent.postMessage({ pluginMessage: { type: 'save-settings', settings: newSettings } }, '*')
+  }
+
+  // The picked variant becomes the message's design, so follow-ups build on it
+  const handlePickVariant = (messageId: string, variant: RenderedVariant) => {
+    setMessages(prev => prev.map(m => m.id === messageId && m.variants
+      ? { ...m, design: m.variants.designs[variant.index], variants: { ...m.variants, winner: variant.nodeId } }
+      : m
+    ))
+    const groupId = messages.find(m => m.id === messageId)?.variants?.groupId
+    if (groupId) {
+      parent.postMessage({ pluginMessage: { type: 'pick-variant', groupId, nodeId: variant.nodeId } }, '*')
+    }
+  }
+
+  const handleDiscardVariants = (messageId: string) => {
+    const variants = messages.find(m => m.id === messageId)?.variants
+    if (!variants?.winner) return
+    parent.postMessage({
+      pluginMessage: { type: 'discard-variants', groupId: variants.groupId, keepNodeId: variants.winner }
+    }, '*')
+    setMessages(prev => prev.map(m => m.id === messageId && m.variants
+      ? { ...m, variants: { ...m.variants, discarded: true } }
+      : m
+    ))
+  }
+
+  // Step through the selected frame's versions; the plugin shows the one being looked at
+  const handleStepVersion = (index: number) => {
+    if (!versions) return
+    setVersionIndex(index)
+    const versionId = index === 0 ? null : versions.list[index - 1].nodeId
+    parent.postMessage({ pluginMessage: { type: 'preview-version', nodeId: versions.nodeId, versionId } }, '*')
+  }
+
+  const handleRestoreVersion = () => {
+    if (!versions || versionIndex === 0) return
+    parent.postMessage({
+      pluginMessage: { type: 'restore-version', nodeId: versions.nodeId, versionId: versions.list[versionIndex - 1].nodeId }
+    }, '*')
+  }
+
   const handleStop = () => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort()
@@ -187,22 +380,117 @@ export default function App() {
     }
   }
 
-  const handleSubmit = async () => {
-    if (!input.trim() && !imageData) return
-    if (!currentApiKey) {
+  // Screenshot the rendered frame, have the model critique it and apply its fixes,
+  // until the review passes or the rounds run out
+  const runVisualReview = async (
+    prompt: string,
+    design: FrameNode,
+    nodeId: string,
+    rounds: number,
+    options: Omit<GenerationOptions, 'prompt'>,
+    reviewTransport = options.transport
+  ) => {
+    const { provider, signal } = options
+    if (!provider.supportsVision) {
+      setMessages(prev => [...prev, {
+        id: `${Date.now()}-review`,
+        role: 'assistant',
+        content: `Visual review skipped: ${provider.name} doesn't accept images.`
+      }])
+      return
+    }
+
+    let currentDesign = design
+    let currentNodeId = nodeId
+    for (let round = 1; round <= rounds; round++) {
+      if (signal?.aborted) return
+
+      setMessages(prev => [...prev, {
+        id: `${Date.now()}-review-${round}`,
+        role: 'assistant',
+        content: `Reviewing the render${rounds > 1 ? ` (round ${round} of ${rounds})` : ''}...`,
+        isStreaming: true
+      }])
+      setIsGenerating(true)
+
+      const exported = waitForPlugin(['frame-exported'], signal)
+      parent.postMessage({ pluginMessage: { type: 'export-frame', nodeId: currentNodeId } }, '*')
+      const snapshot = await exported
+      if (signal?.aborted) return
+      if (snapshot.type !== 'frame-exported' || !snapshot.imageData) {
+        throw new Error('Could not export the rendered frame for review. Was it deleted?')
+      }
+
+      const critique = await critiqueDesign({ ...options, transport: reviewTransport, prompt, imageData: snapshot.imageData })
+      if (critique.verdict !== 'fail') {
+        const outcome = critique.verdict === 'pass' ? 'Review passed' : 'The review gave no verdict'
+        updateStreamingMessage({
+          review: critique,
+          content: critique.summary ? `${outcome}: ${critique.summary}` : `${outcome}.`,
+          isStreaming: false
+        })
+        setIsGenerating(false)
+        return
+      }
+
+      const fixing = `Fixing ${critique.issues.length} ${critique.issues.length === 1 ? 'issue' : 'issues'}...`
+      updateStreamingMessage({ review: critique, content: fixing })
+
+      // The screenshot goes along so the model can see what it is fixing
+      const fixed = prepareDesign(await generateDesign({
+        ...options,
+        prompt: buildFixPrompt(prompt, critique),
+        existingDesign: currentDesign,
+        imageData: snapshot.imageData,
+        onProgress: (text) => {
+          setStreamingContent(text)
+          updateStreamingMessage({ content: `${fixing} (${text.length} chars)` })
+        },
+      }))
+      currentDesign = fixed.design
+      setJsonPreview(JSON.stringify(currentDesign, null, 2))
+      updateStreamingMessage({ design: currentDesign, validation: fixed.validation, rewrites: fixed.rewrites })
+
+      const rendered = waitForPlugin(['generation-complete', 'error'], signal)
+      parent.postMessage({
+        pluginMessage: { type: 'render-design', design: currentDesign, viewport: options.viewport, replaceNodeId: currentNodeId }
+      }, '*')
+      const result = await rendered
+      // Render errors are reported by the message handler
+      if (result.type !== 'generation-complete' || !result.success || !result.nodeId) return
+      currentNodeId = result.nodeId
+    }
+  }
+
+  // A prompt passed in (e.g. to repair failed elements) is sent instead of the input field.
+  // `editInPlace` patches the selected frame whatever the edit, replace and variant settings say.
+  const handleSubmit = async (promptOverride?: string, { editInPlace = false } = {}) => {
+    const prompt = promptOverride ?? input
+    if (!prompt.trim() && !imageData) return
+    if (!isProviderReady(settings, currentProvider)) {
       setSettingsOpen(true)
       return
     }
 
+    // Prior turns give the model context for follow-up requests
+    const history: ConversationTurn[] = messages
+      .filter(m => !m.isStreaming)
+      .map(m => ({
+        role: m.role,
+        content: m.content,
+        design: m.design,
+        hasImage: !!m.imageData,
+      }))
+
     const userMessage: ChatMessage = {
       id: Date.now().toString(),
       role: 'user',
-      content: input,
+      content: prompt,
       imageData: imageData || undefined
     }
     setMessages(prev => [...prev, userMessage])
 
-    const providerName = AI_PROVIDERS[settings.selectedProvider].name
+    const providerName = currentProvider.name
     const assistantMessage: ChatMessage = {
       id: (Date.now() + 1).toString(),
       role: 'assistant',
@@ -211,6 +499,13 @@ export default function App() {
     }
     setMessages(prev => [...prev, assistantMessage])
 
+    // The attached image goes on the shelf so the design can use it as "reference"
+    if (imageData) {
+      parent.postMessage({
+        pluginMessage: { type: 'save-image-asset', name: IMAGE_CONFIG.REFERENCE_NAME, imageData }
+      }, '*')
+    }
+
     setInput('')
     setImageData(null)
     setIsGenerating(true)
@@ -220,28 +515,208 @@ export default function App() {
 
     // Create abort controller for this generation
     abortControllerRef.current = new AbortController()
+    const signal = abortControllerRef.current.signal
+
+    // Completed sections are rendered onto a live frame while the response streams
+    const streamId = assistantMessage.id
+    const streamParser = createDesignStreamParser()
+
+    // The mock provider replays the selected fixture; otherwise live streams can be recorded
+    const params = getGenerationParams(settings, currentProvider)
+    const mock = settings.mock || DEFAULT_MOCK_SETTINGS
+    const recorder = currentProvider.id !== MOCK_CONFIG.PROVIDER_ID && mock.record
+      ? createRecordingTransport(transcript => {
+          parent.postMessage({
+            pluginMessage: { type: 'save-recording', recording: createRecording(transcript, userMessage.content) }
+          }, '*')
+        })
+      : null
+    const transport = currentProvider.id === MOCK_CONFIG.PROVIDER_ID
+      ? createReplayTransport(params.model, mock)
+      : recorder?.transport
+    // Replayed generations get replayed critiques, not the design fixture again
+    const reviewTransport: Transport | undefined = currentProvider.id === MOCK_CONFIG.PROVIDER_ID
+      ? createCritiqueReplayTransport(params.model, mock)
+      : transport
+
+    // Usage is summed over continuation requests and recorded even if the generation fails
+    let generationUsage: TokenUsage | null = null
+
+    const requestOptions: Omit<GenerationOptions, 'prompt'> = {
+      provider: currentProvider,
+      apiKey: currentApiKey,
+      params,
+      viewport,
+      designSystem,
+      contextInstructions: settings.contextInstructions,
+      customColors: settings.customColors,
+      imageData: imageData || undefined,
+      existingDesign: selection ? selectionData || undefined : undefined,
+      history,
+      signal,
+      transport,
+      onRetry: ({ attempt, maxRetries, delayMs, error }) => {
+        setMessages(prev => {
+          const updated = [...prev]
+          const lastIdx = updated.length - 1
+          if (lastIdx >= 0 && updated[lastIdx].isStreaming) {
+            updated[lastIdx] = {
+              ...updated[lastIdx],
+              content: `${error.message}\n\nRetrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt} of ${maxRetries})...`
+            }
+          }
+          return updated
+        })
+      },
+      onUsage: (usage) => {
+        const priced = {
+          ...usage,
+          costUsd: estimateCost(params.model, usage),
+          cacheSavingsUsd: estimateCacheSavings(params.model, usage),
+        }
+        generationUsage = generationUsage ? addUsage(generationUsage, priced) : priced
+        // Each message shows its own requests; review rounds get a message of their own
+        setMessages(prev => {
+          const updated = [...prev]
+          const lastIdx = updated.length - 1
+          if (lastIdx >= 0 && updated[lastIdx].isStreaming) {
+            const current = updated[lastIdx].usage
+            updated[lastIdx] = { ...updated[lastIdx], usage: current ? addUsage(current, priced) : priced }
+          }
+          return updated
+        })
+      },
+      onContinuation: (round) => {
+        setMessages(prev => {
+          const updated = [...prev]
+          const lastIdx = updated.length - 1
+          if (lastIdx >= 0 && updated[lastIdx].isStreaming) {
+            updated[lastIdx] = { ...updated[lastIdx], continuationRounds: round }
+          }
+          return updated
+        })
+      },
+    }
+    const variantCount = editInPlace ? 1 : Math.min(Math.max(settings.variantCount || 1, 1), VARIANT_CONFIG.MAX_COUNT)
 
     try {
-      const design = await generateDesign({
-        prompt: input,
-        provider: settings.selectedProvider,
-        apiKey: currentApiKey,
-        viewport,
-        designSystem,
-        contextInstructions: settings.contextInstructions,
-        customColors: settings.customColors,
-        imageData: imageData || undefined,
-        existingDesign: selection ? selectionData || undefined : undefined,
-        signal: abortControllerRef.current.signal,
+      if (variantCount > 1) {
+        // Variants are independent requests; they're rendered together once all have finished
+        const progress: number[] = new Array(variantCount).fill(0)
+        const results = await Promise.allSettled(
+          Array.from({ length: variantCount }, (_, i) => generateDesign({
+            ...requestOptions,
+            prompt: withVariantDirection(prompt, i, variantCount),
+            onProgress: (text) => {
+              progress[i] = text.length
+              updateStreamingMessage({ content: formatVariantProgress(progress) })
+            },
+          }))
+        )
+
+        if (signal.aborted) {
+          throw new DOMException('Generation stopped', 'AbortError')
+        }
+
+        // Labels stay with the request they were asked for, also when an earlier one failed
+        const fulfilled = results.flatMap((r, i) => r.status === 'fulfilled'
+          ? [{ design: r.value, label: VARIANT_CONFIG.LABELS[i] || String(i + 1) }]
+          : [])
+        if (fulfilled.length === 0) {
+          throw (results[0] as PromiseRejectedResult).reason
+        }
+
+        const prepared = fulfilled.map(({ design, label }) => prepareDesign(design, `Variant ${label}: `))
+        const designs = prepared.map(p => p.design)
+        const labels = fulfilled.map(f => f.label)
+        setJsonPreview(JSON.stringify(designs, null, 2))
+        updateStreamingMessage({
+          variants: { groupId: streamId, designs, failed: variantCount - designs.length },
+          validation: prepared.flatMap(p => p.validation),
+          rewrites: prepared.flatMap(p => p.rewrites),
+        })
+        parent.postMessage({
+          pluginMessage: { type: 'render-variants', designs, labels, viewport, groupId: streamId }
+        }, '*')
+        return
+      }
+
+      // A selected frame is edited in place: the model returns only the changes
+      const editsInPlace = (editInPlace || (settings.editMode !== 'regenerate' && settings.replaceMode !== 'beside')) &&
+        !!selection && !selection.hasMultiple && (selection.type === 'FRAME' || selection.type === 'COMPONENT')
+      const reviewRounds = Math.min(settings.reviewRounds || 0, REVIEW_CONFIG.MAX_ROUNDS)
+
+      if (editInPlace && !(editsInPlace && requestOptions.existingDesign)) {
+        throw new Error('Select the frame to edit')
+      }
+
+      if (editsInPlace && selection && requestOptions.existingDesign) {
+        const patch = await generateDesignPatch({
+          ...requestOptions,
+          prompt,
+          onProgress: (text) => {
+            setStreamingContent(text)
+            setJsonPreview(text)
+            updateStreamingMessage({ content: `[Editing selection...] (${text.length} chars)` })
+          }
+        })
+
+        setJsonPreview(JSON.stringify(patch.operations, null, 2))
+        updateStreamingMessage({ design: patch.design, validation: prepareDesign(patch.design).validation, rewrites: patch.rewrites })
+
+        if (patch.operations.length === 0) {
+          updateStreamingMessage({ content: 'No changes were needed.', isStreaming: false })
+          setIsGenerating(false)
+          setStreamingContent('')
+          return
+        }
+
+        const applied = waitForPlugin(['generation-complete', 'error'], signal)
+        parent.postMessage({
+          pluginMessage: {
+            type: 'apply-patch',
+            nodeId: selection.id,
+            base: requestOptions.existingDesign,
+            operations: patch.operations,
+            replaceMode: settings.replaceMode
+          }
+        }, '*')
+
+        const result = await applied
+        if (reviewRounds > 0 && result.type === 'generation-complete' && result.success && result.nodeId) {
+          await runVisualReview(prompt, patch.design, result.nodeId, reviewRounds, requestOptions, reviewTransport)
+        }
+        return
+      }
+
+      const generated = await generateDesign({
+        ...requestOptions,
+        prompt,
         onProgress: (text) => {
+          const update = streamParser.write(text)
+          if (update.root || update.elements.length > 0) {
+            // Rewrites are reported once, for the final design
+            parent.postMessage({
+              pluginMessage: {
+                type: 'render-partial',
+                streamId,
+                viewport,
+                root: update.root && normalizeDesign(update.root).design,
+                elements: update.elements.flatMap(element => normalizeElement(element).element || [])
+              }
+            }, '*')
+          }
+
           setStreamingContent(text)
           setJsonPreview(text) // Store raw JSON for preview
           setMessages(prev => {
             const updated = [...prev]
             const lastIdx = updated.length - 1
             if (lastIdx >= 0 && updated[lastIdx].isStreaming) {
+              const rounds = updated[lastIdx].continuationRounds
+              const status = rounds ? `[Continuing design - round ${rounds}...]` : '[Generating design...]'
               const preview = text.length > 200
-                ? text.slice(0, 100) + '...\n\n[Generating design...]'
+                ? text.slice(0, 100) + `...\n\n${status}`
                 : text
               updated[lastIdx] = {
                 ...updated[lastIdx],
@@ -253,18 +728,41 @@ export default function App() {
         }
       })
 
+      const { design, rewrites, validation } = prepareDesign(generated)
+
       // Store the final design JSON for preview
       setJsonPreview(JSON.stringify(design, null, 2))
 
+      // Keep the design on the assistant message for conversation history
+      setMessages(prev => {
+        const updated = [...prev]
+        const lastIdx = updated.length - 1
+        if (lastIdx >= 0 && updated[lastIdx].isStreaming) {
+          updated[lastIdx] = { ...updated[lastIdx], design, validation, rewrites }
+        }
+        return updated
+      })
+
+      const rendered = reviewRounds > 0 ? waitForPlugin(['generation-complete', 'error'], signal) : null
+
       parent.postMessage({
         pluginMessage: {
           type: 'render-design',
           design,
-          viewport
+          viewport,
+          streamId,
+          replaceMode: settings.replaceMode
         }
       }, '*')
 
+      const result = await rendered
+      if (result?.type === 'generation-complete' && result.success && result.nodeId) {
+        await runVisualReview(prompt, design, result.nodeId, reviewRounds, requestOptions, reviewTransport)
+      }
     } catch (error) {
+      // Keep any sections that finished streaming before the stop or failure
+      parent.postMessage({ pluginMessage: { type: 'finalize-partial', streamId } }, '*')
+
       // Check if this was an abort
       if (error instanceof Error && error.name === 'AbortError') {
         return // Already handled in handleStop
@@ -284,6 +782,10 @@ export default function App() {
         return updated
       })
     } finally {
+      if (generationUsage && hasUsage(generationUsage)) {
+        parent.postMessage({ pluginMessage: { type: 'record-usage', usage: generationUsage } }, '*')
+      }
+      recorder?.finish()
       abortControllerRef.current = null
     }
   }
@@ -326,7 +828,7 @@ export default function App() {
   }, [])
 
   const viewportOptions: ViewportPreset[] = ['mobile', 'tablet', 'desktop']
-  const providerOptions: AIProvider[] = ['claude', 'openai']
+  const providerOptions = getProviders(settings)
 
   return (
     <div className="container">
@@ -337,131 +839,32 @@ export default function App() {
       </div>
 
       {settingsOpen && (
-        <div className="settings-panel">
-          {/* Settings Tabs */}
-          <div className="settings-tabs">
-            <button
-              className={`settings-tab ${settingsTab === 'general' ? 'active' : ''}`}
-              onClick={() => setSettingsTab('general')}
-            >
-              General
-            </button>
-            <button
-              className={`settings-tab ${settingsTab === 'colors' ? 'active' : ''}`}
-              onClick={() => setSettingsTab('colors')}
-            >
-              Colors
-            </button>
-          </div>
-
-          {/* General Tab */}
-          {settingsTab === 'general' && (
-            <>
-              <label>
-                Claude API Key
-                <input
-                  type="password"
-                  value={settings.claudeApiKey}
-                  onChange={e => setSettings({ ...settings, claudeApiKey: e.target.value })}
-                  placeholder="sk-ant-..."
-                />
-              </label>
-
-              <label>
-                OpenAI API Key
-                <input
-                  type="password"
-                  value={settings.openaiApiKey}
-                  onChange={e => setSettings({ ...settings, openaiApiKey: e.target.value })}
-                  placeholder="sk-..."
-                />
-              </label>
-
-              <label>
-                Context Instructions
-                <textarea
-                  value={settings.contextInstructions}
-                  onChange={e => setSettings({ ...settings, contextInstructions: e.target.value })}
-                  placeholder="Design guidelines: Always use 8px grid. Use Inter font. Mobile-first..."
-                  rows={3}
-                />
-              </label>
-            </>
-          )}
-
-          {/* Colors Tab */}
-          {settingsTab === 'colors' && (
-            <>
-              <p className="colors-note">
-                Default colors used when no design system is available.
-                {designSystem && designSystem.colorVariables.length > 0 && (
-                  <span className="colors-hint"> (Design system detected - these will be overridden)</span>
-                )}
-              </p>
-              <div className="color-grid">
-                {(Object.keys(COLOR_LABELS) as Array<keyof CustomColorPalette>).map(colorKey => (
-                  <div key={colorKey} className="color-item">
-                    <label>{COLOR_LABELS[colorKey]}</label>
-                    <div className="color-input-wrapper">
-                      <input
-                        type="color"
-                        value={settings.customColors?.[colorKey] || DEFAULT_COLOR_PALETTE[colorKey]}
-                        onChange={e => setSettings({
-                          ...settings,
-                          customColors: {
-                            ...DEFAULT_COLOR_PALETTE,
-                            ...settings.customColors,
-                            [colorKey]: e.target.value
-                          }
-                        })}
-                      />
-                      <input
-                        type="text"
-                        value={settings.customColors?.[colorKey] || DEFAULT_COLOR_PALETTE[colorKey]}
-                        onChange={e => setSettings({
-                          ...settings,
-                          customColors: {
-                            ...DEFAULT_COLOR_PALETTE,
-                            ...settings.customColors,
-                            [colorKey]: e.target.value
-                          }
-                        })}
-                        placeholder="#000000"
-                      />
-                    </div>
-                  </div>
-                ))}
-              </div>
-              <button
-                className="reset-colors"
-                onClick={() => setSettings({ ...settings, customColors: DEFAULT_COLOR_PALETTE })}
-              >
-                Reset to Defaults
-              </button>
-            </>
-          )}
-
-          <button onClick={handleSaveSettings}>Save Settings</button>
-        </div>
+        <SettingsPanel
+          settings={settings}
+          onSettingsChange={setSettings}
+          onSave={handleSaveSettings}
+          hasDesignSystem={!!designSystem && designSystem.colorVariables.length > 0}
+          recordings={recordings}
+          onDeleteRecording={id => parent.postMessage({ pluginMessage: { type: 'delete-recording', id } }, '*')}
+        />
       )}
 
       {/* Model Selector */}
       <div className="model-selector">
-        {providerOptions.map(p => {
-          const provider = AI_PROVIDERS[p]
-          const hasKey = p === 'claude' ? hasClaudeKey : hasOpenaiKey
-          const isSelected = settings.selectedProvider === p
+        {providerOptions.map(provider => {
+          const hasKey = isProviderReady(settings, provider)
+          const isSelected = currentProvider.id === provider.id
 
           return (
             <button
-              key={p}
+              key={provider.id}
               className={`model-option ${isSelected ? 'active' : ''} ${!hasKey ? 'disabled' : ''}`}
-              onClick={() => hasKey && handleProviderChange(p)}
+              onClick={() => hasKey && handleProviderChange(provider.id)}
               disabled={!hasKey}
               title={!hasKey ? `Add ${provider.name} API key in settings` : `Use ${provider.name}`}
             >
               <span className="model-name">{provider.name}</span>
-              <span className="model-variant">{provider.model}</span>
+              <span className="model-variant">{getGenerationParams(settings, provider).model}</span>
             </button>
           )
         })}
@@ -478,6 +881,18 @@ export default function App() {
             {VIEWPORT_PRESETS[v].name}
           </button>
         ))}
+        <select
+          className="variant-select"
+          value={settings.variantCount || 1}
+          onChange={e => handleVariantCountChange(Number(e.target.value))}
+          title="Generate alternative designs side by side"
+        >
+          {Array.from({ length: VARIANT_CONFIG.MAX_COUNT }, (_, i) => i + 1).map(count => (
+            <option key={count} value={count}>
+              {count === 1 ? '1 design' : `${count} variants`}
+            </option>
+          ))}
+        </select>
       </div>
 
       {/* Design System Info */}
@@ -489,6 +904,25 @@ export default function App() {
         </div>
       )}
 
+      {/* Usage totals for this file */}
+      {usageTotals && (
+        <div className="usage-summary" title={formatUsage(usageTotals)}>
+          <span>
+            This file: {usageTotals.generations} {usageTotals.generations === 1 ? 'generation' : 'generations'}
+            {' · '}{formatTokens(usageTotals.inputTokens + usageTotals.cacheReadTokens + usageTotals.cacheWriteTokens + usageTotals.outputTokens)} tokens
+            {' · '}~{formatCost(usageTotals.costUsd)}
+            {usageTotals.unpricedGenerations > 0 && ` (${usageTotals.unpricedGenerations} unpriced)`}
+            {(usageTotals.cacheSavingsUsd || 0) > 0 && ` · cache saved ~${formatCost(usageTotals.cacheSavingsUsd || 0)}`}
+          </span>
+          <button
+            onClick={() => parent.postMessage({ pluginMessage: { type: 'reset-usage' } }, '*')}
+            title={`Tracking since ${new Date(usageTotals.since).toLocaleDateString()}`}
+          >
+            Reset
+          </button>
+        </div>
+      )}
+
       {/* Chat Messages */}
       <div className="chat-container">
         {messages.length === 0 && (
@@ -514,7 +948,106 @@ export default function App() {
             {msg.imageData && (
               <img src={msg.imageData} alt="Reference" className="message-image" />
             )}
+            {msg.review && msg.review.issues.length > 0 && (
+              <div className="message-review">
+                {msg.review.summary && <div className="review-summary">{msg.review.summary}</div>}
+                <ul>
+                  {msg.review.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+                </ul>
+              </div>
+            )}
             <p>{msg.content}</p>
+            {msg.rewrites && msg.rewrites.length > 0 && (
+              <details className="message-rewrites">
+                <summary>
+                  Fixed {msg.rewrites.length} {msg.rewrites.length === 1 ? 'quirk' : 'quirks'} in the model output
+                </summary>
+                <ul>
+                  {msg.rewrites.slice(0, VALIDATION_CONFIG.MAX_LISTED_ISSUES).map((rewrite, i) => <li key={i}>{rewrite}</li>)}
+                </ul>
+                {msg.rewrites.length > VALIDATION_CONFIG.MAX_LISTED_ISSUES && (
+                  <div>...and {msg.rewrites.length - VALIDATION_CONFIG.MAX_LISTED_ISSUES} more</div>
+                )}
+              </details>
+            )}
+            {msg.renderReport && msg.renderReport.failures.length > 0 && (
+              <div className="message-failures">
+                <div>
+                  {msg.renderReport.failures.length} {msg.renderReport.failures.length === 1 ? 'element' : 'elements'} failed to render:
+                </div>
+                <ul>
+                  {msg.renderReport.failures.slice(0, VALIDATION_CONFIG.MAX_LISTED_ISSUES).map((failure, i) => (
+                    <li key={i}>{formatRenderFailure(failure)}</li>
+                  ))}
+                </ul>
+                {msg.renderReport.failures.length > VALIDATION_CONFIG.MAX_LISTED_ISSUES && (
+                  <div>...and {msg.renderReport.failures.length - VALIDATION_CONFIG.MAX_LISTED_ISSUES} more</div>
+                )}
+                {/* The repair edits the selection, so the frame has to be selected */}
+                <button
+                  onClick={() => handleSubmit(buildRepairPrompt(msg.renderReport!.failures), { editInPlace: true })}
+                  disabled={isGenerating || !msg.nodeId || selection?.id !== msg.nodeId}
+                  title={selection?.id === msg.nodeId ? 'Rebuild only the failed elements' : 'Select the frame to rebuild its failed elements'}
+                >
+                  Regenerate failed parts
+                </button>
+              </div>
+            )}
+            {msg.renderReport && msg.renderReport.issues.length > 0 && (
+              <details className="message-report">
+                <summary>{summarizeRenderReport(msg.renderReport)}</summary>
+                <ul>
+                  {msg.renderReport.issues.slice(0, VALIDATION_CONFIG.MAX_LISTED_ISSUES).map((issue, i) => (
+                    <li key={i}>{formatRenderIssue(issue)}</li>
+                  ))}
+                </ul>
+                {msg.renderReport.issues.length > VALIDATION_CONFIG.MAX_LISTED_ISSUES && (
+                  <div>...and {msg.renderReport.issues.length - VALIDATION_CONFIG.MAX_LISTED_ISSUES} more</div>
+                )}
+              </details>
+            )}
+            {msg.validation && msg.validation.length > 0 && (
+              <details className="message-validation">
+                <summary>
+                  {msg.validation.length} schema {msg.validation.length === 1 ? 'issue' : 'issues'} in the design
+                </summary>
+                <ul>
+                  {msg.validation.slice(0, VALIDATION_CONFIG.MAX_LISTED_ISSUES).map((issue, i) => <li key={i}>{issue}</li>)}
+                </ul>
+                {msg.validation.length > VALIDATION_CONFIG.MAX_LISTED_ISSUES && (
+                  <div>...and {msg.validation.length - VALIDATION_CONFIG.MAX_LISTED_ISSUES} more</div>
+                )}
+              </details>
+            )}
+            {msg.variants?.rendered && msg.variants.rendered.length > 1 && (
+              <div className="variant-picker">
+                <span>{msg.variants.winner ? 'Picked:' : 'Pick one:'}</span>
+                {msg.variants.rendered.map(variant => (
+                  <button
+                    key={variant.nodeId}
+                    className={`variant-option ${msg.variants?.winner === variant.nodeId ? 'active' : ''}`}
+                    onClick={() => handlePickVariant(msg.id, variant)}
+                    disabled={msg.variants?.discarded}
+                    title={variant.name}
+                  >
+                    {variant.label}
+                  </button>
+                ))}
+                {msg.variants.winner && !msg.variants.discarded && (
+                  <button className="variant-discard" onClick={() => handleDiscardVariants(msg.id)}>
+                    Delete others
+                  </button>
+                )}
+              </div>
+            )}
+            {msg.usage && (
+              <div className="message-usage" title="Input (uncached) · output · cache reads · estimated cost">
+                {formatUsage(msg.usage)}
+                {formatCacheStatus(msg.usage) && (
+                  <div className="message-cache">{formatCacheStatus(msg.usage)}</div>
+                )}
+              </div>
+            )}
           </div>
         ))}
         <div ref={chatEndRef} />
@@ -528,10 +1061,58 @@ export default function App() {
             {selection.name}
             {selection.hasMultiple && ` (+${selection.count - 1} more)`}
           </span>
-          <span className="selection-hint">Will be replaced</span>
+          <span className="selection-hint">
+            {settings.variantCount > 1 || settings.replaceMode === 'beside'
+              ? `${settings.variantCount > 1 ? 'Variants go' : 'New design goes'} beside it`
+              : settings.replaceMode !== 'versions' ? 'Will be updated'
+              : selection.type === 'COMPONENT' ? 'Will be updated, components keep no versions'
+              : 'Will be updated, old version kept'}
+          </span>
+        </div>
+      )}
+
+      {/* Earlier versions of the selected frame */}
+      {selection && !selection.hasMultiple && versions?.nodeId === selection.id && versions.list.length > 0 && (
+        <div className="version-stepper">
+          <button
+            className="version-step"
+            onClick={() => handleStepVersion(versionIndex + 1)}
+            disabled={versionIndex >= versions.list.length}
+            title="Older version"
+          >
+            ‹
+          </button>
+          <span className="version-label">
+            {versionIndex === 0
+              ? `Current (${versions.list.length} earlier ${versions.list.length === 1 ? 'version' : 'versions'})`
+              : `Version ${versions.list.length - versionIndex + 1} of ${versions.list.length + 1} · ${new Date(versions.list[versionIndex - 1].savedAt).toLocaleString()}`}
+          </span>
+          <button
+            className="version-step"
+            onClick={() => handleStepVersion(versionIndex - 1)}
+            disabled={versionIndex === 0}
+            title="Newer version"
+          >
+            ›
+          </button>
+          <button
+            className="version-restore"
+            onClick={handleRestoreVersion}
+            disabled={versionIndex === 0 || isGenerating}
+          >
+            Restore
+          </button>
         </div>
       )}
 
+      {/* Image Assets */}
+      <ImageShelf
+        assets={imageAssets}
+        disabled={isGenerating}
+        onAdd={(name, data) => parent.postMessage({ pluginMessage: { type: 'save-image-asset', name, imageData: data } }, '*')}
+        onDelete={name => parent.postMessage({ pluginMessage: { type: 'delete-image-asset', name } }, '*')}
+      />
+
       {/* Image Preview */}
       {imageData && (
         <div className="image-preview">
@@ -582,7 +1163,7 @@ export default function App() {
           </button>
         ) : (
           <button
-            onClick={handleSubmit}
+            onClick={() => handleSubmit()}
             disabled={!input.trim() && !imageData}
           >
             {selection ? 'Update' : 'Generate'}
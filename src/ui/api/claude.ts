@@ -2,29 +2,69 @@
  * Claude API handler for design generation
  */
 
-import type { CustomColorPalette, DesignSystemContext, FrameNode, ViewportSize } from '../../shared/types'
-import { API_CONFIG } from '../../shared/constants'
+import type { CustomColorPalette, DesignSystemContext, FrameNode, GenerationParams, ProviderDefinition, TokenUsage, ViewportSize } from '../../shared/types'
+import { API_CONFIG, CONTINUATION_CONFIG } from '../../shared/constants'
+import { DESIGN_JSON_SCHEMA, DESIGN_TOOL } from '../../shared/designSchema'
 import { parseDesignJson } from '../../shared/utils/jsonRepair'
-import { buildSystemPrompt } from './prompts'
+import { emptyUsage, hasUsage } from '../../shared/utils/usage'
+import { buildSystemPromptSections } from './prompts'
+import type { SystemPromptSection } from './prompts'
+import { buildHistoryMessages, withOutcomeNote } from './history'
+import type { ConversationTurn } from './history'
+import { createContinuationJoin } from './continuation'
+import { buildAuthHeaders, buildEndpointUrl } from './providers'
+import type { Transport } from './providers'
+import { openStream, readSSE, withRetry } from './sse'
+import type { RequestContext, RetryInfo } from './sse'
+import { classifyStreamError } from './errors'
 
 interface GenerationOptions {
   prompt: string
+  provider: ProviderDefinition
   apiKey: string
+  params: GenerationParams
   viewport: ViewportSize
   designSystem: DesignSystemContext | null
   contextInstructions: string
   customColors?: CustomColorPalette
   imageData?: string
   existingDesign?: FrameNode
+  history?: ConversationTurn[]
   onProgress?: (text: string) => void
+  onContinuation?: (round: number) => void
   signal?: AbortSignal
+  transport?: Transport
+  onRetry?: (info: RetryInfo) => void
+  onUsage?: (usage: TokenUsage) => void
 }
 
-interface ClaudeMessage {
+export interface ClaudeMessage {
   role: 'user' | 'assistant'
   content: string | Array<{ type: string; text?: string; source?: { type: string; media_type: string; data: string } }>
 }
 
+/**
+ * User turn content: the attached image (if any) first, then the request text
+ */
+export function buildClaudeUserContent(text: string, imageData?: string): ClaudeMessage['content'] {
+  if (!imageData) return text
+
+  const base64Data = imageData.split(',')[1] || imageData
+  const mediaType = imageData.includes('png') ? 'image/png' : 'image/jpeg'
+
+  return [
+    {
+      type: 'image',
+      source: {
+        type: 'base64',
+        media_type: mediaType,
+        data: base64Data,
+      },
+    },
+    { type: 'text', text },
+  ]
+}
+
 /**
  * Build the user message content based on inputs
  */
@@ -35,25 +75,12 @@ function buildUserContent(
   existingDesign?: FrameNode
 ): ClaudeMessage['content'] {
   if (imageData) {
-    const base64Data = imageData.split(',')[1] || imageData
-    const mediaType = imageData.includes('png') ? 'image/png' : 'image/jpeg'
-
-    return [
-      {
-        type: 'image',
-        source: {
-          type: 'base64',
-          media_type: mediaType,
-          data: base64Data,
-        },
-      },
-      {
-        type: 'text',
-        text: existingDesign
-          ? `Here is the current design:\n${JSON.stringify(existingDesign, null, 2)}\n\nUser request: ${prompt}\n\nGenerate the updated design JSON:`
-          : `Reference the attached image for visual inspiration.\n\nUser request: ${prompt}\n\nGenerate the design JSON:`,
-      },
-    ]
+    return buildClaudeUserContent(
+      existingDesign
+        ? `Here is the current design:\n${JSON.stringify(existingDesign, null, 2)}\n\nAn image is attached; to show it in the design, use an IMAGE fill with "image": "reference".\n\nUser request: ${prompt}\n\nGenerate the updated design JSON:`
+        : `Reference the attached image for visual inspiration. To show the image itself, use an IMAGE fill with "image": "reference".\n\nUser request: ${prompt}\n\nGenerate the design JSON:`,
+      imageData
+    )
   }
 
   if (existingDesign) {
@@ -63,97 +90,269 @@ function buildUserContent(
   return `Create a ${viewport.name.toLowerCase()} screen design for: ${prompt}\n\nGenerate the design JSON:`
 }
 
+interface StreamResult {
+  text: string
+  stopReason: string | null
+  usage: TokenUsage
+}
+
+// The parts of the stream events that are read
+interface ClaudeUsage {
+  input_tokens?: number
+  output_tokens?: number
+  cache_read_input_tokens?: number
+  cache_creation_input_tokens?: number
+}
+
+interface ClaudeStreamEvent {
+  type?: string
+  message?: { usage?: ClaudeUsage }
+  usage?: ClaudeUsage
+  delta?: { type?: string; text?: string; partial_json?: string; stop_reason?: string | null }
+  error?: unknown
+}
+
+// message_start carries the input counts; message_delta the final output count
+function readUsage(raw: ClaudeUsage, previous: TokenUsage): TokenUsage {
+  return {
+    inputTokens: raw.input_tokens ?? previous.inputTokens,
+    outputTokens: raw.output_tokens ?? previous.outputTokens,
+    cacheReadTokens: raw.cache_read_input_tokens ?? previous.cacheReadTokens,
+    cacheWriteTokens: raw.cache_creation_input_tokens ?? previous.cacheWriteTokens,
+  }
+}
+
+/**
+ * Structured system prompt with a cache breakpoint after each stable section.
+ * The cached prefix (tools + stable sections) is reused across requests until
+ * the design system or instructions change; the viewport section stays uncached.
+ */
+export function buildSystemBlocks(sections: SystemPromptSection[]) {
+  return sections
+    .filter(section => section.text.trim())
+    .map(section => ({
+      type: 'text' as const,
+      text: section.text,
+      ...(section.cacheable && { cache_control: { type: 'ephemeral' as const } }),
+    }))
+}
+
+/**
+ * Send one streaming request and collect the generated text (or tool input)
+ */
+export async function streamClaudeRequest(
+  context: RequestContext,
+  body: Record<string, unknown>,
+  onText: (text: string) => void
+): Promise<StreamResult> {
+  const { provider, apiKey } = context
+  let fullText = ''
+  let toolInput = ''
+  let stopReason: string | null = null
+  let usage = emptyUsage()
+
+  const handleEvent = (data: unknown) => {
+    if (typeof data !== 'object' || data === null) return
+    const event = data as ClaudeStreamEvent
+    if (event.type === 'message_start' && event.message?.usage) {
+      usage = readUsage(event.message.usage, usage)
+    }
+    if (event.type === 'message_delta' && event.usage) {
+      usage = readUsage(event.usage, usage)
+    }
+
+    if (event.type === 'content_block_delta') {
+      // Tool input arrives as partial JSON fragments
+      if (event.delta?.type === 'input_json_delta' && event.delta.partial_json) {
+        toolInput += event.delta.partial_json
+        onText(toolInput)
+      } else if (event.delta?.text) {
+        fullText += event.delta.text
+        onText(fullText)
+      }
+    }
+
+    // "max_tokens" here means the design was cut off
+    if (event.type === 'message_delta' && event.delta?.stop_reason) {
+      stopReason = event.delta.stop_reason
+    }
+
+    // Mid-stream failures such as overloaded_error
+    if (event.type === 'error') {
+      throw classifyStreamError(provider, event.error)
+    }
+  }
+
+  return withRetry(
+    context,
+    async () => {
+      fullText = ''
+      toolInput = ''
+      stopReason = null
+      usage = emptyUsage()
+
+      const response = await openStream(context, buildEndpointUrl(provider, API_CONFIG.CLAUDE.PATH), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...buildAuthHeaders(provider, apiKey),
+          'anthropic-version': API_CONFIG.CLAUDE.VERSION,
+          'anthropic-dangerous-direct-browser-access': 'true',
+        },
+        body: JSON.stringify({ ...body, stream: true }),
+      })
+      try {
+        await readSSE(response, handleEvent)
+      } catch (error) {
+        // message_start already counted the input; it is billed even if the stream fails or is stopped
+        if (hasUsage(usage)) context.onUsage?.(usage)
+        throw error
+      }
+      context.onUsage?.(usage)
+
+      // Prefer the assembled tool input; plain text is the fallback if the model answered directly
+      return { text: toolInput || fullText, stopReason, usage }
+    },
+    () => fullText.length > 0 || toolInput.length > 0
+  )
+}
+
+export interface ClaudeJsonRequest {
+  params: GenerationParams
+  sections: SystemPromptSection[]
+  messages: ClaudeMessage[]
+  /** Tool the answer is forced through when the provider supports structured output */
+  tool: { NAME: string; DESCRIPTION: string }
+  schema: object
+}
+
+/**
+ * Stream a JSON answer, continuing it while it is cut off at max_tokens.
+ * Returns the joined text.
+ */
+export async function streamClaudeJson(
+  context: RequestContext,
+  request: ClaudeJsonRequest,
+  onProgress?: (text: string) => void,
+  onContinuation?: (round: number) => void
+): Promise<string> {
+  const { params, messages, tool } = request
+
+  const baseBody = {
+    model: params.model,
+    max_tokens: params.maxTokens,
+    system: buildSystemBlocks(request.sections),
+    ...(params.temperature !== undefined && { temperature: params.temperature }),
+  }
+
+  // Extended thinking: the budget comes on top of the answer's output tokens.
+  // The API rejects a custom temperature and a forced tool choice while thinking.
+  const thinkingBudget = params.thinkingBudget && params.thinkingBudget >= API_CONFIG.CLAUDE.MIN_THINKING_BUDGET
+    ? params.thinkingBudget
+    : 0
+  const thinkingBody = thinkingBudget > 0
+    ? {
+        max_tokens: params.maxTokens + thinkingBudget,
+        thinking: { type: 'enabled', budget_tokens: thinkingBudget },
+        temperature: undefined,
+      }
+    : {}
+
+  let result = await streamClaudeRequest(
+    context,
+    {
+      ...baseBody,
+      ...thinkingBody,
+      messages,
+      // Force the answer through a tool call so it arrives as schema-shaped JSON
+      ...(context.provider.supportsStructuredOutput && {
+        tools: [
+          {
+            name: tool.NAME,
+            description: tool.DESCRIPTION,
+            input_schema: request.schema,
+          },
+        ],
+        tool_choice: thinkingBudget > 0
+          ? { type: 'auto' }
+          : { type: 'tool', name: tool.NAME },
+      }),
+    },
+    text => onProgress?.(text)
+  )
+  let fullText = result.text
+
+  // Cut off at max_tokens: prefill the partial JSON as the assistant turn and let the model carry on
+  let rounds = 0
+  while (result.stopReason === 'max_tokens' && rounds < CONTINUATION_CONFIG.MAX_ROUNDS) {
+    rounds++
+    onContinuation?.(rounds)
+
+    const previous = fullText
+    const join = createContinuationJoin(previous)
+    result = await streamClaudeRequest(
+      context,
+      {
+        ...baseBody,
+        // Prefill must not end with whitespace
+        messages: [...messages, { role: 'assistant', content: previous.trimEnd() }],
+      },
+      text => {
+        const joined = join.progress(text)
+        if (joined !== null) onProgress?.(joined)
+      }
+    )
+    fullText = join.finish(result.text)
+  }
+
+  return fullText
+}
+
 /**
  * Stream design generation from Claude API
  */
 export async function streamClaudeGeneration(options: GenerationOptions): Promise<FrameNode> {
   const {
     prompt,
+    provider,
     apiKey,
+    params,
     viewport,
     designSystem,
     contextInstructions,
     customColors,
     imageData,
     existingDesign,
+    history,
     onProgress,
+    onContinuation,
     signal,
+    transport,
+    onRetry,
+    onUsage,
   } = options
 
-  const systemPrompt = buildSystemPrompt(viewport, designSystem, contextInstructions, customColors)
-  const userContent = buildUserContent(prompt, viewport, imageData, existingDesign)
+  const context: RequestContext = { provider, apiKey, signal, transport, onRetry, onUsage }
 
-  const messages: ClaudeMessage[] = [{ role: 'user', content: userContent }]
+  const conversation = buildHistoryMessages(history || [])
+  const requestPrompt = withOutcomeNote(prompt, conversation.lastOutcome)
+  const userContent = buildUserContent(requestPrompt, viewport, imageData, existingDesign)
 
-  const response = await fetch(API_CONFIG.CLAUDE.URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': API_CONFIG.CLAUDE.VERSION,
-      'anthropic-dangerous-direct-browser-access': 'true',
+  const fullText = await streamClaudeJson(
+    context,
+    {
+      params,
+      sections: buildSystemPromptSections(viewport, designSystem, contextInstructions, customColors),
+      messages: [
+        ...conversation.messages,
+        { role: 'user', content: userContent },
+      ],
+      tool: DESIGN_TOOL,
+      schema: DESIGN_JSON_SCHEMA,
     },
-    body: JSON.stringify({
-      model: API_CONFIG.CLAUDE.MODEL,
-      max_tokens: API_CONFIG.CLAUDE.MAX_TOKENS,
-      system: systemPrompt,
-      messages,
-      stream: true,
-    }),
-    signal,
-  })
-
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`Claude API error: ${response.status} - ${errorText}`)
-  }
-
-  if (!response.body) {
-    throw new Error('No response body')
-  }
-
-  // Process streaming response
-  const reader = response.body.getReader()
-  const decoder = new TextDecoder()
-  let fullText = ''
-  let buffer = ''
-
-  while (true) {
-    const { done, value } = await reader.read()
-    if (done) break
-
-    buffer += decoder.decode(value, { stream: true })
-
-    // Process complete SSE events
-    const lines = buffer.split('\n')
-    buffer = lines.pop() || ''
-
-    for (const line of lines) {
-      if (line.startsWith('data: ')) {
-        const data = line.slice(6)
-        if (data === '[DONE]') continue
-
-        try {
-          const event = JSON.parse(data)
-
-          if (event.type === 'content_block_delta' && event.delta?.text) {
-            fullText += event.delta.text
-            onProgress?.(fullText)
-          }
-
-          if (event.type === 'message_stop') {
-            break
-          }
-
-          if (event.type === 'error') {
-            throw new Error(event.error?.message || 'Stream error')
-          }
-        } catch {
-          // Ignore JSON parse errors for non-JSON lines
-        }
-      }
-    }
-  }
+    onProgress,
+    onContinuation
+  )
 
   return parseDesignJson(fullText)
 }
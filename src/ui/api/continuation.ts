@@ -0,0 +1,87 @@
+/**
+ * Continuation helpers for responses cut off at the output token limit
+ *
+ * When a response stops with Claude `stop_reason: "max_tokens"` or OpenAI
+ * `finish_reason: "length"`, the handlers request the rest of the JSON and
+ * stitch the pieces together before parsing.
+ */
+
+import { CONTINUATION_CONFIG } from '../../shared/constants'
+import { parseTolerantJson } from '../../shared/utils/tolerantJson'
+
+/**
+ * Instruction sent to providers that cannot prefill the assistant turn
+ */
+export const CONTINUE_PROMPT =
+  'Your previous response was cut off by the output limit. Continue the JSON exactly where it stopped. ' +
+  'Output only the remaining characters - do not repeat anything, do not restart the object, no markdown.'
+
+export interface ContinuationJoin {
+  /** Joined text while the continuation streams; null until the overlap is settled */
+  progress: (continuation: string) => string | null
+  /** Joined text once the continuation is complete */
+  finish: (continuation: string) => string
+}
+
+// Strip markdown fences the model may add; prefilled requests continue after trimmed whitespace
+function trimContinuationStart(previous: string, continuation: string): string {
+  let next = continuation.replace(/^\s*```(?:json)?\s*/, '')
+  if (/\s$/.test(previous)) {
+    next = next.replace(/^\s+/, '')
+  }
+  return next
+}
+
+// Length of the previous tail the continuation repeats at its start. A match only
+// counts as a restatement when keeping it would break the JSON at the boundary:
+// an identical sibling written after the last one joins cleanly and is kept.
+function findOverlap(previous: string, next: string): number {
+  const maxOverlap = Math.min(CONTINUATION_CONFIG.MAX_OVERLAP_SEARCH, previous.length, next.length)
+  for (let size = maxOverlap; size >= CONTINUATION_CONFIG.MIN_OVERLAP; size--) {
+    if (previous.endsWith(next.slice(0, size))) {
+      const kept = parseTolerantJson(previous + next).recoveries.length
+      const stripped = parseTolerantJson(previous + next.slice(size)).recoveries.length
+      return stripped < kept ? size : 0
+    }
+  }
+  return 0
+}
+
+/**
+ * Join a streaming continuation to the text generated so far.
+ *
+ * The overlap is decided once, when enough of the continuation has arrived to
+ * contain any repeated tail; from then on progress text only grows, so
+ * incremental parsers fed with it never see the text shrink.
+ */
+export function createContinuationJoin(previous: string): ContinuationJoin {
+  // Offset in the continuation where new text starts, once settled
+  let start: number | null = null
+
+  const settle = (continuation: string) => {
+    const next = trimContinuationStart(previous, continuation)
+    return continuation.length - next.length + findOverlap(previous, next)
+  }
+
+  return {
+    progress: continuation => {
+      if (start === null) {
+        if (trimContinuationStart(previous, continuation).length < CONTINUATION_CONFIG.MAX_OVERLAP_SEARCH) return null
+        start = settle(continuation)
+      }
+      return previous + continuation.slice(start)
+    },
+    finish: continuation => previous + continuation.slice(start ?? settle(continuation)),
+  }
+}
+
+/**
+ * Append a complete continuation to the text generated so far.
+ *
+ * Strips markdown fences the model may add, skips whitespace already present
+ * at the end of the previous text, and removes the tail of the previous text
+ * when the model restated it.
+ */
+export function joinContinuation(previous: string, continuation: string): string {
+  return createContinuationJoin(previous).finish(continuation)
+}
@@ -0,0 +1,174 @@
+/**
+ * Selection edits as JSON Patch
+ *
+ * Instead of regenerating the whole selected design, the model returns only
+ * the changes as JSON Patch (RFC 6902) operations against the serialized
+ * selection. The plugin applies them to the existing nodes in place, so
+ * untouched layers keep their ids, comments and prototype links.
+ */
+
+import type { FrameNode, PatchOperation } from '../../shared/types'
+import { PATCH_JSON_SCHEMA, PATCH_TOOL } from '../../shared/designSchema'
+import { applyPatch, isPatchOperation } from '../../shared/utils/jsonPatch'
+import { createTolerantJsonParser } from '../../shared/utils/tolerantJson'
+import { normalizeElement } from '../../shared/utils/designNormalization'
+import { buildSystemPromptSections } from './prompts'
+import { buildHistoryMessages, withOutcomeNote } from './history'
+import { buildClaudeUserContent, streamClaudeJson } from './claude'
+import { buildOpenAIUserContent, streamOpenAIJson } from './openai'
+import type { GenerationOptions } from './index'
+import type { RequestContext } from './sse'
+
+export interface DesignPatch {
+  operations: PatchOperation[]
+  /** The existing design with the operations applied */
+  design: FrameNode
+  /** Model quirks fixed in the operations' elements */
+  rewrites: string[]
+}
+
+const EDIT_INSTRUCTIONS = `## Editing an Existing Design
+The user message contains the current design JSON. Its elements carry an "id" - the Figma layer they belong to.
+Do NOT return the whole design. Return only the changes, as JSON Patch (RFC 6902) operations:
+{"operations": [{"op": "replace", "path": "/children/0/fills/0/color", "value": {"r": 0.1, "g": 0.1, "b": 0.1}}]}
+
+Rules:
+- Paths are JSON Pointers into the current design; array indexes start at 0
+- Make the smallest change that does the job: replace a property rather than its element, an element rather than its parent
+- Add new elements with "add" at "/children/<index>" (or "/children/-" to append); new elements have no "id"
+- Use "move" to reorder elements or move them to another parent, so the layer is kept
+- Never change or invent an "id"
+- Operations are applied in order: each path refers to the design after the operations before it
+- If nothing needs to change, return {"operations": []}
+When the "${PATCH_TOOL.NAME}" tool is available, pass the operations as its input.`
+
+function buildEditText(prompt: string, design: FrameNode): string {
+  return `Here is the current design:\n${JSON.stringify(design, null, 2)}\n\nUser request: ${prompt}\n\nReturn the JSON Patch operations:`
+}
+
+/**
+ * Lenient parse: accept {"operations": [...]} or a bare array, with the usual
+ * model slips. Only complete operations are kept, so a truncated last one is
+ * dropped rather than applied half-written; malformed ones are skipped.
+ */
+export function parseOperations(text: string): PatchOperation[] {
+  const operations: PatchOperation[] = []
+  const parser = createTolerantJsonParser({
+    onValue: (path, value) => {
+      const isListItem = (path.length === 1 && typeof path[0] === 'number')
+        || (path.length === 2 && path[0] === 'operations' && typeof path[1] === 'number')
+      if (isListItem && isPatchOperation(value)) operations.push(value)
+    },
+  })
+  parser.write(text)
+
+  const { value } = parser.result()
+  const list = Array.isArray(value)
+    ? value
+    : (value as { operations?: unknown } | undefined)?.operations
+  if (!Array.isArray(list)) {
+    throw new Error('The response did not contain any edit operations')
+  }
+  return operations
+}
+
+// Elements added or replaced whole get the same quirk fixes as generated designs
+function normalizeOperations(operations: PatchOperation[]): { operations: PatchOperation[]; rewrites: string[] } {
+  const rewrites: string[] = []
+  const normalized = operations.map(operation => {
+    if ((operation.op !== 'add' && operation.op !== 'replace') || !/\/children\/(\d+|-)$/.test(operation.path)) {
+      return operation
+    }
+    const { element, rewrites: elementRewrites } = normalizeElement(operation.value, operation.path)
+    rewrites.push(...elementRewrites)
+    return element ? { ...operation, value: element } : operation
+  })
+  return { operations: normalized, rewrites }
+}
+
+/**
+ * Ask the model for JSON Patch operations that apply the prompt to `existingDesign`
+ */
+export async function generateDesignPatch(options: GenerationOptions): Promise<DesignPatch> {
+  const {
+    prompt,
+    provider,
+    apiKey,
+    params,
+    viewport,
+    designSystem,
+    contextInstructions,
+    customColors,
+    imageData,
+    existingDesign,
+    history,
+    onProgress,
+    onContinuation,
+    signal,
+    transport,
+    onRetry,
+    onUsage,
+  } = options
+
+  if (!existingDesign) {
+    throw new Error('Select a frame to edit')
+  }
+
+  const context: RequestContext = { provider, apiKey, signal, transport, onRetry, onUsage }
+  const sections = buildSystemPromptSections(viewport, designSystem, contextInstructions, customColors)
+  // Stable, so it joins the cached prefix ahead of the viewport section
+  sections.splice(sections.length - 1, 0, { text: EDIT_INSTRUCTIONS, cacheable: true })
+
+  const conversation = buildHistoryMessages(history || [])
+  const text = buildEditText(withOutcomeNote(prompt, conversation.lastOutcome), existingDesign)
+  const image = provider.supportsVision ? imageData : undefined
+
+  let responseText: string
+
+  if (provider.streamFormat === 'anthropic') {
+    responseText = await streamClaudeJson(
+      context,
+      {
+        params,
+        sections,
+        messages: [...conversation.messages, { role: 'user', content: buildClaudeUserContent(text, image) }],
+        tool: PATCH_TOOL,
+        schema: PATCH_JSON_SCHEMA,
+      },
+      onProgress,
+      onContinuation
+    )
+  } else if (provider.streamFormat === 'openai') {
+    responseText = await streamOpenAIJson(
+      context,
+      {
+        params,
+        messages: [
+          { role: 'system', content: sections.map(section => section.text).filter(Boolean).join('\n\n') },
+          ...conversation.messages,
+          { role: 'user', content: buildOpenAIUserContent(text, image) },
+        ],
+        tool: PATCH_TOOL,
+        schema: PATCH_JSON_SCHEMA,
+      },
+      onProgress,
+      onContinuation
+    )
+  } else {
+    throw new Error(`Unknown stream format for provider: ${provider.name}`)
+  }
+
+  const { operations, rewrites } = normalizeOperations(parseOperations(responseText))
+
+  // Preview of the result for the chat; operations that don't apply are skipped like in the plugin
+  let design = existingDesign
+  for (const operation of operations) {
+    try {
+      design = applyPatch(design, [operation])
+    } catch {
+      // Reported by the plugin when it applies the patch
+    }
+  }
+
+  return { operations, design, rewrites }
+}
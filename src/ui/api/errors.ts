@@ -0,0 +1,181 @@
+/**
+ * Provider error classification
+ *
+ * Turns HTTP failures, mid-stream `error` events and network failures into
+ * typed errors with a message the user can act on. The raw provider response
+ * is kept in `detail` for debugging.
+ */
+
+import type { ProviderDefinition } from '../../shared/types'
+
+export type ProviderErrorKind =
+  | 'auth'
+  | 'rate_limit'
+  | 'overloaded'
+  | 'context_length'
+  | 'network'
+  | 'server'
+  | 'invalid_request'
+  | 'unknown'
+
+export interface ProviderError extends Error {
+  name: 'ProviderError'
+  kind: ProviderErrorKind
+  status?: number
+  /** Server-requested wait before retrying (from `retry-after`) */
+  retryAfterMs?: number
+  /** Raw error text from the provider */
+  detail: string
+}
+
+// Failures that usually succeed when the same request is sent again
+const RETRYABLE_KINDS: ProviderErrorKind[] = ['rate_limit', 'overloaded', 'network', 'server']
+
+interface ErrorPayload {
+  type?: string
+  code?: string
+  message?: string
+}
+
+/**
+ * Create a typed provider error with an actionable message
+ */
+export function createProviderError(
+  provider: ProviderDefinition,
+  kind: ProviderErrorKind,
+  detail: string,
+  extra: { status?: number; retryAfterMs?: number } = {}
+): ProviderError {
+  const error = new Error(describeError(provider, kind, detail)) as ProviderError
+  error.name = 'ProviderError'
+  error.kind = kind
+  error.detail = detail
+  error.status = extra.status
+  error.retryAfterMs = extra.retryAfterMs
+  return error
+}
+
+export function isProviderError(error: unknown): error is ProviderError {
+  return error instanceof Error && error.name === 'ProviderError'
+}
+
+export function isRetryable(error: ProviderError): boolean {
+  return RETRYABLE_KINDS.includes(error.kind)
+}
+
+/**
+ * Parse a `retry-after` header (delta-seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(headers: Headers): number | undefined {
+  const ms = headers.get('retry-after-ms')
+  if (ms && Number.isFinite(Number(ms))) return Math.max(0, Number(ms))
+
+  const value = headers.get('retry-after')
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+// Both APIs wrap errors as { error: { type | code, message } }; Claude stream events use the same shape
+function readPayload(body: string): ErrorPayload {
+  try {
+    const parsed = JSON.parse(body)
+    const error = parsed?.error ?? parsed
+    // Ollama and some proxies send { error: "message" }
+    if (typeof error === 'string') return { message: error }
+    return {
+      type: typeof error?.type === 'string' ? error.type : undefined,
+      code: typeof error?.code === 'string' ? error.code : undefined,
+      message: typeof error?.message === 'string' ? error.message : undefined,
+    }
+  } catch {
+    return {}
+  }
+}
+
+// Classify from the provider's error type/code and message, independent of the status
+function classifyPayload(payload: ErrorPayload): ProviderErrorKind | null {
+  const id = `${payload.type || ''} ${payload.code || ''}`
+  const message = (payload.message || '').toLowerCase()
+
+  if (/context_length|request_too_large/.test(id) ||
+      /context (length|window)|too many tokens|prompt is too long|maximum context/.test(message)) {
+    return 'context_length'
+  }
+  if (/overloaded/.test(id)) return 'overloaded'
+  if (/rate_limit/.test(id)) return 'rate_limit'
+  // Exhausted credit also comes back as a 429, but waiting won't fix it
+  if (/authentication|permission|invalid_api_key|insufficient_quota|billing/.test(id)) return 'auth'
+  if (/api_error|server_error/.test(id)) return 'server'
+  if (/invalid_request/.test(id)) return 'invalid_request'
+  return null
+}
+
+function classifyStatus(status: number): ProviderErrorKind {
+  if (status === 401 || status === 403) return 'auth'
+  if (status === 413) return 'context_length'
+  if (status === 429) return 'rate_limit'
+  if (status === 529 || status === 503) return 'overloaded'
+  if (status >= 500) return 'server'
+  if (status >= 400) return 'invalid_request'
+  return 'unknown'
+}
+
+/**
+ * Classify a non-2xx HTTP response
+ */
+export function classifyHttpError(
+  provider: ProviderDefinition,
+  status: number,
+  body: string,
+  headers: Headers
+): ProviderError {
+  const payload = readPayload(body)
+  // The error type is more specific than the status (a 400 may be a context overflow),
+  // except for the catch-all invalid_request type
+  const payloadKind = classifyPayload(payload)
+  const kind = payloadKind && payloadKind !== 'invalid_request' ? payloadKind : classifyStatus(status)
+
+  return createProviderError(provider, kind, payload.message || body || `HTTP ${status}`, {
+    status,
+    retryAfterMs: parseRetryAfter(headers),
+  })
+}
+
+/**
+ * Classify an error reported inside the stream (Claude `error` event, OpenAI `error` chunk)
+ */
+export function classifyStreamError(provider: ProviderDefinition, error: unknown): ProviderError {
+  const payload = readPayload(JSON.stringify({ error }))
+  return createProviderError(provider, classifyPayload(payload) || 'unknown', payload.message || 'Stream error')
+}
+
+// Messages say what happened and what to do about it
+function describeError(provider: ProviderDefinition, kind: ProviderErrorKind, detail: string): string {
+  const name = provider.name
+  switch (kind) {
+    case 'auth':
+      return `${name} rejected the API key, or the account is out of credit. Check the key in Settings.`
+    case 'rate_limit':
+      return `${name} rate limit reached. Wait a minute and try again, or switch provider.`
+    case 'overloaded':
+      return `${name} is overloaded right now. Try again in a moment, or switch provider.`
+    case 'context_length':
+      return 'The request is too long for this model. Clear the chat, select a smaller frame, ' +
+        'or pick a model with a larger context window.'
+    case 'network':
+      return provider.authStyle === 'none'
+        ? `Could not reach ${name} at ${provider.baseUrl}. Check that the server is running and allowed in manifest.json.`
+        : `Could not reach ${name}. Check your internet connection.`
+    case 'server':
+      return `${name} had an internal error. Try again in a moment.`
+    case 'invalid_request':
+      return `${name} rejected the request: ${detail}`
+    case 'unknown':
+      return `${name} error: ${detail}`
+  }
+}
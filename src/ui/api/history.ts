@@ -0,0 +1,154 @@
+/**
+ * Conversation history for multi-turn refinement
+ *
+ * Turns the chat log into provider-neutral messages so follow-up requests
+ * ("make the header darker") are answered against what was generated before.
+ */
+
+import type { ElementNode, FrameNode } from '../../shared/types'
+import { CONVERSATION_CONFIG } from '../../shared/constants'
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant'
+  content: string
+  /** Final design JSON produced by an assistant turn */
+  design?: FrameNode
+  /** Whether the user attached a reference image to this turn */
+  hasImage?: boolean
+}
+
+export interface HistoryMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface ConversationHistory {
+  messages: HistoryMessage[]
+  /** Render outcome of the last assistant turn, to be noted on the new request */
+  lastOutcome?: string
+}
+
+interface HistoryEntry {
+  role: 'user' | 'assistant'
+  text: string
+  design?: FrameNode
+  summarized?: boolean
+}
+
+/**
+ * Rough token estimate (~4 characters per token) - good enough for budgeting
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CONVERSATION_CONFIG.CHARS_PER_TOKEN)
+}
+
+// Count elements in a design tree
+function countElements(children?: ElementNode[]): number {
+  if (!children) return 0
+  return children.reduce((count, child) => count + 1 + countElements(child.children), 0)
+}
+
+// One-line description of a design, used once its full JSON no longer fits
+function summarizeDesign(design: FrameNode): string {
+  const sections = (design.children || []).map(child => child.name).filter(Boolean)
+  const sectionList = sections.length > 0 ? ` Top-level sections: ${sections.join(', ')}.` : ''
+  return `[Earlier design "${design.name}" with ${countElements(design.children)} elements, JSON omitted.${sectionList}]`
+}
+
+/**
+ * Prefix a user request with the outcome of the previous generation
+ */
+export function withOutcomeNote(text: string, outcome?: string | null): string {
+  return outcome ? `[Previous result: ${outcome}]\n\n${text}` : text
+}
+
+function entryText(entry: HistoryEntry): string {
+  if (entry.design && !entry.summarized) {
+    return JSON.stringify(entry.design)
+  }
+  if (entry.design) {
+    return summarizeDesign(entry.design)
+  }
+  return entry.text
+}
+
+function totalTokens(entries: HistoryEntry[]): number {
+  return entries.reduce((sum, entry) => sum + estimateTokens(entryText(entry)), 0)
+}
+
+/**
+ * Build alternating user/assistant messages from prior chat turns.
+ *
+ * Assistant turns carry the design JSON they produced; the render outcome is
+ * passed to the model as a note on the following user turn, or returned as
+ * `lastOutcome` for the new request. When the history exceeds the token
+ * budget, older designs are summarized first and then the oldest exchanges
+ * are dropped. The newest design always stays whole: it is what a follow-up
+ * request changes.
+ */
+export function buildHistoryMessages(
+  turns: ConversationTurn[],
+  maxTokens: number = CONVERSATION_CONFIG.MAX_HISTORY_TOKENS
+): ConversationHistory {
+  const entries: HistoryEntry[] = []
+  let pendingOutcome: string | null = null
+
+  for (const turn of turns) {
+    if (turn.role === 'user') {
+      let text = turn.content.trim() || '(no text)'
+      if (turn.hasImage) text += '\n[Reference image attached]'
+      text = withOutcomeNote(text, pendingOutcome)
+      pendingOutcome = null
+      entries.push({ role: 'user', text })
+    } else if (turn.design) {
+      entries.push({ role: 'assistant', text: '', design: turn.design })
+      pendingOutcome = turn.content
+    } else {
+      entries.push({ role: 'assistant', text: `[No design produced: ${turn.content}]` })
+    }
+  }
+
+  // Merge consecutive turns of the same role (e.g. a stopped generation)
+  const merged: HistoryEntry[] = []
+  for (const entry of entries) {
+    const last = merged[merged.length - 1]
+    if (last && last.role === entry.role) {
+      if (entry.design) {
+        merged[merged.length - 1] = entry
+      } else if (!last.design) {
+        last.text += `\n\n${entry.text}`
+      }
+    } else {
+      merged.push(entry)
+    }
+  }
+
+  // Both APIs expect the conversation to start with a user turn
+  while (merged.length > 0 && merged[0].role !== 'user') {
+    merged.shift()
+  }
+
+  const latest = [...merged].reverse().find(entry => entry.design)
+
+  // Summarize older designs from oldest to newest until the history fits
+  for (const entry of merged) {
+    if (totalTokens(merged) <= maxTokens) break
+    if (entry.design && entry !== latest) entry.summarized = true
+  }
+
+  // Still too large: drop the oldest user/assistant exchanges before the newest design's
+  const droppable = () => (latest ? merged.indexOf(latest) - 1 : merged.length)
+  while (droppable() > 0 && totalTokens(merged) > maxTokens) {
+    merged.splice(0, 2)
+  }
+
+  // The new request is appended as a user turn, so history must end on the assistant
+  if (merged.length > 0 && merged[merged.length - 1].role === 'user') {
+    merged.pop()
+  }
+
+  return {
+    messages: merged.map(entry => ({ role: entry.role, content: entryText(entry) })),
+    lastOutcome: pendingOutcome ?? undefined,
+  }
+}
@@ -1,36 +1,71 @@
-import type { AIProvider, CustomColorPalette, DesignSystemContext, FrameNode, ViewportSize } from '../../shared/types'
+import type { CustomColorPalette, DesignSystemContext, FrameNode, GenerationParams, ProviderDefinition, TokenUsage, ViewportSize } from '../../shared/types'
 import { streamClaudeGeneration } from './claude'
 import { streamOpenAIGeneration } from './openai'
+import type { ConversationTurn } from './history'
+import type { Transport } from './providers'
+import type { RetryInfo } from './sse'
 
 export interface GenerationOptions {
   prompt: string
-  provider: AIProvider
+  provider: ProviderDefinition
   apiKey: string
+  params: GenerationParams
   viewport: ViewportSize
   designSystem: DesignSystemContext | null
   contextInstructions: string
   customColors?: CustomColorPalette
   imageData?: string
   existingDesign?: FrameNode
+  history?: ConversationTurn[]
   onProgress?: (text: string) => void
+  /** Called before each follow-up request when a response hits the token limit */
+  onContinuation?: (round: number) => void
   signal?: AbortSignal
+  /** Replaces fetch for provider requests (mock replay and recording) */
+  transport?: Transport
+  /** Called before waiting to retry a rate-limited, overloaded or failed request */
+  onRetry?: (info: RetryInfo) => void
+  /** Called with the token usage of each completed request (continuations report separately) */
+  onUsage?: (usage: TokenUsage) => void
 }
 
-// Unified design generation function that routes to the appropriate provider
+// Unified design generation function that routes on the provider's stream format
 export async function generateDesign(options: GenerationOptions): Promise<FrameNode> {
-  const { provider, ...rest } = options
+  const { provider, imageData } = options
 
-  switch (provider) {
-    case 'claude':
-      return streamClaudeGeneration(rest)
+  // Text-only models would reject image content
+  const request = { ...options, imageData: provider.supportsVision ? imageData : undefined }
+
+  switch (provider.streamFormat) {
+    case 'anthropic':
+      return streamClaudeGeneration(request)
     case 'openai':
-      return streamOpenAIGeneration(rest)
+      return streamOpenAIGeneration(request)
     default:
-      throw new Error(`Unknown provider: ${provider}`)
+      throw new Error(`Unknown stream format for provider: ${provider.name}`)
   }
 }
 
 // Re-export for convenience
 export { streamClaudeGeneration } from './claude'
 export { streamOpenAIGeneration } from './openai'
-export { buildSystemPrompt } from './prompts'
+export { buildSystemPrompt, withVariantDirection, buildRepairPrompt } from './prompts'
+export { buildHistoryMessages } from './history'
+export { critiqueDesign, buildFixPrompt } from './review'
+export { generateDesignPatch } from './edits'
+export {
+  BUILT_IN_PROVIDERS,
+  createCustomProvider,
+  getProviders,
+  getProvider,
+  getProviderApiKey,
+  getGenerationParams,
+  isBuiltInProvider,
+  isProviderReady,
+} from './providers'
+export type { ConversationTurn } from './history'
+export type { DesignCritique } from './review'
+export type { DesignPatch } from './edits'
+export { isProviderError } from './errors'
+export type { ProviderError, ProviderErrorKind } from './errors'
+export type { RetryInfo } from './sse'
@@ -0,0 +1,254 @@
+/**
+ * Record/replay mock provider
+ *
+ * Replays recorded SSE transcripts through the real Claude/OpenAI stream
+ * handlers, so the parser, progressive rendering and the renderer can be
+ * exercised without an API key. Chunk size and delay are configurable -
+ * small chunks split SSE lines across reads, which reproduces buffering bugs
+ * deterministically.
+ *
+ * Bundled fixtures live in ./fixtures/*.sse. A transcript holding several
+ * responses (e.g. a max_tokens cut-off and its continuation) separates them
+ * with a `: next-response` SSE comment line; the Nth request replays the Nth
+ * response. Visual review requests replay ./fixtures/critiques/<format>.sse
+ * instead, so a replayed generation can go through the review loop.
+ */
+
+import type { MockProviderSettings, MockRecording, PluginSettings, ProviderDefinition, ProviderStreamFormat } from '../../shared/types'
+import { DEFAULT_MOCK_SETTINGS } from '../../shared/types'
+import { MOCK_CONFIG } from '../../shared/constants'
+import type { Transport } from './providers'
+
+const bundledFixtures = import.meta.glob<string>('./fixtures/*.sse', {
+  query: '?raw',
+  import: 'default',
+  eager: true,
+})
+
+// Stream format -> critique transcript ("anthropic" for ./fixtures/critiques/anthropic.sse)
+const critiqueFixtures = import.meta.glob<string>('./fixtures/critiques/*.sse', {
+  query: '?raw',
+  import: 'default',
+  eager: true,
+})
+
+const critiqueTranscripts = new Map<string, string>(
+  Object.entries(critiqueFixtures).map(([path, transcript]) => [
+    path.replace(/^.*\//, '').replace(/\.sse$/, ''),
+    transcript,
+  ])
+)
+
+// Fixture id -> transcript ("claude-login" for ./fixtures/claude-login.sse)
+const transcripts = new Map<string, string>(
+  Object.entries(bundledFixtures).map(([path, transcript]) => [
+    path.replace(/^.*\//, '').replace(/\.sse$/, ''),
+    transcript,
+  ])
+)
+
+// Ids of transcripts that came from saved recordings rather than bundled fixtures
+const recordingIds = new Set<string>()
+
+/**
+ * Make saved recordings available for replay alongside the bundled fixtures
+ */
+export function registerRecordings(recordings: MockRecording[]): void {
+  for (const id of recordingIds) {
+    transcripts.delete(id)
+  }
+  recordingIds.clear()
+
+  for (const recording of recordings) {
+    transcripts.set(recording.id, recording.transcript)
+    recordingIds.add(recording.id)
+  }
+}
+
+/**
+ * Ids of all replayable transcripts (bundled fixtures first)
+ */
+export function getMockFixtureIds(): string[] {
+  const ids = [...transcripts.keys()]
+  return [
+    ...ids.filter(id => !recordingIds.has(id)).sort(),
+    ...ids.filter(id => recordingIds.has(id)),
+  ]
+}
+
+/**
+ * Claude streams are recognisable by their typed events; anything else is treated as OpenAI
+ */
+export function detectStreamFormat(transcript: string): ProviderStreamFormat {
+  return /"type"\s*:\s*"(message_start|content_block_delta)"/.test(transcript) ? 'anthropic' : 'openai'
+}
+
+/**
+ * The mock provider, shaped after the currently selected fixture
+ */
+export function createMockProvider(settings: PluginSettings): ProviderDefinition {
+  const models = getMockFixtureIds()
+  const selected = settings.generationParams?.[MOCK_CONFIG.PROVIDER_ID]?.model
+  const fixtureId = selected && transcripts.has(selected) ? selected : models[0] || ''
+
+  return {
+    id: MOCK_CONFIG.PROVIDER_ID,
+    name: 'Mock (replay)',
+    baseUrl: 'mock://replay',
+    authStyle: 'none',
+    models,
+    defaultModel: models[0] || '',
+    supportsVision: true,
+    supportsStructuredOutput: true,
+    streamFormat: detectStreamFormat(transcripts.get(fixtureId) || ''),
+  }
+}
+
+// Split a transcript into the responses it contains
+function splitResponses(transcript: string): string[] {
+  const separator = new RegExp(`^${MOCK_CONFIG.RESPONSE_SEPARATOR}\\s*$`, 'm')
+  return transcript.split(separator).map(part => part.replace(/^\n+/, ''))
+}
+
+function abortError(): DOMException {
+  return new DOMException('The operation was aborted.', 'AbortError')
+}
+
+// Resolve after a delay, rejecting early if the request is aborted
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError())
+      return
+    }
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(abortError())
+    }, { once: true })
+  })
+}
+
+/**
+ * Transport that replays a transcript instead of making a network request.
+ * Each call replays the next response in the transcript (the last one repeats).
+ */
+export function createReplayTransport(
+  fixtureId: string,
+  options: Pick<MockProviderSettings, 'chunkSize' | 'delayMs'>
+): Transport {
+  return replayTranscript(transcripts.get(fixtureId), fixtureId, options)
+}
+
+/**
+ * Transport that replays the critique transcript for a fixture's stream format,
+ * used for the visual review requests of a replayed generation
+ */
+export function createCritiqueReplayTransport(
+  fixtureId: string,
+  options: Pick<MockProviderSettings, 'chunkSize' | 'delayMs'>
+): Transport {
+  const format = detectStreamFormat(transcripts.get(fixtureId) || '')
+  return replayTranscript(critiqueTranscripts.get(format), `critiques/${format}`, options)
+}
+
+function replayTranscript(
+  transcript: string | undefined,
+  fixtureId: string,
+  options: Pick<MockProviderSettings, 'chunkSize' | 'delayMs'>
+): Transport {
+  const responses = transcript ? splitResponses(transcript) : []
+  const chunkSize = Math.max(1, options.chunkSize || DEFAULT_MOCK_SETTINGS.chunkSize)
+  const delayMs = Math.max(0, options.delayMs ?? DEFAULT_MOCK_SETTINGS.delayMs)
+  let calls = 0
+
+  return async (_url, init) => {
+    const signal = init.signal
+    if (signal?.aborted) throw abortError()
+
+    if (responses.length === 0) {
+      return new Response(`Mock fixture not found: ${fixtureId}`, { status: 404 })
+    }
+
+    const body = new TextEncoder().encode(responses[Math.min(calls, responses.length - 1)])
+    calls++
+    let offset = 0
+
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        if (offset >= body.length) {
+          controller.close()
+          return
+        }
+        try {
+          if (delayMs > 0) await wait(delayMs, signal)
+          else if (signal?.aborted) throw abortError()
+        } catch (error) {
+          controller.error(error)
+          return
+        }
+        // Byte-level chunks may also split multi-byte characters, like a real network read
+        controller.enqueue(body.slice(offset, offset + chunkSize))
+        offset += chunkSize
+      },
+    })
+
+    return new Response(stream, {
+      status: 200,
+      headers: { 'Content-Type': 'text/event-stream' },
+    })
+  }
+}
+
+/**
+ * Transport that passes requests through to the network and captures the
+ * raw SSE of every response. `onRecorded` receives the whole transcript once
+ * the generation is finished (see `finish`).
+ */
+export function createRecordingTransport(onRecorded: (transcript: string) => void): {
+  transport: Transport
+  finish: () => void
+} {
+  const parts: Promise<string>[] = []
+
+  const transport: Transport = async (url, init) => {
+    const response = await fetch(url, init)
+    if (!response.ok || !response.body) return response
+
+    // One branch feeds the handler, the other is captured
+    const [live, captured] = response.body.tee()
+    parts.push(new Response(captured).text().catch(() => ''))
+
+    return new Response(live, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    })
+  }
+
+  const finish = () => {
+    if (parts.length === 0) return
+    Promise.all(parts).then(texts => {
+      const transcript = texts
+        .filter(text => text.trim().length > 0)
+        .join(`\n${MOCK_CONFIG.RESPONSE_SEPARATOR}\n\n`)
+      if (transcript) onRecorded(transcript)
+    })
+  }
+
+  return { transport, finish }
+}
+
+/**
+ * Wrap a captured transcript as a recording; the id doubles as its fixture name
+ */
+export function createRecording(transcript: string, prompt: string): MockRecording {
+  const createdAt = Date.now()
+  const stamp = new Date(createdAt).toISOString().replace(/\D/g, '').slice(0, 14)
+  return {
+    id: `recording-${detectStreamFormat(transcript)}-${stamp}`,
+    name: prompt.trim().slice(0, 60) || 'Untitled',
+    transcript,
+    createdAt,
+  }
+}
@@ -2,29 +2,61 @@
  * OpenAI API handler for design generation
  */
 
-import type { CustomColorPalette, DesignSystemContext, FrameNode, ViewportSize } from '../../shared/types'
-import { API_CONFIG } from '../../shared/constants'
+import type { CustomColorPalette, DesignSystemContext, FrameNode, GenerationParams, ProviderDefinition, TokenUsage, ViewportSize } from '../../shared/types'
+import { API_CONFIG, CONTINUATION_CONFIG } from '../../shared/constants'
+import { DESIGN_JSON_SCHEMA, DESIGN_TOOL } from '../../shared/designSchema'
 import { parseDesignJson } from '../../shared/utils/jsonRepair'
+import { emptyUsage, hasUsage } from '../../shared/utils/usage'
 import { buildSystemPrompt } from './prompts'
+import { buildHistoryMessages, withOutcomeNote } from './history'
+import type { ConversationTurn } from './history'
+import { CONTINUE_PROMPT, createContinuationJoin } from './continuation'
+import { buildAuthHeaders, buildEndpointUrl } from './providers'
+import type { Transport } from './providers'
+import { openStream, readSSE, withRetry } from './sse'
+import type { RequestContext, RetryInfo } from './sse'
+import { classifyStreamError } from './errors'
 
 interface GenerationOptions {
   prompt: string
+  provider: ProviderDefinition
   apiKey: string
+  params: GenerationParams
   viewport: ViewportSize
   designSystem: DesignSystemContext | null
   contextInstructions: string
   customColors?: CustomColorPalette
   imageData?: string
   existingDesign?: FrameNode
+  history?: ConversationTurn[]
   onProgress?: (text: string) => void
+  onContinuation?: (round: number) => void
   signal?: AbortSignal
+  transport?: Transport
+  onRetry?: (info: RetryInfo) => void
+  onUsage?: (usage: TokenUsage) => void
 }
 
-interface OpenAIMessage {
+export interface OpenAIMessage {
   role: 'system' | 'user' | 'assistant'
   content: string | Array<{ type: string; text?: string; image_url?: { url: string } }>
 }
 
+/**
+ * User turn content: the attached image (if any) first, then the request text
+ */
+export function buildOpenAIUserContent(text: string, imageData?: string): OpenAIMessage['content'] {
+  if (!imageData) return text
+
+  return [
+    {
+      type: 'image_url',
+      image_url: { url: imageData },
+    },
+    { type: 'text', text },
+  ]
+}
+
 /**
  * Build the user message content based on inputs
  */
@@ -35,18 +67,12 @@ function buildUserContent(
   existingDesign?: FrameNode
 ): OpenAIMessage['content'] {
   if (imageData) {
-    return [
-      {
-        type: 'image_url',
-        image_url: { url: imageData },
-      },
-      {
-        type: 'text',
-        text: existingDesign
-          ? `Here is the current design:\n${JSON.stringify(existingDesign, null, 2)}\n\nUser request: ${prompt}\n\nGenerate the updated design JSON:`
-          : `Reference the attached image for visual inspiration.\n\nUser request: ${prompt}\n\nGenerate the design JSON:`,
-      },
-    ]
+    return buildOpenAIUserContent(
+      existingDesign
+        ? `Here is the current design:\n${JSON.stringify(existingDesign, null, 2)}\n\nAn image is attached; to show it in the design, use an IMAGE fill with "image": "reference".\n\nUser request: ${prompt}\n\nGenerate the updated design JSON:`
+        : `Reference the attached image for visual inspiration. To show the image itself, use an IMAGE fill with "image": "reference".\n\nUser request: ${prompt}\n\nGenerate the design JSON:`,
+      imageData
+    )
   }
 
   if (existingDesign) {
@@ -56,94 +82,224 @@ function buildUserContent(
   return `Create a ${viewport.name.toLowerCase()} screen design for: ${prompt}\n\nGenerate the design JSON:`
 }
 
+interface StreamResult {
+  text: string
+  finishReason: string | null
+  usage: TokenUsage
+}
+
+// The parts of the stream chunks that are read
+interface OpenAIStreamChunk {
+  choices?: Array<{ delta?: { content?: string | null }; finish_reason?: string | null }>
+  usage?: {
+    prompt_tokens?: number
+    completion_tokens?: number
+    prompt_tokens_details?: { cached_tokens?: number }
+  }
+  error?: unknown
+}
+
+/**
+ * Send one streaming request and collect the generated text
+ */
+export async function streamOpenAIRequest(
+  context: RequestContext,
+  body: Record<string, unknown>,
+  onText: (text: string) => void
+): Promise<StreamResult> {
+  const { provider, apiKey } = context
+  let fullText = ''
+  let finishReason: string | null = null
+  let usage = emptyUsage()
+
+  const handleEvent = (data: unknown) => {
+    if (typeof data !== 'object' || data === null) return
+    const event = data as OpenAIStreamChunk
+    // Errors can arrive as a chunk after the stream has started
+    if (event.error) {
+      throw classifyStreamError(provider, event.error)
+    }
+
+    const content = event.choices?.[0]?.delta?.content
+    if (content) {
+      fullText += content
+      onText(fullText)
+    }
+
+    // "length" here means the design was cut off
+    if (event.choices?.[0]?.finish_reason) {
+      finishReason = event.choices[0].finish_reason
+    }
+
+    // Sent in a final chunk when stream_options.include_usage is set; cached tokens are part of prompt_tokens
+    if (event.usage) {
+      const cached = event.usage.prompt_tokens_details?.cached_tokens || 0
+      usage = {
+        inputTokens: (event.usage.prompt_tokens || 0) - cached,
+        outputTokens: event.usage.completion_tokens || 0,
+        cacheReadTokens: cached,
+        cacheWriteTokens: 0,
+      }
+    }
+  }
+
+  return withRetry(
+    context,
+    async () => {
+      fullText = ''
+      finishReason = null
+      usage = emptyUsage()
+
+      const response = await openStream(context, buildEndpointUrl(provider, API_CONFIG.OPENAI.PATH), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...buildAuthHeaders(provider, apiKey),
+        },
+        body: JSON.stringify({ ...body, stream: true, stream_options: { include_usage: true } }),
+      })
+      try {
+        await readSSE(response, handleEvent)
+      } catch (error) {
+        // Usage only arrives in the final chunk, but report it if the stream got that far
+        if (hasUsage(usage)) context.onUsage?.(usage)
+        throw error
+      }
+      context.onUsage?.(usage)
+
+      return { text: fullText, finishReason, usage }
+    },
+    () => fullText.length > 0
+  )
+}
+
+export interface OpenAIJsonRequest {
+  params: GenerationParams
+  /** System message first, then the conversation */
+  messages: OpenAIMessage[]
+  /** Names the response format when the provider supports structured output */
+  tool: { NAME: string; DESCRIPTION: string }
+  schema: object
+}
+
+/**
+ * Stream a JSON answer, continuing it while it is cut off at the length limit.
+ * Returns the joined text.
+ */
+export async function streamOpenAIJson(
+  context: RequestContext,
+  request: OpenAIJsonRequest,
+  onProgress?: (text: string) => void,
+  onContinuation?: (round: number) => void
+): Promise<string> {
+  const { params, messages, tool } = request
+
+  const baseBody = {
+    model: params.model,
+    max_tokens: params.maxTokens,
+    ...(params.temperature !== undefined && { temperature: params.temperature }),
+  }
+
+  let result = await streamOpenAIRequest(
+    context,
+    {
+      ...baseBody,
+      messages,
+      // Guide the output with the schema (many local servers don't support this).
+      // Not strict: strict mode needs every property required and no open-ended maps, which the
+      // schemas can't meet, so the output is not guaranteed to match and is checked after parsing.
+      ...(context.provider.supportsStructuredOutput && {
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: tool.NAME,
+            description: tool.DESCRIPTION,
+            schema: request.schema,
+            strict: false,
+          },
+        },
+      }),
+    },
+    text => onProgress?.(text)
+  )
+  let fullText = result.text
+
+  // Cut off at the length limit: send the partial JSON back and ask for the rest.
+  // No response_format here - the continuation is a fragment, not a full document.
+  let rounds = 0
+  while (result.finishReason === 'length' && rounds < CONTINUATION_CONFIG.MAX_ROUNDS) {
+    rounds++
+    onContinuation?.(rounds)
+
+    const previous = fullText
+    const join = createContinuationJoin(previous)
+    result = await streamOpenAIRequest(
+      context,
+      {
+        ...baseBody,
+        messages: [
+          ...messages,
+          { role: 'assistant', content: previous },
+          { role: 'user', content: CONTINUE_PROMPT },
+        ],
+      },
+      text => {
+        const joined = join.progress(text)
+        if (joined !== null) onProgress?.(joined)
+      }
+    )
+    fullText = join.finish(result.text)
+  }
+
+  return fullText
+}
+
 /**
  * Stream design generation from OpenAI API
  */
 export async function streamOpenAIGeneration(options: GenerationOptions): Promise<FrameNode> {
   const {
     prompt,
+    provider,
     apiKey,
+    params,
     viewport,
     designSystem,
     contextInstructions,
     customColors,
     imageData,
     existingDesign,
+    history,
     onProgress,
+    onContinuation,
     signal,
+    transport,
+    onRetry,
+    onUsage,
   } = options
 
-  const systemPrompt = buildSystemPrompt(viewport, designSystem, contextInstructions, customColors)
-  const userContent = buildUserContent(prompt, viewport, imageData, existingDesign)
+  const context: RequestContext = { provider, apiKey, signal, transport, onRetry, onUsage }
 
-  const messages: OpenAIMessage[] = [
-    { role: 'system', content: systemPrompt },
-    { role: 'user', content: userContent },
-  ]
+  const systemPrompt = buildSystemPrompt(viewport, designSystem, contextInstructions, customColors)
+  const conversation = buildHistoryMessages(history || [])
+  const requestPrompt = withOutcomeNote(prompt, conversation.lastOutcome)
+  const userContent = buildUserContent(requestPrompt, viewport, imageData, existingDesign)
 
-  const response = await fetch(API_CONFIG.OPENAI.URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
+  const fullText = await streamOpenAIJson(
+    context,
+    {
+      params,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        ...conversation.messages,
+        { role: 'user', content: userContent },
+      ],
+      tool: DESIGN_TOOL,
+      schema: DESIGN_JSON_SCHEMA,
     },
-    body: JSON.stringify({
-      model: API_CONFIG.OPENAI.MODEL,
-      max_tokens: API_CONFIG.OPENAI.MAX_TOKENS,
-      messages,
-      stream: true,
-    }),
-    signal,
-  })
-
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`OpenAI API error: ${response.status} - ${errorText}`)
-  }
-
-  if (!response.body) {
-    throw new Error('No response body')
-  }
-
-  // Process streaming response
-  const reader = response.body.getReader()
-  const decoder = new TextDecoder()
-  let fullText = ''
-  let buffer = ''
-
-  while (true) {
-    const { done, value } = await reader.read()
-    if (done) break
-
-    buffer += decoder.decode(value, { stream: true })
-
-    // Process complete SSE events
-    const lines = buffer.split('\n')
-    buffer = lines.pop() || ''
-
-    for (const line of lines) {
-      if (line.startsWith('data: ')) {
-        const data = line.slice(6)
-        if (data === '[DONE]') continue
-
-        try {
-          const event = JSON.parse(data)
-          const content = event.choices?.[0]?.delta?.content
-
-          if (content) {
-            fullText += content
-            onProgress?.(fullText)
-          }
-
-          if (event.choices?.[0]?.finish_reason === 'stop') {
-            break
-          }
-        } catch {
-          // Ignore JSON parse errors for non-JSON lines
-        }
-      }
-    }
-  }
+    onProgress,
+    onContinuation
+  )
 
   return parseDesignJson(fullText)
 }
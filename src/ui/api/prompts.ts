@@ -1,23 +1,31 @@
 /**
  * System prompt builder for AI design generation
+ *
+ * The prompt is built as ordered sections, most stable first, so providers can
+ * cache the prefix: the static instructions never change, the design system
+ * and context instructions change only when the file or settings do, and the
+ * viewport can change on every request.
  */
 
-import type { CustomColorPalette, DesignSystemContext, ViewportSize } from '../../shared/types'
+import type { CustomColorPalette, DesignSystemContext, RenderFailure, ViewportSize } from '../../shared/types'
 import { DEFAULT_COLOR_PALETTE } from '../../shared/types'
-import { DESIGN_SYSTEM_LIMITS } from '../../shared/constants'
+import { DESIGN_SYSTEM_LIMITS, IMAGE_CONFIG, PLACEHOLDER_CONFIG, VARIANT_CONFIG } from '../../shared/constants'
+import { ICON_NAMES } from '../../shared/icons'
 import { formatColorForPrompt } from '../../shared/utils/colors'
+import { formatRenderFailure } from '../../shared/utils/renderReport'
 
-// Build the system prompt that instructs the AI how to generate Figma-compatible JSON
-export function buildSystemPrompt(
-  viewport: ViewportSize,
-  designSystem: DesignSystemContext | null,
-  contextInstructions: string,
-  customColors?: CustomColorPalette
-): string {
-  let prompt = `You are a UI/UX design assistant that generates Figma-compatible design specifications in JSON format.
+export interface SystemPromptSection {
+  text: string
+  /** Stable across requests - Claude requests mark these with a cache breakpoint */
+  cacheable: boolean
+}
+
+// Instructions that are identical for every request
+const CORE_INSTRUCTIONS = `You are a UI/UX design assistant that generates Figma-compatible design specifications in JSON format.
 
 ## Output Format
 You MUST respond with valid JSON only. No markdown, no explanations, just the JSON object.
+When the "render_design" tool is available, pass the complete design JSON as its input.
 
 ## CRITICAL: Frame Sizing
 Every FRAME must have sizing modes set to prevent 1px wide/tall elements:
@@ -38,7 +46,7 @@ The JSON must follow this schema for a frame/screen:
   "counterAxisSizingMode": "FIXED",
   "children": [
     {
-      "type": "FRAME" | "TEXT" | "RECTANGLE" | "ELLIPSE" | "LINE",
+      "type": "FRAME" | "TEXT" | "RECTANGLE" | "ELLIPSE" | "LINE" | "VECTOR" | "ICON",
       "name": "Element Name",
       "layoutMode": "NONE" | "HORIZONTAL" | "VERTICAL",
       "primaryAxisSizingMode": "HUG" | "FILL" | "FIXED",
@@ -60,15 +68,74 @@ The JSON must follow this schema for a frame/screen:
 }
 
 ## Design Guidelines
-- Target viewport: ${viewport.width}x${viewport.height}px (${viewport.name})
 - ROOT FRAME MUST have layoutMode: "VERTICAL" with proper padding
 - Use auto-layout (layoutMode: "VERTICAL" or "HORIZONTAL") for ALL containers
 - EVERY FRAME must have primaryAxisSizingMode and counterAxisSizingMode set
 - Use layoutAlign: "STRETCH" for elements that should fill parent width
 - Colors are in 0-1 range (e.g., white is { "r": 1, "g": 1, "b": 1 })
-- Create semantic, descriptive names for layers`
+- Create semantic, descriptive names for layers
+
+## Icons
+For icons, use an ICON with one of the bundled icon names. Never draw icons with ellipses and rectangles:
+{ "type": "ICON", "name": "Search Icon", "iconName": "search", "size": 20, "colorVariable": "Icon/Secondary" }
+Available icons: ${ICON_NAMES.join(', ')}
+
+## Vectors
+For logos and illustrations, use a VECTOR with "svg" markup (keep the viewBox), or "vectorPaths" with SVG path data that width and height scale to fit. Fills and strokes recolor the shapes:
+{ "type": "VECTOR", "name": "Success Mark", "width": 24, "height": 24, "svg": "<svg xmlns=\\"http://www.w3.org/2000/svg\\" width=\\"24\\" height=\\"24\\" viewBox=\\"0 0 24 24\\" fill=\\"none\\" stroke=\\"black\\"><path d=\\"M20 6L9 17l-5-5\\"/></svg>", "strokes": [{ "type": "SOLID", "colorVariable": "Icon/Primary" }], "strokeWeight": 2 }
+
+## Gradients
+Gradients are GRADIENT_LINEAR, GRADIENT_RADIAL, GRADIENT_ANGULAR or GRADIENT_DIAMOND. "angle" is in degrees clockwise from up, as in CSS (linear defaults to 180, top to bottom); radial, angular and diamond gradients also take "center" ({ "x", "y" } as fractions, default the middle) and "radius" (fraction of the size, default 0.5). Stops take a color or a colorVariable:
+{ "type": "GRADIENT_LINEAR", "angle": 135, "gradientStops": [{ "position": 0, "colorVariable": "Brand/Primary" }, { "position": 1, "color": { "r": 0.4, "g": 0.2, "b": 0.9, "a": 1 } }] }
+
+## Rich Text
+A TEXT element's "characters" can mix styles with markup: **bold**, *italic*, [label](https://link), and [label]{color: <token>, style: <text style>, weight: 600, size: 12, underline} for color tokens, text styles and other properties. Two or more consecutive lines starting with "- " or "1. " are a bullet or numbered list; a single such line ("- 20%", "1. Choose a plan") stays plain text, and a one-item list is a textRange with "list". Escape literal markup characters with a backslash:
+{ "type": "TEXT", "name": "Reset Prompt", "characters": "Forgot password? [**Reset**]{color: Text/Link}", "textStyleName": "Body/Regular", "fills": [{ "type": "SOLID", "colorVariable": "Text/Secondary" }] }
+
+## Images
+For photos, avatars and product shots, use an IMAGE fill on a RECTANGLE or FRAME. Never link to images on the web - use a placeholder (${IMAGE_CONFIG.PLACEHOLDERS.join(', ')}), "asset:<name>" for an image from the project, or "reference" for the image attached to the request:
+{ "type": "RECTANGLE", "name": "Hero Photo", "width": 343, "height": 200, "cornerRadius": 12, "fills": [{ "type": "IMAGE", "image": "placeholder:photo", "scaleMode": "FILL" }] }
+scaleMode is FILL (cover), FIT (contain), TILE, or CROP with "crop": { "x", "y", "width", "height" } as fractions of the image.
+
+## Input Fields Example (using tokens)
+For text input fields, use a FRAME with design tokens:
+{
+  "type": "FRAME",
+  "name": "Input Field",
+  "layoutMode": "HORIZONTAL",
+  "primaryAxisSizingMode": "HUG",
+  "counterAxisSizingMode": "HUG",
+  "counterAxisAlignItems": "CENTER",
+  "paddingVariable": "Spacing/md",
+  "itemSpacingVariable": "Spacing/sm",
+  "cornerRadius": 8,
+  "fills": [{ "type": "SOLID", "colorVariable": "Background/Secondary" }],
+  "strokes": [{ "type": "SOLID", "colorVariable": "Border/Default" }],
+  "strokeWeight": 1,
+  "layoutAlign": "STRETCH",
+  "children": [
+    { "type": "TEXT", "name": "Placeholder", "characters": "Enter text...", "textStyleName": "Body/Regular", "fills": [{ "type": "SOLID", "colorVariable": "Text/Secondary" }], "layoutGrow": 1 }
+  ]
+}
+
+## Important Rules
+1. ONLY output valid JSON - no markdown code blocks, no explanations
+2. The root object should have "name" and "children" properties
+3. Every FRAME must have primaryAxisSizingMode and counterAxisSizingMode
+4. Use realistic content (not "Lorem ipsum")
+5. Ensure good touch targets (minimum 44px for buttons)
+6. counterAxisAlignItems can ONLY be: "MIN", "CENTER", "MAX"
+7. Max 3-4 levels of nesting to avoid truncation
+8. ALWAYS use design tokens - colorVariable, paddingVariable, itemSpacingVariable, textStyleName`
+
+// Design system tokens when the file has them, otherwise the color palette; plus the user's instructions
+function buildProjectSection(
+  designSystem: DesignSystemContext | null,
+  contextInstructions: string,
+  customColors?: CustomColorPalette
+): string {
+  let section = ''
 
-  // Add design system context if available
   const hasDesignSystem = designSystem && (
     designSystem.colorVariables.length > 0 ||
     designSystem.spacingVariables.length > 0 ||
@@ -82,9 +149,7 @@ The JSON must follow this schema for a frame/screen:
     const hasTextStyles = designSystem.textStyles.length > 0
     const hasComponents = designSystem.components.length > 0
 
-    prompt += `
-
-## DESIGN SYSTEM TOKENS - MANDATORY USAGE
+    section += `## DESIGN SYSTEM TOKENS - MANDATORY USAGE
 This file has semantic design tokens. You MUST use these tokens by name - NEVER use raw values.`
 
     if (hasColors) {
@@ -94,7 +159,7 @@ This file has semantic design tokens. You MUST use these tokens by name - NEVER
         .map(c => `- "${c.name}"`)
         .join('\n')
 
-      prompt += `
+      section += `
 
 ### COLOR TOKENS - USE "colorVariable" ONLY (MANDATORY)
 You MUST use these exact token names for ALL colors. Raw RGB/hex values are NOT allowed.
@@ -120,7 +185,7 @@ Pick the most semantically appropriate token for each use case.`
         .map(s => `- "${s.name}" = ${s.value}px`)
         .join('\n')
 
-      prompt += `
+      section += `
 
 ### SPACING TOKENS - USE "paddingVariable" and "itemSpacingVariable" (MANDATORY)
 You MUST use these exact token names for ALL spacing. Raw numbers are NOT allowed.
@@ -140,7 +205,7 @@ Pick the token with the closest value for your needs.`
     }
 
     if (hasTextStyles) {
-      prompt += `
+      section += `
 
 ### TEXT STYLES - USE "textStyleName" (REQUIRED)
 Available text styles (use exact name string):
@@ -154,13 +219,13 @@ WRONG - Never set font properties manually:
     }
 
     if (hasComponents) {
-      prompt += `
+      section += `
 
 ### Available Components (use type: "INSTANCE" with componentKey):
 ${designSystem.components.slice(0, DESIGN_SYSTEM_LIMITS.MAX_COMPONENTS).map(c => `- ${c.name}: "${c.key}"${c.description ? ` - ${c.description}` : ''}`).join('\n')}`
     }
 
-    prompt += `
+    section += `
 
 ## STRICT TOKEN RULES - FOLLOW EXACTLY
 1. COLORS: Use "colorVariable" with token name - NEVER raw RGB values
@@ -173,9 +238,7 @@ ${designSystem.components.slice(0, DESIGN_SYSTEM_LIMITS.MAX_COMPONENTS).map(c =>
     // No design system - use custom colors or defaults
     const colors = customColors || DEFAULT_COLOR_PALETTE
 
-    prompt += `
-
-## Color Palette (USE THESE COLORS)
+    section += `## Color Palette (USE THESE COLORS)
 Use this color palette for your designs:
 
 ### Primary Colors
@@ -200,46 +263,86 @@ Use Background (${colors.background}) for page backgrounds.
 Use fontFamily: "Inter", fontWeight: 400 or 700.`
   }
 
+  const imageAssets = designSystem?.imageAssets?.filter(name => name !== IMAGE_CONFIG.REFERENCE_NAME) || []
+  if (imageAssets.length > 0) {
+    section += `
+
+## Image Assets
+Use these images with "image": "asset:<name>":
+${imageAssets.map(name => `- asset:${name}`).join('\n')}`
+  }
+
   // Add user's custom context instructions
   if (contextInstructions.trim()) {
-    prompt += `
+    section += `
 
 ## Additional Design Requirements
 ${contextInstructions}`
   }
 
-  prompt += `
+  return section
+}
 
-## Input Fields Example (using tokens)
-For text input fields, use a FRAME with design tokens:
-{
-  "type": "FRAME",
-  "name": "Input Field",
-  "layoutMode": "HORIZONTAL",
-  "primaryAxisSizingMode": "HUG",
-  "counterAxisSizingMode": "HUG",
-  "counterAxisAlignItems": "CENTER",
-  "paddingVariable": "Spacing/md",
-  "itemSpacingVariable": "Spacing/sm",
-  "cornerRadius": 8,
-  "fills": [{ "type": "SOLID", "colorVariable": "Background/Secondary" }],
-  "strokes": [{ "type": "SOLID", "colorVariable": "Border/Default" }],
-  "strokeWeight": 1,
-  "layoutAlign": "STRETCH",
-  "children": [
-    { "type": "TEXT", "name": "Placeholder", "characters": "Enter text...", "textStyleName": "Body/Regular", "fills": [{ "type": "SOLID", "colorVariable": "Text/Secondary" }], "layoutGrow": 1 }
+/**
+ * Build the system prompt as ordered sections (stable first)
+ */
+export function buildSystemPromptSections(
+  viewport: ViewportSize,
+  designSystem: DesignSystemContext | null,
+  contextInstructions: string,
+  customColors?: CustomColorPalette
+): SystemPromptSection[] {
+  return [
+    { text: CORE_INSTRUCTIONS, cacheable: true },
+    { text: buildProjectSection(designSystem, contextInstructions, customColors), cacheable: true },
+    {
+      text: `## Target Viewport
+- Target viewport: ${viewport.width}x${viewport.height}px (${viewport.name})
+- The root frame is ${viewport.width}px wide`,
+      cacheable: false,
+    },
   ]
 }
 
-## Important Rules
-1. ONLY output valid JSON - no markdown code blocks, no explanations
-2. The root object should have "name" and "children" properties
-3. Every FRAME must have primaryAxisSizingMode and counterAxisSizingMode
-4. Use realistic content (not "Lorem ipsum")
-5. Ensure good touch targets (minimum 44px for buttons)
-6. counterAxisAlignItems can ONLY be: "MIN", "CENTER", "MAX"
-7. Max 3-4 levels of nesting to avoid truncation
-8. ALWAYS use design tokens - colorVariable, paddingVariable, itemSpacingVariable, textStyleName`
+// Build the system prompt that instructs the AI how to generate Figma-compatible JSON
+export function buildSystemPrompt(
+  viewport: ViewportSize,
+  designSystem: DesignSystemContext | null,
+  contextInstructions: string,
+  customColors?: CustomColorPalette
+): string {
+  return buildSystemPromptSections(viewport, designSystem, contextInstructions, customColors)
+    .map(section => section.text)
+    .join('\n\n')
+}
+
+// Directions that push parallel variants apart (the first stays conventional)
+const VARIANT_DIRECTIONS = [
+  'Take the most conventional, familiar approach for this kind of screen.',
+  'Take a bolder approach: stronger visual hierarchy, larger headings and more contrast.',
+  'Take a minimal approach: fewer elements, generous whitespace and a calm layout.',
+  'Take a denser approach: show more content at once with compact cards, lists or a grid.',
+]
+
+/**
+ * Add the variant's creative direction to the user prompt
+ */
+export function withVariantDirection(prompt: string, index: number, count: number): string {
+  const label = VARIANT_CONFIG.LABELS[index] || String(index + 1)
+  const direction = VARIANT_DIRECTIONS[index % VARIANT_DIRECTIONS.length]
+  return `${prompt}
+
+(This is variant ${label} of ${count} alternative designs. ${direction} Keep the requested content and requirements.)`
+}
+
+/**
+ * Ask for the elements that failed to render, and nothing else, to be rebuilt.
+ * Sent as an in-place edit: each placeholder is found by its id in the design,
+ * and the element it stands for is included as requested.
+ */
+export function buildRepairPrompt(failures: RenderFailure[]): string {
+  return `These elements failed to render. Each was replaced with a red placeholder frame whose name starts with "${PLACEHOLDER_CONFIG.NAME_PREFIX.trim()}". Here are the placeholder ids with the element JSON that failed:
+${failures.map(failure => `- ${formatRenderFailure(failure)} (placeholder id "${failure.nodeId}")\n${JSON.stringify(failure.element)}`).join('\n')}
 
-  return prompt
+Replace each placeholder with the element it stands for, built so that it renders: one "replace" operation at the placeholder's path, without an "id". Keep everything else the same.`
 }
@@ -0,0 +1,182 @@
+/**
+ * Provider registry
+ *
+ * Built-in providers plus user-defined OpenAI-compatible endpoints (local
+ * Ollama/LM Studio servers, corporate proxies) stored in settings.
+ */
+
+import type { AIProvider, GenerationParams, PluginSettings, ProviderDefinition } from '../../shared/types'
+import { API_CONFIG } from '../../shared/constants'
+import { createMockProvider } from './mock'
+import manifest from '../../../manifest.json'
+
+/**
+ * fetch-compatible function used for provider requests (swapped out by the mock provider)
+ */
+export type Transport = (url: string, init: RequestInit) => Promise<Response>
+
+export const BUILT_IN_PROVIDERS: ProviderDefinition[] = [
+  {
+    id: 'claude',
+    name: 'Claude',
+    baseUrl: API_CONFIG.CLAUDE.BASE_URL,
+    authStyle: 'x-api-key',
+    models: [...API_CONFIG.CLAUDE.MODELS],
+    defaultModel: API_CONFIG.CLAUDE.MODEL,
+    supportsVision: true,
+    supportsStructuredOutput: true,
+    streamFormat: 'anthropic',
+  },
+  {
+    id: 'openai',
+    name: 'OpenAI',
+    baseUrl: API_CONFIG.OPENAI.BASE_URL,
+    authStyle: 'bearer',
+    models: [...API_CONFIG.OPENAI.MODELS],
+    defaultModel: API_CONFIG.OPENAI.MODEL,
+    supportsVision: true,
+    supportsStructuredOutput: true,
+    streamFormat: 'openai',
+  },
+]
+
+/**
+ * Template for a new custom endpoint (OpenAI-compatible, no key)
+ */
+export function createCustomProvider(): ProviderDefinition {
+  return {
+    id: `custom-${Date.now()}`,
+    name: 'Local model',
+    baseUrl: API_CONFIG.CUSTOM.BASE_URL,
+    authStyle: 'none',
+    models: [API_CONFIG.CUSTOM.MODEL],
+    defaultModel: API_CONFIG.CUSTOM.MODEL,
+    supportsVision: false,
+    supportsStructuredOutput: false,
+    streamFormat: 'openai',
+    apiKey: '',
+  }
+}
+
+/**
+ * All providers available with the given settings (built-ins first, mock last)
+ */
+export function getProviders(settings: PluginSettings): ProviderDefinition[] {
+  return [
+    ...BUILT_IN_PROVIDERS,
+    ...(settings.customProviders || []),
+    ...(settings.mock?.enabled ? [createMockProvider(settings)] : []),
+  ]
+}
+
+/**
+ * Look up a provider by id, falling back to the first built-in
+ */
+export function getProvider(settings: PluginSettings, id: AIProvider): ProviderDefinition {
+  return getProviders(settings).find(p => p.id === id) || BUILT_IN_PROVIDERS[0]
+}
+
+export function isBuiltInProvider(id: AIProvider): boolean {
+  return BUILT_IN_PROVIDERS.some(p => p.id === id)
+}
+
+/**
+ * Get the API key for a provider
+ */
+export function getProviderApiKey(settings: PluginSettings, provider: ProviderDefinition): string {
+  if (provider.id === 'claude') return settings.claudeApiKey
+  if (provider.id === 'openai') return settings.openaiApiKey
+  return provider.apiKey || ''
+}
+
+/**
+ * Temperature range the provider's API accepts
+ */
+export function getTemperatureRange(provider: ProviderDefinition): { MIN: number; MAX: number } {
+  return provider.streamFormat === 'anthropic' ? API_CONFIG.TEMPERATURE.ANTHROPIC : API_CONFIG.TEMPERATURE.OPENAI
+}
+
+/**
+ * Clamp a temperature into the provider's range (undefined stays the default)
+ */
+export function clampTemperature(provider: ProviderDefinition, temperature: number | undefined): number | undefined {
+  if (temperature === undefined) return undefined
+  const range = getTemperatureRange(provider)
+  return Math.min(range.MAX, Math.max(range.MIN, temperature))
+}
+
+/**
+ * Resolve the generation parameters for a provider, filling in defaults.
+ * A temperature saved for another stream format is clamped into this provider's range.
+ */
+export function getGenerationParams(settings: PluginSettings, provider: ProviderDefinition): GenerationParams {
+  const saved = settings.generationParams?.[provider.id] || {}
+  const defaultMaxTokens = provider.streamFormat === 'anthropic'
+    ? API_CONFIG.CLAUDE.MAX_TOKENS
+    : API_CONFIG.OPENAI.MAX_TOKENS
+
+  return {
+    model: saved.model || provider.defaultModel,
+    temperature: clampTemperature(provider, saved.temperature),
+    maxTokens: saved.maxTokens || defaultMaxTokens,
+    // Extended thinking is an Anthropic-only feature
+    thinkingBudget: provider.streamFormat === 'anthropic' ? saved.thinkingBudget : undefined,
+  }
+}
+
+/**
+ * A provider is usable when it has a key or doesn't need one
+ */
+export function isProviderReady(settings: PluginSettings, provider: ProviderDefinition): boolean {
+  return provider.authStyle === 'none' || getProviderApiKey(settings, provider).trim().length > 0
+}
+
+/**
+ * Build auth headers for a provider's auth style
+ */
+export function buildAuthHeaders(provider: ProviderDefinition, apiKey: string): Record<string, string> {
+  switch (provider.authStyle) {
+    case 'x-api-key':
+      return { 'x-api-key': apiKey }
+    case 'bearer':
+      return { 'Authorization': `Bearer ${apiKey}` }
+    case 'none':
+      return {}
+  }
+}
+
+/**
+ * Join the provider's base URL with an endpoint path
+ */
+export function buildEndpointUrl(provider: ProviderDefinition, path: string): string {
+  return `${provider.baseUrl.replace(/\/+$/, '')}${path}`
+}
+
+// A manifest networkAccess entry: "*", an origin, an origin with a path prefix, or "*.host"
+function matchesNetworkEntry(url: URL, entry: string): boolean {
+  if (entry === '*') return true
+  if (entry.startsWith('*.')) return url.hostname.endsWith(entry.slice(1))
+  const href = url.href.replace(/\/+$/, '')
+  const allowed = entry.replace(/\/+$/, '')
+  return href === allowed || href.startsWith(`${allowed}/`)
+}
+
+/**
+ * Why Figma would block requests to a base URL, or null when manifest.json allows it.
+ * Development-only hosts are reported too, since they fail once the plugin is published.
+ */
+export function getNetworkAccessIssue(baseUrl: string): string | null {
+  let url: URL
+  try {
+    url = new URL(baseUrl)
+  } catch {
+    return 'Not a valid URL'
+  }
+
+  const { allowedDomains, devAllowedDomains } = manifest.networkAccess
+  if (allowedDomains.some(entry => matchesNetworkEntry(url, entry))) return null
+  if (devAllowedDomains.some(entry => matchesNetworkEntry(url, entry))) {
+    return `${url.origin} is only allowed while running the plugin in development (manifest.json devAllowedDomains)`
+  }
+  return `${url.origin} is not in manifest.json networkAccess, so Figma blocks it. Add it to allowedDomains and rebuild the plugin.`
+}
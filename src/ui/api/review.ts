@@ -0,0 +1,127 @@
+/**
+ * Visual self-review
+ *
+ * Shows a vision-capable model a PNG of the rendered frame and asks it to
+ * list visible problems (overflow, clipped text, misalignment, contrast).
+ * The issues are then fed back as an edit request on the design.
+ */
+
+import type { GenerationParams, ViewportSize } from '../../shared/types'
+import { REVIEW_CONFIG } from '../../shared/constants'
+import { parseTolerantJson } from '../../shared/utils/tolerantJson'
+import { streamClaudeRequest } from './claude'
+import { streamOpenAIRequest } from './openai'
+import type { RequestContext } from './sse'
+
+export interface DesignCritique {
+  /**
+   * "pass" when the reviewer found nothing worth fixing, "fail" when it listed
+   * issues, "none" when its reply couldn't be read as a verdict
+   */
+  verdict: 'pass' | 'fail' | 'none'
+  summary: string
+  issues: string[]
+}
+
+interface CritiqueOptions extends RequestContext {
+  params: GenerationParams
+  /** The user's original request */
+  prompt: string
+  /** PNG data URL of the rendered frame */
+  imageData: string
+  viewport: ViewportSize
+}
+
+const REVIEW_SYSTEM_PROMPT = `You are a meticulous UI design reviewer. You look at a screenshot of a Figma frame that was generated from a design request, and report concrete visual problems.
+
+Check for:
+- Content overflowing its container or the frame, or clipped at the edges
+- Text that is truncated, wraps badly, overlaps other elements or is unreadably small
+- Misaligned elements and inconsistent spacing
+- Poor color contrast or illegible text on its background
+- Elements collapsed to zero or 1px size, or stretched unnaturally
+- Anything from the request that is missing
+
+Respond with JSON only, no markdown:
+{"pass": boolean, "summary": "one sentence overall assessment", "issues": ["specific, actionable fix", ...]}
+
+Set "pass" to true only when there are no significant problems. Describe each issue so a designer could fix it from the JSON (name the element, say what to change). At most 6 issues, most important first.`
+
+// Lenient parse: the first JSON object in the reply, with prose around it skipped
+function parseCritique(text: string): DesignCritique {
+  const { value } = parseTolerantJson(text)
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const parsed = value as { pass?: unknown; summary?: unknown; issues?: unknown }
+    const issues = Array.isArray(parsed.issues)
+      ? parsed.issues.filter((issue: unknown): issue is string => typeof issue === 'string' && issue.trim().length > 0)
+      : []
+    const summary = typeof parsed.summary === 'string' ? parsed.summary : ''
+    if (issues.length > 0) return { verdict: 'fail', summary, issues }
+    // A failing verdict without issues has nothing to fix, so it stays "none"
+    if (parsed.pass === true || (parsed.pass === undefined && Array.isArray(parsed.issues))) return { verdict: 'pass', summary, issues }
+  }
+
+  // An unstructured reply can't drive a fix - report it and stop the loop, without claiming a pass
+  return { verdict: 'none', summary: text.trim(), issues: [] }
+}
+
+/**
+ * Ask the model to critique a rendered design against the original request
+ */
+export async function critiqueDesign(options: CritiqueOptions): Promise<DesignCritique> {
+  const { provider, params, prompt, imageData, viewport } = options
+  const text = `Design request: ${prompt}\n\nTarget viewport: ${viewport.width}x${viewport.height}px (${viewport.name}).\n\nReview the rendered design in the screenshot.`
+
+  if (provider.streamFormat === 'anthropic') {
+    const base64Data = imageData.split(',')[1] || imageData
+    const result = await streamClaudeRequest(
+      options,
+      {
+        model: params.model,
+        max_tokens: REVIEW_CONFIG.MAX_TOKENS,
+        system: REVIEW_SYSTEM_PROMPT,
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'image', source: { type: 'base64', media_type: 'image/png', data: base64Data } },
+            { type: 'text', text },
+          ],
+        }],
+      },
+      () => {}
+    )
+    return parseCritique(result.text)
+  }
+
+  const result = await streamOpenAIRequest(
+    options,
+    {
+      model: params.model,
+      max_tokens: REVIEW_CONFIG.MAX_TOKENS,
+      messages: [
+        { role: 'system', content: REVIEW_SYSTEM_PROMPT },
+        {
+          role: 'user',
+          content: [
+            { type: 'image_url', image_url: { url: imageData } },
+            { type: 'text', text },
+          ],
+        },
+      ],
+    },
+    () => {}
+  )
+  return parseCritique(result.text)
+}
+
+/**
+ * Edit request that applies the critique to the current design
+ */
+export function buildFixPrompt(originalPrompt: string, critique: DesignCritique): string {
+  return `A visual review of the rendered design (screenshot attached) found these problems:
+${critique.issues.map(issue => `- ${issue}`).join('\n')}
+
+Fix these problems and keep everything else the same.
+
+Original request: ${originalPrompt}`
+}
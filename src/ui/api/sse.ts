@@ -0,0 +1,184 @@
+/**
+ * Shared SSE client for the streaming handlers
+ *
+ * Opens the streaming request, classifies failures into typed provider
+ * errors, retries transient ones with backoff, and parses the event stream.
+ * Errors thrown by an event handler propagate - only unparseable data lines
+ * are skipped.
+ */
+
+import type { ProviderDefinition, TokenUsage } from '../../shared/types'
+import { RETRY_CONFIG } from '../../shared/constants'
+import type { Transport } from './providers'
+import { classifyHttpError, createProviderError, isProviderError, isRetryable } from './errors'
+import type { ProviderError } from './errors'
+
+export interface RetryInfo {
+  /** Retry number, starting at 1 */
+  attempt: number
+  maxRetries: number
+  delayMs: number
+  error: ProviderError
+}
+
+/**
+ * Everything a handler needs to talk to one provider
+ */
+export interface RequestContext {
+  provider: ProviderDefinition
+  apiKey: string
+  signal?: AbortSignal
+  transport?: Transport
+  /** Called before waiting to retry a failed request */
+  onRetry?: (info: RetryInfo) => void
+  /** Called with each request's token usage, including what a failed or aborted stream reported */
+  onUsage?: (usage: TokenUsage) => void
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError'
+}
+
+// Anything that isn't already classified or an abort is a failed connection
+function toProviderError(provider: ProviderDefinition, error: unknown): ProviderError {
+  if (isProviderError(error)) return error
+  const detail = error instanceof Error ? error.message : String(error)
+  return createProviderError(provider, 'network', detail)
+}
+
+// Exponential backoff with jitter, or the server's retry-after; null when the wait is too long
+function getRetryDelay(attempt: number, retryAfterMs?: number): number | null {
+  const delay = retryAfterMs ?? RETRY_CONFIG.BASE_DELAY_MS * 2 ** attempt * (1 + Math.random() * 0.25)
+  return delay <= RETRY_CONFIG.MAX_DELAY_MS ? Math.round(delay) : null
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer)
+      reject(new DOMException('The operation was aborted.', 'AbortError'))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort)
+      resolve()
+    }, ms)
+    if (signal?.aborted) abort()
+    else signal?.addEventListener('abort', abort, { once: true })
+  })
+}
+
+/**
+ * Send a streaming POST request, throwing a classified error for non-2xx responses
+ */
+export async function openStream(context: RequestContext, url: string, init: RequestInit): Promise<Response> {
+  const transport = context.transport || fetch
+  const response = await transport(url, { ...init, signal: context.signal })
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '')
+    throw classifyHttpError(context.provider, response.status, body, response.headers)
+  }
+
+  if (!response.body) {
+    throw createProviderError(context.provider, 'network', 'No response body')
+  }
+
+  return response
+}
+
+/**
+ * Run a request, retrying transient failures until it succeeds or retries run out.
+ * `hasOutput` stops retries once text has reached the UI - a retry would restart it.
+ */
+export async function withRetry<T>(
+  context: RequestContext,
+  run: () => Promise<T>,
+  hasOutput: () => boolean
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run()
+    } catch (caught) {
+      if (isAbortError(caught)) throw caught
+
+      const error = toProviderError(context.provider, caught)
+      const delayMs = getRetryDelay(attempt, error.retryAfterMs)
+      if (!isRetryable(error) || hasOutput() || attempt >= RETRY_CONFIG.MAX_RETRIES || delayMs === null) {
+        throw error
+      }
+
+      context.onRetry?.({ attempt: attempt + 1, maxRetries: RETRY_CONFIG.MAX_RETRIES, delayMs, error })
+      await sleep(delayMs, context.signal)
+    }
+  }
+}
+
+/**
+ * Read a server-sent event stream and pass each JSON data payload to `onEvent`.
+ * Handles CRLF line endings, multi-line data fields, comments and a final event
+ * without a trailing blank line. `[DONE]` and non-JSON payloads are skipped.
+ */
+export async function readSSE(
+  response: Response,
+  onEvent: (data: unknown, eventName: string) => void
+): Promise<void> {
+  const reader = response.body!.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let eventName = ''
+  let dataLines: string[] = []
+
+  const dispatch = () => {
+    const lines = dataLines
+    const name = eventName
+    dataLines = []
+    eventName = ''
+
+    const data = lines.join('\n')
+    if (!data || data === '[DONE]') return
+
+    // Some proxies drop the blank separator lines - then try each data line on its own
+    const payloads = [data, ...(lines.length > 1 ? lines : [])]
+    for (const payload of payloads) {
+      let parsed: unknown
+      try {
+        parsed = JSON.parse(payload)
+      } catch {
+        continue // Keep-alives and other non-JSON payloads
+      }
+      onEvent(parsed, name)
+      if (payload === data) return
+    }
+  }
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      dispatch()
+      return
+    }
+    if (line.startsWith(':')) return // Comment
+
+    const colon = line.indexOf(':')
+    const field = colon === -1 ? line : line.slice(0, colon)
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '')
+
+    if (field === 'data') dataLines.push(value)
+    else if (field === 'event') eventName = value
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+
+    // Lines can be split across chunks - keep the incomplete tail for the next read
+    const lines = buffer.split(/\r?\n/)
+    buffer = lines.pop() || ''
+    lines.forEach(processLine)
+  }
+
+  buffer += decoder.decode()
+  if (buffer) processLine(buffer)
+  dispatch()
+}
@@ -0,0 +1,118 @@
+/**
+ * Editor for a user-defined OpenAI-compatible endpoint
+ */
+
+import React from 'react'
+import type { ProviderAuthStyle, ProviderDefinition, ProviderStreamFormat } from '../../shared/types'
+import { getNetworkAccessIssue } from '../api/providers'
+
+interface CustomProviderEditorProps {
+  provider: ProviderDefinition
+  onChange: (provider: ProviderDefinition) => void
+  onRemove: () => void
+}
+
+export function CustomProviderEditor({ provider, onChange, onRemove }: CustomProviderEditorProps) {
+  const update = <K extends keyof ProviderDefinition>(key: K, value: ProviderDefinition[K]) => {
+    onChange({ ...provider, [key]: value })
+  }
+
+  // Models are edited as a comma-separated list; the first one is the default
+  const updateModels = (value: string) => {
+    const models = value.split(',').map(m => m.trim()).filter(Boolean)
+    onChange({ ...provider, models, defaultModel: models[0] || '' })
+  }
+
+  const networkIssue = getNetworkAccessIssue(provider.baseUrl)
+
+  return (
+    <div className="provider-editor">
+      <div className="provider-editor-header">
+        <input
+          type="text"
+          value={provider.name}
+          onChange={e => update('name', e.target.value)}
+          placeholder="Provider name"
+        />
+        <button className="provider-remove" onClick={onRemove} title="Remove endpoint">
+          ✕
+        </button>
+      </div>
+
+      <label>
+        Base URL
+        <input
+          type="text"
+          value={provider.baseUrl}
+          onChange={e => update('baseUrl', e.target.value)}
+          placeholder="http://localhost:11434/v1"
+        />
+      </label>
+      {networkIssue && <p className="provider-editor-warning">{networkIssue}</p>}
+
+      <label>
+        Models (comma-separated, first is default)
+        <input
+          type="text"
+          value={provider.models.join(', ')}
+          onChange={e => updateModels(e.target.value)}
+          placeholder="llama3.1, qwen2.5-coder"
+        />
+      </label>
+
+      <div className="provider-editor-row">
+        <label>
+          Auth
+          <select
+            value={provider.authStyle}
+            onChange={e => update('authStyle', e.target.value as ProviderAuthStyle)}
+          >
+            <option value="none">No key</option>
+            <option value="bearer">Bearer token</option>
+            <option value="x-api-key">x-api-key header</option>
+          </select>
+        </label>
+        <label>
+          Format
+          <select
+            value={provider.streamFormat}
+            onChange={e => update('streamFormat', e.target.value as ProviderStreamFormat)}
+          >
+            <option value="openai">OpenAI-compatible</option>
+            <option value="anthropic">Anthropic</option>
+          </select>
+        </label>
+      </div>
+
+      {provider.authStyle !== 'none' && (
+        <label>
+          API Key
+          <input
+            type="password"
+            value={provider.apiKey || ''}
+            onChange={e => update('apiKey', e.target.value)}
+          />
+        </label>
+      )}
+
+      <div className="provider-editor-row">
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={provider.supportsVision}
+            onChange={e => update('supportsVision', e.target.checked)}
+          />
+          Accepts images
+        </label>
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={provider.supportsStructuredOutput}
+            onChange={e => update('supportsStructuredOutput', e.target.checked)}
+          />
+          Structured output
+        </label>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+/**
+ * Image asset shelf - images designs can use as `"image": "asset:<name>"`
+ */
+
+import React, { useRef, useState } from 'react'
+import type { ImageAsset } from '../../shared/types'
+
+interface ImageShelfProps {
+  assets: ImageAsset[]
+  disabled?: boolean
+  onAdd: (name: string, imageData: string) => void
+  onDelete: (name: string) => void
+}
+
+// "Hero Photo.final.png" -> "Hero Photo.final"
+function assetName(file: File): string {
+  return file.name.replace(/\.[^.]+$/, '').trim() || 'Image'
+}
+
+export function ImageShelf({ assets, disabled, onAdd, onDelete }: ImageShelfProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [dragging, setDragging] = useState(false)
+
+  const addFiles = (files: FileList | null) => {
+    for (const file of Array.from(files || [])) {
+      if (!file.type.startsWith('image/')) continue
+      const reader = new FileReader()
+      reader.onload = () => onAdd(assetName(file), reader.result as string)
+      reader.readAsDataURL(file)
+    }
+  }
+
+  return (
+    <details className="image-shelf">
+      <summary>Image assets ({assets.length})</summary>
+      <div
+        className={`image-shelf-items ${dragging ? 'dragging' : ''}`}
+        onDragOver={e => {
+          e.preventDefault()
+          setDragging(true)
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={e => {
+          e.preventDefault()
+          setDragging(false)
+          if (!disabled) addFiles(e.dataTransfer.files)
+        }}
+      >
+        {assets.map(asset => (
+          <div key={`${asset.name}:${asset.hash}`} className="image-shelf-item" title={`asset:${asset.name}`}>
+            {asset.thumbnail ? <img src={asset.thumbnail} alt={asset.name} /> : <div className="image-shelf-blank" />}
+            <span>{asset.name}</span>
+            <button onClick={() => onDelete(asset.name)} disabled={disabled} title="Remove from the file">
+              ✕
+            </button>
+          </div>
+        ))}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={e => {
+            addFiles(e.target.files)
+            e.target.value = ''
+          }}
+          hidden
+        />
+        <button
+          className="image-shelf-add"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          title="Add images, or drop them here"
+        >
+          + Add
+        </button>
+      </div>
+    </details>
+  )
+}
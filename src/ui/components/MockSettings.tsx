@@ -0,0 +1,94 @@
+/**
+ * Developer settings for the record/replay mock provider
+ */
+
+import React from 'react'
+import type { MockProviderSettings, MockRecording } from '../../shared/types'
+
+interface MockSettingsProps {
+  mock: MockProviderSettings
+  recordings: MockRecording[]
+  onChange: (mock: MockProviderSettings) => void
+  onDeleteRecording: (id: string) => void
+}
+
+export function MockSettings({ mock, recordings, onChange, onDeleteRecording }: MockSettingsProps) {
+  const update = <K extends keyof MockProviderSettings>(key: K, value: MockProviderSettings[K]) => {
+    onChange({ ...mock, [key]: value })
+  }
+
+  return (
+    <>
+      <p className="colors-note">
+        The mock provider replays recorded SSE streams through the normal Claude/OpenAI handlers,
+        so generation can be tested without an API key. Pick a fixture in the Models tab.
+      </p>
+
+      <label className="checkbox-label">
+        <input
+          type="checkbox"
+          checked={mock.enabled}
+          onChange={e => update('enabled', e.target.checked)}
+        />
+        Show mock provider
+      </label>
+
+      <div className="provider-editor-row">
+        <label>
+          Chunk size (bytes)
+          <input
+            type="number"
+            min={1}
+            value={mock.chunkSize}
+            onChange={e => update('chunkSize', Number(e.target.value) || 1)}
+            title="Small chunks split SSE lines across reads"
+          />
+        </label>
+        <label>
+          Delay per chunk (ms)
+          <input
+            type="number"
+            min={0}
+            value={mock.delayMs}
+            onChange={e => update('delayMs', Math.max(0, Number(e.target.value) || 0))}
+          />
+        </label>
+      </div>
+
+      <label className="checkbox-label">
+        <input
+          type="checkbox"
+          checked={mock.record}
+          onChange={e => update('record', e.target.checked)}
+        />
+        Record live responses
+      </label>
+
+      {recordings.length > 0 && (
+        <div className="recording-list">
+          {recordings.map(recording => (
+            <div key={recording.id} className="recording-item">
+              <div className="recording-info">
+                <span className="recording-name">{recording.name}</span>
+                <span className="recording-id">{recording.id}</span>
+              </div>
+              <button
+                onClick={() => navigator.clipboard.writeText(recording.transcript)}
+                title="Copy transcript - save it as src/ui/api/fixtures/<name>.sse to bundle it"
+              >
+                Copy
+              </button>
+              <button
+                className="provider-remove"
+                onClick={() => onDeleteRecording(recording.id)}
+                title="Delete recording"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,89 @@
+/**
+ * Model picker and generation parameters for one provider
+ */
+
+import React from 'react'
+import type { GenerationParams, ProviderDefinition } from '../../shared/types'
+import { API_CONFIG } from '../../shared/constants'
+import { clampTemperature, getTemperatureRange } from '../api/providers'
+
+interface ModelSettingsProps {
+  provider: ProviderDefinition
+  params: GenerationParams
+  onChange: (params: Partial<GenerationParams>) => void
+}
+
+// Empty input means "use the default"
+function parseOptionalNumber(value: string): number | undefined {
+  if (value.trim() === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+export function ModelSettings({ provider, params, onChange }: ModelSettingsProps) {
+  const thinkingEnabled = (params.thinkingBudget || 0) > 0
+  const temperatureRange = getTemperatureRange(provider)
+
+  return (
+    <div className="provider-editor">
+      <div className="model-settings-title">{provider.name}</div>
+
+      <label>
+        Model
+        <select
+          value={params.model}
+          onChange={e => onChange({ model: e.target.value })}
+        >
+          {/* Keep a saved model selectable even if it's no longer in the list */}
+          {!provider.models.includes(params.model) && (
+            <option value={params.model}>{params.model}</option>
+          )}
+          {provider.models.map(model => (
+            <option key={model} value={model}>{model}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="provider-editor-row">
+        <label>
+          Temperature ({temperatureRange.MIN}-{temperatureRange.MAX})
+          <input
+            type="number"
+            min={temperatureRange.MIN}
+            max={temperatureRange.MAX}
+            step={0.1}
+            value={params.temperature ?? ''}
+            onChange={e => onChange({ temperature: clampTemperature(provider, parseOptionalNumber(e.target.value)) })}
+            placeholder="Default"
+            disabled={thinkingEnabled}
+            title={thinkingEnabled ? 'Temperature is fixed while extended thinking is on' : undefined}
+          />
+        </label>
+        <label>
+          Max output tokens
+          <input
+            type="number"
+            min={256}
+            step={256}
+            value={params.maxTokens}
+            onChange={e => onChange({ maxTokens: parseOptionalNumber(e.target.value) })}
+          />
+        </label>
+      </div>
+
+      {provider.streamFormat === 'anthropic' && (
+        <label>
+          Extended thinking budget (tokens, 0 = off)
+          <input
+            type="number"
+            min={0}
+            step={1024}
+            value={params.thinkingBudget ?? 0}
+            onChange={e => onChange({ thinkingBudget: parseOptionalNumber(e.target.value) })}
+            placeholder={`0 or ≥ ${API_CONFIG.CLAUDE.MIN_THINKING_BUDGET}`}
+          />
+        </label>
+      )}
+    </div>
+  )
+}
@@ -3,10 +3,15 @@
  */
 
 import React, { useState } from 'react'
-import type { PluginSettings, CustomColorPalette } from '../../shared/types'
-import { DEFAULT_COLOR_PALETTE } from '../../shared/types'
+import type { PluginSettings, EditMode, ReplaceMode, CustomColorPalette, GenerationParams, MockRecording, ProviderDefinition } from '../../shared/types'
+import { DEFAULT_COLOR_PALETTE, DEFAULT_MOCK_SETTINGS } from '../../shared/types'
+import { MOCK_CONFIG, REVIEW_CONFIG } from '../../shared/constants'
+import { clampTemperature, createCustomProvider, getGenerationParams, getProviders } from '../api/providers'
+import { CustomProviderEditor } from './CustomProviderEditor'
+import { ModelSettings } from './ModelSettings'
+import { MockSettings } from './MockSettings'
 
-type SettingsTab = 'general' | 'colors'
+type SettingsTab = 'general' | 'models' | 'providers' | 'colors' | 'developer'
 
 const COLOR_LABELS: Record<keyof CustomColorPalette, string> = {
   primary: 'Primary',
@@ -26,6 +31,8 @@ interface SettingsPanelProps {
   onSettingsChange: (settings: PluginSettings) => void
   onSave: () => void
   hasDesignSystem: boolean
+  recordings: MockRecording[]
+  onDeleteRecording: (id: string) => void
 }
 
 export function SettingsPanel({
@@ -33,6 +40,8 @@ export function SettingsPanel({
   onSettingsChange,
   onSave,
   hasDesignSystem,
+  recordings,
+  onDeleteRecording,
 }: SettingsPanelProps) {
   const [activeTab, setActiveTab] = useState<SettingsTab>('general')
 
@@ -55,6 +64,41 @@ export function SettingsPanel({
     onSettingsChange({ ...settings, customColors: DEFAULT_COLOR_PALETTE })
   }
 
+  const updateGenerationParams = (providerId: string, changes: Partial<GenerationParams>) => {
+    updateField('generationParams', {
+      ...settings.generationParams,
+      [providerId]: { ...settings.generationParams?.[providerId], ...changes },
+    })
+  }
+
+  const customProviders = settings.customProviders || []
+
+  const addCustomProvider = () => {
+    updateField('customProviders', [...customProviders, createCustomProvider()])
+  }
+
+  const updateCustomProvider = (updated: ProviderDefinition) => {
+    // Switching the stream format can put the saved temperature out of range
+    const saved = settings.generationParams?.[updated.id]
+    const temperature = clampTemperature(updated, saved?.temperature)
+    onSettingsChange({
+      ...settings,
+      customProviders: customProviders.map(p => p.id === updated.id ? updated : p),
+      ...(saved && temperature !== saved.temperature && {
+        generationParams: { ...settings.generationParams, [updated.id]: { ...saved, temperature } },
+      }),
+    })
+  }
+
+  const removeCustomProvider = (id: string) => {
+    onSettingsChange({
+      ...settings,
+      customProviders: customProviders.filter(p => p.id !== id),
+      // Don't leave a deleted endpoint selected
+      selectedProvider: settings.selectedProvider === id ? 'claude' : settings.selectedProvider,
+    })
+  }
+
   return (
     <div className="settings-panel">
       {/* Tabs */}
@@ -65,12 +109,30 @@ export function SettingsPanel({
         >
           General
         </button>
+        <button
+          className={`settings-tab ${activeTab === 'models' ? 'active' : ''}`}
+          onClick={() => setActiveTab('models')}
+        >
+          Models
+        </button>
+        <button
+          className={`settings-tab ${activeTab === 'providers' ? 'active' : ''}`}
+          onClick={() => setActiveTab('providers')}
+        >
+          Endpoints
+        </button>
         <button
           className={`settings-tab ${activeTab === 'colors' ? 'active' : ''}`}
           onClick={() => setActiveTab('colors')}
         >
           Colors
         </button>
+        <button
+          className={`settings-tab ${activeTab === 'developer' ? 'active' : ''}`}
+          onClick={() => setActiveTab('developer')}
+        >
+          Dev
+        </button>
       </div>
 
       {/* General Tab */}
@@ -105,6 +167,82 @@ export function SettingsPanel({
               rows={3}
             />
           </label>
+
+          <label>
+            Visual review rounds (0 = off)
+            <input
+              type="number"
+              min={0}
+              max={REVIEW_CONFIG.MAX_ROUNDS}
+              value={settings.reviewRounds || 0}
+              onChange={e => updateField(
+                'reviewRounds',
+                Math.min(Math.max(Math.round(Number(e.target.value) || 0), 0), REVIEW_CONFIG.MAX_ROUNDS)
+              )}
+              title="After rendering, show the model a screenshot and let it fix what it sees. Needs a vision model; each round costs an extra request or two."
+            />
+          </label>
+
+          <label>
+            Edits to a selected frame
+            <select
+              value={settings.editMode || 'patch'}
+              onChange={e => updateField('editMode', e.target.value as EditMode)}
+              title="In place keeps untouched layers, with their comments and prototype links. Regenerate renders a new frame and replaces the selection."
+            >
+              <option value="patch">Change in place</option>
+              <option value="regenerate">Regenerate the frame</option>
+            </select>
+          </label>
+
+          <label>
+            The selected frame on render
+            <select
+              value={settings.replaceMode || 'replace'}
+              onChange={e => updateField('replaceMode', e.target.value as ReplaceMode)}
+              title="Keep versions hides a copy of the old frame or instance in the AI versions section, so you can step back through earlier versions and restore one. Components keep no versions: restoring one would cut it off from its instances."
+            >
+              <option value="replace">Replace it</option>
+              <option value="beside">Place the new design beside it</option>
+              <option value="versions">Replace it, keep versions</option>
+            </select>
+          </label>
+        </>
+      )}
+
+      {/* Models Tab */}
+      {activeTab === 'models' && (
+        <>
+          {getProviders(settings).map(provider => (
+            <ModelSettings
+              key={provider.id}
+              provider={provider}
+              params={getGenerationParams(settings, provider)}
+              onChange={changes => updateGenerationParams(provider.id, changes)}
+            />
+          ))}
+        </>
+      )}
+
+      {/* Custom Endpoints Tab */}
+      {activeTab === 'providers' && (
+        <>
+          <p className="colors-note">
+            OpenAI-compatible endpoints such as a local Ollama or LM Studio server, or a corporate proxy.
+            Figma only reaches hosts listed in manifest.json networkAccess: the built-in APIs, plus the default
+            Ollama and LM Studio ports in development. Other hosts must be added to allowedDomains.
+          </p>
+          {customProviders.map(provider => (
+            <CustomProviderEditor
+              key={provider.id}
+              provider={provider}
+              onChange={updateCustomProvider}
+              onRemove={() => removeCustomProvider(provider.id)}
+            />
+          ))}
+          <button className="add-endpoint" onClick={addCustomProvider}>
+            + Add Endpoint
+          </button>
         </>
       )}
 
@@ -143,6 +281,23 @@ export function SettingsPanel({
         </>
       )}
 
+      {/* Developer Tab */}
+      {activeTab === 'developer' && (
+        <MockSettings
+          mock={settings.mock || DEFAULT_MOCK_SETTINGS}
+          recordings={recordings}
+          onChange={mock => onSettingsChange({
+            ...settings,
+            mock,
+            // Fall back to a real provider when the mock is hidden
+            selectedProvider: !mock.enabled && settings.selectedProvider === MOCK_CONFIG.PROVIDER_ID
+              ? 'claude'
+              : settings.selectedProvider,
+          })}
+          onDeleteRecording={onDeleteRecording}
+        />
+      )}
+
       <button onClick={onSave}>Save Settings</button>
     </div>
   )
@@ -5,3 +5,7 @@
 export * from './SettingsPanel'
 export * from './ChatMessage'
 export * from './InputArea'
+export * from './CustomProviderEditor'
+export * from './ModelSettings'
+export * from './MockSettings'
+export * from './ImageShelf'
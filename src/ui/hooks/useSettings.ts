@@ -4,15 +4,23 @@
 
 import { useState, useCallback, useEffect } from 'react'
 import type { PluginSettings, AIProvider, ViewportPreset } from '../../shared/types'
-import { DEFAULT_COLOR_PALETTE } from '../../shared/types'
+import { DEFAULT_COLOR_PALETTE, DEFAULT_MOCK_SETTINGS } from '../../shared/types'
+import { getProvider, getProviderApiKey } from '../api/providers'
 
 const DEFAULT_SETTINGS: PluginSettings = {
   claudeApiKey: '',
   openaiApiKey: '',
   selectedProvider: 'claude',
+  customProviders: [],
+  generationParams: {},
+  mock: DEFAULT_MOCK_SETTINGS,
   contextInstructions: '',
   viewport: 'mobile',
   customColors: DEFAULT_COLOR_PALETTE,
+  variantCount: 1,
+  reviewRounds: 0,
+  editMode: 'patch',
+  replaceMode: 'replace',
 }
 
 interface UseSettingsReturn {
@@ -33,9 +41,7 @@ export function useSettings(onSettingsLoaded?: (settings: PluginSettings) => voi
   // Derived state
   const hasClaudeKey = settings.claudeApiKey.trim().length > 0
   const hasOpenaiKey = settings.openaiApiKey.trim().length > 0
-  const currentApiKey = settings.selectedProvider === 'claude'
-    ? settings.claudeApiKey
-    : settings.openaiApiKey
+  const currentApiKey = getProviderApiKey(settings, getProvider(settings, settings.selectedProvider))
 
   // Send settings to plugin
   const saveSettings = useCallback(() => {
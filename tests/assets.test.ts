@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { deleteImageAsset, findAssetName, findImageAsset, listAssetNames, listImageAssets, saveImageAsset } from '../src/plugin/assets'
+
+// Just enough of the Figma scene graph for the asset shelf
+interface FakeNode {
+  id: string
+  type: string
+  name: string
+  x: number
+  y: number
+  width: number
+  height: number
+  fills: Paint[]
+  parent: FakeParent | null
+  children: FakeNode[]
+  getPluginData: (key: string) => string
+  setPluginData: (key: string, value: string) => void
+  appendChild: (node: FakeNode) => void
+  resize: (width: number, height: number) => void
+  resizeWithoutConstraints: (width: number, height: number) => void
+  remove: () => void
+  exportAsync: () => Promise<Uint8Array>
+}
+
+interface FakeParent {
+  children: FakeNode[]
+}
+
+let nextId = 1
+
+function createNode(type: string, parent: FakeParent): FakeNode {
+  const data = new Map<string, string>()
+  const node: FakeNode = {
+    id: `1:${nextId++}`,
+    type,
+    name: '',
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 100,
+    fills: [],
+    parent: null,
+    children: [],
+    getPluginData: key => data.get(key) ?? '',
+    setPluginData: (key, value) => void data.set(key, value),
+    appendChild: child => {
+      child.parent?.children.splice(child.parent.children.indexOf(child), 1)
+      node.children.push(child)
+      child.parent = node
+    },
+    resize: (width, height) => Object.assign(node, { width, height }),
+    resizeWithoutConstraints: (width, height) => Object.assign(node, { width, height }),
+    remove: () => {
+      node.parent?.children.splice(node.parent.children.indexOf(node), 1)
+      node.parent = null
+    },
+    exportAsync: async () => new Uint8Array([1, 2, 3]),
+  }
+  parent.children.push(node)
+  node.parent = parent as FakeNode
+  return node
+}
+
+let page: FakeParent
+let otherPage: FakeParent
+// Images by hash, with their pixel size
+let images: Map<string, { width: number; height: number }>
+
+beforeEach(() => {
+  page = { children: [] }
+  otherPage = { children: [] }
+  images = new Map()
+  vi.stubGlobal('figma', {
+    root: { children: [page, otherPage] },
+    currentPage: page,
+    viewport: { bounds: { x: 500, y: 300 } },
+    mixed: Symbol('mixed'),
+    createSection: () => createNode('SECTION', page),
+    createRectangle: () => createNode('RECTANGLE', page),
+    createImage: (bytes: Uint8Array) => {
+      const hash = `hash-${bytes.join('')}`
+      images.set(hash, { width: bytes[0] * 100, height: bytes[1] * 100 })
+      return { hash, getSizeAsync: async () => images.get(hash)! }
+    },
+    base64Encode: () => 'AQID',
+  })
+})
+
+// An image-filled layer the user dropped on a shelf themselves
+function dropImage(section: FakeNode, name: string, hash: string): FakeNode {
+  const node = createNode('RECTANGLE', page)
+  node.name = name
+  node.fills = [{ type: 'IMAGE', imageHash: hash, scaleMode: 'FILL' }]
+  section.appendChild(node)
+  return node
+}
+
+function shelf(): FakeNode {
+  return page.children.find(node => node.type === 'SECTION')!
+}
+
+describe('image assets', () => {
+  it('saves an image into one shelf section in the viewport, scaled and laid out in a row', async () => {
+    await saveImageAsset('Hero', new Uint8Array([4, 2]))
+    await saveImageAsset('Logo', new Uint8Array([1, 1]))
+
+    const sections = page.children.filter(node => node.type === 'SECTION')
+    expect(sections).toHaveLength(1)
+    expect(shelf()).toMatchObject({ name: 'AI image assets', x: 500, y: 300 })
+    const [hero, logo] = shelf().children
+    expect(hero).toMatchObject({ name: 'Hero', x: 40, y: 40, width: 160, height: 80 })
+    expect(hero.fills).toEqual([{ type: 'IMAGE', imageHash: 'hash-42', scaleMode: 'FILL' }])
+    expect(logo).toMatchObject({ name: 'Logo', x: 240, y: 40, width: 160, height: 160 })
+    expect(shelf()).toMatchObject({ width: 440, height: 240 })
+  })
+
+  it('replaces an asset saved again under the same name', async () => {
+    await saveImageAsset('Hero', new Uint8Array([4, 2]))
+    await saveImageAsset('Hero', new Uint8Array([2, 4]))
+
+    expect(shelf().children.map(node => node.name)).toEqual(['Hero'])
+    expect(findImageAsset('Hero')).toBe('hash-24')
+  })
+
+  it('finds assets by name regardless of case and surrounding spaces, and by hash', async () => {
+    await saveImageAsset('Team Photo', new Uint8Array([3, 2]))
+
+    expect(findImageAsset('  team photo ')).toBe('hash-32')
+    expect(findImageAsset('Team')).toBeNull()
+    expect(findAssetName('hash-32')).toBe('Team Photo')
+    expect(findAssetName('hash-99')).toBeNull()
+  })
+
+  it('counts image layers dropped onto a shelf on any page, and nothing outside one', async () => {
+    await saveImageAsset('Hero', new Uint8Array([4, 2]))
+    const elsewhere = createNode('SECTION', otherPage)
+    elsewhere.setPluginData('aiImageAssets', 'true')
+    dropImage(elsewhere, 'Texture', 'hash-t')
+    dropImage(shelf(), 'Hero', 'hash-h')
+    dropImage(createNode('SECTION', page), 'Loose', 'hash-l')
+    const noFill = createNode('FRAME', page)
+    shelf().appendChild(noFill)
+
+    expect(listAssetNames()).toEqual(['Hero', 'Texture'])
+    expect(findImageAsset('Texture')).toBe('hash-t')
+    expect(findImageAsset('Loose')).toBeNull()
+  })
+
+  it('lists assets with thumbnails, and without one when the export fails', async () => {
+    await saveImageAsset('Hero', new Uint8Array([4, 2]))
+    await saveImageAsset('Logo', new Uint8Array([1, 1]))
+    shelf().children[1].exportAsync = async () => {
+      throw new Error('Export failed')
+    }
+
+    expect(await listImageAssets()).toEqual([
+      { name: 'Hero', hash: 'hash-42', thumbnail: 'data:image/png;base64,AQID' },
+      { name: 'Logo', hash: 'hash-11', thumbnail: null },
+    ])
+  })
+
+  it('deletes every asset with the name and lays the shelf out again', async () => {
+    await saveImageAsset('Hero', new Uint8Array([4, 2]))
+    await saveImageAsset('Logo', new Uint8Array([1, 1]))
+    dropImage(shelf(), 'Hero', 'hash-h')
+
+    deleteImageAsset('Hero')
+    deleteImageAsset('Missing')
+
+    expect(shelf().children.map(node => node.name)).toEqual(['Logo'])
+    expect(shelf().children[0].x).toBe(40)
+    expect(shelf()).toMatchObject({ width: 240, height: 240 })
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import type { DesignSystemContext, TokenUsage } from '../src/shared/types'
+import { VIEWPORT_PRESETS } from '../src/shared/types'
+import { buildSystemBlocks, streamClaudeGeneration, streamClaudeRequest } from '../src/ui/api/claude'
+import { buildSystemPromptSections } from '../src/ui/api/prompts'
+import { BUILT_IN_PROVIDERS } from '../src/ui/api/providers'
+
+function sse(events: object[]): Response {
+  return new Response(events.map(event => `data: ${JSON.stringify(event)}\n\n`).join(''), { status: 200 })
+}
+
+describe('streamClaudeRequest', () => {
+  it('reads the input and cache counts from message_start and the output count from message_delta', async () => {
+    const reported: TokenUsage[] = []
+    const result = await streamClaudeRequest({
+      provider: BUILT_IN_PROVIDERS[0],
+      apiKey: 'key',
+      onUsage: usage => reported.push(usage),
+      transport: async () => sse([
+        { type: 'message_start', message: { usage: { input_tokens: 100, output_tokens: 1, cache_read_input_tokens: 500, cache_creation_input_tokens: 20 } } },
+        { type: 'content_block_delta', delta: { type: 'text_delta', text: '{}' } },
+        { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 42 } },
+      ]),
+    }, {}, () => {})
+
+    const usage = { inputTokens: 100, outputTokens: 42, cacheReadTokens: 500, cacheWriteTokens: 20 }
+    expect(result).toEqual({ text: '{}', stopReason: 'end_turn', usage })
+    expect(reported).toEqual([usage])
+  })
+})
+
+describe('buildSystemBlocks', () => {
+  it('marks each stable section with a cache breakpoint and drops empty ones', () => {
+    expect(buildSystemBlocks([
+      { text: 'Core', cacheable: true },
+      { text: '  ', cacheable: true },
+      { text: 'Project', cacheable: true },
+      { text: 'Viewport', cacheable: false },
+    ])).toEqual([
+      { type: 'text', text: 'Core', cache_control: { type: 'ephemeral' } },
+      { type: 'text', text: 'Project', cache_control: { type: 'ephemeral' } },
+      { type: 'text', text: 'Viewport' },
+    ])
+  })
+
+  it('keeps the cached prefix the same when only the viewport changes', () => {
+    const designSystem: DesignSystemContext = {
+      colorVariables: [{ id: 'v1', name: 'Brand/Primary', collection: 'Tokens', value: '#0000FF', isToken: true }],
+      spacingVariables: [],
+      textStyles: [],
+      components: [],
+    }
+    const mobile = buildSystemBlocks(buildSystemPromptSections(VIEWPORT_PRESETS.mobile, designSystem, 'Friendly tone'))
+    const desktop = buildSystemBlocks(buildSystemPromptSections(VIEWPORT_PRESETS.desktop, designSystem, 'Friendly tone'))
+
+    expect(mobile.map(block => 'cache_control' in block)).toEqual([true, true, false])
+    expect(mobile.slice(0, 2)).toEqual(desktop.slice(0, 2))
+    expect(mobile[1].text).toContain('Brand/Primary')
+    expect(mobile[2].text).toContain('375x812px')
+    expect(desktop[2].text).toContain('1440x900px')
+  })
+
+  it('sends the cached sections ahead of the viewport in a generation request', async () => {
+    const bodies: Array<{ system: Array<{ text: string; cache_control?: object }> }> = []
+    await streamClaudeGeneration({
+      prompt: 'Login screen',
+      provider: BUILT_IN_PROVIDERS[0],
+      apiKey: 'key',
+      params: { model: 'claude-sonnet-4-20250514', maxTokens: 1024 },
+      viewport: VIEWPORT_PRESETS.mobile,
+      designSystem: null,
+      contextInstructions: '',
+      transport: async (_url, init) => {
+        bodies.push(JSON.parse(String(init.body)))
+        return sse([
+          { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: '{"name": "Login", "children": []}' } },
+          { type: 'message_delta', delta: { stop_reason: 'tool_use' } },
+        ])
+      },
+    })
+
+    const system = bodies[0].system
+    expect(system.map(block => Boolean(block.cache_control))).toEqual([true, true, false])
+    expect(system[system.length - 1].text).toMatch(/^## Target Viewport/)
+  })
+})
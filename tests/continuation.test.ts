@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { createContinuationJoin, joinContinuation } from '../src/ui/api/continuation'
+
+const DOT = '{"type":"RECTANGLE","name":"Dot","width":8}'
+
+describe('joinContinuation', () => {
+  it('appends a clean continuation', () => {
+    expect(joinContinuation('{"name":"Screen","children":[', `${DOT}]}`)).toBe(`{"name":"Screen","children":[${DOT}]}`)
+  })
+
+  it('strips a markdown fence', () => {
+    expect(joinContinuation('{"name":"Scr', '```json\neen"}')).toBe('{"name":"Screen"}')
+  })
+
+  it('removes a restated tail', () => {
+    const previous = '{"name":"Screen","children":[{"type":"RECTANGLE","name":"Do'
+    expect(joinContinuation(previous, '"type":"RECTANGLE","name":"Dot","width":8}]}'))
+      .toBe(`{"name":"Screen","children":[${DOT}]}`)
+  })
+
+  it('keeps a sibling identical to the last one', () => {
+    const previous = `{"name":"Screen","children":[${DOT},`
+    expect(joinContinuation(previous, `${DOT},{"type":"TEXT","name":"Label"}]}`))
+      .toBe(`${previous}${DOT},{"type":"TEXT","name":"Label"}]}`)
+  })
+})
+
+describe('createContinuationJoin', () => {
+  it('only ever grows the progress text', () => {
+    const previous = `{"name":"Screen","children":[${DOT},{"type":"RECT`
+    const continuation = `{"type":"RECTANGLE","name":"Bar","width":${'1'.repeat(300)}}]}`
+    const join = createContinuationJoin(previous)
+
+    let last = previous
+    for (let i = 1; i <= continuation.length; i++) {
+      const joined = join.progress(continuation.slice(0, i))
+      if (joined === null) continue
+      expect(joined.startsWith(last)).toBe(true)
+      last = joined
+    }
+    expect(join.finish(continuation).startsWith(last)).toBe(true)
+  })
+
+  it('finishes with the overlap settled while streaming', () => {
+    const previous = '{"name":"Screen","children":[{"type":"RECTANGLE","name":"Do'
+    const continuation = `"type":"RECTANGLE","name":"Dot","width":8},{"type":"TEXT","characters":"${'x'.repeat(300)}"}]}`
+    const join = createContinuationJoin(previous)
+    for (let i = 1; i <= continuation.length; i++) join.progress(continuation.slice(0, i))
+    expect(join.finish(continuation)).toBe(joinContinuation(previous, continuation))
+    expect(JSON.parse(join.finish(continuation)).children).toHaveLength(2)
+  })
+})
@@ -0,0 +1,233 @@
+import { describe, expect, it } from 'vitest'
+import type { FrameNode } from '../src/shared/types'
+import { normalizeDesign, normalizeElement } from '../src/shared/utils/designNormalization'
+
+describe('normalizeDesign', () => {
+  it('keeps the note about an unwrapped root alongside the inner rewrites', () => {
+    const { design, rewrites } = normalizeDesign({
+      root: { name: 'Login', children: [{ type: 'BUTTON', name: 'Submit', text: 'Sign in' }] },
+    } as unknown as FrameNode)
+
+    expect(design.name).toBe('Login')
+    expect(rewrites[0]).toBe('root: unwrapped')
+    expect(rewrites).toContain('children[0].type: "BUTTON" -> "FRAME"')
+  })
+
+  it('reads 0-255 and string channels as colors', () => {
+    const { design } = normalizeDesign({
+      name: 'Screen',
+      fills: [{ type: 'SOLID', color: { r: '255', g: 0, b: 51 } }],
+    } as unknown as FrameNode)
+
+    expect(design.fills).toEqual([{ type: 'SOLID', color: { r: 1, g: 0, b: 0.2 } }])
+  })
+})
+
+// Normalize a design whose root holds just this child
+function normalizeChild(child: unknown) {
+  const { design, rewrites } = normalizeDesign({ name: 'Screen', children: [child] } as unknown as FrameNode)
+  return { element: design.children![0], rewrites }
+}
+
+describe('normalizeDesign rules', () => {
+  it('leaves a canonical design alone', () => {
+    const canonical = {
+      name: 'Screen',
+      layoutMode: 'VERTICAL',
+      padding: { top: 16, right: 16, bottom: 16, left: 16 },
+      fills: [{ type: 'SOLID', colorVariable: 'Surface/Default' }],
+      children: [{ type: 'TEXT', name: 'Title', characters: 'Hello', fontSize: 24 }],
+    }
+    expect(normalizeDesign(structuredClone(canonical) as FrameNode)).toEqual({ design: canonical, rewrites: [] })
+  })
+
+  it('renames CSS keys and reads their values', () => {
+    const { element, rewrites } = normalizeChild({
+      type: 'FRAME',
+      name: 'Row',
+      flexDirection: 'row',
+      gap: '12px',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      borderRadius: 8,
+    })
+
+    expect(element).toEqual({
+      type: 'FRAME',
+      name: 'Row',
+      layoutMode: 'HORIZONTAL',
+      itemSpacing: 12,
+      primaryAxisAlignItems: 'SPACE_BETWEEN',
+      counterAxisAlignItems: 'CENTER',
+      cornerRadius: 8,
+    })
+    expect(rewrites).toContain('children[0].flexDirection: renamed to layoutMode')
+    expect(rewrites).toContain('children[0].layoutMode: "row" -> "HORIZONTAL"')
+    expect(rewrites).toContain('children[0].itemSpacing: "12px" -> 12')
+  })
+
+  it('reads text keys, font weight names, rem sizes and CSS text enums', () => {
+    const { element } = normalizeChild({ type: 'TEXT', name: 'Title', content: 'Hi', fontWeight: 'bold', fontSize: '1rem', textAlign: 'center', textTransform: 'uppercase' })
+    expect(element).toEqual({ type: 'TEXT', name: 'Title', characters: 'Hi', fontWeight: 700, fontSize: 16, textAlignHorizontal: 'CENTER', textCase: 'UPPER' })
+  })
+
+  it('maps positioning keys and drops values that are no numbers', () => {
+    const { design, rewrites } = normalizeDesign({
+      name: 'Screen',
+      width: '390px',
+      height: '100%',
+      children: [{ type: 'FRAME', name: 'Badge', flex: 1, position: 'absolute', left: 10, overflow: 'hidden' }],
+    } as unknown as FrameNode)
+
+    expect(design.width).toBe(390)
+    expect(design.height).toBeUndefined()
+    expect(rewrites).toContain('height: "100%" is not a number, removed')
+    expect(design.children![0]).toEqual({ type: 'FRAME', name: 'Badge', layoutGrow: 1, layoutPositioning: 'ABSOLUTE', x: 10, clipsContent: true })
+  })
+
+  it('turns hex, rgb() and rgba() colors into paints, with the alpha as opacity', () => {
+    const { design, rewrites } = normalizeDesign({
+      name: 'Screen',
+      fills: ['#FF0000', { type: 'SOLID', color: 'rgb(0, 128, 255)' }, { type: 'SOLID', color: 'rgba(0,0,0,0.5)' }],
+      strokes: [{ type: 'SOLID', color: '#0f08' }],
+      children: [],
+    } as unknown as FrameNode)
+
+    expect(design.fills).toEqual([
+      { type: 'SOLID', color: { r: 1, g: 0, b: 0 } },
+      { type: 'SOLID', color: { r: 0, g: 0.502, b: 1 } },
+      { type: 'SOLID', color: { r: 0, g: 0, b: 0 }, opacity: 0.5 },
+    ])
+    expect(design.strokes).toEqual([{ type: 'SOLID', color: { r: 0, g: 1, b: 0 }, opacity: 0.533 }])
+    expect(rewrites).toEqual([
+      'fills[0]: "#FF0000" -> SOLID paint',
+      'fills[1].color: "rgb(0, 128, 255)" -> {"r":0,"g":0.502,"b":1}',
+      'fills[2].color: "rgba(0,0,0,0.5)" -> {"r":0,"g":0,"b":0}',
+      'fills[2].opacity: set to 0.5 from the color\'s alpha',
+      'strokes[0].color: "#0f08" -> {"r":0,"g":1,"b":0}',
+      'strokes[0].opacity: set to 0.533 from the color\'s alpha',
+    ])
+  })
+
+  it('reads CSS gradient types, angles, directions and stop positions', () => {
+    const { design } = normalizeDesign({
+      name: 'Screen',
+      fills: [
+        { type: 'linear-gradient', angle: '90deg', gradientStops: [{ position: '0%', color: '#fff' }, { position: 1, color: '#000' }] },
+        { type: 'GRADIENT_LINEAR', direction: 'to right', stops: [] },
+      ],
+      children: [],
+    } as unknown as FrameNode)
+
+    expect(design.fills).toEqual([
+      {
+        type: 'GRADIENT_LINEAR',
+        angle: 90,
+        gradientStops: [
+          { position: 0, color: { r: 1, g: 1, b: 1, a: 1 } },
+          { position: 1, color: { r: 0, g: 0, b: 0, a: 1 } },
+        ],
+      },
+      { type: 'GRADIENT_LINEAR', gradientStops: [], angle: 90 },
+    ])
+  })
+
+  it('reads box shadows as drop shadows', () => {
+    const { design } = normalizeDesign({
+      name: 'Screen',
+      effects: [{ type: 'shadow', color: '#00000040', offset: { x: 0, y: 4 }, blur: 8 }],
+      children: [],
+    } as unknown as FrameNode)
+
+    expect(design.effects).toEqual([{ type: 'DROP_SHADOW', color: { r: 0, g: 0, b: 0, a: 0.251 }, offset: { x: 0, y: 4 }, radius: 8 }])
+  })
+
+  it('expands padding shorthands', () => {
+    const { design, rewrites } = normalizeDesign({
+      name: 'Screen',
+      padding: 16,
+      children: [
+        { type: 'FRAME', name: 'A', padding: '8px 16px' },
+        { type: 'FRAME', name: 'B', padding: [1, 2, 3] },
+        { type: 'FRAME', name: 'C', paddingTop: 4, paddingX: 10 },
+      ],
+    } as unknown as FrameNode)
+
+    expect(design.padding).toEqual({ top: 16, right: 16, bottom: 16, left: 16 })
+    expect(design.children!.map(child => child.padding)).toEqual([
+      { top: 8, right: 16, bottom: 8, left: 16 },
+      { top: 1, right: 2, bottom: 3, left: 2 },
+      { top: 4, right: 10, bottom: 0, left: 10 },
+    ])
+    expect(rewrites).toContain('children[2].padding: merged from paddingTop, paddingX')
+  })
+
+  it('turns a BUTTON into a hugging, centered FRAME with a TEXT child', () => {
+    const { element, rewrites } = normalizeChild({ type: 'button', name: 'Submit', text: 'Sign in', backgroundColor: '#000' })
+
+    expect(element).toEqual({
+      type: 'FRAME',
+      name: 'Submit',
+      layoutMode: 'HORIZONTAL',
+      children: [{ type: 'TEXT', name: 'Label', characters: 'Sign in' }],
+      primaryAxisAlignItems: 'CENTER',
+      counterAxisAlignItems: 'CENTER',
+      primaryAxisSizingMode: 'HUG',
+      counterAxisSizingMode: 'HUG',
+      fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 } }],
+    })
+    expect(rewrites).toEqual([
+      'children[0].type: "button" -> "FRAME"',
+      'children[0].text: moved into a TEXT child',
+      'children[0].backgroundColor: moved to fills',
+      'children[0].fills: wrapped in a list',
+      'children[0].fills[0]: "#000" -> SOLID paint',
+    ])
+  })
+
+  it('moves STRETCH alignment to the children that set none', () => {
+    const { design, rewrites } = normalizeDesign({
+      name: 'Screen',
+      layoutMode: 'VERTICAL',
+      counterAxisAlignItems: 'STRETCH',
+      children: [{ type: 'TEXT', name: 'Title', characters: 'Hi' }, { type: 'FRAME', name: 'Badge', layoutAlign: 'CENTER' }],
+    } as unknown as FrameNode)
+
+    expect(design.counterAxisAlignItems).toBe('MIN')
+    expect(design.children!.map(child => child.layoutAlign)).toEqual(['STRETCH', 'CENTER'])
+    expect(rewrites).toEqual(['counterAxisAlignItems: "STRETCH" -> "MIN", children set to layoutAlign "STRETCH"'])
+  })
+
+  it('maps other element types and fills in missing ones', () => {
+    const { design, rewrites } = normalizeDesign({
+      name: 'Screen',
+      children: [{ type: 'WIDGET', name: 'Widget' }, 'Plain text', { name: 'Caption', characters: 'hi' }, { type: 'img', name: 'Photo' }],
+    } as unknown as FrameNode)
+
+    expect(design.children!.map(child => child.type)).toEqual(['RECTANGLE', 'TEXT', 'TEXT', 'RECTANGLE'])
+    expect(design.children![1]).toEqual({ type: 'TEXT', name: 'Plain text', characters: 'Plain text' })
+    expect(rewrites).toContain('children[1]: string -> TEXT element')
+    expect(rewrites).toContain('children[2].type: missing -> "TEXT"')
+  })
+
+  it('replaces external image URLs with a placeholder', () => {
+    const { element, rewrites } = normalizeChild({ type: 'RECTANGLE', name: 'Photo', fills: [{ type: 'IMAGE', url: 'https://example.com/a.png', scaleMode: 'cover' }] })
+
+    expect(element.fills).toEqual([{ type: 'IMAGE', scaleMode: 'FILL', image: 'placeholder:photo' }])
+    expect(rewrites).toContain('children[0].fills[0].url: external images aren\'t loaded, "https://example.com/a.png" -> "placeholder:photo"')
+  })
+
+  it('moves icon names and path data to their keys', () => {
+    expect(normalizeChild({ type: 'ICON', name: 'Search', icon: 'search', size: '24' }).element)
+      .toEqual({ type: 'ICON', name: 'Search', size: 24, iconName: 'search' })
+    expect(normalizeChild({ type: 'VECTOR', name: 'Check', d: 'M0 0L1 1' }).element)
+      .toEqual({ type: 'VECTOR', name: 'Check', vectorPaths: [{ data: 'M0 0L1 1' }] })
+  })
+})
+
+describe('normalizeElement', () => {
+  it('names an unnamed element after its type', () => {
+    expect(normalizeElement({ type: 'rectangle' }).element?.name).toBe('Rectangle')
+    expect(normalizeElement({ type: 'ELLIPSE' }).element?.name).toBe('Ellipse')
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { formatValidationIssue, joinPath, validateDesign } from '../src/shared/utils/designValidation'
+
+function messages(design: unknown): string[] {
+  return validateDesign(design).map(formatValidationIssue)
+}
+
+describe('validateDesign', () => {
+  it('accepts a valid design, unknown properties included', () => {
+    expect(validateDesign({
+      name: 'Login',
+      width: 390,
+      layoutMode: 'VERTICAL',
+      padding: { top: 24, right: 16, bottom: 24, left: 16 },
+      fills: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }],
+      children: [
+        { type: 'TEXT', name: 'Title', characters: 'Welcome', fontSize: 24, note: 'ignored' },
+        {
+          type: 'FRAME',
+          name: 'Button',
+          fills: [{ type: 'GRADIENT_LINEAR', angle: 90, gradientStops: [{ position: 0, color: { r: 0, g: 0, b: 1, a: 0.5 } }] }],
+          effects: [{ type: 'DROP_SHADOW', offset: { x: 0, y: 2 }, radius: 4 }],
+          children: [{ type: 'ICON', name: 'Arrow', iconName: 'arrow-right', size: 16 }],
+        },
+      ],
+    })).toEqual([])
+  })
+
+  it('reports values out of range with their path', () => {
+    expect(messages({
+      name: 'Card',
+      children: [{ type: 'RECTANGLE', name: 'Bg', fills: [{ type: 'SOLID', color: { r: 2, g: 0, b: 0 }, opacity: -1 }] }],
+    })).toEqual([
+      'children[0].fills[0].color.r: expected 0..1, got 2',
+      'children[0].fills[0].opacity: expected 0..1, got -1',
+    ])
+  })
+
+  it('reports wrong types, enum values and missing properties', () => {
+    expect(messages({
+      name: 'Card',
+      width: '390px',
+      layoutMode: 'ROW',
+      children: [
+        { type: 'BUTTON', name: 'Submit' },
+        { type: 'TEXT' },
+        { type: 'FRAME', name: 'Row', padding: { top: 8 } },
+      ],
+    })).toEqual([
+      'width: expected number, got string',
+      'layoutMode: expected one of NONE, HORIZONTAL, VERTICAL, got "ROW"',
+      'children[0].type: expected one of FRAME, TEXT, RECTANGLE, ELLIPSE, INSTANCE, VECTOR, LINE, ICON, got "BUTTON"',
+      'children[1].name: required property is missing',
+      'children[2].padding.right: required property is missing',
+      'children[2].padding.bottom: required property is missing',
+      'children[2].padding.left: required property is missing',
+    ])
+  })
+
+  it('reports nested children and a root that is no object', () => {
+    expect(messages({
+      name: 'Page',
+      children: [{ type: 'FRAME', name: 'Section', children: [{ type: 'ICON', name: 'Icon', size: 0 }] }],
+    })).toEqual(['children[0].children[0].size: expected >= 1, got 0'])
+    expect(messages([])).toEqual(['(root): expected object, got array'])
+    expect(messages({ name: 'Empty' })).toEqual(['children: required property is missing'])
+  })
+})
+
+describe('joinPath', () => {
+  it('joins keys with dots and indexes with brackets', () => {
+    expect(joinPath(joinPath(joinPath('', 'children'), 0), 'fills')).toBe('children[0].fills')
+  })
+})
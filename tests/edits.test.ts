@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import type { FrameNode } from '../src/shared/types'
+import { VIEWPORT_PRESETS } from '../src/shared/types'
+import { generateDesignPatch, parseOperations } from '../src/ui/api/edits'
+import { BUILT_IN_PROVIDERS } from '../src/ui/api/providers'
+
+describe('parseOperations', () => {
+  it('reads an operations object after prose', () => {
+    const text = 'Here is the patch: {"operations": [{"op": "remove", "path": "/children/0"}]} Done - see [above].'
+    expect(parseOperations(text)).toEqual([{ op: 'remove', path: '/children/0' }])
+  })
+
+  it('reads a bare array with model slips', () => {
+    const text = `[
+      // rename the header
+      {op: 'replace', path: '/name', value: 'Header',},
+      {"op": "remove", "path": "/children/1"}
+    ]`
+    expect(parseOperations(text)).toEqual([
+      { op: 'replace', path: '/name', value: 'Header' },
+      { op: 'remove', path: '/children/1' },
+    ])
+  })
+
+  it('drops a truncated last operation and malformed ones', () => {
+    const text = '{"operations": [{"op": "remove", "path": "/a"}, {"op": "explode", "path": "/b"}, {"op": "add", "path": "/children/-", "value": {"type": "TE'
+    expect(parseOperations(text)).toEqual([{ op: 'remove', path: '/a' }])
+  })
+
+  it('throws when there are no operations', () => {
+    expect(() => parseOperations('Nothing to change.')).toThrow('did not contain any edit operations')
+    expect(() => parseOperations('{"changes": []}')).toThrow('did not contain any edit operations')
+  })
+})
+
+// A Claude stream that answers with `text` as tool input
+function stream(text: string, stopReason: string): Response {
+  const events = [
+    { type: 'message_start', message: { usage: { input_tokens: 10, output_tokens: 1 } } },
+    { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: text } },
+    { type: 'message_delta', delta: { stop_reason: stopReason }, usage: { output_tokens: 20 } },
+  ]
+  return new Response(events.map(event => `data: ${JSON.stringify(event)}\n\n`).join(''), { status: 200 })
+}
+
+describe('generateDesignPatch', () => {
+  it('continues operations cut off at max_tokens', async () => {
+    const replies = [
+      stream('{"operations": [{"op": "replace", "path": "/name", "value": "Sign', 'max_tokens'),
+      stream(' in"}]}', 'end_turn'),
+    ]
+    const bodies: any[] = []
+    const rounds: number[] = []
+
+    const patch = await generateDesignPatch({
+      provider: BUILT_IN_PROVIDERS[0],
+      apiKey: 'key',
+      params: { model: 'claude-sonnet-4-20250514', maxTokens: 1024 },
+      prompt: 'Rename the screen',
+      viewport: VIEWPORT_PRESETS.mobile,
+      designSystem: null,
+      contextInstructions: '',
+      existingDesign: { type: 'FRAME', name: 'Login', id: '1:1', children: [] } as unknown as FrameNode,
+      onContinuation: round => rounds.push(round),
+      transport: async (_url, init) => {
+        bodies.push(JSON.parse(String(init.body)))
+        return replies.shift()!
+      },
+    })
+
+    expect(rounds).toEqual([1])
+    expect(bodies[0].tool_choice).toEqual({ type: 'tool', name: 'edit_design' })
+    expect(bodies[1].messages.at(-1)).toEqual({
+      role: 'assistant',
+      content: '{"operations": [{"op": "replace", "path": "/name", "value": "Sign',
+    })
+    expect(patch.operations).toEqual([{ op: 'replace', path: '/name', value: 'Sign in' }])
+    expect(patch.design.name).toBe('Sign in')
+  })
+})
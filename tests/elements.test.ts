@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { renderElement } from '../src/plugin/renderer/elements'
+import { startReport, takeReport } from '../src/plugin/renderer/report'
+
+// Figma nodes as plain objects; created nodes start out on the page, as in Figma
+interface FakeNode {
+  id: string
+  name?: string
+  width?: number
+  height?: number
+  removed?: boolean
+  [key: string]: unknown
+}
+
+let page: { children: FakeNode[] }
+let nextId = 1
+
+function createNode(): FakeNode {
+  const node: FakeNode = {
+    id: `5:${nextId++}`,
+    resize: (width: number, height: number) => Object.assign(node, { width, height }),
+    appendChild: vi.fn(),
+    remove: () => {
+      node.removed = true
+      page.children.splice(page.children.indexOf(node), 1)
+    },
+  }
+  page.children.push(node)
+  return node
+}
+
+beforeEach(() => {
+  page = { children: [] }
+  vi.stubGlobal('figma', {
+    currentPage: page,
+    createFrame: createNode,
+    createVector: createNode,
+    loadFontAsync: async () => {
+      throw new Error('No fonts in tests')
+    },
+  })
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  startReport()
+})
+
+describe('renderElement', () => {
+  it('stands a placeholder in for an element that fails and reports it', async () => {
+    const element = { type: 'VECTOR' as const, name: 'Chart', width: 120, layoutAlign: 'STRETCH' as const }
+
+    const node = await renderElement(element, null) as unknown as FakeNode
+
+    expect(node).toMatchObject({
+      name: 'Failed: Chart (VECTOR needs svg or vectorPaths)',
+      width: 120,
+      height: 56,
+      layoutAlign: 'STRETCH',
+      dashPattern: [6, 4],
+    })
+    expect(takeReport().failures).toEqual([
+      { path: 'Chart', message: 'VECTOR needs svg or vectorPaths', nodeId: node.id, element },
+    ])
+  })
+
+  it('removes what the failed element had created so far', async () => {
+    const node = await renderElement({ type: 'VECTOR', name: 'Icon', vectorPaths: [{ data: 'M 0' }] }, null) as unknown as FakeNode
+
+    expect(page.children).toEqual([node])
+    expect(node.name).toMatch(/^Failed: Icon \(Invalid path data at 3/)
+  })
+
+  it('shortens long error messages in the layer name', async () => {
+    vi.spyOn(figma, 'createVector').mockImplementation(() => {
+      throw new Error('x'.repeat(200))
+    })
+    const node = await renderElement({ type: 'VECTOR', name: 'Line', vectorPaths: [{ data: 'M 0 0 L 1 1' }] }, null) as unknown as FakeNode
+
+    expect(node.name).toBe(`Failed: Line (${'x'.repeat(80)}...)`)
+  })
+})
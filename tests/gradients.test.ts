@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import type { Fill, GradientTransform, GradientType } from '../src/shared/types'
+import { describeGradientTransform, gradientTransformFor } from '../src/shared/utils/gradients'
+
+function expectTransform(actual: GradientTransform, expected: GradientTransform): void {
+  actual.forEach((row, i) => row.forEach((value, j) => expect(value).toBeCloseTo(expected[i][j], 6)))
+}
+
+// Position along a transform's gradient of a point on the layer (fractions of its size)
+function gradientPosition([[a, b, c]]: GradientTransform, x: number, y: number): number {
+  return a * x + b * y + c
+}
+
+describe('gradientTransformFor', () => {
+  it('places the CSS directions on a square layer', () => {
+    expectTransform(gradientTransformFor({ type: 'GRADIENT_LINEAR', angle: 90 }, 100, 100), [[1, 0, 0], [0, 1, 0]])
+    expectTransform(gradientTransformFor({ type: 'GRADIENT_LINEAR' }, 100, 100), [[0, 1, 0], [-1, 0, 1]])
+  })
+
+  it('runs a linear gradient corner to corner on a wide layer, as in CSS', () => {
+    const transform = gradientTransformFor({ type: 'GRADIENT_LINEAR', angle: 45 }, 300, 60)
+    expect(gradientPosition(transform, 0, 1)).toBeCloseTo(0, 6)
+    expect(gradientPosition(transform, 1, 0)).toBeCloseTo(1, 6)
+    expect(gradientPosition(transform, 0.5, 0.5)).toBeCloseTo(0.5, 6)
+  })
+
+  it('uses an explicit transform as is', () => {
+    const transform: GradientTransform = [[0.5, 0, 0.25], [0, 1, 0]]
+    expect(gradientTransformFor({ type: 'GRADIENT_RADIAL', angle: 90, gradientTransform: transform }, 10, 10)).toBe(transform)
+  })
+})
+
+describe('describeGradientTransform', () => {
+  const cases: Array<[string, GradientType, Fill, number, number]> = [
+    ['a vertical linear gradient', 'GRADIENT_LINEAR', { type: 'GRADIENT_LINEAR', angle: 180 }, 100, 100],
+    ['a horizontal linear gradient', 'GRADIENT_LINEAR', { type: 'GRADIENT_LINEAR', angle: 90 }, 100, 100],
+    ['a diagonal linear gradient on a wide layer', 'GRADIENT_LINEAR', { type: 'GRADIENT_LINEAR', angle: 45 }, 300, 60],
+    ['an off-center linear gradient on a tall layer', 'GRADIENT_LINEAR', { type: 'GRADIENT_LINEAR', angle: 300, center: { x: 0.25, y: 0.6 } }, 80, 400],
+    ['a default radial gradient', 'GRADIENT_RADIAL', { type: 'GRADIENT_RADIAL' }, 100, 100],
+    ['a radial gradient with a center and radius', 'GRADIENT_RADIAL', { type: 'GRADIENT_RADIAL', center: { x: 0.25, y: 0.75 }, radius: 0.3 }, 100, 100],
+    ['a rotated angular gradient on a wide layer', 'GRADIENT_ANGULAR', { type: 'GRADIENT_ANGULAR', angle: 30, center: { x: 0.7, y: 0.2 } }, 320, 120],
+    ['a diamond gradient on a tall layer', 'GRADIENT_DIAMOND', { type: 'GRADIENT_DIAMOND', angle: 90, radius: 0.8 }, 60, 240],
+  ]
+
+  it.each(cases)('reads back %s', (_name, type, fill, width, height) => {
+    const { type: _type, ...placement } = fill
+    expect(describeGradientTransform(type, gradientTransformFor(fill, width, height), width, height)).toEqual(placement)
+  })
+
+  it('describes the same transform by the angle it shows on the layer', () => {
+    const transform = gradientTransformFor({ type: 'GRADIENT_LINEAR', angle: 45 }, 100, 100)
+    expect(describeGradientTransform('GRADIENT_LINEAR', transform, 100, 100)).toEqual({ angle: 45 })
+    expect(describeGradientTransform('GRADIENT_LINEAR', transform, 200, 100)).toEqual({ gradientTransform: expect.any(Array) })
+  })
+
+  it('keeps placements the angle, center and radius cannot express as the transform', () => {
+    const squashed: GradientTransform = [[2, 0, -0.5], [0, 1, 0]]
+    expect(describeGradientTransform('GRADIENT_RADIAL', squashed, 100, 100)).toEqual({ gradientTransform: squashed })
+    const flat: GradientTransform = [[1, 0, 0], [1, 0, 0]]
+    expect(describeGradientTransform('GRADIENT_LINEAR', flat, 100, 100)).toEqual({ gradientTransform: flat })
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import type { ElementNode, FrameNode } from '../src/shared/types'
+import type { ConversationTurn } from '../src/ui/api/history'
+import { buildHistoryMessages, estimateTokens } from '../src/ui/api/history'
+
+// A design whose JSON is roughly `size` characters long
+function design(name: string, size = 100): FrameNode {
+  const children: ElementNode[] = [{ type: 'TEXT', name: 'Body', characters: 'x'.repeat(size) }]
+  return { name, width: 390, height: 844, children }
+}
+
+function exchange(request: string, frame: FrameNode): ConversationTurn[] {
+  return [
+    { role: 'user', content: request },
+    { role: 'assistant', content: 'Rendered', design: frame },
+  ]
+}
+
+describe('buildHistoryMessages', () => {
+  it('sends designs as JSON and notes the render outcome on the next request', () => {
+    const first = design('Login')
+    const history = buildHistoryMessages([
+      ...exchange('Login screen', first),
+      { role: 'user', content: 'Darker header', hasImage: true },
+      { role: 'assistant', content: 'Rendered with 1 issue', design: design('Login v2') },
+    ])
+
+    expect(history.messages).toEqual([
+      { role: 'user', content: 'Login screen' },
+      { role: 'assistant', content: JSON.stringify(first) },
+      { role: 'user', content: '[Previous result: Rendered]\n\nDarker header\n[Reference image attached]' },
+      { role: 'assistant', content: JSON.stringify(design('Login v2')) },
+    ])
+    expect(history.lastOutcome).toBe('Rendered with 1 issue')
+  })
+
+  it('merges consecutive turns of the same role', () => {
+    const frame = design('Profile')
+    const history = buildHistoryMessages([
+      { role: 'user', content: 'Profile screen' },
+      { role: 'assistant', content: 'Stopped' },
+      { role: 'assistant', content: 'Rendered', design: frame },
+      { role: 'user', content: 'Add an avatar' },
+      { role: 'user', content: 'and a bio' },
+      { role: 'assistant', content: 'Stopped' },
+    ])
+
+    expect(history.messages).toEqual([
+      { role: 'user', content: 'Profile screen' },
+      { role: 'assistant', content: JSON.stringify(frame) },
+      { role: 'user', content: '[Previous result: Rendered]\n\nAdd an avatar\n\nand a bio' },
+      { role: 'assistant', content: '[No design produced: Stopped]' },
+    ])
+  })
+
+  it('starts on a user turn and ends on an assistant turn', () => {
+    const history = buildHistoryMessages([
+      { role: 'assistant', content: 'Welcome' },
+      ...exchange('Settings', design('Settings')),
+      { role: 'user', content: 'Unanswered' },
+    ])
+
+    expect(history.messages.map(message => message.role)).toEqual(['user', 'assistant'])
+    expect(history.messages[0].content).toBe('Settings')
+  })
+
+  it('summarizes older designs before dropping exchanges', () => {
+    const turns = [...exchange('Home', design('Home', 4000)), ...exchange('Cart', design('Cart', 400))]
+    const budget = estimateTokens(JSON.stringify(design('Cart', 400))) + 200
+
+    const history = buildHistoryMessages(turns, budget)
+
+    expect(history.messages).toHaveLength(4)
+    expect(history.messages[1].content).toBe('[Earlier design "Home" with 1 elements, JSON omitted. Top-level sections: Body.]')
+    expect(history.messages[3].content).toBe(JSON.stringify(design('Cart', 400)))
+  })
+
+  it('drops the oldest exchanges once summaries are not enough', () => {
+    const turns = [
+      ...exchange('Home '.repeat(200), design('Home')),
+      ...exchange('Cart', design('Cart')),
+    ]
+    const history = buildHistoryMessages(turns, estimateTokens(JSON.stringify(design('Cart'))) + 10)
+
+    expect(history.messages).toEqual([
+      { role: 'user', content: '[Previous result: Rendered]\n\nCart' },
+      { role: 'assistant', content: JSON.stringify(design('Cart')) },
+    ])
+  })
+
+  it('keeps the newest design whole even when it alone is over the budget', () => {
+    const latest = design('Dashboard', 60000)
+    const turns = [...exchange('Home', design('Home')), ...exchange('Dashboard', latest)]
+
+    const history = buildHistoryMessages(turns)
+
+    expect(history.messages).toEqual([
+      { role: 'user', content: '[Previous result: Rendered]\n\nDashboard' },
+      { role: 'assistant', content: JSON.stringify(latest) },
+    ])
+  })
+})
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest'
+import { matchIconName } from '../src/shared/utils/iconMatch'
+
+describe('matchIconName', () => {
+  it('finds names written differently and aliases', () => {
+    expect(matchIconName('ArrowLeft')).toEqual({ name: 'arrow-left', fuzzy: false })
+    expect(matchIconName('mdi-close')).toEqual({ name: 'x', fuzzy: false })
+  })
+
+  it('does not take object prototype names for icons', () => {
+    for (const name of ['constructor', 'toString', '__proto__', 'hasOwnProperty', 'valueOf']) {
+      const match = matchIconName(name)
+      expect(match?.fuzzy ?? true, name).toBe(true)
+    }
+    expect(matchIconName('constructor')).toBeNull()
+  })
+})
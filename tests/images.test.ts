@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Fill } from '../src/shared/types'
+
+vi.mock('../src/plugin/assets', () => ({
+  findImageAsset: vi.fn((name: string) => ({ hero: 'hash-hero', reference: 'hash-ref' })[name.toLowerCase()] ?? null),
+  findAssetName: vi.fn((hash: string) => ({ 'hash-hero': 'Hero', 'hash-ref': 'Reference' })[hash] ?? null),
+}))
+
+// The placeholder hashes are kept for the session, so every test gets a fresh module
+let images: typeof import('../src/plugin/renderer/images')
+let report: typeof import('../src/plugin/renderer/report')
+let serializer: typeof import('../src/plugin/serializer')
+// PNGs created, in order; an image's hash is its index
+let created: Uint8Array[]
+
+beforeEach(async () => {
+  created = []
+  vi.stubGlobal('figma', {
+    mixed: Symbol('mixed'),
+    createImage: (bytes: Uint8Array) => ({ hash: `png-${created.push(bytes) - 1}` }),
+    getImageByHash: (hash: string) => (hash === 'hash-file' ? {} : null),
+  })
+  vi.resetModules()
+  images = await import('../src/plugin/renderer/images')
+  report = await import('../src/plugin/renderer/report')
+  serializer = await import('../src/plugin/serializer')
+  report.startReport()
+})
+
+function imageHash(image: string): string {
+  return images.convertImageFill({ type: 'IMAGE', image }).imageHash!
+}
+
+describe('convertImageFill', () => {
+  it('resolves assets, the reference image and images already in the file', () => {
+    expect(imageHash('asset: Hero')).toBe('hash-hero')
+    expect(imageHash('hero')).toBe('hash-hero')
+    expect(imageHash('reference')).toBe('hash-ref')
+    expect(imageHash('hash:hash-file')).toBe('hash-file')
+    expect(report.takeReport().issues).toEqual([])
+  })
+
+  it('creates each placeholder once and reuses it', () => {
+    expect(imageHash('placeholder:avatar')).toBe('png-0')
+    expect(imageHash('placeholder: Avatar')).toBe('png-0')
+    expect(imageHash('placeholder:photo')).toBe('png-1')
+    expect(created).toHaveLength(2)
+  })
+
+  it('reports a missing image and shows the photo placeholder instead', () => {
+    expect(imageHash('asset:Missing')).toBe('png-0')
+    expect(imageHash('placeholder:sunset')).toBe('png-0')
+    expect(imageHash('hash:gone')).toBe('png-0')
+    expect(images.convertImageFill({ type: 'IMAGE' }).imageHash).toBe('png-0')
+    expect(report.takeReport().issues.map(issue => [issue.requested, issue.substitution])).toEqual([
+      ['asset:Missing', 'placeholder:photo'],
+      ['placeholder:sunset', 'placeholder:photo'],
+      ['hash:gone', 'placeholder:photo'],
+    ])
+  })
+
+  it('encodes the placeholders as PNGs', () => {
+    imageHash('placeholder:pattern')
+    const png = created[0]
+    expect([...png.subarray(0, 8)]).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+    const header = new DataView(png.buffer, png.byteOffset + 8)
+    expect(header.getUint32(0)).toBe(13)
+    expect(String.fromCharCode(...png.subarray(12, 16))).toBe('IHDR')
+    expect([header.getUint32(8), header.getUint32(12)]).toEqual([128, 128])
+    expect(String.fromCharCode(...png.subarray(png.length - 8, png.length - 4))).toBe('IEND')
+  })
+
+  it('keeps the scale mode and opacity, and turns a crop into the image transform', () => {
+    const fill: Fill = { type: 'IMAGE', image: 'hero', scaleMode: 'CROP', opacity: 0.5, crop: { x: 0.1, y: 0.2, width: 0.5, height: 0.25 } }
+    expect(images.convertImageFill(fill)).toEqual({
+      type: 'IMAGE',
+      imageHash: 'hash-hero',
+      scaleMode: 'CROP',
+      opacity: 0.5,
+      imageTransform: [[0.5, 0, 0.1], [0, 0.25, 0.2]],
+    })
+    expect(images.convertImageFill({ ...fill, scaleMode: 'FIT' })).not.toHaveProperty('imageTransform')
+  })
+})
+
+describe('describeImage', () => {
+  it('names assets, refers to the reference image by hash and to unknown images by hash', () => {
+    expect(images.describeImage('hash-hero')).toBe('asset:Hero')
+    expect(images.describeImage('hash-ref')).toBe('hash:hash-ref')
+    expect(images.describeImage('hash-file')).toBe('hash:hash-file')
+  })
+
+  it('recognizes only the placeholders created in this session, without creating any', () => {
+    expect(images.describeImage('png-0')).toBe('hash:png-0')
+    imageHash('placeholder:product')
+    expect(images.describeImage('png-0')).toBe('placeholder:product')
+    expect(created).toHaveLength(1)
+  })
+})
+
+describe('serializing image fills', () => {
+  it('writes back the image reference each fill was rendered from', () => {
+    const fills = ['asset:Hero', 'placeholder:avatar', 'hash:hash-file'].map(image => images.convertImageFill({ type: 'IMAGE', image }))
+    fills.push(images.convertImageFill({ type: 'IMAGE', image: 'hero', scaleMode: 'CROP', crop: { x: 0, y: 0.5, width: 1, height: 0.5 } }))
+    const frame = {
+      id: '1:1', name: 'Card', width: 200, height: 100, layoutMode: 'NONE',
+      fills, strokes: [], effects: [], children: [],
+    } as unknown as FrameNode
+
+    expect(serializer.serializeFrameNode(frame).fills).toEqual([
+      { type: 'IMAGE', image: 'asset:Hero', scaleMode: 'FILL' },
+      { type: 'IMAGE', image: 'placeholder:avatar', scaleMode: 'FILL' },
+      { type: 'IMAGE', image: 'hash:hash-file', scaleMode: 'FILL' },
+      { type: 'IMAGE', image: 'asset:Hero', scaleMode: 'CROP', crop: { x: 0, y: 0.5, width: 1, height: 0.5 } },
+    ])
+  })
+})
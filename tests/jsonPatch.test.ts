@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { applyPatch, parsePointer } from '../src/shared/utils/jsonPatch'
+
+describe('parsePointer', () => {
+  it('unescapes ~1 before ~0', () => {
+    expect(parsePointer('/a~1b/c~0d/~01')).toEqual(['a/b', 'c~d', '~1'])
+  })
+})
+
+describe('applyPatch', () => {
+  it('appends with the "-" index', () => {
+    const result = applyPatch({ children: [1, 2] }, [{ op: 'add', path: '/children/-', value: 3 }])
+    expect(result.children).toEqual([1, 2, 3])
+  })
+
+  it('inserts at an index, shifting the rest', () => {
+    const result = applyPatch({ children: ['a', 'c'] }, [{ op: 'add', path: '/children/1', value: 'b' }])
+    expect(result.children).toEqual(['a', 'b', 'c'])
+  })
+
+  it('addresses keys with escaped "/" and "~"', () => {
+    const result = applyPatch({ 'a/b': 1, 'c~d': 2 }, [
+      { op: 'replace', path: '/a~1b', value: 10 },
+      { op: 'remove', path: '/c~0d' },
+    ])
+    expect(result).toEqual({ 'a/b': 10 })
+  })
+
+  it('fails a test operation whose value differs', () => {
+    expect(() => applyPatch({ name: 'Header' }, [
+      { op: 'test', path: '/name', value: 'Footer' },
+      { op: 'replace', path: '/name', value: 'Changed' },
+    ])).toThrow('Patch operation 1 (test /name) failed: Test failed at /name')
+  })
+
+  it('passes a test operation by deep equality', () => {
+    const document = { color: { r: 1, g: 0, b: 0 } }
+    expect(applyPatch(document, [{ op: 'test', path: '/color', value: { b: 0, g: 0, r: 1 } }])).toEqual(document)
+  })
+
+  it('rejects replacing a path that does not exist', () => {
+    expect(() => applyPatch({ children: [] }, [{ op: 'replace', path: '/children/0', value: 1 }])).toThrow(/failed/)
+  })
+
+  it('rejects moving an element into its own child', () => {
+    const document = { children: [{ children: [] }] }
+    expect(() => applyPatch(document, [{ op: 'move', from: '/children/0', path: '/children/0/children/0' }]))
+      .toThrow('into its own child')
+  })
+
+  it('moves and copies values', () => {
+    const result = applyPatch({ children: ['a', 'b', 'c'], copy: null as unknown }, [
+      { op: 'move', from: '/children/0', path: '/children/-' },
+      { op: 'copy', from: '/children/0', path: '/copy' },
+    ])
+    expect(result).toEqual({ children: ['b', 'c', 'a'], copy: 'b' })
+  })
+
+  it('leaves the input untouched, also when an operation fails', () => {
+    const document = { children: [{ name: 'A' }] }
+    applyPatch(document, [{ op: 'replace', path: '/children/0/name', value: 'B' }])
+    expect(() => applyPatch(document, [
+      { op: 'remove', path: '/children/0' },
+      { op: 'remove', path: '/missing' },
+    ])).toThrow('Patch operation 2')
+    expect(document).toEqual({ children: [{ name: 'A' }] })
+  })
+})
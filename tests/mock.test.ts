@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest'
+import type { PluginSettings, TokenUsage } from '../src/shared/types'
+import { DEFAULT_MOCK_SETTINGS, VIEWPORT_PRESETS } from '../src/shared/types'
+import { MOCK_CONFIG } from '../src/shared/constants'
+import { generateDesign } from '../src/ui/api'
+import { critiqueDesign } from '../src/ui/api/review'
+import { getGenerationParams } from '../src/ui/api/providers'
+import { createCritiqueReplayTransport, createMockProvider, createReplayTransport, getMockFixtureIds } from '../src/ui/api/mock'
+
+// The mock provider shaped after one fixture, as the settings would select it
+function mockSetup(fixtureId: string) {
+  const settings = {
+    mock: { ...DEFAULT_MOCK_SETTINGS, enabled: true },
+    generationParams: { [MOCK_CONFIG.PROVIDER_ID]: { model: fixtureId } },
+  } as unknown as PluginSettings
+  const provider = createMockProvider(settings)
+  return { provider, params: getGenerationParams(settings, provider) }
+}
+
+async function replayGeneration(fixtureId: string, chunkSize: number) {
+  const { provider, params } = mockSetup(fixtureId)
+  const progress: string[] = []
+  const usage: TokenUsage[] = []
+  let continuations = 0
+  const design = await generateDesign({
+    prompt: 'A login screen',
+    provider,
+    apiKey: '',
+    params,
+    viewport: VIEWPORT_PRESETS.mobile,
+    designSystem: null,
+    contextInstructions: '',
+    transport: createReplayTransport(fixtureId, { chunkSize, delayMs: 0 }),
+    onProgress: text => progress.push(text),
+    onContinuation: () => continuations++,
+    onUsage: report => usage.push(report),
+  })
+  return { design, progress, usage, continuations }
+}
+
+describe('bundled fixtures', () => {
+  it('are listed as the mock models', () => {
+    expect(getMockFixtureIds()).toEqual(['claude-login', 'claude-login-truncated', 'openai-login'])
+  })
+
+  it('pick the stream format from the transcript', () => {
+    expect(mockSetup('claude-login').provider.streamFormat).toBe('anthropic')
+    expect(mockSetup('openai-login').provider.streamFormat).toBe('openai')
+  })
+
+  for (const fixtureId of ['claude-login', 'openai-login']) {
+    it(`${fixtureId} replays to the same design at any chunk size`, async () => {
+      const whole = await replayGeneration(fixtureId, 1 << 20)
+      const bytewise = await replayGeneration(fixtureId, 1)
+      expect(whole.design.name).toBe('Login')
+      expect(whole.design.children?.length).toBeGreaterThan(0)
+      expect(bytewise.design).toEqual(whole.design)
+      expect(whole.usage).toHaveLength(1)
+      expect(whole.usage[0].inputTokens + whole.usage[0].cacheReadTokens).toBeGreaterThan(0)
+      expect(whole.usage[0].outputTokens).toBeGreaterThan(0)
+    })
+  }
+
+  it('claude-login-truncated is continued into the full design', async () => {
+    const truncated = await replayGeneration('claude-login-truncated', 97)
+    const complete = await replayGeneration('claude-login', 97)
+    expect(truncated.continuations).toBe(1)
+    expect(truncated.usage).toHaveLength(2)
+    expect(truncated.design).toEqual(complete.design)
+
+    // Progress only grows across the continuation
+    for (let i = 1; i < truncated.progress.length; i++) {
+      expect(truncated.progress[i].startsWith(truncated.progress[i - 1])).toBe(true)
+    }
+  })
+
+  it('fails with a 404 for an unknown fixture', async () => {
+    const response = await createReplayTransport('missing', { chunkSize: 64, delayMs: 0 })('mock://replay', {})
+    expect(response.status).toBe(404)
+  })
+})
+
+describe('critique fixtures', () => {
+  for (const fixtureId of ['claude-login', 'openai-login']) {
+    it(`${fixtureId} reviews fail with issues, then pass`, async () => {
+      const { provider, params } = mockSetup(fixtureId)
+      const transport = createCritiqueReplayTransport(fixtureId, { chunkSize: 16, delayMs: 0 })
+      const review = () => critiqueDesign({
+        provider,
+        apiKey: '',
+        params,
+        prompt: 'A login screen',
+        imageData: 'data:image/png;base64,iVBORw0KGgo=',
+        viewport: VIEWPORT_PRESETS.mobile,
+        transport,
+      })
+
+      const first = await review()
+      expect(first.verdict).toBe('fail')
+      expect(first.issues).toHaveLength(2)
+      expect(first.issues[0]).toMatch(/^Sign In Button/)
+
+      const second = await review()
+      expect(second.verdict).toBe('pass')
+      expect(second.issues).toEqual([])
+    })
+  }
+})
+
+describe('usage of failed requests', () => {
+  const sse = (...events: object[]) => events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('')
+
+  it('is reported when a stream errors after message_start', async () => {
+    const { provider, params } = mockSetup('claude-login')
+    const usage: TokenUsage[] = []
+    const body = sse(
+      { type: 'message_start', message: { usage: { input_tokens: 1200, output_tokens: 1 } } },
+      { type: 'content_block_delta', delta: { type: 'text_delta', text: '{"name":' } },
+      { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+    )
+    await expect(generateDesign({
+      prompt: 'A login screen',
+      provider,
+      apiKey: '',
+      params,
+      viewport: VIEWPORT_PRESETS.mobile,
+      designSystem: null,
+      contextInstructions: '',
+      transport: async () => new Response(body, { status: 200 }),
+      onUsage: report => usage.push(report),
+    })).rejects.toThrow()
+    expect(usage).toEqual([{ inputTokens: 1200, outputTokens: 1, cacheReadTokens: 0, cacheWriteTokens: 0 }])
+  })
+
+  it('is reported when a replay is stopped midway', async () => {
+    const { provider, params } = mockSetup('claude-login')
+    const usage: TokenUsage[] = []
+    const controller = new AbortController()
+    await expect(generateDesign({
+      prompt: 'A login screen',
+      provider,
+      apiKey: '',
+      params,
+      viewport: VIEWPORT_PRESETS.mobile,
+      designSystem: null,
+      contextInstructions: '',
+      signal: controller.signal,
+      transport: createReplayTransport('claude-login', { chunkSize: 512, delayMs: 1 }),
+      onProgress: text => { if (text.length > 200) controller.abort() },
+      onUsage: report => usage.push(report),
+    })).rejects.toThrow(/abort/i)
+    expect(usage).toHaveLength(1)
+    expect(usage[0].inputTokens).toBe(2431)
+  })
+})
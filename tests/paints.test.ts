@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { Fill } from '../src/shared/types'
+import { describeGradientTransform } from '../src/shared/utils/gradients'
+import { convertFillWithVariable, fitGradients } from '../src/plugin/renderer/paints'
+
+vi.stubGlobal('figma', { mixed: Symbol('mixed') })
+
+// A frame that auto-layout has not sized yet
+function createNode() {
+  return { width: 100, height: 100, removed: false, fills: [] as Paint[] }
+}
+
+describe('fitGradients', () => {
+  it('re-places a gradient on the size the node ended up with', async () => {
+    const node = createNode()
+    const fill: Fill = {
+      type: 'GRADIENT_LINEAR',
+      angle: 45,
+      gradientStops: [
+        { position: 0, color: { r: 1, g: 0, b: 0 } },
+        { position: 1, color: { r: 0, g: 0, b: 1 } },
+      ],
+    }
+    node.fills = [(await convertFillWithVariable(node as unknown as SceneNode, fill))!]
+
+    node.width = 300
+    node.height = 60
+    fitGradients()
+
+    const paint = node.fills[0] as GradientPaint
+    expect(describeGradientTransform(paint.type, paint.gradientTransform, 300, 60)).toEqual({ angle: 45 })
+  })
+
+  it('leaves explicit transforms and nodes that kept their size alone', async () => {
+    const explicit = createNode()
+    const transform: Transform = [[0.5, 0, 0.25], [0, 1, 0]]
+    explicit.fills = [(await convertFillWithVariable(explicit as unknown as SceneNode, {
+      type: 'GRADIENT_RADIAL',
+      gradientTransform: transform,
+      gradientStops: [{ position: 0, color: { r: 1, g: 1, b: 1 } }],
+    }))!]
+    const unchanged = createNode()
+    unchanged.fills = [(await convertFillWithVariable(unchanged as unknown as SceneNode, {
+      type: 'GRADIENT_LINEAR',
+      gradientStops: [{ position: 0, color: { r: 1, g: 1, b: 1 } }],
+    }))!]
+    const before = unchanged.fills
+
+    explicit.width = 300
+    fitGradients()
+
+    expect((explicit.fills[0] as GradientPaint).gradientTransform).toEqual(transform)
+    expect(unchanged.fills).toBe(before)
+  })
+})
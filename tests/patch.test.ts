@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { FrameNode as DesignFrame } from '../src/shared/types'
+import { applyDesignPatch } from '../src/plugin/renderer/patch'
+import { syncElement } from '../src/plugin/renderer/sync'
+
+// Node sync needs the Figma API; the tests check what the patch sends to it
+vi.mock('../src/plugin/renderer/styleCache', () => ({ initializeCaches: async () => {} }))
+vi.mock('../src/plugin/renderer/sync', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/plugin/renderer/sync')>(),
+  getSceneNode: vi.fn(async (id: string) => ({ id })),
+  syncElement: vi.fn(async () => {}),
+}))
+
+const root = { id: '1:1' } as FrameNode
+
+function design(): DesignFrame {
+  return {
+    type: 'FRAME',
+    name: 'Screen',
+    id: '1:1',
+    width: 390,
+    height: 844,
+    children: [
+      { type: 'TEXT', name: 'Title', id: '1:2', characters: 'Hello' },
+      {
+        type: 'FRAME',
+        name: 'Card',
+        id: '1:3',
+        children: [{ type: 'TEXT', name: 'Body', id: '1:4', characters: 'Text' }],
+      },
+    ],
+  } as DesignFrame
+}
+
+describe('applyDesignPatch', () => {
+  beforeEach(() => {
+    vi.mocked(syncElement).mockClear()
+  })
+
+  it('syncs the element owning a changed property', async () => {
+    const result = await applyDesignPatch(root, design(), [
+      { op: 'replace', path: '/children/0/characters', value: 'Hi' },
+    ], null)
+
+    expect(result).toMatchObject({ applied: 1, failures: [] })
+    expect(syncElement).toHaveBeenCalledTimes(1)
+    expect(vi.mocked(syncElement).mock.calls[0][0]).toEqual({ id: '1:2' })
+  })
+
+  it('reports and skips a failing operation, applying the ones after it', async () => {
+    const result = await applyDesignPatch(root, design(), [
+      { op: 'test', path: '/children/0/characters', value: 'Bye' },
+      { op: 'remove', path: '/children/5' },
+      { op: 'replace', path: '/name', value: 'Renamed' },
+    ], null)
+
+    expect(result.applied).toBe(1)
+    expect(result.failures).toEqual([
+      '#1 test /children/0/characters: Test failed at /children/0/characters',
+      '#2 remove /children/5: Array index 5 is out of bounds (length 2)',
+    ])
+    expect(result.design.name).toBe('Renamed')
+  })
+
+  it('gives copies new nodes by stripping the copied ids', async () => {
+    const result = await applyDesignPatch(root, design(), [
+      { op: 'copy', from: '/children/1', path: '/children/-' },
+    ], null)
+
+    const copy = result.design.children![2]
+    expect(copy.id).toBeUndefined()
+    expect(copy.children![0].id).toBeUndefined()
+    expect(result.design.children![1].id).toBe('1:3')
+  })
+
+  it('drops duplicate ids from elements added by value', async () => {
+    const result = await applyDesignPatch(root, design(), [
+      { op: 'add', path: '/children/-', value: { type: 'TEXT', name: 'Again', id: '1:2', characters: 'Hello' } },
+    ], null)
+
+    expect(result.design.children![0].id).toBe('1:2')
+    expect(result.design.children![2].id).toBeUndefined()
+  })
+
+  it('repairs a placeholder by replacing it with a new element', async () => {
+    const base = design()
+    base.children![1] = { type: 'FRAME', name: 'Failed: Card (Invalid path data)', id: '1:9', children: [] }
+    const card = { type: 'FRAME', name: 'Card', children: [{ type: 'TEXT', name: 'Body', characters: 'Text' }] } as const
+
+    const result = await applyDesignPatch(root, base, [{ op: 'replace', path: '/children/1', value: card }], null)
+
+    // The parent is synced: the element without an id is rendered, the placeholder is no longer live
+    const [node, before, after, context] = vi.mocked(syncElement).mock.calls[0]
+    expect(node).toEqual({ id: '1:1' })
+    expect(before.children![1].id).toBe('1:9')
+    expect(after.children![1]).toEqual(card)
+    expect(context.liveIds.has('1:9')).toBe(false)
+    expect(result).toMatchObject({ applied: 1, failures: [] })
+  })
+
+  it('keeps the root id when the patch replaces it', async () => {
+    const result = await applyDesignPatch(root, design(), [
+      { op: 'replace', path: '/id', value: '9:9' },
+    ], null)
+
+    expect(result.design.id).toBe('1:1')
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import type { RenderFailure } from '../src/shared/types'
+import { buildRepairPrompt, withVariantDirection } from '../src/ui/api/prompts'
+
+describe('withVariantDirection', () => {
+  it('labels each variant and keeps the request first', () => {
+    const prompts = [0, 1, 2].map(i => withVariantDirection('Pricing page', i, 3))
+
+    prompts.forEach(prompt => expect(prompt.startsWith('Pricing page\n\n')).toBe(true))
+    expect(prompts.map(prompt => /variant (\w+) of 3 alternative designs/.exec(prompt)?.[1])).toEqual(['A', 'B', 'C'])
+    expect(prompts[0]).toContain('most conventional')
+  })
+
+  it('gives each variant of a request its own direction', () => {
+    const directions = [0, 1, 2, 3].map(i => withVariantDirection('Feed', i, 4).split('alternative designs. ')[1])
+    expect(new Set(directions).size).toBe(4)
+    directions.forEach(direction => expect(direction).toMatch(/Keep the requested content and requirements\.\)$/))
+  })
+
+  it('numbers variants past the labels and cycles the directions', () => {
+    const fifth = withVariantDirection('Feed', 4, 5)
+    expect(fifth).toContain('variant 5 of 5')
+    expect(fifth.split('designs. ')[1]).toBe(withVariantDirection('Feed', 0, 5).split('designs. ')[1])
+  })
+})
+
+describe('buildRepairPrompt', () => {
+  const failures: RenderFailure[] = [
+    { path: 'Screen / Chart', message: 'Invalid path data at 4', nodeId: '3:7', element: { type: 'VECTOR', name: 'Chart', vectorPaths: [{ data: 'M 0 Q' }] } },
+    { path: 'Screen / Avatar', message: 'Image not found', nodeId: '3:9', element: { type: 'ELLIPSE', name: 'Avatar', width: 40, height: 40 } },
+  ]
+
+  it('lists each failure with its placeholder id and the element that failed', () => {
+    const prompt = buildRepairPrompt(failures)
+
+    expect(prompt).toContain('- Screen / Chart: Invalid path data at 4 (placeholder id "3:7")\n{"type":"VECTOR","name":"Chart","vectorPaths":[{"data":"M 0 Q"}]}')
+    expect(prompt).toContain('- Screen / Avatar: Image not found (placeholder id "3:9")\n{"type":"ELLIPSE","name":"Avatar","width":40,"height":40}')
+    expect(prompt).toContain('whose name starts with "Failed:"')
+  })
+
+  it('asks for one replace at each placeholder and nothing else', () => {
+    const prompt = buildRepairPrompt(failures)
+    expect(prompt).toMatch(/one "replace" operation at the placeholder's path, without an "id"/)
+    expect(prompt).toMatch(/Keep everything else the same\.$/)
+  })
+})
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { BUILT_IN_PROVIDERS, createCustomProvider, getGenerationParams, getNetworkAccessIssue } from '../src/ui/api/providers'
+import type { PluginSettings } from '../src/shared/types'
+
+describe('getNetworkAccessIssue', () => {
+  it('allows the built-in APIs', () => {
+    expect(getNetworkAccessIssue('https://api.openai.com/v1')).toBeNull()
+    expect(getNetworkAccessIssue('https://api.anthropic.com')).toBeNull()
+  })
+
+  it('flags development-only hosts', () => {
+    expect(getNetworkAccessIssue('http://localhost:11434/v1')).toMatch(/development/)
+  })
+
+  it('explains blocked hosts and bad URLs', () => {
+    expect(getNetworkAccessIssue('https://llm.example.com/v1')).toMatch(/https:\/\/llm\.example\.com is not in manifest\.json/)
+    expect(getNetworkAccessIssue('http://localhost:8080/v1')).toMatch(/not in manifest\.json/)
+    expect(getNetworkAccessIssue('localhost:11434')).not.toBeNull()
+    expect(getNetworkAccessIssue('not a url')).toBe('Not a valid URL')
+  })
+})
+
+describe('getGenerationParams', () => {
+  const [claude, openai] = BUILT_IN_PROVIDERS
+  const settingsWith = (temperature: number) => ({
+    generationParams: { claude: { temperature }, openai: { temperature } },
+  }) as unknown as PluginSettings
+
+  it('clamps the temperature into the provider range', () => {
+    expect(getGenerationParams(settingsWith(1.6), claude).temperature).toBe(1)
+    expect(getGenerationParams(settingsWith(1.6), openai).temperature).toBe(1.6)
+    expect(getGenerationParams(settingsWith(3), openai).temperature).toBe(2)
+  })
+
+  it('follows a custom endpoint to the Anthropic range', () => {
+    const custom = { ...createCustomProvider(), streamFormat: 'anthropic' as const }
+    const settings = { generationParams: { [custom.id]: { temperature: 1.6 } } } as unknown as PluginSettings
+    expect(getGenerationParams(settings, custom).temperature).toBe(1)
+  })
+})
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { ElementNode, FrameNode as DesignFrame } from '../src/shared/types'
+import { VIEWPORT_PRESETS } from '../src/shared/types'
+import { reconcileDesign } from '../src/plugin/renderer/reconcile'
+import { syncElement } from '../src/plugin/renderer/sync'
+import { serializeFrameNode } from '../src/plugin/serializer'
+
+// Reconciling needs the Figma API; the tests check which layers the new design is paired with
+vi.mock('../src/plugin/renderer/styleCache', () => ({ initializeCaches: async () => {} }))
+vi.mock('../src/plugin/renderer/paints', () => ({ fitGradients: vi.fn() }))
+vi.mock('../src/plugin/serializer', () => ({ serializeFrameNode: vi.fn() }))
+vi.mock('../src/plugin/renderer/sync', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/plugin/renderer/sync')>(),
+  syncElement: vi.fn(async () => {}),
+}))
+
+function frame(children: ElementNode[]): DesignFrame {
+  return { name: 'Screen', layoutMode: 'VERTICAL', children }
+}
+
+const current = frame([
+  { type: 'TEXT', name: 'Title', id: '1:2', characters: 'Hello' },
+  { type: 'FRAME', name: 'Card', id: '1:3', children: [{ type: 'TEXT', name: 'Body', id: '1:4', characters: 'One' }] },
+  { type: 'FRAME', name: 'Card', id: '1:5', children: [{ type: 'TEXT', name: 'Body', id: '1:6', characters: 'Two' }] },
+  { type: 'RECTANGLE', name: 'Badge', id: '1:7' },
+  { type: 'TEXT', name: 'Badge', id: '1:8', characters: 'New' },
+])
+
+// Reconcile `design` against the current layers; returns the design the sync was asked to reach
+async function reconcile(design: DesignFrame) {
+  const root = { id: '1:1', resize: vi.fn() } as unknown as FrameNode
+  await reconcileDesign(root, design, VIEWPORT_PRESETS.mobile, null)
+  const [, , after, context] = vi.mocked(syncElement).mock.calls[0]
+  return { root, after: after as DesignFrame, context }
+}
+
+// Ids of the design's elements, depth first
+function ids(element: DesignFrame | ElementNode): Array<string | undefined> {
+  return (element.children || []).flatMap(child => [child.id, ...ids(child)])
+}
+
+describe('reconcileDesign', () => {
+  beforeEach(() => {
+    vi.mocked(syncElement).mockClear()
+    vi.mocked(serializeFrameNode).mockReturnValue({ ...structuredClone(current), id: '1:1' })
+  })
+
+  it('pairs elements by name within their parent, repeated names one to one', async () => {
+    const { after, context } = await reconcile(frame([
+      { type: 'FRAME', name: 'Card', children: [{ type: 'TEXT', name: 'Body', characters: 'One' }] },
+      { type: 'TEXT', name: 'Title', characters: 'Welcome' },
+      { type: 'FRAME', name: 'Card', children: [{ type: 'TEXT', name: 'Body', characters: 'Two' }] },
+      { type: 'FRAME', name: 'Card', children: [] },
+    ]))
+
+    expect(after.id).toBe('1:1')
+    expect(ids(after)).toEqual(['1:3', '1:4', '1:2', '1:5', '1:6', undefined])
+    expect(context.liveIds).toEqual(new Set(['1:1', '1:3', '1:4', '1:2', '1:5', '1:6']))
+  })
+
+  it('prefers a layer of the same type among equal names', async () => {
+    const { after } = await reconcile(frame([{ type: 'TEXT', name: 'Badge', characters: 'Sale' }]))
+    expect(ids(after)).toEqual(['1:8'])
+  })
+
+  it('keeps ids the model kept, once each, and drops unknown ones', async () => {
+    const { after } = await reconcile(frame([
+      { type: 'TEXT', name: 'Renamed title', id: '1:2', characters: 'Hello' },
+      { type: 'TEXT', name: 'Copy', id: '1:2', characters: 'Hello' },
+      { type: 'TEXT', name: 'Made up', id: '9:9', characters: 'Hi' },
+      // Moved out of its card: the kept id wins over the name
+      { type: 'TEXT', name: 'Body', id: '1:6', characters: 'Two' },
+    ]))
+
+    expect(ids(after)).toEqual(['1:2', undefined, undefined, '1:6'])
+  })
+
+  it('gives the root the defaults of a fresh render and the viewport size', async () => {
+    const { root, after } = await reconcile({ name: 'Screen', children: [] })
+
+    expect(after).toMatchObject({ layoutMode: 'VERTICAL', primaryAxisAlignItems: 'MIN', counterAxisAlignItems: 'CENTER' })
+    expect(root.resize).toHaveBeenCalledWith(VIEWPORT_PRESETS.mobile.width, VIEWPORT_PRESETS.mobile.height)
+    expect(root).toMatchObject({ primaryAxisSizingMode: 'FIXED', counterAxisSizingMode: 'FIXED' })
+  })
+
+  it('leaves the design it was given untouched', async () => {
+    const design = frame([{ type: 'TEXT', name: 'Title', characters: 'Welcome' }])
+    await reconcile(design)
+    expect(design.children![0].id).toBeUndefined()
+  })
+})
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import type { ElementNode, RenderReport } from '../src/shared/types'
+import { reportFailure, reportIssue, startReport, takeReport, withLayer } from '../src/plugin/renderer/report'
+import { formatRenderFailure, formatRenderIssue, summarizeRenderReport } from '../src/shared/utils/renderReport'
+
+describe('render report collection', () => {
+  beforeEach(() => startReport())
+
+  it('records issues and failures with the path of nested layers', async () => {
+    const element: ElementNode = { type: 'TEXT', name: 'Title', characters: 'Hi' }
+    await withLayer('Screen', async () => {
+      reportIssue('font', 'Inter Display', 'Inter')
+      await withLayer('Header', async () => {
+        await withLayer('Title', async () => {
+          reportIssue('text-style', 'Heading/XL', 'raw font settings')
+          reportFailure('Font not available', '2:5', element)
+        })
+      })
+    })
+
+    expect(takeReport()).toEqual({
+      issues: [
+        { kind: 'font', path: 'Screen', requested: 'Inter Display', substitution: 'Inter' },
+        { kind: 'text-style', path: 'Screen / Header / Title', requested: 'Heading/XL', substitution: 'raw font settings' },
+      ],
+      failures: [{ path: 'Screen / Header / Title', message: 'Font not available', nodeId: '2:5', element }],
+    })
+  })
+
+  it('pops the layer when a task throws', async () => {
+    await expect(withLayer('Broken', async () => {
+      throw new Error('boom')
+    })).rejects.toThrow('boom')
+    reportIssue('icon', 'unicorn', 'circle')
+
+    expect(takeReport().issues[0].path).toBe('')
+  })
+
+  it('starts a new report once one is taken', () => {
+    reportIssue('image', 'asset:hero', 'placeholder')
+    expect(takeReport().issues).toHaveLength(1)
+    expect(takeReport()).toEqual({ issues: [], failures: [] })
+  })
+})
+
+describe('render report formatting', () => {
+  const report: RenderReport = {
+    issues: [
+      { kind: 'color-variable', path: 'Screen / Card', requested: 'Brand/Primary', substitution: 'raw color' },
+      { kind: 'color-variable', path: 'Screen / Button', requested: 'Brand/Primary', substitution: 'raw color' },
+      { kind: 'text-style', path: 'Screen / Title', requested: 'Brand/Primary', substitution: 'raw font settings' },
+      { kind: 'spacing-variable', path: 'Screen', requested: 'Spacing/4', substitution: '16' },
+      { kind: 'font', path: 'Screen / Title', requested: 'Inter Display', substitution: 'Inter' },
+      { kind: 'icon', path: '', requested: 'unicorn', substitution: 'circle' },
+      { kind: 'icon', path: '', requested: 'dragon', substitution: 'circle' },
+    ],
+    failures: [],
+  }
+
+  it('counts distinct requested values per group, in display order', () => {
+    expect(summarizeRenderReport(report)).toBe('3 tokens not found, 1 font substituted, 2 icons substituted')
+    expect(summarizeRenderReport({ issues: [], failures: [] })).toBe('')
+  })
+
+  it('formats one line per issue and failure', () => {
+    expect(formatRenderIssue(report.issues[0])).toBe('Screen / Card: Color variable "Brand/Primary" -> raw color')
+    expect(formatRenderIssue(report.issues[5])).toBe('(root): Icon "unicorn" -> circle')
+    expect(formatRenderFailure({ path: 'Screen / Chart', message: 'Invalid path data', nodeId: '3:1', element: { type: 'VECTOR', name: 'Chart' } }))
+      .toBe('Screen / Chart: Invalid path data')
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { VIEWPORT_PRESETS } from '../src/shared/types'
+import { critiqueDesign } from '../src/ui/api/review'
+import { BUILT_IN_PROVIDERS } from '../src/ui/api/providers'
+
+// A Claude stream that answers with `text`
+function reply(text: string) {
+  const events = [
+    { type: 'message_start', message: { usage: { input_tokens: 10, output_tokens: 1 } } },
+    { type: 'content_block_delta', delta: { type: 'text_delta', text } },
+    { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 20 } },
+  ]
+  const body = events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('')
+  return critiqueDesign({
+    provider: BUILT_IN_PROVIDERS[0],
+    apiKey: 'key',
+    params: { model: 'claude-sonnet-4-20250514', maxTokens: 1024 },
+    prompt: 'A login screen',
+    imageData: 'data:image/png;base64,iVBORw0KGgo=',
+    viewport: VIEWPORT_PRESETS.mobile,
+    transport: async () => new Response(body, { status: 200 }),
+  })
+}
+
+describe('critiqueDesign', () => {
+  it('reads issues as a failing verdict', async () => {
+    const critique = await reply('{"pass": false, "summary": "Clipped", "issues": ["Button: label is clipped"]}')
+    expect(critique).toEqual({ verdict: 'fail', summary: 'Clipped', issues: ['Button: label is clipped'] })
+  })
+
+  it('reads a pass, skipping prose with brackets around the JSON', async () => {
+    const critique = await reply('Here is my review: {"pass": true, "summary": "Looks good", "issues": []} (no {changes} needed)')
+    expect(critique.verdict).toBe('pass')
+    expect(critique.summary).toBe('Looks good')
+  })
+
+  it('reports an unreadable reply as no verdict, not a pass', async () => {
+    const critique = await reply('I cannot see the screenshot.')
+    expect(critique).toEqual({ verdict: 'none', summary: 'I cannot see the screenshot.', issues: [] })
+  })
+
+  it('reports a failing verdict without issues as no verdict', async () => {
+    expect((await reply('{"pass": false, "summary": "Something is off"}')).verdict).toBe('none')
+  })
+})
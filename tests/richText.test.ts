@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest'
+import { formatRichText, parseRichText } from '../src/shared/utils/richText'
+
+describe('parseRichText inline markup', () => {
+  it('reads bold and italic', () => {
+    expect(parseRichText('Save **20%** on *all* _plans_')).toEqual({
+      characters: 'Save 20% on all plans',
+      ranges: [
+        { start: 5, end: 8, fontWeight: 700 },
+        { start: 12, end: 15, italic: true },
+        { start: 16, end: 21, italic: true },
+      ],
+    })
+  })
+
+  it('nests emphasis', () => {
+    expect(parseRichText('***Both*** and **bold *italic***')).toEqual({
+      characters: 'Both and bold italic',
+      ranges: [
+        { start: 0, end: 4, fontWeight: 700, italic: true },
+        { start: 9, end: 14, fontWeight: 700 },
+        { start: 14, end: 20, fontWeight: 700, italic: true },
+      ],
+    })
+  })
+
+  it('reads links, attributes and both together', () => {
+    expect(parseRichText('Read the [terms](https://example.com/terms).')).toEqual({
+      characters: 'Read the terms.',
+      ranges: [{ start: 9, end: 14, href: 'https://example.com/terms' }],
+    })
+    expect(parseRichText('[Sale]{color: Text/Danger, weight: 600, size: 12, underline}')).toEqual({
+      characters: 'Sale',
+      ranges: [{ start: 0, end: 4, fills: [{ type: 'SOLID', colorVariable: 'Text/Danger' }], fontWeight: 600, fontSize: 12, textDecoration: 'UNDERLINE' }],
+    })
+    expect(parseRichText('Forgot? [**Reset**](https://example.com){color: #FF0000, style: Body/Strong}')).toEqual({
+      characters: 'Forgot? Reset',
+      ranges: [{
+        start: 8,
+        end: 13,
+        href: 'https://example.com',
+        fills: [{ type: 'SOLID', color: { r: 1, g: 0, b: 0 } }],
+        textStyleName: 'Body/Strong',
+        fontWeight: 700,
+      }],
+    })
+  })
+
+  it('keeps escaped and unmatched markup as text', () => {
+    expect(parseRichText('2*3*4, snake_case_name, \\*not italic\\*, [no link] and ** spaced**')).toEqual({
+      characters: '2*3*4, snake_case_name, *not italic*, [no link] and ** spaced**',
+      ranges: [],
+    })
+  })
+
+  it('counts offsets in the plain text across lines and list markers', () => {
+    expect(parseRichText('**Plans**\n- *Free*\n- [Pro](https://example.com/pro)')).toEqual({
+      characters: 'Plans\nFree\nPro',
+      ranges: [
+        { start: 0, end: 5, fontWeight: 700 },
+        { start: 6, end: 10, italic: true },
+        { start: 11, end: 14, href: 'https://example.com/pro' },
+        { start: 6, end: 14, list: 'BULLET' },
+      ],
+    })
+  })
+})
+
+describe('parseRichText lists', () => {
+  it('keeps a single list-like line as written', () => {
+    for (const label of ['- 20%', '* Required', '1. Choose a plan', 'Save\n- 20%']) {
+      expect(parseRichText(label)).toEqual({ characters: label, ranges: [] })
+    }
+  })
+
+  it('reads two or more consecutive items as a list', () => {
+    expect(parseRichText('Plans\n- Free\n- Pro')).toEqual({
+      characters: 'Plans\nFree\nPro',
+      ranges: [{ start: 6, end: 14, list: 'BULLET' }],
+    })
+    expect(parseRichText('1. Sign up\n2. **Pay**')).toEqual({
+      characters: 'Sign up\nPay',
+      ranges: [{ start: 8, end: 11, fontWeight: 700 }, { start: 0, end: 11, list: 'NUMBERED' }],
+    })
+  })
+
+  it('needs the items of a list to be of one kind', () => {
+    expect(parseRichText('- Free\n1. Pro')).toEqual({ characters: '- Free\n1. Pro', ranges: [] })
+  })
+})
+
+describe('formatRichText inline markup', () => {
+  it('writes styled ranges back as markup that reads back the same', () => {
+    const characters = 'Forgot? Reset it or read the terms'
+    const ranges = [
+      { start: 8, end: 13, fontWeight: 700, href: 'https://example.com' },
+      { start: 14, end: 16, italic: true },
+      { start: 29, end: 34, fills: [{ type: 'SOLID' as const, colorVariable: 'Text/Link' }], textDecoration: 'UNDERLINE' as const },
+    ]
+    const formatted = formatRichText(characters, ranges)
+
+    expect(formatted).toEqual({
+      characters: 'Forgot? [**Reset**](https://example.com) *it* or read the [terms]{decoration: underline, color: Text/Link}',
+      ranges: [],
+    })
+    expect(parseRichText(formatted.characters)).toEqual({ characters, ranges })
+  })
+
+  it('leaves fills markup cannot express as ranges', () => {
+    const gradient = [{ type: 'GRADIENT_LINEAR' as const, gradientStops: [] }]
+    expect(formatRichText('Big sale', [{ start: 0, end: 3, fontWeight: 700, fills: gradient }])).toEqual({
+      characters: '**Big** sale',
+      ranges: [{ start: 0, end: 3, fills: gradient }],
+    })
+  })
+})
+
+describe('formatRichText lists', () => {
+  it('leaves a one-item list as a range', () => {
+    const ranges = [{ start: 0, end: 4, list: 'BULLET' as const }]
+    expect(formatRichText('Free', ranges)).toEqual({ characters: 'Free', ranges })
+  })
+
+  it('writes longer lists as markup that reads back the same', () => {
+    const formatted = formatRichText('Free\nPro', [{ start: 0, end: 8, list: 'BULLET' }])
+    expect(formatted).toEqual({ characters: '- Free\n- Pro', ranges: [] })
+    expect(parseRichText(formatted.characters).ranges).toEqual([{ start: 0, end: 8, list: 'BULLET' }])
+  })
+
+  it('escapes plain lines that would be read as a list', () => {
+    const formatted = formatRichText('- Free\n- Pro', [{ start: 2, end: 6, fontWeight: 700 }])
+    expect(parseRichText(formatted.characters)).toEqual({
+      characters: '- Free\n- Pro',
+      ranges: [{ start: 2, end: 6, fontWeight: 700 }],
+    })
+  })
+})
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest'
+import { BUILT_IN_PROVIDERS } from '../src/ui/api/providers'
+import { classifyHttpError, classifyStreamError, isProviderError, parseRetryAfter } from '../src/ui/api/errors'
+import type { RequestContext, RetryInfo } from '../src/ui/api/sse'
+import { openStream, readSSE, withRetry } from '../src/ui/api/sse'
+
+const [claude] = BUILT_IN_PROVIDERS
+
+// A streaming response delivering the chunks as they are split
+function streamOf(chunks: string[]): Response {
+  const encoder = new TextEncoder()
+  return new Response(new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    },
+  }))
+}
+
+async function readEvents(chunks: string[]): Promise<Array<[unknown, string]>> {
+  const events: Array<[unknown, string]> = []
+  await readSSE(streamOf(chunks), (data, name) => events.push([data, name]))
+  return events
+}
+
+describe('readSSE', () => {
+  it('joins an event split across chunks, even inside a multi-byte character', async () => {
+    const bytes = 'event: delta\ndata: {"text":"é"}\n\n'
+    expect(await readEvents([bytes.slice(0, 9), bytes.slice(9, 27), bytes.slice(27)])).toEqual([[{ text: 'é' }, 'delta']])
+
+    const encoder = new TextEncoder()
+    const encoded = encoder.encode('data: {"text":"é"}\n\n')
+    const split = encoded.indexOf(0xc3) + 1
+    const events: unknown[] = []
+    await readSSE(new Response(new ReadableStream({
+      start(controller) {
+        controller.enqueue(encoded.slice(0, split))
+        controller.enqueue(encoded.slice(split))
+        controller.close()
+      },
+    })), data => events.push(data))
+    expect(events).toEqual([{ text: 'é' }])
+  })
+
+  it('joins a data field spread over several lines', async () => {
+    expect(await readEvents(['data: {"a":\r\ndata: 1,\r\n', 'data: "b": 2}\r\n\r\n'])).toEqual([[{ a: 1, b: 2 }, '']])
+  })
+
+  it('skips comments, [DONE] and non-JSON payloads and reads a final event without a blank line', async () => {
+    expect(await readEvents([': keep-alive\n\ndata: ping\n\ndata: {"n":1}\n\ndata: [DONE]\n\ndata: {"n":2}'])).toEqual([
+      [{ n: 1 }, ''],
+      [{ n: 2 }, ''],
+    ])
+  })
+
+  it('reads each data line on its own when the blank separators are missing', async () => {
+    expect(await readEvents(['data: {"n":1}\ndata: {"n":2}\n\n'])).toEqual([[{ n: 1 }, ''], [{ n: 2 }, '']])
+  })
+
+  it('lets errors thrown by the handler through', async () => {
+    await expect(readSSE(streamOf(['data: {}\n\n']), () => {
+      throw new Error('handler failed')
+    })).rejects.toThrow('handler failed')
+  })
+})
+
+// Responses in order, one per attempt; the last one repeats
+function contextFor(responses: Array<() => Response>, extra: Partial<RequestContext> = {}) {
+  const retries: RetryInfo[] = []
+  let attempts = 0
+  const context: RequestContext = {
+    provider: claude,
+    apiKey: 'key',
+    transport: async (_url, init) => {
+      if (init.signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError')
+      return responses[Math.min(attempts++, responses.length - 1)]()
+    },
+    onRetry: info => retries.push(info),
+    ...extra,
+  }
+  const run = () => withRetry(context, async () => {
+    const response = await openStream(context, 'https://api.example.com', { method: 'POST' })
+    return response.text()
+  }, () => false)
+  return { run, retries, attempts: () => attempts }
+}
+
+const failure = (status: number, body = '', retryAfterMs = '0') => () =>
+  new Response(body, { status, headers: { 'retry-after-ms': retryAfterMs } })
+const success = () => new Response('ok')
+
+describe('withRetry', () => {
+  it.each([429, 529, 500])('retries a %i and returns the later success', async status => {
+    const { run, retries, attempts } = contextFor([failure(status), failure(status), success])
+    expect(await run()).toBe('ok')
+    expect(attempts()).toBe(3)
+    expect(retries.map(retry => retry.attempt)).toEqual([1, 2])
+    expect(retries[0].error.status).toBe(status)
+  })
+
+  it.each([
+    [400, 'invalid_request'],
+    [401, 'auth'],
+    [403, 'auth'],
+  ])('does not retry a %i', async (status, kind) => {
+    const { run, retries, attempts } = contextFor([failure(status), success])
+    await expect(run()).rejects.toMatchObject({ name: 'ProviderError', kind, status })
+    expect(attempts()).toBe(1)
+    expect(retries).toEqual([])
+  })
+
+  it('gives up after the last retry', async () => {
+    const { run, attempts } = contextFor([failure(503)])
+    await expect(run()).rejects.toMatchObject({ kind: 'overloaded' })
+    expect(attempts()).toBe(4)
+  })
+
+  it('does not retry once output has reached the UI', async () => {
+    const context: RequestContext = { provider: claude, apiKey: 'key' }
+    let attempts = 0
+    await expect(withRetry(context, async () => {
+      attempts++
+      throw classifyHttpError(claude, 529, '', new Headers())
+    }, () => true)).rejects.toMatchObject({ kind: 'overloaded' })
+    expect(attempts).toBe(1)
+  })
+
+  it('stops when aborted while waiting to retry', async () => {
+    const controller = new AbortController()
+    const { run, attempts } = contextFor([failure(429, '', '5000'), success], {
+      signal: controller.signal,
+      onRetry: () => controller.abort(),
+    })
+    await expect(run()).rejects.toMatchObject({ name: 'AbortError' })
+    expect(attempts()).toBe(1)
+  })
+
+  it('does not retry an aborted request', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const { run, retries } = contextFor([success], { signal: controller.signal })
+    await expect(run()).rejects.toMatchObject({ name: 'AbortError' })
+    expect(retries).toEqual([])
+  })
+
+  it('treats a failed connection as a retryable network error', async () => {
+    let attempts = 0
+    const context: RequestContext = {
+      provider: claude,
+      apiKey: 'key',
+      transport: async () => {
+        if (attempts++ === 0) throw new TypeError('Failed to fetch')
+        return success()
+      },
+      onRetry: info => expect(info.error.kind).toBe('network'),
+    }
+    // Waits out the first backoff, about a second
+    const text = await withRetry(context, async () => (await openStream(context, 'https://api.example.com', {})).text(), () => false)
+    expect(text).toBe('ok')
+  })
+})
+
+describe('error classification', () => {
+  it('prefers the error type over the status', () => {
+    const body = JSON.stringify({ error: { type: 'invalid_request_error', message: 'prompt is too long: 250000 tokens' } })
+    expect(classifyHttpError(claude, 400, body, new Headers()).kind).toBe('context_length')
+    expect(classifyHttpError(claude, 429, JSON.stringify({ error: { code: 'insufficient_quota' } }), new Headers()).kind).toBe('auth')
+    expect(classifyHttpError(claude, 400, JSON.stringify({ error: { type: 'invalid_request_error', message: 'bad' } }), new Headers()))
+      .toMatchObject({ kind: 'invalid_request', detail: 'bad' })
+  })
+
+  it('classifies errors reported mid-stream', () => {
+    const error = classifyStreamError(claude, { type: 'overloaded_error', message: 'Overloaded' })
+    expect(isProviderError(error)).toBe(true)
+    expect(error.kind).toBe('overloaded')
+  })
+
+  it('reads retry-after in milliseconds, seconds or as a date', () => {
+    expect(parseRetryAfter(new Headers({ 'retry-after-ms': '250' }))).toBe(250)
+    expect(parseRetryAfter(new Headers({ 'retry-after': '2' }))).toBe(2000)
+    expect(parseRetryAfter(new Headers({ 'retry-after': new Date(Date.now() - 1000).toUTCString() }))).toBe(0)
+    expect(parseRetryAfter(new Headers())).toBeUndefined()
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { createDesignStreamParser } from '../src/shared/utils/streamingJson'
+import type { DesignStreamUpdate } from '../src/shared/utils/streamingJson'
+
+const header = { type: 'TEXT', name: 'Header', characters: 'Sign in' }
+const form = {
+  type: 'FRAME',
+  name: 'Form',
+  children: [{ type: 'TEXT', name: 'Label', characters: 'Email' }],
+}
+const button = { type: 'FRAME', name: 'Button', fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 1 } }] }
+const design = { name: 'Login', width: 390, layoutMode: 'VERTICAL', children: [header, form, button] }
+const text = JSON.stringify(design, null, 2)
+
+// Feed the text cut at these offsets; returns the update of each write
+function feed(cuts: number[]): DesignStreamUpdate[] {
+  const parser = createDesignStreamParser()
+  return [...cuts, text.length].map(cut => parser.write(text.slice(0, cut)))
+}
+
+describe('createDesignStreamParser', () => {
+  it('emits the root when children open and each top-level child once it is complete', () => {
+    const childrenOpen = text.indexOf('[') + 1
+    const headerEnd = text.indexOf('}', text.indexOf('"Header"')) + 1
+    const updates = feed([text.indexOf('"children"'), childrenOpen, headerEnd - 1, headerEnd])
+
+    expect(updates[0]).toEqual({ elements: [] })
+    expect(updates[1]).toEqual({ root: { name: 'Login', width: 390, layoutMode: 'VERTICAL' }, elements: [] })
+    expect(updates[2]).toEqual({ elements: [] })
+    expect(updates[3]).toEqual({ elements: [header] })
+    expect(updates[4]).toEqual({ elements: [form, button] })
+  })
+
+  it('waits for a child whose string or key is cut off', () => {
+    const inString = text.indexOf('Email') + 2
+    const inKey = text.indexOf('"fills"') + 3
+    const updates = feed([inString, inKey])
+
+    expect(updates[0].elements).toEqual([header])
+    expect(updates[1].elements).toEqual([form])
+    expect(updates[2].elements).toEqual([button])
+  })
+
+  it('emits every child exactly once when fed one character at a time', () => {
+    const parser = createDesignStreamParser()
+    const emitted: Array<{ name: string; at: number }> = []
+    let roots = 0
+    for (let end = 1; end <= text.length; end++) {
+      const update = parser.write(text.slice(0, end))
+      if (update.root) roots++
+      update.elements.forEach(element => emitted.push({ name: element.name, at: end }))
+    }
+
+    expect(roots).toBe(1)
+    expect(emitted.map(element => element.name)).toEqual(['Header', 'Form', 'Button'])
+    // Nested children are part of their section, not emitted on their own
+    expect(emitted.find(element => element.name === 'Form')!.at).toBe(text.lastIndexOf('}', text.indexOf('"Button"')) + 1)
+    expect(parser.emittedCount()).toBe(3)
+  })
+
+  it('names a root that has no name', () => {
+    const parser = createDesignStreamParser()
+    expect(parser.write('{"children": [').root).toEqual({ name: 'Generated Screen' })
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { normalizeSvgPath } from '../src/shared/utils/svgPath'
+
+describe('normalizeSvgPath', () => {
+  it.each([
+    ['absolute subset as is', 'M 0 0 L 10 0 Q 15 5 10 10 C 5 15 0 15 0 10 Z', 'M 0 0 L 10 0 Q 15 5 10 10 C 5 15 0 15 0 10 Z'],
+    ['relative commands', 'm 10 10 l 5 0 q 5 5 0 10 c -5 0 -5 -5 -5 -10 z', 'M 10 10 L 15 10 Q 20 15 15 20 C 10 20 10 15 10 10 Z'],
+    ['H and V as lines', 'M 2 3 H 10 V 8 h -4 v 2', 'M 2 3 L 10 3 L 10 8 L 6 8 L 6 10'],
+    ['a repeated move as lines', 'M 0 0 10 0 10 10 m 5 5 1 1', 'M 0 0 L 10 0 L 10 10 M 15 15 L 16 16'],
+    ['S reflecting the last cubic control point', 'M 0 0 C 0 10 10 10 10 0 S 20 -10 20 0', 'M 0 0 C 0 10 10 10 10 0 C 10 -10 20 -10 20 0'],
+    ['S without a cubic before it', 'M 0 0 L 5 0 s 5 5 10 0', 'M 0 0 L 5 0 C 5 0 10 5 15 0'],
+    ['T reflecting the last quadratic control point', 'M 0 0 Q 5 10 10 0 T 20 0', 'M 0 0 Q 5 10 10 0 Q 15 -10 20 0'],
+    ['T without a quadratic before it', 'M 0 0 T 10 0', 'M 0 0 Q 0 0 10 0'],
+    ['compact numbers', 'M.5.5L-1-1l1e1,2E0M1-.5.25-.5', 'M 0.5 0.5 L -1 -1 L 9 1 M 1 -0.5 L 0.25 -0.5'],
+    ['positions after a close at the subpath start', 'M 5 5 l 10 0 z l 0 10', 'M 5 5 L 15 5 Z L 5 15'],
+    ['rounded coordinates', 'M 0.12345 1.99999', 'M 0.123 2'],
+    ['an empty path', '  ', ''],
+  ])('rewrites %s', (_name, input, expected) => {
+    expect(normalizeSvgPath(input)).toBe(expected)
+  })
+
+  it.each([
+    ['a half circle, clockwise', 'M 0 0 A 10 10 0 0 1 20 0', 'M 0 0 C 0 -5.523 4.477 -10 10 -10 C 15.523 -10 20 -5.523 20 0'],
+    ['a half circle, counterclockwise', 'M 0 0 A 10 10 0 0 0 20 0', 'M 0 0 C 0 5.523 4.477 10 10 10 C 15.523 10 20 5.523 20 0'],
+    ['a quarter circle with relative end and packed flags', 'M 0 10 a10 10 0 0110-10', 'M 0 10 C 0 4.477 4.477 0 10 0'],
+    ['radii too small to reach the end point', 'M 0 0 A 1 1 0 0 1 20 0', 'M 0 0 C 0 -5.523 4.477 -10 10 -10 C 15.523 -10 20 -5.523 20 0'],
+    ['a zero radius as a line', 'M 0 0 A 0 5 0 0 1 10 10', 'M 0 0 L 10 10'],
+    ['an arc ending where it starts as nothing', 'M 5 5 A 5 5 0 1 1 5 5', 'M 5 5'],
+  ])('converts %s to cubics', (_name, input, expected) => {
+    expect(normalizeSvgPath(input)).toBe(expected)
+  })
+
+  it('splits a large arc into quarter segments that end on its end point', () => {
+    const result = normalizeSvgPath('M 10 0 A 10 10 0 1 1 0 -10')
+    expect(result.match(/C/g)).toHaveLength(3)
+    expect(result.endsWith(' 0 -10')).toBe(true)
+  })
+
+  it.each([
+    ['a number is missing', 'M 0', /expected a number after "M"/],
+    ['data does not start with a command', '10 10', /expected a command/],
+    ['an arc flag is invalid', 'M 0 0 A 5 5 0 2 1 10 10', /expected an arc flag/],
+    ['the path starts without a move', 'L 10 10', /must start with a move/],
+  ])('throws when %s', (_name, input, error) => {
+    expect(() => normalizeSvgPath(input)).toThrow(error)
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import type { JsonPath } from '../src/shared/utils/tolerantJson'
+import { createTolerantJsonParser, parseTolerantJson } from '../src/shared/utils/tolerantJson'
+
+interface Expected {
+  value: unknown
+  complete: boolean
+  /** Recovery messages in order, without offsets */
+  recoveries: string[]
+}
+
+// Broken model output (<case>.txt) and what the parser should make of it (<case>.expected.json)
+const inputs = import.meta.glob<string>('./fixtures/tolerant-json/*.txt', {
+  query: '?raw',
+  import: 'default',
+  eager: true,
+})
+const expectations = import.meta.glob<Expected>('./fixtures/tolerant-json/*.expected.json', {
+  import: 'default',
+  eager: true,
+})
+
+const corpus = Object.entries(inputs).map(([path, text]) => ({
+  name: path.replace(/^.*\/|\.txt$/g, ''),
+  text,
+  expected: expectations[path.replace(/\.txt$/, '.expected.json')],
+}))
+
+// Parse `text` fed one character at a time, reading the result after every write
+function parseStreamed(text: string) {
+  const values: Array<{ path: JsonPath; value: unknown }> = []
+  const parser = createTolerantJsonParser({ onValue: (path, value) => values.push({ path, value }) })
+  for (let i = 1; i <= text.length; i++) {
+    parser.write(text.slice(0, i))
+    parser.result()
+  }
+  return { result: parser.result(), values }
+}
+
+describe('tolerant JSON corpus', () => {
+  it('has an expectation for every case', () => {
+    expect(corpus.length).toBeGreaterThan(0)
+    for (const { name, expected } of corpus) {
+      expect(expected, name).toBeDefined()
+    }
+  })
+
+  for (const { name, text, expected } of corpus) {
+    it(`parses ${name}`, () => {
+      const result = parseTolerantJson(text)
+      expect({
+        value: result.value,
+        complete: result.complete,
+        recoveries: result.recoveries.map(recovery => recovery.message),
+      }).toEqual(expected)
+    })
+
+    it(`streams ${name} char by char to the same result`, () => {
+      const values: Array<{ path: JsonPath; value: unknown }> = []
+      const parser = createTolerantJsonParser({ onValue: (path, value) => values.push({ path, value }) })
+      parser.write(text)
+
+      const streamed = parseStreamed(text)
+      expect(streamed.result).toEqual(parser.result())
+      expect(streamed.values).toEqual(values)
+    })
+  }
+})
+
+describe('parseTolerantJson', () => {
+  it('reads prototype property names as plain strings', () => {
+    const { value } = parseTolerantJson('[constructor, toString, __proto__, valueOf, true]')
+    expect(value).toEqual(['constructor', 'toString', '__proto__', 'valueOf', true])
+  })
+
+  it('keeps a number cut off at the end and drops one that cannot be completed', () => {
+    expect(parseTolerantJson('[1, 25').value).toEqual([1, 25])
+    expect(parseTolerantJson('[1, -').value).toEqual([1])
+    expect(parseTolerantJson('[1, 2e').value).toEqual([1])
+  })
+
+  it('leaves the parser state alone when reading a result mid-stream', () => {
+    const parser = createTolerantJsonParser()
+    parser.write('{"a": "b')
+    expect(parser.result().value).toEqual({ a: 'b' })
+    parser.write('{"a": "bc"}')
+    expect(parser.result()).toEqual({ value: { a: 'bc' }, complete: true, recoveries: [] })
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import type { TokenUsage } from '../src/shared/types'
+import { addToTotals, addUsage, estimateCacheSavings, estimateCost, formatCacheStatus, formatUsage } from '../src/shared/utils/usage'
+
+function usage(counts: Partial<TokenUsage>): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, ...counts }
+}
+
+const million = usage({ inputTokens: 1000000 })
+
+describe('estimateCost', () => {
+  it('matches dated model ids by their longest known prefix', () => {
+    expect(estimateCost('gpt-4o', million)).toBe(2.5)
+    expect(estimateCost('gpt-4o-2024-08-06', million)).toBe(2.5)
+    expect(estimateCost('gpt-4o-mini', million)).toBe(0.15)
+    expect(estimateCost('gpt-4o-mini-2024-07-18', million)).toBe(0.15)
+    expect(estimateCost('claude-sonnet-4-20250514', million)).toBe(3)
+  })
+
+  it('is undefined for models without a known price', () => {
+    expect(estimateCost('llama3.1', million)).toBeUndefined()
+    expect(estimateCost('gpt-4ox', million)).toBeUndefined()
+  })
+
+  it('prices output, cache reads and cache writes separately', () => {
+    const cost = estimateCost('claude-sonnet-4', usage({
+      inputTokens: 2000,
+      outputTokens: 1000,
+      cacheReadTokens: 10000,
+      cacheWriteTokens: 4000,
+    }))
+    // 2000 * 3 + 1000 * 15 + 10000 * 0.3 + 4000 * 3.75 per million
+    expect(cost).toBeCloseTo(0.039, 10)
+  })
+})
+
+describe('estimateCacheSavings', () => {
+  it('counts cheaper reads against the write premium', () => {
+    expect(estimateCacheSavings('claude-sonnet-4', usage({ cacheReadTokens: 1000000 }))).toBeCloseTo(2.7, 10)
+    expect(estimateCacheSavings('claude-sonnet-4', usage({ cacheWriteTokens: 1000000 }))).toBeCloseTo(-0.75, 10)
+    expect(estimateCacheSavings('claude-sonnet-4', million)).toBeUndefined()
+    expect(estimateCacheSavings('llama3.1', usage({ cacheReadTokens: 10 }))).toBeUndefined()
+  })
+})
+
+describe('addUsage', () => {
+  it('keeps the cost undefined only when neither side has one', () => {
+    expect(addUsage(usage({ inputTokens: 1 }), usage({ outputTokens: 2 }))).toEqual({
+      ...usage({ inputTokens: 1, outputTokens: 2 }),
+      costUsd: undefined,
+      cacheSavingsUsd: undefined,
+    })
+    expect(addUsage(usage({ costUsd: 0.5 }), usage({})).costUsd).toBe(0.5)
+  })
+})
+
+describe('addToTotals', () => {
+  it('starts totals on the first generation and adds later ones', () => {
+    const first = addToTotals(null, usage({ inputTokens: 100, outputTokens: 50, costUsd: 0.01 }))
+    expect(first).toMatchObject({ inputTokens: 100, outputTokens: 50, generations: 1, costUsd: 0.01, unpricedGenerations: 0 })
+    expect(first.since).toBeGreaterThan(0)
+
+    const second = addToTotals(first, usage({ inputTokens: 10, cacheReadTokens: 400 }))
+    expect(second).toMatchObject({
+      inputTokens: 110,
+      outputTokens: 50,
+      cacheReadTokens: 400,
+      generations: 2,
+      costUsd: 0.01,
+      unpricedGenerations: 1,
+      since: first.since,
+    })
+  })
+})
+
+describe('formatting', () => {
+  it('summarizes a generation in one line', () => {
+    expect(formatUsage(usage({ inputTokens: 2400, outputTokens: 1400, cacheReadTokens: 18000, costUsd: 0.031 })))
+      .toBe('2.4k in · 1.4k out · 18k cache read · ~$0.03')
+    expect(formatCacheStatus(usage({ cacheWriteTokens: 5200 }))).toBe('Prompt cached for follow-ups (5.2k tokens written)')
+    expect(formatCacheStatus(usage({}))).toBe('')
+  })
+})
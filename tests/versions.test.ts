@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { carryVersions, endPreview, isVersioned, listVersions, previewVersion, restoreVersion, saveVersion } from '../src/plugin/versions'
+import type { VersionedNode } from '../src/plugin/versions'
+
+// Just enough of the Figma scene graph for version stacking
+interface FakeNode {
+  id: string
+  type: string
+  name: string
+  x: number
+  y: number
+  width: number
+  height: number
+  visible: boolean
+  removed: boolean
+  parent: FakeParent | null
+  absoluteBoundingBox: { x: number; y: number; width: number; height: number } | null
+  getPluginData: (key: string) => string
+  setPluginData: (key: string, value: string) => void
+  clone: () => FakeNode
+}
+
+interface FakeParent {
+  children: FakeNode[]
+  appendChild: (node: FakeNode) => void
+  insertChild: (index: number, node: FakeNode) => void
+}
+
+let nextId = 1
+
+function createParent<T extends object>(extra: T): FakeParent & T {
+  const parent: FakeParent & T = {
+    ...extra,
+    children: [],
+    appendChild: node => parent.insertChild(parent.children.length, node),
+    insertChild: (index, node) => {
+      if (node.parent) node.parent.children.splice(node.parent.children.indexOf(node), 1)
+      parent.children.splice(index, 0, node)
+      node.parent = parent
+    },
+  }
+  return parent
+}
+
+function createNode(type: string, name: string): FakeNode {
+  const data = new Map<string, string>()
+  const node: FakeNode = {
+    id: `1:${nextId++}`,
+    type,
+    name,
+    x: 0,
+    y: 0,
+    width: 390,
+    height: 844,
+    visible: true,
+    removed: false,
+    parent: null,
+    absoluteBoundingBox: { x: 0, y: 0, width: 390, height: 844 },
+    getPluginData: key => data.get(key) ?? '',
+    setPluginData: (key, value) => void data.set(key, value),
+    clone: () => {
+      const copy = createNode(type, name)
+      data.forEach((value, key) => copy.setPluginData(key, value))
+      node.parent?.appendChild(copy)
+      return copy
+    },
+  }
+  return node
+}
+
+let page: FakeParent
+
+beforeEach(() => {
+  page = createParent({})
+  vi.stubGlobal('figma', {
+    currentPage: page,
+    viewport: { center: { x: 0, y: 0 }, scrollAndZoomIntoView: vi.fn() },
+    createSection: () => {
+      const section = Object.assign(createNode('SECTION', ''), createParent({ resizeWithoutConstraints: vi.fn() }))
+      page.appendChild(section)
+      return section
+    },
+  })
+  endPreview()
+})
+
+function addFrame(type = 'FRAME'): VersionedNode {
+  const frame = createNode(type, 'Login')
+  page.appendChild(frame)
+  return frame as unknown as VersionedNode
+}
+
+function sections(): FakeParent[] {
+  return page.children.filter(node => node.type === 'SECTION') as unknown as FakeParent[]
+}
+
+describe('versions', () => {
+  it('keeps versions of frames and instances, not components', () => {
+    expect(isVersioned({ type: 'FRAME' } as SceneNode)).toBe(true)
+    expect(isVersioned({ type: 'INSTANCE' } as SceneNode)).toBe(true)
+    expect(isVersioned({ type: 'COMPONENT' } as SceneNode)).toBe(false)
+  })
+
+  it('saves hidden snapshots into one section, listed newest first', () => {
+    const frame = addFrame()
+    const now = vi.spyOn(Date, 'now')
+    now.mockReturnValue(1000)
+    saveVersion(frame)
+    now.mockReturnValue(2000)
+    saveVersion(frame)
+    now.mockRestore()
+
+    expect(sections()).toHaveLength(1)
+    const snapshots = sections()[0].children
+    expect(snapshots.map(snapshot => snapshot.visible)).toEqual([false, false])
+    expect(listVersions(frame)).toEqual([
+      { nodeId: snapshots[1].id, name: 'Login', savedAt: 2000 },
+      { nodeId: snapshots[0].id, name: 'Login', savedAt: 1000 },
+    ])
+    expect(listVersions(addFrame())).toEqual([])
+  })
+
+  it('restores a snapshot in the frame\'s place and keeps the frame as a version', () => {
+    const frame = addFrame()
+    frame.x = 120
+    frame.y = 40
+    saveVersion(frame)
+    const [version] = listVersions(frame)
+
+    const restored = restoreVersion(frame, version.nodeId)!
+
+    expect(restored.id).toBe(version.nodeId)
+    expect(page.children[0]).toBe(restored)
+    expect(restored).toMatchObject({ x: 120, y: 40, visible: true })
+    expect(frame.visible).toBe(false)
+    expect(sections()[0].children).toContain(frame)
+    expect(listVersions(restored).map(entry => entry.nodeId)).toEqual([frame.id])
+    expect(restoreVersion(restored, 'gone')).toBeNull()
+  })
+
+  it('hands the versions of a replaced node to its replacement', () => {
+    const instance = addFrame('INSTANCE')
+    saveVersion(instance)
+    const replacement = addFrame()
+
+    carryVersions(instance as SceneNode, replacement as SceneNode)
+
+    expect(listVersions(replacement)).toEqual(listVersions(instance))
+  })
+
+  it('shows one snapshot at a time while previewing', () => {
+    const frame = addFrame()
+    saveVersion(frame)
+    saveVersion(frame)
+    const [first, second] = sections()[0].children
+
+    previewVersion(frame, first.id)
+    previewVersion(frame, second.id)
+    expect([first.visible, second.visible]).toEqual([false, true])
+
+    previewVersion(frame, null)
+    expect(second.visible).toBe(false)
+    expect(figma.viewport.scrollAndZoomIntoView).toHaveBeenLastCalledWith([frame])
+  })
+})